@@ -5,22 +5,84 @@
  * the interaction between all other components like the search bar, map, and results list.
  */
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Business, LatLng, SearchHistoryItem } from './types';
-import { searchLeads, scrapeContacts, geocodeAddresses } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { ApiUsageRecord, BudgetSettings, Business, CacheSettings, ExportSettings, GeocoderId, LatLng, LeadFilters, LeadList, LeadProviderId, LeadScore, MapDisplaySettings, ModelPrice, OutreachTemplate, PipelineStage, PlannedRoute, RouteOptions, RouteStart, SavedSearch, ScoringConfig, ScrapeQueueState, ScrapedData, SearchArea, SearchDiagnostics, SearchDiff, SearchHistoryItem, SearchProgress, SearchResponse } from './types';
+import { searchLeadsToTarget } from './services/leadSearch';
+import { mergeLeadSets } from './services/leadMerge';
+import { createList, deleteList, deleteSavedSearch, deleteSearchSnapshots, getLists, getSavedLeadsByIds, getSavedSearches, getSearchSnapshot, putSavedSearch, putSearchSnapshot, renameList, saveLeadsToList, updateSavedLead, upsertLead } from './services/leadStore';
+import { PipelineChanges, withPipelineData } from './services/pipeline';
+import { GEOCODER_OPTIONS, PROVIDER_OPTIONS, getDnsResolver, getGeocoder, getLeadProvider, loadGeocoderId, loadProviderId, saveGeocoderId, saveProviderId } from './services/providerRegistry';
+import { verifyScrapedEmails } from './services/emailVerifier';
+import { normaliseScrapedPhones } from './services/phoneNumbers';
+import { loadScoringConfig, saveScoringConfig, scoreLead } from './services/leadScoring';
+import { applyLeadFilters, deriveFacets, readFiltersFromParams, writeFiltersToParams } from './services/leadFilters';
+import { createExportFile, downloadBlob, exportFileName, loadExportSettings, saveExportSettings } from './services/leadExport';
+import { ImportOptions } from './services/leadImport';
+import { areaCenter, isOutsideArea, loadSearchArea, saveSearchArea } from './services/searchArea';
+import { findLocationOutliers } from './services/locationChecks';
+import { clusterPoints, loadMapSettings, markerColours, saveMapSettings } from './services/mapClustering';
+import { drawHeatmap } from './services/heatmap';
+import { loadRouteOptions, planRoute, printItinerary, routePath, saveRouteOptions, toGpx, toItineraryHtml, toKml } from './services/routePlanner';
+import { diffSearchResults } from './services/searchDiff';
+import { budgetStatus, clearUsageRecords, getUsageRecords, loadBudgetSettings, loadModelPrices, saveBudgetSettings, saveModelPrices, setUsageSession, subscribeToUsage } from './services/apiUsage';
+import { loadOutreachTemplates, saveOutreachTemplates } from './services/outreach';
+import { forgetCachedScrape, forgetCachedSearch, loadCacheSettings, saveCacheSettings } from './services/responseCache';
+import { auditWebsite } from './services/websiteAudit';
+import { SCRAPE_CONCURRENCY_OPTIONS, ScrapeQueue, createScrapeQueue, loadScrapeConcurrency, saveScrapeConcurrency } from './services/scrapeQueue';
 import { ResultCard } from './components/ResultCard';
+import { SearchDiagnosticsPanel } from './components/SearchDiagnosticsPanel';
+import { SaveToListControl } from './components/SaveToListControl';
+import { SavedLeadsPanel } from './components/SavedLeadsPanel';
+import { PipelineBoard } from './components/PipelineBoard';
+import { ScrapeQueuePanel } from './components/ScrapeQueuePanel';
+import { ScoringSettingsPanel } from './components/ScoringSettingsPanel';
+import { FilterSidebar } from './components/FilterSidebar';
+import { ExportDialog } from './components/ExportDialog';
+import { ImportDialog } from './components/ImportDialog';
+import { AreaDrawMode, SearchAreaToolbar } from './components/SearchAreaToolbar';
+import { MapDisplayControls } from './components/MapDisplayControls';
+import { RoutePlannerPanel } from './components/RoutePlannerPanel';
+import { SavedSearchesPanel } from './components/SavedSearchesPanel';
+import { SearchDiffPanel } from './components/SearchDiffPanel';
+import { SearchHistoryPanel } from './components/SearchHistoryPanel';
+import { UsageDashboard } from './components/UsageDashboard';
+import { CachePanel } from './components/CachePanel';
+import { OutreachComposer } from './components/OutreachComposer';
 import { LogoIcon, ExportIcon, SearchIcon, LoadingSpinner } from './components/icons';
 
 // Constant for pagination: number of results to show per "Load More" click.
 const RESULTS_PER_PAGE = 10;
 // Constant for the search bar's placeholder text.
 const PLACEHOLDER_TEXT = 'Get your next client. By Douglas P';
+// The result counts offered by the search bar's target selector.
+const TARGET_COUNT_OPTIONS = [500, 1000, 2000];
+// Maximum number of addresses sent to the geocoder in a single request.
+const GEOCODE_BATCH_SIZE = 50;
+// How long the results must stay unchanged before the open history entry's snapshot is rewritten.
+const SNAPSHOT_DELAY_MS = 1000;
+// Maximum number of leads the provider writes opening lines for in a single request.
+const OPENING_LINES_BATCH_SIZE = 20;
+// How the search area is drawn on the map.
+const AREA_STYLE = { color: '#4F46E5', weight: 2, fillOpacity: 0.08, interactive: false };
+// Markers within a grid cell this many pixels wide are grouped into one cluster bubble.
+const CLUSTER_CELL_PX = 60;
+// From this zoom level on, markers are never clustered, so businesses at the same spot can still be reached.
+const CLUSTER_MAX_ZOOM = 17;
+// How far each lead's heat spreads on the density heatmap, in pixels.
+const HEAT_RADIUS_PX = 25;
 
 /**
  * The header component for the application.
- * @param {{ onExport: () => void }} props - Props containing the export callback.
+ * @param {{ onImport: () => void, onExport: () => void, providerId: LeadProviderId, onProviderChange: (id: LeadProviderId) => void, geocoderId: GeocoderId, onGeocoderChange: (id: GeocoderId) => void }} props - Props containing the import and export callbacks and the data source and geocoder selectors.
  */
-const Header: React.FC<{ onExport: () => void }> = ({ onExport }) => (
+const Header: React.FC<{
+    onImport: () => void;
+    onExport: () => void;
+    providerId: LeadProviderId;
+    onProviderChange: (id: LeadProviderId) => void;
+    geocoderId: GeocoderId;
+    onGeocoderChange: (id: GeocoderId) => void;
+}> = ({ onImport, onExport, providerId, onProviderChange, geocoderId, onGeocoderChange }) => (
     <header className="bg-white shadow-sm">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
             <div className="flex items-center">
@@ -28,11 +90,32 @@ const Header: React.FC<{ onExport: () => void }> = ({ onExport }) => (
                 <h1 className="text-2xl font-bold text-gray-800 ml-3">Lead Finder Pro</h1>
             </div>
             <div className="flex items-center space-x-6">
+                {/* Selects which backend searches, scrapes and geocodes */}
+                <select
+                    value={providerId}
+                    onChange={(e) => onProviderChange(e.target.value as LeadProviderId)}
+                    aria-label="Data source"
+                    className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm text-gray-700 focus:ring-indigo-500 focus:border-indigo-500">
+                    {PROVIDER_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                </select>
+                {/* Selects what places leads that arrive without coordinates */}
+                <select
+                    value={geocoderId}
+                    onChange={(e) => onGeocoderChange(e.target.value as GeocoderId)}
+                    aria-label="Geocoder"
+                    className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm text-gray-700 focus:ring-indigo-500 focus:border-indigo-500">
+                    {GEOCODER_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                </select>
+                <button
+                    onClick={onImport}
+                    className="flex items-center bg-white border border-gray-300 text-gray-700 font-semibold px-4 py-2 rounded-md hover:bg-gray-50 transition">
+                    Import
+                </button>
                 <button 
                     onClick={onExport}
                     className="flex items-center bg-indigo-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-indigo-700 transition">
                     <ExportIcon className="w-5 h-5 mr-2" />
-                    Export All
+                    Export
                 </button>
             </div>
         </div>
@@ -45,9 +128,15 @@ const Header: React.FC<{ onExport: () => void }> = ({ onExport }) => (
 const SearchBar: React.FC<{ 
     query: string;
     setQuery: (q: string) => void;
+    targetCount: number;
+    setTargetCount: (count: number) => void;
+    appendResults: boolean;
+    setAppendResults: (append: boolean) => void;
     onSubmit: () => void;
+    onStop: () => void;
     isLoading: boolean;
-}> = ({ query, setQuery, onSubmit, isLoading }) => {
+    progress: SearchProgress | null;
+}> = ({ query, setQuery, targetCount, setTargetCount, appendResults, setAppendResults, onSubmit, onStop, isLoading, progress }) => {
     
     // Determine if the placeholder is currently active for styling and logic.
     const isPlaceholderActive = query === PLACEHOLDER_TEXT;
@@ -88,19 +177,189 @@ const SearchBar: React.FC<{
                     // Conditionally apply text color: gray for placeholder, black for user input.
                     className={`flex-grow w-full px-4 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 ${isPlaceholderActive ? 'text-gray-400' : 'text-gray-900'}`}
                 />
-                <select className="px-4 py-2 border border-gray-300 rounded-md bg-white focus:ring-indigo-500 focus:border-indigo-500">
-                    <option>500 results</option>
-                    <option>1000 results</option>
-                    <option>2000 results</option>
+                <select
+                    value={targetCount}
+                    onChange={(e) => setTargetCount(Number(e.target.value))}
+                    disabled={isLoading}
+                    className="px-4 py-2 border border-gray-300 rounded-md bg-white focus:ring-indigo-500 focus:border-indigo-500">
+                    {TARGET_COUNT_OPTIONS.map(count => <option key={count} value={count}>{count} results</option>)}
                 </select>
-                <button type="submit" disabled={isLoading || isPlaceholderActive} className="flex items-center justify-center bg-blue-600 text-white font-semibold px-6 py-2 rounded-md hover:bg-blue-700 transition disabled:bg-blue-300 w-32">
-                    {isLoading ? <LoadingSpinner className="w-5 h-5" /> : <><SearchIcon className="w-5 h-5 mr-2" /> Search</>}
-                </button>
+                {isLoading ? (
+                    <button type="button" onClick={onStop} className="flex items-center justify-center bg-red-500 text-white font-semibold px-6 py-2 rounded-md hover:bg-red-600 transition w-32">
+                        <LoadingSpinner className="w-5 h-5 mr-2" /> Stop
+                    </button>
+                ) : (
+                    <button type="submit" disabled={isPlaceholderActive} className="flex items-center justify-center bg-blue-600 text-white font-semibold px-6 py-2 rounded-md hover:bg-blue-700 transition disabled:bg-blue-300 w-32">
+                        <SearchIcon className="w-5 h-5 mr-2" /> Search
+                    </button>
+                )}
             </form>
+            {/* When checked, new results are merged into the current list instead of replacing it */}
+            <label className="flex items-center mt-3 text-sm text-gray-600">
+                <input
+                    type="checkbox"
+                    checked={appendResults}
+                    onChange={(e) => setAppendResults(e.target.checked)}
+                    disabled={isLoading}
+                    className="mr-2 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Add to current results (duplicates are merged)
+            </label>
+            {/* Progress of a multi-round search towards the selected result count */}
+            {isLoading && progress && (
+                <div className="mt-4">
+                    <div className="flex justify-between text-sm text-gray-600 mb-1">
+                        <span>Found {progress.found} of {progress.target} leads</span>
+                        <span>Request {progress.round}</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div className="bg-blue-600 h-2 rounded-full transition-all" style={{ width: `${Math.min(100, (progress.found / progress.target) * 100)}%` }} />
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
 
+/**
+ * Builds the popup shown when a lead's marker is clicked, with a button that ticks or unticks the lead.
+ */
+const buildPopup = (lead: Business, checked: boolean, onToggleChecked: (id: string) => void): HTMLElement => {
+    // SECURITY FIX: Create popup content programmatically to prevent XSS.
+    // Do not build HTML strings with untrusted data.
+    const popupNode = document.createElement('div');
+    popupNode.style.fontFamily = "'Inter', sans-serif";
+
+    const nameNode = document.createElement('div');
+    nameNode.style.fontWeight = '700';
+    nameNode.style.fontSize = '1.1rem';
+    nameNode.style.marginBottom = '4px';
+    nameNode.textContent = lead.name; // Use textContent to safely render text.
+
+    const addressNode = document.createElement('div');
+    addressNode.style.fontSize = '0.9rem';
+    addressNode.style.color = '#4B5563';
+    addressNode.textContent = lead.address; // Use textContent to safely render text.
+    
+    popupNode.appendChild(nameNode);
+    popupNode.appendChild(addressNode);
+
+    if (lead.website) {
+        const websiteLink = document.createElement('a');
+        websiteLink.href = lead.website;
+        websiteLink.target = '_blank';
+        websiteLink.rel = 'noopener noreferrer'; // Security for target=_blank
+        websiteLink.textContent = 'Website';
+        websiteLink.style.fontSize = '0.9rem';
+        websiteLink.style.color = '#2563EB';
+        websiteLink.style.textDecoration = 'underline';
+        websiteLink.style.marginTop = '4px';
+        websiteLink.style.display = 'block';
+        popupNode.appendChild(websiteLink);
+    }
+
+    const selectButton = document.createElement('button');
+    selectButton.type = 'button';
+    selectButton.textContent = checked ? 'Selected ✓' : 'Select';
+    selectButton.style.fontSize = '0.9rem';
+    selectButton.style.fontWeight = '600';
+    selectButton.style.color = checked ? '#15803D' : '#4F46E5';
+    selectButton.style.marginTop = '6px';
+    selectButton.addEventListener('click', () => onToggleChecked(lead.id));
+    popupNode.appendChild(selectButton);
+    return popupNode;
+};
+
+/**
+ * A numbered badge marking a stop on a planned route, drawn beside the stop's pin.
+ */
+const routeStopIcon = (L: any, label: string) => L.divIcon({
+    className: '',
+    iconSize: [22, 22],
+    iconAnchor: [-2, 44],
+    html: `<div style="width:22px;height:22px;line-height:18px;border-radius:50%;border:2px solid #FFFFFF;background:#111827;color:#FFFFFF;font:700 11px 'Inter',sans-serif;text-align:center">${label}</div>`,
+});
+
+/**
+ * A map pin in the given colour, larger and outlined in black when its lead is selected.
+ */
+const pinIcon = (L: any, colour: string, selected: boolean) => {
+    const [width, height] = selected ? [32, 45] : [24, 34];
+    return L.divIcon({
+        className: '',
+        iconSize: [width, height],
+        iconAnchor: [width / 2, height],
+        popupAnchor: [0, -height + 4],
+        html: `<svg width="${width}" height="${height}" viewBox="0 0 24 34"><path d="M12 1C6 1 1 5.8 1 11.8 1 20 12 33 12 33s11-13 11-21.2C23 5.8 18 1 12 1z" fill="${colour}" stroke="${selected ? '#111827' : '#FFFFFF'}" stroke-width="${selected ? 2.5 : 1.5}"/><circle cx="12" cy="12" r="4" fill="#FFFFFF"/></svg>`,
+    });
+};
+
+/**
+ * A round bubble showing how many leads a cluster holds, sized by the count.
+ */
+const clusterIcon = (L: any, count: number, colour: string) => {
+    const size = count < 10 ? 30 : count < 100 ? 36 : 44;
+    return L.divIcon({
+        className: '',
+        iconSize: [size, size],
+        html: `<div style="width:${size}px;height:${size}px;line-height:${size - 6}px;border-radius:50%;border:3px solid rgba(255,255,255,0.85);box-shadow:0 0 0 2px ${colour}80;background:${colour};color:#FFFFFF;font:700 12px 'Inter',sans-serif;text-align:center">${count}</div>`,
+    });
+};
+
+/**
+ * Creates a Leaflet layer that draws a density heatmap of the points on a canvas. The canvas covers the
+ * visible map, is redrawn whenever the map moves, and is hidden while a zoom animation runs.
+ */
+const createHeatLayer = (L: any, points: any[]) => {
+    const HeatLayer = L.Layer.extend({
+        setPoints(this: any, next: any[]) {
+            points = next;
+            if (this._map) this._redraw();
+            return this;
+        },
+        onAdd(this: any, map: any) {
+            this._canvas = L.DomUtil.create('canvas', 'leaflet-zoom-hide');
+            this._canvas.style.pointerEvents = 'none';
+            map.getPanes().overlayPane.appendChild(this._canvas);
+            map.on('moveend resize', this._redraw, this);
+            this._redraw();
+        },
+        onRemove(this: any, map: any) {
+            map.off('moveend resize', this._redraw, this);
+            L.DomUtil.remove(this._canvas);
+        },
+        _redraw(this: any) {
+            const map = this._map;
+            const size = map.getSize();
+            this._canvas.width = size.x;
+            this._canvas.height = size.y;
+            L.DomUtil.setPosition(this._canvas, map.containerPointToLayerPoint([0, 0]));
+            drawHeatmap(this._canvas, points.map(point => map.latLngToContainerPoint(point)), HEAT_RADIUS_PX);
+        },
+    });
+    return new HeatLayer();
+};
+
+/**
+ * A lead's marker and the values it was last drawn from.
+ */
+interface MarkerEntry {
+    marker: any;
+    lead: Business;
+    colour: string;
+    selected: boolean;
+    checked: boolean;
+}
+
+/**
+ * A cluster bubble and the leads it currently stands for.
+ */
+interface ClusterEntry {
+    marker: any;
+    ids: string[];
+    colour: string;
+}
+
 /**
  * Props for the MapView component.
  */
@@ -110,15 +369,34 @@ interface MapViewProps {
     selectedBusinessId: string | null;
     onMarkerClick: (id: string) => void;
     isLoading: boolean;
+    searchArea: SearchArea | null; // The area searches are limited to, drawn as an overlay.
+    onSearchAreaChange: (area: SearchArea | null) => void; // Called when an area is drawn or cleared.
+    scores: Map<string, LeadScore>; // Every lead's score, for colouring markers by score.
+    checkedLeadIds: Set<string>; // Leads ticked for export or a route.
+    onToggleChecked: (id: string) => void; // Called when a marker popup's "Select" button is clicked.
+    route: PlannedRoute | null; // A planned route, drawn as a numbered line through its stops.
 }
 
 /**
  * Component to display leads on an interactive Leaflet map.
  */
-const MapView: React.FC<MapViewProps> = ({ leads, userLocation, selectedBusinessId, onMarkerClick, isLoading }) => {
+const MapView: React.FC<MapViewProps> = ({ leads, userLocation, selectedBusinessId, onMarkerClick, isLoading, searchArea, onSearchAreaChange, scores, checkedLeadIds, onToggleChecked, route }) => {
     const mapContainerRef = useRef<HTMLDivElement>(null); // Ref to the map container div.
     const mapRef = useRef<any>(null); // Ref to the Leaflet map instance.
-    const markersRef = useRef<Map<string, any>>(new Map()); // Ref to a map of Leaflet marker instances, keyed by business ID.
+    const markersRef = useRef<Map<string, MarkerEntry>>(new Map()); // Ref to the Leaflet marker of every lead on the map, keyed by business ID.
+    const clustersRef = useRef<Map<string, ClusterEntry>>(new Map()); // Ref to the cluster bubbles on the map, keyed by cluster.
+    const markerLayerRef = useRef<any>(null); // Ref to the layer group holding the markers and bubbles on show.
+    const heatLayerRef = useRef<any>(null); // Ref to the density heatmap layer, while it is shown.
+    const routeLayerRef = useRef<any>(null); // Ref to the layer group showing the planned route.
+    const onMarkerClickRef = useRef(onMarkerClick); // The latest click handler, so existing markers needn't be rebound.
+    onMarkerClickRef.current = onMarkerClick;
+    const onToggleCheckedRef = useRef(onToggleChecked); // The latest "Select" handler, for the same reason.
+    onToggleCheckedRef.current = onToggleChecked;
+    const [zoom, setZoom] = useState<number | null>(null); // The map's zoom level, which decides the clusters.
+    const [displaySettings, setDisplaySettings] = useState<MapDisplaySettings>(loadMapSettings); // Marker colours, clustering and heatmap.
+    const areaLayerRef = useRef<any>(null); // Ref to the Leaflet layer showing the search area.
+    const [drawMode, setDrawMode] = useState<AreaDrawMode | null>(null); // The shape being drawn, if any.
+    const [pinRadiusKm, setPinRadiusKm] = useState(2); // Radius used when dropping a pin.
 
     // Effect to initialize the map instance. Runs only once.
     useEffect(() => {
@@ -137,132 +415,307 @@ const MapView: React.FC<MapViewProps> = ({ leads, userLocation, selectedBusiness
             L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
                 attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
             }).addTo(map);
+            markerLayerRef.current = L.layerGroup().addTo(map);
+            map.on('zoomend', () => setZoom(map.getZoom()));
             mapRef.current = map;
+            setZoom(map.getZoom());
         }
     }, [userLocation]);
 
-    // Effect to update map markers whenever the list of leads changes.
+    // The colour of each lead's marker and the legend explaining them.
+    const { colourOf, legend } = useMemo(
+        () => markerColours(leads, displaySettings.colourBy, scores),
+        [leads, displaySettings.colourBy, scores]
+    );
+
+    // Effect to keep the markers in step with the leads. Markers are created, moved, restyled or removed
+    // one by one rather than rebuilt, then grouped into clusters for the current zoom level.
     useEffect(() => {
         const L = (window as any).L;
-        if (!mapRef.current || !L) return;
-
-        // Clear existing markers from the map.
-        markersRef.current.forEach(marker => marker.remove());
-        markersRef.current.clear();
-
+        const map = mapRef.current;
+        if (!map || !L) return;
+        const markers = markersRef.current;
+        const layer = markerLayerRef.current;
+        const hadMarkers = markers.size > 0;
         const validLeads = leads.filter(lead => lead.latitude != null && lead.longitude != null);
+        const validIds = new Set(validLeads.map(lead => lead.id));
+        let added = 0;
 
-        if (validLeads.length > 0) {
-            const markerGroup = L.featureGroup();
-            
-            validLeads.forEach(lead => {
-                // SECURITY FIX: Create popup content programmatically to prevent XSS.
-                // Do not build HTML strings with untrusted data.
-                const popupNode = document.createElement('div');
-                popupNode.style.fontFamily = "'Inter', sans-serif";
-
-                const nameNode = document.createElement('div');
-                nameNode.style.fontWeight = '700';
-                nameNode.style.fontSize = '1.1rem';
-                nameNode.style.marginBottom = '4px';
-                nameNode.textContent = lead.name; // Use textContent to safely render text.
-
-                const addressNode = document.createElement('div');
-                addressNode.style.fontSize = '0.9rem';
-                addressNode.style.color = '#4B5563';
-                addressNode.textContent = lead.address; // Use textContent to safely render text.
-                
-                popupNode.appendChild(nameNode);
-                popupNode.appendChild(addressNode);
-
-                if (lead.website) {
-                    const websiteLink = document.createElement('a');
-                    websiteLink.href = lead.website;
-                    websiteLink.target = '_blank';
-                    websiteLink.rel = 'noopener noreferrer'; // Security for target=_blank
-                    websiteLink.textContent = 'Website';
-                    websiteLink.style.fontSize = '0.9rem';
-                    websiteLink.style.color = '#2563EB';
-                    websiteLink.style.textDecoration = 'underline';
-                    websiteLink.style.marginTop = '4px';
-                    websiteLink.style.display = 'block';
-                    popupNode.appendChild(websiteLink);
-                }
-
-                const marker = L.marker([lead.latitude!, lead.longitude!]).bindPopup(popupNode);
-                
+        markers.forEach((entry, id) => {
+            if (!validIds.has(id)) {
+                layer.removeLayer(entry.marker);
+                markers.delete(id);
+            }
+        });
+        validLeads.forEach(lead => {
+            const colour = colourOf(lead);
+            const selected = lead.id === selectedBusinessId;
+            const checked = checkedLeadIds.has(lead.id);
+            const popup = () => buildPopup(lead, checked, id => onToggleCheckedRef.current(id));
+            const entry = markers.get(lead.id);
+            if (!entry) {
+                const marker = L.marker([lead.latitude!, lead.longitude!], { icon: pinIcon(L, colour, selected), zIndexOffset: selected ? 1000 : 0 })
+                    .bindPopup(popup());
                 // Add click listener to sync with the results list.
-                marker.on('click', () => {
-                    onMarkerClick(lead.id);
-                });
+                marker.on('click', () => onMarkerClickRef.current(lead.id));
+                markers.set(lead.id, { marker, lead, colour, selected, checked });
+                added++;
+                return;
+            }
+            if (entry.lead === lead && entry.colour === colour && entry.selected === selected && entry.checked === checked) return;
+            if (entry.lead.latitude !== lead.latitude || entry.lead.longitude !== lead.longitude) {
+                entry.marker.setLatLng([lead.latitude!, lead.longitude!]);
+            }
+            if (entry.lead !== lead || entry.checked !== checked) entry.marker.setPopupContent(popup());
+            if (entry.colour !== colour || entry.selected !== selected) {
+                entry.marker.setIcon(pinIcon(L, colour, selected));
+                entry.marker.setZIndexOffset(selected ? 1000 : 0);
+            }
+            markers.set(lead.id, { marker: entry.marker, lead, colour, selected, checked });
+        });
 
-                marker.addTo(markerGroup);
-                markersRef.current.set(lead.id, marker); // Store marker instance.
+        // Work out what to show: every marker, or clusters of them. The selected lead is never clustered.
+        const shown = new Set<any>();
+        const clusters = new Map<string, ClusterEntry>();
+        const entries: MarkerEntry[] = Array.from(markers.values());
+        const clustering = displaySettings.cluster && map.getZoom() < CLUSTER_MAX_ZOOM;
+        entries.filter(entry => !clustering || entry.selected).forEach(entry => shown.add(entry.marker));
+        if (clustering) {
+            const projected = entries.filter(entry => !entry.selected).map(entry => {
+                const point = map.project(entry.marker.getLatLng(), map.getZoom());
+                return { id: entry.lead.id, x: point.x, y: point.y };
             });
-            
-            markerGroup.addTo(mapRef.current);
-            // Adjust map view to fit all markers.
-            if (markerGroup.getBounds().isValid()) {
-                mapRef.current.fitBounds(markerGroup.getBounds().pad(0.1));
-            }
-        } else if (userLocation) {
-            // If no leads, center on user's location.
+            clusterPoints(projected, CLUSTER_CELL_PX).forEach(cluster => {
+                if (cluster.ids.length === 1) {
+                    shown.add(markers.get(cluster.ids[0])!.marker);
+                    return;
+                }
+                // A bubble takes the most common colour among its leads.
+                const tally = new Map<string, number>();
+                cluster.ids.forEach(id => tally.set(markers.get(id)!.colour, (tally.get(markers.get(id)!.colour) ?? 0) + 1));
+                const colour = Array.from(tally).sort((a, b) => b[1] - a[1])[0][0];
+                const latLng = map.unproject([cluster.x, cluster.y], map.getZoom());
+                let bubble = clustersRef.current.get(cluster.key);
+                if (!bubble) {
+                    const entry: ClusterEntry = { marker: L.marker(latLng, { icon: clusterIcon(L, cluster.ids.length, colour) }), ids: cluster.ids, colour };
+                    // Clicking a bubble zooms to the leads in it.
+                    entry.marker.on('click', () => map.fitBounds(
+                        L.latLngBounds(entry.ids.map(id => markersRef.current.get(id)!.marker.getLatLng())).pad(0.1)
+                    ));
+                    bubble = entry;
+                } else {
+                    bubble.marker.setLatLng(latLng);
+                    bubble.ids = cluster.ids;
+                    if (bubble.colour !== colour) {
+                        bubble.marker.setIcon(clusterIcon(L, cluster.ids.length, colour));
+                        bubble.colour = colour;
+                    }
+                }
+                clusters.set(cluster.key, bubble);
+                shown.add(bubble.marker);
+            });
+        }
+        clustersRef.current = clusters;
+
+        // Swap only the layers that changed.
+        layer.eachLayer((marker: any) => {
+            if (!shown.has(marker)) layer.removeLayer(marker);
+        });
+        shown.forEach(marker => {
+            if (!layer.hasLayer(marker)) layer.addLayer(marker);
+        });
+
+        // Only new leads move the map; updates to existing ones (scraping, pipeline changes) leave the view alone.
+        if (added > 0) {
+            map.fitBounds(L.latLngBounds(validLeads.map(lead => [lead.latitude!, lead.longitude!])).pad(0.1));
+        } else if (hadMarkers && markers.size === 0 && userLocation) {
+            map.setView([userLocation.latitude, userLocation.longitude], 10);
+        }
+    }, [leads, colourOf, selectedBusinessId, checkedLeadIds, displaySettings.cluster, zoom, userLocation]);
+
+    // Effect to centre the map on the user's location once it is known, unless leads are shown.
+    useEffect(() => {
+        if (mapRef.current && userLocation && markersRef.current.size === 0) {
             mapRef.current.setView([userLocation.latitude, userLocation.longitude], 10);
         }
+    }, [userLocation]);
 
-    }, [leads, userLocation, onMarkerClick]);
+    // Effect to show or hide the density heatmap, keeping it in step with the leads.
+    useEffect(() => {
+        const L = (window as any).L;
+        if (!L || !mapRef.current) return;
+        if (!displaySettings.heatmap) {
+            heatLayerRef.current?.remove();
+            heatLayerRef.current = null;
+            return;
+        }
+        const points = leads
+            .filter(lead => lead.latitude != null && lead.longitude != null)
+            .map(lead => L.latLng(lead.latitude!, lead.longitude!));
+        if (heatLayerRef.current) heatLayerRef.current.setPoints(points);
+        else heatLayerRef.current = createHeatLayer(L, points).addTo(mapRef.current);
+    }, [leads, displaySettings.heatmap]);
 
-    // Effect to handle marker highlighting when a business is selected from the list.
+    // Effect to draw the planned route: a line from the start through each stop, with numbered badges.
+    // The map zooms to a route when it is planned.
     useEffect(() => {
         const L = (window as any).L;
         if (!L || !mapRef.current) return;
-        
-        // Define default and highlighted marker icons.
-        const defaultIcon = new L.Icon.Default();
-        const highlightedIcon = new L.Icon.Default({
-             iconUrl: 'https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-violet.png',
-             shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/0.7.7/images/marker-shadow.png',
-             iconSize: [25, 41],
-             iconAnchor: [12, 41],
-             popupAnchor: [1, -34],
-             shadowSize: [41, 41]
+        routeLayerRef.current?.remove();
+        routeLayerRef.current = null;
+        if (!route) return;
+        const layer = L.layerGroup();
+        const path = routePath(route).map(point => [point.latitude, point.longitude]);
+        L.polyline(path, { color: '#111827', weight: 3, opacity: 0.7, dashArray: '6 6', interactive: false }).addTo(layer);
+        L.circleMarker([route.start.latitude, route.start.longitude], { radius: 7, color: '#FFFFFF', weight: 2, fillColor: '#111827', fillOpacity: 1, interactive: false }).addTo(layer);
+        route.stops.forEach((stop, i) => {
+            L.marker([stop.lead.latitude!, stop.lead.longitude!], { icon: routeStopIcon(L, String(i + 1)), interactive: false, zIndexOffset: 2000 }).addTo(layer);
         });
+        layer.addTo(mapRef.current);
+        routeLayerRef.current = layer;
+        mapRef.current.fitBounds(L.latLngBounds(path).pad(0.1));
+    }, [route]);
+
+    const handleDisplaySettingsChange = (settings: MapDisplaySettings) => {
+        setDisplaySettings(settings);
+        saveMapSettings(settings);
+    };
+
+    // Effect to show the search area, zooming to it when it changes.
+    useEffect(() => {
+        const L = (window as any).L;
+        if (!L || !mapRef.current) return;
+        areaLayerRef.current?.remove();
+        areaLayerRef.current = null;
+        if (!searchArea) return;
+        const layer = searchArea.kind === 'circle'
+            ? L.circle([searchArea.center.latitude, searchArea.center.longitude], { ...AREA_STYLE, radius: searchArea.radiusKm * 1000 })
+            : L.polygon(searchArea.points.map(point => [point.latitude, point.longitude]), AREA_STYLE);
+        layer.addTo(mapRef.current);
+        areaLayerRef.current = layer;
+        mapRef.current.fitBounds(layer.getBounds().pad(0.1));
+    }, [searchArea]);
+
+    // Effect to draw a search area while a drawing mode is active. Map clicks build the shape;
+    // a preview follows the mouse until it is finished, and Escape cancels.
+    useEffect(() => {
+        const L = (window as any).L;
+        const map = mapRef.current;
+        if (!L || !map || !drawMode) return;
 
-        // Reset all markers to default icon, then set the selected one to highlighted.
-        markersRef.current.forEach((marker, id) => {
-            if (id === selectedBusinessId) {
-                marker.setIcon(highlightedIcon);
-                if(marker.setZIndexOffset) marker.setZIndexOffset(1000); // Bring to front
+        const preview = L.layerGroup().addTo(map);
+        const corners: any[] = []; // Polygon corners so far.
+        let center: any = null; // Circle centre, once clicked.
+        const toLatLng = (point: any): LatLng => ({ latitude: point.lat, longitude: point.lng });
+        const finish = (area: SearchArea | null) => {
+            if (area) onSearchAreaChange(area);
+            setDrawMode(null);
+        };
+
+        const handleClick = (e: any) => {
+            if (drawMode === 'pin') {
+                finish({ kind: 'circle', center: toLatLng(e.latlng), radiusKm: pinRadiusKm });
+            } else if (drawMode === 'circle') {
+                if (!center) center = e.latlng;
+                else finish({ kind: 'circle', center: toLatLng(center), radiusKm: Math.max(map.distance(center, e.latlng) / 1000, 0.05) });
             } else {
-                marker.setIcon(defaultIcon);
-                 if(marker.setZIndexOffset) marker.setZIndexOffset(0);
+                corners.push(e.latlng);
             }
-        });
-
-        // If a business is selected, pan the map to it and open its popup.
-        if (selectedBusinessId) {
-            const selectedMarker = markersRef.current.get(selectedBusinessId);
-            if (selectedMarker) {
-                mapRef.current.flyTo(selectedMarker.getLatLng(), 15, { duration: 0.5 });
-                selectedMarker.openPopup();
+        };
+        const handleMouseMove = (e: any) => {
+            preview.clearLayers();
+            if (drawMode === 'circle' && center) {
+                L.circle(center, { ...AREA_STYLE, radius: map.distance(center, e.latlng), dashArray: '4' }).addTo(preview);
+            } else if (drawMode === 'polygon' && corners.length > 0) {
+                L.polygon([...corners, e.latlng], { ...AREA_STYLE, dashArray: '4' }).addTo(preview);
             }
-        }
+        };
+        const handleDoubleClick = () => {
+            if (drawMode !== 'polygon') return;
+            // Both clicks of the double-click added a corner at the same spot; keep one.
+            corners.pop();
+            if (corners.length >= 3) finish({ kind: 'polygon', points: corners.map(toLatLng) });
+        };
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') finish(null);
+        };
+
+        map.getContainer().style.cursor = 'crosshair';
+        map.doubleClickZoom.disable();
+        map.on('click', handleClick);
+        map.on('mousemove', handleMouseMove);
+        map.on('dblclick', handleDoubleClick);
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            map.off('click', handleClick);
+            map.off('mousemove', handleMouseMove);
+            map.off('dblclick', handleDoubleClick);
+            document.removeEventListener('keydown', handleKeyDown);
+            map.doubleClickZoom.enable();
+            map.getContainer().style.cursor = '';
+            preview.remove();
+        };
+    }, [drawMode, pinRadiusKm, onSearchAreaChange]);
 
+    // Changes the pin radius, resizing the current area too if it is a circle.
+    const handleRadiusChange = (radiusKm: number) => {
+        setPinRadiusKm(radiusKm);
+        if (searchArea?.kind === 'circle') onSearchAreaChange({ ...searchArea, radiusKm });
+    };
+
+    // Effect to fly to the business selected in the list and open its popup.
+    // Its marker was highlighted, and taken out of any cluster, by the marker effect above.
+    useEffect(() => {
+        const entry = selectedBusinessId ? markersRef.current.get(selectedBusinessId) : undefined;
+        if (!mapRef.current || !entry) return;
+        mapRef.current.flyTo(entry.marker.getLatLng(), 15, { duration: 0.5 });
+        entry.marker.openPopup();
     }, [selectedBusinessId]);
 
     return (
-        <div className="relative h-96 rounded-md overflow-hidden">
-             <div ref={mapContainerRef} className="bg-gray-200 h-full w-full" />
-             {/* Show a message if there are no results to display on the map */}
-             {!isLoading && leads.length === 0 && (
-                 <div className="absolute inset-0 flex items-center justify-center bg-gray-200 bg-opacity-80">
-                    <p className="text-gray-600 font-semibold text-lg">No results to show on the map</p>
-                </div>
-             )}
-        </div>
+        <>
+            <SearchAreaToolbar
+                area={searchArea}
+                drawMode={drawMode}
+                onDrawModeChange={setDrawMode}
+                radiusKm={pinRadiusKm}
+                onRadiusChange={handleRadiusChange}
+                onClear={() => onSearchAreaChange(null)}
+            />
+            <div className="relative h-96 rounded-md overflow-hidden">
+                 <div ref={mapContainerRef} className="bg-gray-200 h-full w-full" />
+                 {/* Show a message if there are no results to display on the map; it lets clicks through so an area can still be drawn */}
+                 {!isLoading && leads.length === 0 && !drawMode && !searchArea && (
+                     <div className="absolute inset-0 z-[400] pointer-events-none flex items-center justify-center bg-gray-200 bg-opacity-80">
+                        <p className="text-gray-600 font-semibold text-lg">No results to show on the map</p>
+                    </div>
+                 )}
+            </div>
+            <MapDisplayControls settings={displaySettings} onChange={handleDisplaySettingsChange} legend={leads.length > 0 ? legend : []} />
+        </>
     );
 };
 
+/**
+ * What a search is run with, besides the query.
+ */
+interface SearchSettings {
+    area: SearchArea | null; // The map area to limit results to.
+    targetCount: number; // Number of leads to collect.
+    append: boolean; // Add to the current results rather than replacing them.
+    refresh: boolean; // Ask the API again rather than reusing cached results.
+}
+
+/**
+ * The most recent completed search, kept so it can be saved for re-running.
+ */
+interface LastSearch {
+    query: string;
+    area: SearchArea | null;
+    targetCount: number;
+    leadIds: string[]; // The search's own results, without any it was appended to.
+}
+
 /**
  * The main application component.
  */
@@ -271,13 +724,79 @@ const App: React.FC = () => {
     const [leads, setLeads] = useState<Business[]>([]); // Holds the list of business results.
     const [isLoading, setIsLoading] = useState(false); // Tracks loading state for search.
     const [error, setError] = useState<string | null>(null); // Stores any error messages.
-    const [activeTab, setActiveTab] = useState('current'); // Manages which tab is active ('current' or 'history').
+    const [activeTab, setActiveTab] = useState('current'); // Manages which tab is active ('current', 'saved', 'searches', 'pipeline', 'history' or 'usage').
     const [userLocation, setUserLocation] = useState<LatLng | null>(null); // User's geolocation.
     const [searchQuery, setSearchQuery] = useState(PLACEHOLDER_TEXT); // The current value of the search input.
     const [searchHistory, setSearchHistory] = useState<SearchHistoryItem[]>([]); // List of past searches.
-    const [isScrapingAll, setIsScrapingAll] = useState(false); // Tracks loading state for "Scrape All".
     const [visibleLeadsCount, setVisibleLeadsCount] = useState(RESULTS_PER_PAGE); // For "Load More" pagination.
     const [selectedBusinessId, setSelectedBusinessId] = useState<string | null>(null); // ID of the business selected in the list/map.
+    const [targetCount, setTargetCount] = useState(TARGET_COUNT_OPTIONS[0]); // Number of leads a search should collect.
+    const [searchProgress, setSearchProgress] = useState<SearchProgress | null>(null); // Progress of the running search.
+    const [searchDiagnostics, setSearchDiagnostics] = useState<SearchDiagnostics | null>(null); // Parse report for the last search.
+    const [appendResults, setAppendResults] = useState(false); // Whether a search adds to the current results.
+    const searchAbortRef = useRef<AbortController | null>(null); // Lets the user stop a running search early.
+    const [providerId, setProviderId] = useState<LeadProviderId>(loadProviderId); // The selected data backend.
+    const provider = useMemo(() => getLeadProvider(providerId), [providerId]);
+    const [geocoderId, setGeocoderId] = useState<GeocoderId>(loadGeocoderId); // The selected geocoding backend.
+    const geocoder = useMemo(() => getGeocoder(geocoderId, providerId), [geocoderId, providerId]);
+    const [leadLists, setLeadLists] = useState<LeadList[]>([]); // Named lists in the local lead database.
+    const [pipelineVersion, setPipelineVersion] = useState(0); // Bumped when stored leads change, to refresh the pipeline board.
+    const scrapeQueueRef = useRef<ScrapeQueue | null>(null); // The queue behind the current "Scrape All" run.
+    const [scrapeQueueState, setScrapeQueueState] = useState<ScrapeQueueState | null>(null); // Progress of the "Scrape All" run.
+    const [scrapeConcurrency, setScrapeConcurrency] = useState(loadScrapeConcurrency); // How many websites "Scrape All" scrapes at once.
+    const isScrapeQueueActive = scrapeQueueState?.status === 'running' || scrapeQueueState?.status === 'paused';
+    const [scoringConfig, setScoringConfig] = useState<ScoringConfig>(loadScoringConfig); // User-editable lead scoring rules.
+    const [showScoringSettings, setShowScoringSettings] = useState(false); // Whether the scoring editor is open.
+    // Filters and sort order for the current results, initialised from the page URL.
+    const [leadFilters, setLeadFilters] = useState<LeadFilters>(() => readFiltersFromParams(new URLSearchParams(window.location.search)));
+    const [checkedLeadIds, setCheckedLeadIds] = useState<Set<string>>(new Set()); // Results ticked for export or a route.
+    const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings); // Options last used in the export dialog.
+    const [showExportDialog, setShowExportDialog] = useState(false); // Whether the export dialog is open.
+    const [savedLeadsExport, setSavedLeadsExport] = useState<{ leads: Business[]; label: string } | null>(null); // Saved leads being exported instead of the results.
+    const [showImportDialog, setShowImportDialog] = useState(false); // Whether the import dialog is open.
+    const [searchArea, setSearchArea] = useState<SearchArea | null>(loadSearchArea); // Area drawn on the map that searches are limited to.
+    const [showRoutePlanner, setShowRoutePlanner] = useState(false); // Whether the route planner is open below the map.
+    const [routeOptions, setRouteOptions] = useState<RouteOptions>(loadRouteOptions); // Start point and timing for planned routes.
+    const [route, setRoute] = useState<PlannedRoute | null>(null); // The planned field-visit route, drawn on the map.
+    const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]); // Searches kept for re-running, from IndexedDB.
+    const [lastSearch, setLastSearch] = useState<LastSearch | null>(null); // The most recent completed search, which can be saved.
+    const [searchDiff, setSearchDiff] = useState<SearchDiff | null>(null); // What changed since a saved search's previous run.
+    const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null); // The history entry whose results are shown, kept in its snapshot.
+    const [routeError, setRouteError] = useState<string | null>(null); // Why the last route couldn't be planned.
+    const [usageRecords, setUsageRecords] = useState<ApiUsageRecord[]>(getUsageRecords); // Every recorded API call.
+    const [modelPrices, setModelPrices] = useState<ModelPrice[]>(loadModelPrices); // Prices used to estimate API costs.
+    const [budgetSettings, setBudgetSettings] = useState<BudgetSettings>(loadBudgetSettings); // Limits on the estimated API cost.
+    const [outreachTemplates, setOutreachTemplates] = useState<OutreachTemplate[]>(loadOutreachTemplates); // Saved outreach email templates.
+    const [outreachLeads, setOutreachLeads] = useState<Business[] | null>(null); // The leads the outreach composer is open for, if it is.
+    const [cacheSettings, setCacheSettings] = useState<CacheSettings>(loadCacheSettings); // How long cached scrapes and searches are reused.
+
+    // Every lead's score, recomputed when the leads, the rules or the user's location change.
+    const leadScores = useMemo(() => {
+        const scores = new Map<string, LeadScore>();
+        leads.forEach(lead => scores.set(lead.id, scoreLead(lead, scoringConfig, userLocation)));
+        return scores;
+    }, [leads, scoringConfig, userLocation]);
+
+    // Today's and this month's estimated API cost against the budget limits.
+    const budget = useMemo(
+        () => budgetStatus(usageRecords, budgetSettings, modelPrices),
+        [usageRecords, budgetSettings, modelPrices]
+    );
+
+    // Leads whose coordinates look wrong, with the reason, recomputed when the leads or what they're compared with change.
+    const locationWarnings = useMemo(
+        () => findLocationOutliers(leads, { area: searchArea, userLocation }),
+        [leads, searchArea, userLocation]
+    );
+
+    // The results that pass the filters, in display order. Both the list and the map show these.
+    const filteredLeads = useMemo(
+        () => applyLeadFilters(leads, leadFilters, leadScores, userLocation),
+        [leads, leadFilters, leadScores, userLocation]
+    );
+    const leadFacets = useMemo(() => deriveFacets(leads, userLocation), [leads, userLocation]);
+    // The ticked results that are still in the current results.
+    const checkedLeads = useMemo(() => leads.filter(lead => checkedLeadIds.has(lead.id)), [leads, checkedLeadIds]);
 
     // --- EFFECTS ---
     // Effect runs on initial component mount.
@@ -293,6 +812,10 @@ const App: React.FC = () => {
             setSearchHistory([]);
         }
 
+        // Load the saved lead lists and saved searches from IndexedDB.
+        refreshLeadLists();
+        refreshSavedSearches();
+
         // Get user's current geolocation.
         navigator.geolocation.getCurrentPosition(
             (position) => {
@@ -307,136 +830,460 @@ const App: React.FC = () => {
             { timeout: 10000, maximumAge: 0 }
         );
     }, []);
+
+    // Keep the page URL in step with the active filters, so a filtered view can be bookmarked or shared.
+    useEffect(() => {
+        const url = new URL(window.location.href);
+        writeFiltersToParams(leadFilters, url.searchParams);
+        window.history.replaceState(null, '', url);
+    }, [leadFilters]);
+
+    // Keep the usage dashboard and budget in step with API calls as they are made.
+    useEffect(() => subscribeToUsage(setUsageRecords), []);
+
+    // Once a hard budget limit is reached, stop spending: end a running search and pause scraping.
+    useEffect(() => {
+        if (budget.level !== 'hard') return;
+        searchAbortRef.current?.abort();
+        scrapeQueueRef.current?.pause();
+    }, [budget.level]);
+
+    // Keep the open history entry's snapshot in step with the results, e.g. as websites are scraped.
+    useEffect(() => {
+        if (!activeHistoryId) return;
+        const timer = setTimeout(() => {
+            putSearchSnapshot({ id: activeHistoryId, leads, savedAt: Date.now() })
+                .catch(e => console.error("Failed to save the search snapshot to IndexedDB", e));
+        }, SNAPSHOT_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [leads, activeHistoryId]);
     
     // --- HELPER FUNCTIONS ---
-    // Updates search history state and persists it to localStorage.
+    // Updates search history state and persists it to localStorage. Snapshots of entries that were dropped are deleted.
     const updateSearchHistory = (newHistory: SearchHistoryItem[]) => {
+        const kept = new Set(newHistory.map(item => item.id));
+        const dropped = searchHistory.filter(item => item.hasSnapshot && !kept.has(item.id)).map(item => item.id);
         setSearchHistory(newHistory);
         localStorage.setItem('leadFinderHistory', JSON.stringify(newHistory));
+        if (dropped.length > 0) {
+            deleteSearchSnapshots(newHistory.length === 0 ? null : dropped)
+                .catch(e => console.error("Failed to delete search snapshots from IndexedDB", e));
+        }
+        if (activeHistoryId && !kept.has(activeHistoryId)) setActiveHistoryId(null);
+    };
+
+    // Reloads the saved lead lists from IndexedDB.
+    const refreshLeadLists = async () => {
+        try {
+            setLeadLists(await getLists());
+        } catch (e) {
+            console.error("Failed to load saved lead lists from IndexedDB", e);
+        }
+    };
+
+    // Reloads the saved searches from IndexedDB.
+    const refreshSavedSearches = async () => {
+        try {
+            setSavedSearches(await getSavedSearches());
+        } catch (e) {
+            console.error("Failed to load saved searches from IndexedDB", e);
+        }
     };
 
     // --- CORE LOGIC HANDLERS ---
-    // Handles the main search functionality.
-    const handleSearch = useCallback(async (query: string) => {
-        if (!query || query === PLACEHOLDER_TEXT) return;
+    // Geocodes leads that have an address but no coordinates, in batches so large lists stay within one prompt each.
+    // Resolves to every coordinate found, keyed by lead ID.
+    const geocodeMissing = useCallback(async (candidates: Business[]) => {
+        const toGeocode = candidates
+            .filter(lead => lead.address && (lead.latitude == null || lead.longitude == null))
+            .map(lead => ({ id: lead.id, address: lead.address }));
+        const found = new Map<string, LatLng>();
+        for (let i = 0; i < toGeocode.length; i += GEOCODE_BATCH_SIZE) {
+            const coordinatesMap = await geocoder.geocodeAddresses(toGeocode.slice(i, i + GEOCODE_BATCH_SIZE));
+            coordinatesMap.forEach((coords, id) => found.set(id, coords));
+            // Merge coordinates back into the results, keeping any scrapes started meanwhile.
+            setLeads(prevLeads => prevLeads.map(lead => {
+                if (coordinatesMap.has(lead.id)) {
+                    const coords = coordinatesMap.get(lead.id)!;
+                    return { ...lead, latitude: coords.latitude, longitude: coords.longitude };
+                }
+                return lead;
+            }));
+        }
+        return found;
+    }, [geocoder]);
+
+    // Handles the main search functionality. `overrides` replace the search box's settings, e.g. for a saved search.
+    // Resolves to the search's own results, or null if it failed or was stopped early.
+    const handleSearch = useCallback(async (query: string, overrides: Partial<SearchSettings> = {}): Promise<Business[] | null> => {
+        if (!query || query === PLACEHOLDER_TEXT) return null;
+        if (budget.level === 'hard') {
+            setError(budget.message);
+            return null;
+        }
+        // API calls from here on count towards this search, including later scrapes of its results.
+        const startedAt = Date.now();
+        setUsageSession({ id: `${startedAt}`, label: query });
+        const settings: SearchSettings = { area: searchArea, targetCount, append: appendResults, refresh: false, ...overrides };
         setIsLoading(true);
         setError(null);
-        setLeads([]);
+        // Results from earlier searches that the new ones are merged into, if appending.
+        const baseLeads = settings.append ? leads : [];
+        setLeads(baseLeads);
+        setSearchDiagnostics(null);
+        setSearchDiff(null);
+        setLastSearch(null);
+        setActiveHistoryId(null);
         setSelectedBusinessId(null);
         setVisibleLeadsCount(RESULTS_PER_PAGE);
+        setSearchProgress({ found: 0, target: settings.targetCount, round: 0 });
+        const abortController = new AbortController();
+        searchAbortRef.current = abortController;
         try {
-            // Step 1: Get initial search results.
-            const initialResults = await searchLeads(query, userLocation);
-            
-            // Step 2: Identify leads that need geocoding.
-            const toGeocode = initialResults
-                .filter(lead => lead.address && (lead.latitude == null || lead.longitude == null))
-                .map(lead => ({ id: lead.id, address: lead.address }));
-
-            // Step 3: Batch geocode addresses if necessary.
-            if (toGeocode.length > 0) {
-                const coordinatesMap = await geocodeAddresses(toGeocode);
-                // Step 4: Merge coordinates back into the results.
-                const finalResults = initialResults.map(lead => {
-                    if (coordinatesMap.has(lead.id)) {
-                        const coords = coordinatesMap.get(lead.id)!;
-                        return { ...lead, latitude: coords.latitude, longitude: coords.longitude };
-                    }
-                    return lead;
+            if (settings.refresh) await forgetCachedSearch(providerId, query);
+            // Step 1: Keep searching until the target count is reached, showing leads as they arrive.
+            const { leads: initialResults, diagnostics } = await searchLeadsToTarget(provider, query, userLocation, {
+                targetCount: settings.targetCount,
+                signal: abortController.signal,
+                area: settings.area,
+                onProgress: (progress, leadsSoFar) => {
+                    setSearchProgress(progress);
+                    setLeads(mergeLeadSets(baseLeads, leadsSoFar).leads);
+                },
+            });
+            // Businesses that were already in the list count as duplicates of this search.
+            const combined = mergeLeadSets(baseLeads, initialResults);
+            // Businesses already tracked in the pipeline keep their stage, notes and tags.
+            const storedLeads = await getSavedLeadsByIds(combined.leads.map(lead => lead.id))
+                .catch(e => {
+                    console.error("Failed to read saved leads", e);
+                    return new Map<string, Business>();
                 });
-                setLeads(finalResults);
-            } else {
-                setLeads(initialResults);
+            setLeads(combined.leads.map(lead => withPipelineData(lead, storedLeads.get(lead.id))));
+            setSearchDiagnostics({ ...diagnostics, duplicates: diagnostics.duplicates + combined.merged });
+            
+            // Step 2: Geocode leads without coordinates.
+            const geocoded = await geocodeMissing(combined.leads);
+
+            // Step 3: Drop new leads that geocoding placed outside the search area.
+            const baseIds = new Set(baseLeads.map(lead => lead.id));
+            const outsideIds = new Set<string>();
+            if (settings.area) {
+                const area = settings.area;
+                combined.leads
+                    .filter(lead => !baseIds.has(lead.id) && isOutsideArea({ ...lead, ...geocoded.get(lead.id) }, area))
+                    .forEach(lead => outsideIds.add(lead.id));
+                if (outsideIds.size > 0) {
+                    setLeads(prevLeads => prevLeads.filter(lead => !outsideIds.has(lead.id)));
+                    setSearchDiagnostics(prev => prev && { ...prev, outsideArea: prev.outsideArea + outsideIds.size });
+                }
             }
             
-            // Step 5: Update search history.
-            const newHistoryItem: SearchHistoryItem = { id: `${Date.now()}`, query, timestamp: Date.now(), resultCount: initialResults.length };
+            // Step 4: Update search history.
+            // The results shown are kept as the entry's snapshot from now on, including later scrapes.
+            const newHistoryItem: SearchHistoryItem = { id: `${startedAt}`, query, timestamp: Date.now(), resultCount: initialResults.length, hasSnapshot: true };
             const updatedHistory = [newHistoryItem, ...searchHistory.filter(h => h.query !== query)].slice(0, 20);
             updateSearchHistory(updatedHistory);
+            setActiveHistoryId(newHistoryItem.id);
 
+            // A search stopped early found only some of its results, so it can't be saved or compared.
+            if (abortController.signal.aborted) {
+                setLastSearch(null);
+                return null;
+            }
+            const found = combined.leads
+                .filter(lead => !baseIds.has(lead.id) && !outsideIds.has(lead.id))
+                .map(lead => ({ ...withPipelineData(lead, storedLeads.get(lead.id)), ...geocoded.get(lead.id) }));
+            setLastSearch({ query, area: settings.area, targetCount: settings.targetCount, leadIds: found.map(lead => lead.id) });
+            return found;
         } catch (err) {
             setError(err instanceof Error ? err.message : 'An unknown error occurred.');
+            return null;
         } finally {
+            searchAbortRef.current = null;
+            setSearchProgress(null);
             setIsLoading(false);
         }
-    }, [userLocation, searchHistory]);
+    }, [provider, userLocation, searchHistory, activeHistoryId, targetCount, appendResults, leads, geocodeMissing, searchArea, budget, providerId]);
+
+    // Stops a running search; the leads found so far are kept.
+    const handleStopSearch = () => {
+        searchAbortRef.current?.abort();
+    };
 
-    // Handles scraping a single business's website.
-    const handleScrape = useCallback(async (businessId: string, websiteUrl: string) => {
-        // Update UI to show scraping is in progress for this specific card.
+    // Marks a lead as being scraped, clearing any earlier error.
+    const markScraping = useCallback((businessId: string) => {
         setLeads(prevLeads => prevLeads.map(lead =>
             lead.id === businessId ? { ...lead, isScraping: true, scrapeError: undefined } : lead
         ));
+    }, []);
 
+    // Stores a successful scrape on the lead.
+    const applyScrapeResult = useCallback((businessId: string, scrapedData: ScrapedData) => {
+        setLeads(prevLeads => prevLeads.map(lead =>
+            lead.id === businessId ? { ...lead, isScraping: false, scrapedData } : lead
+        ));
+        // If the lead has been saved, keep the stored copy's scrape up to date as well.
+        updateSavedLead(businessId, { scrapedData, scrapeError: undefined })
+            .catch(e => console.error("Failed to update saved lead", e));
+    }, []);
+
+    // Records a failed scrape on the lead.
+    const applyScrapeError = useCallback((businessId: string, err: unknown) => {
+        const errorMessage = err instanceof Error ? err.message : 'Scraping failed.';
+        setLeads(prevLeads => prevLeads.map(lead =>
+            lead.id === businessId ? { ...lead, isScraping: false, scrapeError: errorMessage } : lead
+        ));
+    }, []);
+
+    // Scrapes a lead's website, verifies the emails found and normalises the phone numbers.
+    // `refresh` skips the response cache and scrapes the website again.
+    const scrapeWebsite = useCallback(async (business: Business, refresh = false) => {
+        if (refresh) await forgetCachedScrape(providerId, business.website!);
+        const scrapedData = await provider.scrapeContacts(business.website!);
+        const verified = await verifyScrapedEmails(scrapedData, business.website, getDnsResolver(providerId));
+        return normaliseScrapedPhones(verified, business);
+    }, [provider, providerId]);
+
+    // Handles scraping a single business's website, or refreshing a scrape that came from the cache.
+    const handleScrape = useCallback(async (business: Business, refresh = false) => {
+        if (budget.level === 'hard') {
+            alert(budget.message);
+            return;
+        }
+        markScraping(business.id);
+        try {
+            applyScrapeResult(business.id, await scrapeWebsite(business, refresh));
+        } catch (err) {
+            applyScrapeError(business.id, err);
+        }
+    }, [scrapeWebsite, markScraping, applyScrapeResult, applyScrapeError, budget]);
+
+    // Audits a lead's website for things to pitch. The audit fetches pages through the local proxy, so it costs no API usage.
+    const handleAudit = useCallback(async (business: Business) => {
+        setLeads(prevLeads => prevLeads.map(lead =>
+            lead.id === business.id ? { ...lead, isAuditing: true, auditError: undefined } : lead
+        ));
         try {
-            const scrapedData = await scrapeContacts(websiteUrl);
-            // Update the lead with the successfully scraped data.
+            const audit = await auditWebsite(business.website!);
             setLeads(prevLeads => prevLeads.map(lead =>
-                lead.id === businessId ? { ...lead, isScraping: false, scrapedData } : lead
+                lead.id === business.id ? { ...lead, isAuditing: false, audit } : lead
             ));
+            // If the lead has been saved, keep the stored copy's audit up to date as well.
+            updateSavedLead(business.id, { audit, auditError: undefined })
+                .catch(e => console.error("Failed to update saved lead", e));
         } catch (err) {
-            const errorMessage = err instanceof Error ? err.message : 'Scraping failed.';
-            // Update the lead with an error message if scraping fails.
+            const errorMessage = err instanceof Error ? err.message : 'The audit failed.';
             setLeads(prevLeads => prevLeads.map(lead =>
-                lead.id === businessId ? { ...lead, isScraping: false, scrapeError: errorMessage } : lead
+                lead.id === business.id ? { ...lead, isAuditing: false, auditError: errorMessage } : lead
             ));
         }
     }, []);
     
-    // Handles exporting all current leads to a CSV file.
-    const handleExportAll = useCallback(() => {
+    // Adds imported leads to the results (or replaces them), then geocodes and scrapes them if asked to.
+    const handleImport = async (response: SearchResponse, options: ImportOptions) => {
+        setShowImportDialog(false);
+        setActiveTab('current');
+        setError(null);
+        setUsageSession({ id: `import-${Date.now()}`, label: 'Imported leads' });
+        setSelectedBusinessId(null);
+        setVisibleLeadsCount(RESULTS_PER_PAGE);
+        // Imported rows are deduplicated against each other and, when appending, against the current results.
+        const combined = mergeLeadSets(options.append ? leads : [], response.leads);
+        const storedLeads = await getSavedLeadsByIds(combined.leads.map(lead => lead.id))
+            .catch(e => {
+                console.error("Failed to read saved leads", e);
+                return new Map<string, Business>();
+            });
+        const imported = combined.leads.map(lead => withPipelineData(lead, storedLeads.get(lead.id)));
+        setLeads(imported);
+        setSearchDiagnostics({ ...response.diagnostics, duplicates: combined.merged });
+        setSearchDiff(null);
+        setActiveHistoryId(null);
+        if (!options.append) setLastSearch(null);
+
+        // The leads are imported either way, but scraping and geocoding wait while a hard budget limit applies.
+        if ((options.scrape || options.geocode) && budget.level === 'hard') {
+            alert(budget.message);
+            return;
+        }
+        if (options.scrape) {
+            const pending = imported.filter(lead => lead.website && !lead.scrapedData && !lead.isScraping);
+            if (pending.length > 0) startScrapeQueue(pending);
+        }
+        if (options.geocode) {
+            setIsLoading(true);
+            try {
+                await geocodeMissing(imported);
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Geocoding the imported addresses failed.');
+            } finally {
+                setIsLoading(false);
+            }
+        }
+    };
+
+    // Sets or clears the search area drawn on the map, and remembers it.
+    const handleSearchAreaChange = useCallback((area: SearchArea | null) => {
+        setSearchArea(area);
+        saveSearchArea(area);
+    }, []);
+
+    // Handles the header's "Export" button: opens the export dialog.
+    const handleOpenExport = () => {
         if (leads.length === 0) {
             alert("No leads to export.");
             return;
         }
+        setSavedLeadsExport(null);
+        setShowExportDialog(true);
+    };
 
-        const headers = ["Name", "Address", "Type", "Phone", "Rating", "Reviews", "Website", "Scraped Emails", "Scraped Phones", "Scraped Socials"];
-        
-        // SECURITY FIX: Sanitize data for CSV export to prevent Formula Injection.
-        const escapeCsvCell = (cellData: any) => {
-            let stringData = String(cellData || '');
+    // Handles the "Saved Leads" tab's "Export" button: opens the export dialog for the displayed saved leads.
+    const handleExportSavedLeads = (saved: Business[], label: string) => {
+        setSavedLeadsExport({ leads: saved, label });
+        setShowExportDialog(true);
+    };
 
-            // Sanitize against CSV injection
-            if (['=', '+', '-', '@'].includes(stringData.charAt(0))) {
-                stringData = "'" + stringData;
-            }
+    // Persists changes made in the export dialog.
+    const handleExportSettingsChange = (settings: ExportSettings) => {
+        setExportSettings(settings);
+        saveExportSettings(settings);
+    };
 
-            // Escape quotes and wrap in quotes if it contains a comma.
-            if (stringData.includes(',')) {
-                return `"${stringData.replace(/"/g, '""')}"`;
-            }
-            return stringData;
-        };
+    // Writes the chosen leads in the chosen format and downloads the file.
+    const handleExport = () => {
+        if (savedLeadsExport) {
+            // Saved leads aren't in the results, so they are scored here.
+            const scores = new Map<string, LeadScore>(savedLeadsExport.leads.map(lead => [lead.id, scoreLead(lead, scoringConfig, userLocation)]));
+            downloadBlob(createExportFile(savedLeadsExport.leads, exportSettings, scores), exportFileName(exportSettings));
+            setShowExportDialog(false);
+            return;
+        }
+        const scoped = exportSettings.scope === 'all' ? leads : exportSettings.scope === 'selected' ? checkedLeads : filteredLeads;
+        downloadBlob(createExportFile(scoped, exportSettings, leadScores), exportFileName(exportSettings));
+        setShowExportDialog(false);
+    };
 
-        const csvRows = leads.map(lead => [
-            escapeCsvCell(lead.name), escapeCsvCell(lead.address), escapeCsvCell(lead.type),
-            escapeCsvCell(lead.phone), escapeCsvCell(lead.rating), escapeCsvCell(lead.reviews),
-            escapeCsvCell(lead.website), escapeCsvCell(lead.scrapedData?.emails.join('; ') || ''),
-            escapeCsvCell(lead.scrapedData?.phones.join('; ') || ''), escapeCsvCell(lead.scrapedData?.socials.join('; ') || '')
-        ].join(','));
-        
-        const csvContent = [headers.join(','), ...csvRows].join('\n');
-        const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-        const link = document.createElement("a");
-        const url = URL.createObjectURL(blob);
-        link.href = url;
-        link.setAttribute("download", "leads.csv");
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-    }, [leads]);
+    // Ticks or unticks a result for export or a route.
+    const handleToggleChecked = useCallback((id: string) => {
+        setCheckedLeadIds(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+    }, []);
+
+    // The route start points that can be used: the user's location and the search area only once they exist.
+    const availableRouteStarts = useMemo(() => {
+        const starts: RouteStart[] = ['firstLead'];
+        if (userLocation) starts.push('location');
+        if (searchArea) starts.push('area');
+        return starts;
+    }, [userLocation, searchArea]);
+
+    // Persists changes made in the route planner.
+    const handleRouteOptionsChange = (options: RouteOptions) => {
+        setRouteOptions(options);
+        saveRouteOptions(options);
+    };
+
+    // Plans a route through the ticked leads and draws it on the map.
+    const handlePlanRoute = () => {
+        const origin = routeOptions.start === 'location' && userLocation
+            ? { point: userLocation, label: 'Your location' }
+            : routeOptions.start === 'area' && searchArea
+                ? { point: areaCenter(searchArea), label: 'Centre of the search area' }
+                : null;
+        try {
+            setRoute(planRoute(checkedLeads, routeOptions, origin));
+            setRouteError(null);
+        } catch (err) {
+            setRoute(null);
+            setRouteError(err instanceof Error ? err.message : 'The route could not be planned.');
+        }
+    };
+
+    // Downloads the planned route for a GPS app or Google Earth.
+    const handleExportRoute = (format: 'gpx' | 'kml') => {
+        if (!route) return;
+        const blob = format === 'gpx'
+            ? new Blob([toGpx(route)], { type: 'application/gpx+xml' })
+            : new Blob([toKml(route)], { type: 'application/vnd.google-earth.kml+xml' });
+        downloadBlob(blob, `route-${new Date().toISOString().slice(0, 10)}.${format}`);
+    };
+
+    // Opens the planned route as a printable itinerary.
+    const handlePrintItinerary = () => {
+        if (route && !printItinerary(toItineraryHtml(route, routeOptions))) {
+            alert("Allow pop-ups for this site to print the itinerary.");
+        }
+    };
     
-    // Handles the "Scrape All" button click, iterating through leads.
-    const handleScrapeAll = async () => {
-        setIsScrapingAll(true);
-        for (const lead of leads) {
-            // Only scrape if it has a website and hasn't been scraped yet.
-            if (lead.website && !lead.scrapedData && !lead.scrapeError) {
-                await handleScrape(lead.id, lead.website);
-            }
+    // Starts a scrape queue over the given leads, replacing any earlier run's progress panel.
+    const startScrapeQueue = (pending: Business[]) => {
+        const leadsById = new Map(pending.map(lead => [lead.id, lead]));
+        const jobs = pending.map(lead => ({ leadId: lead.id, websiteUrl: lead.website! }));
+        const queue = createScrapeQueue({
+            scrape: job => scrapeWebsite(leadsById.get(job.leadId)!),
+            concurrency: scrapeConcurrency,
+            onJobStart: job => markScraping(job.leadId),
+            onJobSuccess: (job, data) => applyScrapeResult(job.leadId, data),
+            onJobFailure: (job, err) => applyScrapeError(job.leadId, err),
+            onJobCancelled: job => setLeads(prevLeads => prevLeads.map(lead =>
+                lead.id === job.leadId ? { ...lead, isScraping: false } : lead
+            )),
+            // Ignore progress from a queue that has since been replaced.
+            onUpdate: state => { if (scrapeQueueRef.current === queue) setScrapeQueueState(state); },
+        });
+        scrapeQueueRef.current = queue;
+        queue.enqueue(jobs);
+    };
+
+    // Handles the "Scrape All" button click: queues every unscraped website, including ones that failed before.
+    const handleScrapeAll = () => {
+        const pending = leads.filter(lead => lead.website && !lead.scrapedData && !lead.isScraping);
+        if (pending.length === 0) {
+            alert("Every lead with a website has already been scraped.");
+            return;
+        }
+        if (budget.level === 'hard') {
+            alert(budget.message);
+            return;
+        }
+        startScrapeQueue(pending);
+    };
+
+    // Changes how many websites are scraped at once, including for a run in progress.
+    const handleScrapeConcurrencyChange = (concurrency: number) => {
+        setScrapeConcurrency(concurrency);
+        saveScrapeConcurrency(concurrency);
+        scrapeQueueRef.current?.setConcurrency(concurrency);
+    };
+
+    // Resumes a paused "Scrape All" run, unless a hard budget limit paused it and still applies.
+    const handleResumeScrapeQueue = () => {
+        if (budget.level === 'hard') {
+            alert(budget.message);
+            return;
         }
-        setIsScrapingAll(false);
+        scrapeQueueRef.current?.resume();
+    };
+
+    // Retries the failed websites of a "Scrape All" run, unless a hard budget limit applies.
+    const handleRetryFailedScrapes = () => {
+        if (budget.level === 'hard') {
+            alert(budget.message);
+            return;
+        }
+        scrapeQueueRef.current?.retryFailed();
+    };
+
+    // Hides the progress panel of a finished or cancelled run.
+    const handleDismissScrapeQueue = () => {
+        scrapeQueueRef.current = null;
+        setScrapeQueueState(null);
     };
 
     // Increases the number of visible leads for pagination.
@@ -444,11 +1291,241 @@ const App: React.FC = () => {
         setVisibleLeadsCount(prevCount => prevCount + RESULTS_PER_PAGE);
     };
     
-    // Reruns a search from the history tab.
-    const handleRerunSearch = (query: string) => {
+    // Reruns a search from the history tab, fetching fresh results rather than cached ones.
+    const handleRerunSearch = (item: SearchHistoryItem) => {
         setActiveTab('current');
-        setSearchQuery(query);
-        handleSearch(query);
+        setSearchQuery(item.query);
+        handleSearch(item.query, { refresh: true });
+    };
+
+    // Reopens a history entry's kept results without searching again. Pipeline data is taken from
+    // the local database, since it may have been edited since.
+    const handleOpenHistoryEntry = async (item: SearchHistoryItem) => {
+        const snapshot = await getSearchSnapshot(item.id).catch(e => {
+            console.error("Failed to read the search snapshot from IndexedDB", e);
+            return undefined;
+        });
+        if (!snapshot) {
+            alert("The results of this search are no longer available. Use Rerun to search again.");
+            return;
+        }
+        const storedLeads = await getSavedLeadsByIds(snapshot.leads.map(lead => lead.id))
+            .catch(e => {
+                console.error("Failed to read saved leads", e);
+                return new Map<string, Business>();
+            });
+        handleOpenSavedLeads(snapshot.leads.map(lead => withPipelineData(lead, storedLeads.get(lead.id))));
+        setSearchQuery(item.query);
+        setActiveHistoryId(item.id);
+        setUsageSession({ id: item.id, label: item.query });
+    };
+
+    // Removes one entry from the search history.
+    const handleDeleteHistoryEntry = (item: SearchHistoryItem) => {
+        updateSearchHistory(searchHistory.filter(h => h.id !== item.id));
+    };
+
+    // Saves the last search, with its results as the baseline the next run is compared with.
+    const handleSaveSearch = async () => {
+        if (!lastSearch) return;
+        const name = prompt('Name this saved search', lastSearch.query);
+        if (name === null) return;
+        const ids = new Set(lastSearch.leadIds);
+        const now = Date.now();
+        const search: SavedSearch = {
+            id: `search-${now}`,
+            name: name.trim() || lastSearch.query,
+            query: lastSearch.query,
+            area: lastSearch.area,
+            targetCount: lastSearch.targetCount,
+            createdAt: now,
+            lastRunAt: now,
+            leads: leads.filter(lead => ids.has(lead.id)),
+        };
+        try {
+            await putSavedSearch(search);
+            setLastSearch(null);
+            await refreshSavedSearches();
+        } catch (e) {
+            console.error("Failed to save the search to IndexedDB", e);
+            alert("The search could not be saved.");
+        }
+    };
+
+    // Runs a saved search again with its own query, area and target, shows what changed since its
+    // previous run, and makes the new results the baseline for the next run.
+    const handleRunSavedSearch = async (search: SavedSearch) => {
+        setActiveTab('current');
+        setSearchQuery(search.query);
+        handleSearchAreaChange(search.area);
+        // Cached results would hide what changed, so the API is always asked again.
+        const found = await handleSearch(search.query, { area: search.area, targetCount: search.targetCount, append: false, refresh: true });
+        if (!found) return;
+        const diff = diffSearchResults(search.leads, found);
+        setSearchDiff({ ...diff, searchName: search.name, previousRunAt: search.lastRunAt });
+        // This run is already saved, so it isn't offered for saving again.
+        setLastSearch(null);
+        try {
+            await putSavedSearch({
+                ...search,
+                leads: found,
+                lastRunAt: Date.now(),
+                lastChanges: { added: diff.added.length, removed: diff.removed.length, changed: diff.changed.length },
+            });
+            await refreshSavedSearches();
+        } catch (e) {
+            console.error("Failed to update the saved search in IndexedDB", e);
+        }
+    };
+
+    // Renames a saved search.
+    const handleRenameSavedSearch = async (search: SavedSearch, name: string) => {
+        try {
+            await putSavedSearch({ ...search, name });
+            await refreshSavedSearches();
+        } catch (e) {
+            console.error("Failed to rename the saved search in IndexedDB", e);
+            alert("The saved search could not be renamed.");
+        }
+    };
+
+    // Deletes a saved search.
+    const handleDeleteSavedSearch = async (search: SavedSearch) => {
+        try {
+            await deleteSavedSearch(search.id);
+            await refreshSavedSearches();
+        } catch (e) {
+            console.error("Failed to delete the saved search from IndexedDB", e);
+            alert("The saved search could not be deleted.");
+        }
+    };
+
+    // Applies new filters and starts the list from the top again.
+    const handleFiltersChange = (filters: LeadFilters) => {
+        setLeadFilters(filters);
+        setVisibleLeadsCount(RESULTS_PER_PAGE);
+    };
+
+    // Updates the scoring rules and remembers them.
+    const handleScoringConfigChange = (config: ScoringConfig) => {
+        setScoringConfig(config);
+        saveScoringConfig(config);
+    };
+
+    // Switches the data backend and remembers the choice.
+    const handleProviderChange = (id: LeadProviderId) => {
+        setProviderId(id);
+        saveProviderId(id);
+    };
+
+    // Handles the geocoder selector: switches backend and remembers the choice.
+    const handleGeocoderChange = (id: GeocoderId) => {
+        setGeocoderId(id);
+        saveGeocoderId(id);
+    };
+
+    // Saves the current results into an existing or new list and returns a status message.
+    const handleSaveToList = async (target: { listId: string } | { newListName: string }) => {
+        const list = 'listId' in target
+            ? leadLists.find(l => l.id === target.listId)
+            : await createList(target.newListName);
+        if (!list) throw new Error('That list no longer exists.');
+        const added = await saveLeadsToList(list.id, leads);
+        await refreshLeadLists();
+        setPipelineVersion(v => v + 1);
+        return `Saved to "${list.name}" (${added} new)`;
+    };
+
+    // Updates a lead's pipeline stage, notes or tags, and stores it so the change persists.
+    const handleUpdatePipeline = useCallback(async (lead: Business, changes: PipelineChanges) => {
+        setLeads(prevLeads => prevLeads.map(l => l.id === lead.id ? { ...l, ...changes } : l));
+        try {
+            await upsertLead({ ...lead, ...changes });
+            setPipelineVersion(v => v + 1);
+        } catch (e) {
+            console.error("Failed to store pipeline changes", e);
+        }
+    }, []);
+
+    // Moves a lead to another stage from the pipeline board.
+    const handleMoveLead = (lead: Business, stage: PipelineStage) => {
+        handleUpdatePipeline(lead, { stage });
+    };
+
+    // Opens saved leads in the "Current Results" tab.
+    const handleOpenSavedLeads = (savedLeads: Business[]) => {
+        setLeads(savedLeads);
+        setUsageSession({ id: `saved-${Date.now()}`, label: 'Saved leads' });
+        setSearchDiagnostics(null);
+        setSearchDiff(null);
+        setLastSearch(null);
+        setActiveHistoryId(null);
+        setSelectedBusinessId(null);
+        setVisibleLeadsCount(RESULTS_PER_PAGE);
+        setActiveTab('current');
+    };
+
+    // Renames a saved lead list.
+    const handleRenameList = async (listId: string, name: string) => {
+        try {
+            await renameList(listId, name);
+            await refreshLeadLists();
+        } catch (e) {
+            console.error("Failed to rename the list in IndexedDB", e);
+            alert("The list could not be renamed.");
+        }
+    };
+
+    // Deletes a saved lead list.
+    const handleDeleteList = async (listId: string) => {
+        try {
+            await deleteList(listId);
+            await refreshLeadLists();
+            setPipelineVersion(v => v + 1);
+        } catch (e) {
+            console.error("Failed to delete the list from IndexedDB", e);
+            alert("The list could not be deleted.");
+        }
+    };
+
+    // Changes the prices API costs are estimated with, and remembers them.
+    const handleModelPricesChange = (prices: ModelPrice[]) => {
+        setModelPrices(prices);
+        saveModelPrices(prices);
+    };
+
+    // Changes the budget limits, and remembers them.
+    const handleBudgetSettingsChange = (settings: BudgetSettings) => {
+        setBudgetSettings(settings);
+        saveBudgetSettings(settings);
+    };
+
+    // Opens the outreach composer for the ticked results, or for every result passing the filters if none are ticked.
+    const handleOpenOutreach = () => {
+        setOutreachLeads(checkedLeads.length > 0 ? checkedLeads : filteredLeads);
+    };
+
+    // Changes the outreach templates, and remembers them.
+    const handleOutreachTemplatesChange = (templates: OutreachTemplate[]) => {
+        setOutreachTemplates(templates);
+        saveOutreachTemplates(templates);
+    };
+
+    // Has the provider write an opening line for each lead, a batch at a time.
+    const handleWriteOpenings = async (targets: Business[], brief: string): Promise<Map<string, string>> => {
+        if (budget.level === 'hard') throw new Error(budget.message ?? 'The API budget has been reached.');
+        const lines = new Map<string, string>();
+        for (let i = 0; i < targets.length; i += OPENING_LINES_BATCH_SIZE) {
+            const batch = await provider.writeOpeningLines(targets.slice(i, i + OPENING_LINES_BATCH_SIZE), brief);
+            batch.forEach((line, id) => lines.set(id, line));
+        }
+        return lines;
+    };
+
+    // Changes how long cached responses are reused, and remembers it.
+    const handleCacheSettingsChange = (settings: CacheSettings) => {
+        setCacheSettings(settings);
+        saveCacheSettings(settings);
     };
 
     // Clears the search history.
@@ -462,7 +1539,7 @@ const App: React.FC = () => {
         setSelectedBusinessId(prevId => prevId === id ? null : id);
         
         // Auto-scroll logic: if the selected business is outside the visible area, "load more" until it's visible.
-        const selectedIndex = leads.findIndex(lead => lead.id === id);
+        const selectedIndex = filteredLeads.findIndex(lead => lead.id === id);
         if (selectedIndex >= visibleLeadsCount) {
              setVisibleLeadsCount(selectedIndex + 1);
         }
@@ -471,10 +1548,28 @@ const App: React.FC = () => {
     // --- RENDER ---
     return (
         <div className="min-h-screen bg-gray-100">
-            <Header onExport={handleExportAll} />
+            <Header onImport={() => setShowImportDialog(true)} onExport={handleOpenExport} providerId={providerId} onProviderChange={handleProviderChange} geocoderId={geocoderId} onGeocoderChange={handleGeocoderChange} />
             <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
                 <div className="space-y-8">
-                    <SearchBar query={searchQuery} setQuery={setSearchQuery} onSubmit={() => handleSearch(searchQuery)} isLoading={isLoading} />
+                    <SearchBar
+                        query={searchQuery}
+                        setQuery={setSearchQuery}
+                        targetCount={targetCount}
+                        setTargetCount={setTargetCount}
+                        appendResults={appendResults}
+                        setAppendResults={setAppendResults}
+                        onSubmit={() => handleSearch(searchQuery)}
+                        onStop={handleStopSearch}
+                        isLoading={isLoading}
+                        progress={searchProgress}
+                    />
+
+                    {budget.level !== 'ok' && (
+                        <div className={`p-3 rounded-md border text-sm flex justify-between items-center ${budget.level === 'hard' ? 'bg-red-50 border-red-200 text-red-800' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+                            <p>{budget.message}</p>
+                            <button onClick={() => setActiveTab('usage')} className="ml-4 font-semibold hover:underline whitespace-nowrap">View usage</button>
+                        </div>
+                    )}
                     
                     {/* Tab Navigation */}
                     <div className="border-b border-gray-200">
@@ -482,94 +1577,253 @@ const App: React.FC = () => {
                             <button onClick={() => setActiveTab('current')} className={`${activeTab === 'current' ? 'border-indigo-500 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'} whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}>
                                 Current Results
                             </button>
+                            <button onClick={() => setActiveTab('saved')} className={`${activeTab === 'saved' ? 'border-indigo-500 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'} whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}>
+                                Saved Leads
+                            </button>
+                            <button onClick={() => setActiveTab('searches')} className={`${activeTab === 'searches' ? 'border-indigo-500 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'} whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}>
+                                Saved Searches
+                            </button>
+                            <button onClick={() => setActiveTab('pipeline')} className={`${activeTab === 'pipeline' ? 'border-indigo-500 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'} whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}>
+                                Pipeline
+                            </button>
                             <button onClick={() => setActiveTab('history')} className={`${activeTab === 'history' ? 'border-indigo-500 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'} whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}>
                                 Search History
                             </button>
+                            <button onClick={() => setActiveTab('usage')} className={`${activeTab === 'usage' ? 'border-indigo-500 text-indigo-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'} whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}>
+                                API Usage
+                            </button>
                         </nav>
                     </div>
 
                     {/* Conditional rendering based on active tab */}
                     {activeTab === 'current' && (
-                        <div className="space-y-8">
-                            <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
-                                <h2 className="text-lg font-semibold text-gray-700 mb-4">Map View</h2>
-                                <MapView 
-                                    leads={leads} 
-                                    userLocation={userLocation}
-                                    selectedBusinessId={selectedBusinessId}
-                                    onMarkerClick={handleSelectBusiness}
-                                    isLoading={isLoading}
+                        <div className="grid grid-cols-1 lg:grid-cols-4 gap-8 items-start">
+                            {leads.length > 0 && (
+                                <FilterSidebar
+                                    filters={leadFilters}
+                                    facets={leadFacets}
+                                    onChange={handleFiltersChange}
+                                    shownCount={filteredLeads.length}
+                                    totalCount={leads.length}
+                                    hasLocation={userLocation !== null}
                                 />
-                            </div>
-
-                            <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
-                                <div className="flex justify-between items-center mb-4">
-                                    <h2 className="text-lg font-semibold text-gray-700">{leads.length > 0 ? `${leads.length} results` : 'Search Results'}</h2>
-                                    {leads.length > 0 && 
-                                        <button onClick={handleScrapeAll} disabled={isScrapingAll} className="bg-green-100 text-green-700 font-semibold px-4 py-2 rounded-md hover:bg-green-200 transition disabled:bg-gray-200 disabled:text-gray-500 disabled:cursor-not-allowed flex items-center">
-                                            {isScrapingAll && <LoadingSpinner className="w-4 h-4 mr-2" />}
-                                            {isScrapingAll ? 'Scraping All...' : 'Scrape All Websites'}
-                                        </button>
-                                    }
-                                </div>
-                                {isLoading && <div className="text-center py-10"><LoadingSpinner className="w-8 h-8 mx-auto text-blue-600" /></div>}
-                                {error && <div className="text-center py-10 text-red-500">{error}</div>}
-                                
-                                <div className="space-y-4">
-                                    {!isLoading && leads.length === 0 && !error && <div className="text-center py-10 text-gray-500">Search to see results here.</div>}
-                                    {leads.slice(0, visibleLeadsCount).map(business => (
-                                        <ResultCard 
-                                            key={business.id} 
-                                            business={business} 
-                                            onScrape={handleScrape} 
-                                            isSelected={business.id === selectedBusinessId}
-                                            onSelect={handleSelectBusiness}
+                            )}
+                            <div className={`space-y-8 ${leads.length > 0 ? 'lg:col-span-3' : 'lg:col-span-4'}`}>
+                                <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+                                    <h2 className="text-lg font-semibold text-gray-700 mb-4">Map View</h2>
+                                    <MapView 
+                                        leads={filteredLeads} 
+                                        userLocation={userLocation}
+                                        selectedBusinessId={selectedBusinessId}
+                                        onMarkerClick={handleSelectBusiness}
+                                        isLoading={isLoading}
+                                        searchArea={searchArea}
+                                        onSearchAreaChange={handleSearchAreaChange}
+                                        scores={leadScores}
+                                        checkedLeadIds={checkedLeadIds}
+                                        onToggleChecked={handleToggleChecked}
+                                        route={route}
+                                    />
+                                    {showRoutePlanner && (
+                                        <RoutePlannerPanel
+                                            selectedCount={checkedLeads.length}
+                                            availableStarts={availableRouteStarts}
+                                            options={routeOptions}
+                                            onOptionsChange={handleRouteOptionsChange}
+                                            route={route}
+                                            error={routeError}
+                                            onPlan={handlePlanRoute}
+                                            onExport={handleExportRoute}
+                                            onPrint={handlePrintItinerary}
+                                            onSelectStop={handleSelectBusiness}
+                                            onClear={() => setRoute(null)}
+                                            onClose={() => setShowRoutePlanner(false)}
                                         />
-                                    ))}
+                                    )}
                                 </div>
 
-                                {visibleLeadsCount < leads.length && (
-                                    <div className="text-center mt-8">
-                                        <button onClick={handleLoadMore} className="bg-gray-100 text-gray-700 font-semibold px-6 py-2 rounded-md hover:bg-gray-200 transition">
-                                            Load More
-                                        </button>
+                                <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+                                    <div className="flex justify-between items-center mb-4">
+                                        <h2 className="text-lg font-semibold text-gray-700">{leads.length > 0 ? `${leads.length} results` : 'Search Results'}</h2>
+                                        {leads.length > 0 && 
+                                            <div className="flex items-center space-x-3">
+                                                <SaveToListControl lists={leadLists} leadCount={leads.length} onSave={handleSaveToList} />
+                                                <select
+                                                    value={scrapeConcurrency}
+                                                    onChange={(e) => handleScrapeConcurrencyChange(Number(e.target.value))}
+                                                    aria-label="Websites scraped at once"
+                                                    title="Websites scraped at once"
+                                                    className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:ring-indigo-500 focus:border-indigo-500">
+                                                    {SCRAPE_CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n} at once</option>)}
+                                                </select>
+                                                <button onClick={handleScrapeAll} disabled={isScrapeQueueActive} className="bg-green-100 text-green-700 font-semibold px-4 py-2 rounded-md hover:bg-green-200 transition disabled:bg-gray-200 disabled:text-gray-500 disabled:cursor-not-allowed flex items-center">
+                                                    {isScrapeQueueActive && <LoadingSpinner className="w-4 h-4 mr-2" />}
+                                                    {isScrapeQueueActive ? 'Scraping All...' : 'Scrape All Websites'}
+                                                </button>
+                                            </div>
+                                        }
+                                    </div>
+                                    {leads.length > 0 && (
+                                        <div className="flex items-center space-x-4 mb-4 text-sm">
+                                            <button onClick={() => setShowScoringSettings(prev => !prev)} className="text-indigo-600 hover:underline">
+                                                {showScoringSettings ? 'Hide scoring rules' : 'Adjust scoring rules'}
+                                            </button>
+                                            <button onClick={() => setCheckedLeadIds(new Set(filteredLeads.map(lead => lead.id)))} className="text-indigo-600 hover:underline">
+                                                Select all {filteredLeads.length}
+                                            </button>
+                                            {checkedLeads.length > 0 && (
+                                                <button onClick={() => setCheckedLeadIds(new Set())} className="text-gray-500 hover:underline">
+                                                    Clear selection ({checkedLeads.length})
+                                                </button>
+                                            )}
+                                            <button onClick={() => setShowRoutePlanner(prev => !prev)} className="text-indigo-600 hover:underline">
+                                                {showRoutePlanner ? 'Hide route planner' : 'Plan a route'}
+                                            </button>
+                                            {filteredLeads.length > 0 && (
+                                                <button onClick={handleOpenOutreach} className="text-indigo-600 hover:underline" title="Write outreach emails to the selected results, or to all shown if none are selected">
+                                                    Write emails{checkedLeads.length > 0 ? ` (${checkedLeads.length})` : ''}
+                                                </button>
+                                            )}
+                                            {lastSearch && !isLoading && (
+                                                <button onClick={handleSaveSearch} className="text-indigo-600 hover:underline" title="Keep this search to run it again later and see what changed">
+                                                    Save this search
+                                                </button>
+                                            )}
+                                        </div>
+                                    )}
+                                    {showScoringSettings && <ScoringSettingsPanel config={scoringConfig} onChange={handleScoringConfigChange} hasLocation={userLocation !== null} />}
+                                    {isLoading && <div className="text-center py-10"><LoadingSpinner className="w-8 h-8 mx-auto text-blue-600" /></div>}
+                                    {error && <div className="text-center py-10 text-red-500">{error}</div>}
+                                    {searchDiagnostics && (
+                                        <SearchDiagnosticsPanel
+                                            diagnostics={searchDiagnostics}
+                                            onRefresh={lastSearch && !isLoading ? () => handleSearch(lastSearch.query, { area: lastSearch.area, targetCount: lastSearch.targetCount, refresh: true }) : undefined}
+                                        />
+                                    )}
+                                    {searchDiff && <SearchDiffPanel diff={searchDiff} onSelectLead={handleSelectBusiness} onDismiss={() => setSearchDiff(null)} />}
+                                    {scrapeQueueState && (
+                                        <ScrapeQueuePanel
+                                            state={scrapeQueueState}
+                                            onPause={() => scrapeQueueRef.current?.pause()}
+                                            onResume={handleResumeScrapeQueue}
+                                            onCancel={() => scrapeQueueRef.current?.cancel()}
+                                            onRetryFailed={handleRetryFailedScrapes}
+                                            onDismiss={handleDismissScrapeQueue}
+                                        />
+                                    )}
+                                    
+                                    <div className="space-y-4">
+                                        {!isLoading && leads.length === 0 && !error && <div className="text-center py-10 text-gray-500">Search to see results here.</div>}
+                                        {leads.length > 0 && filteredLeads.length === 0 && <div className="text-center py-10 text-gray-500">No results match the filters.</div>}
+                                        {filteredLeads.slice(0, visibleLeadsCount).map(business => (
+                                            <ResultCard 
+                                                key={business.id} 
+                                                business={business} 
+                                                onScrape={handleScrape} 
+                                                onAudit={handleAudit}
+                                                isSelected={business.id === selectedBusinessId}
+                                                onSelect={handleSelectBusiness}
+                                                onUpdatePipeline={handleUpdatePipeline}
+                                                score={leadScores.get(business.id)}
+                                                locationWarning={locationWarnings.get(business.id)}
+                                                isChecked={checkedLeadIds.has(business.id)}
+                                                onToggleChecked={handleToggleChecked}
+                                            />
+                                        ))}
                                     </div>
-                                )}
+
+                                    {visibleLeadsCount < filteredLeads.length && (
+                                        <div className="text-center mt-8">
+                                            <button onClick={handleLoadMore} className="bg-gray-100 text-gray-700 font-semibold px-6 py-2 rounded-md hover:bg-gray-200 transition">
+                                                Load More
+                                            </button>
+                                        </div>
+                                    )}
+                                </div>
                             </div>
                         </div>
                     )}
                     
+                    {activeTab === 'saved' && (
+                        <SavedLeadsPanel
+                            lists={leadLists}
+                            onOpenLeads={handleOpenSavedLeads}
+                            onExportLeads={handleExportSavedLeads}
+                            onRenameList={handleRenameList}
+                            onDeleteList={handleDeleteList}
+                            onListsChanged={refreshLeadLists}
+                        />
+                    )}
+
+                    {activeTab === 'searches' && (
+                        <SavedSearchesPanel
+                            searches={savedSearches}
+                            isSearching={isLoading}
+                            onRun={handleRunSavedSearch}
+                            onOpenLeads={handleOpenSavedLeads}
+                            onRename={handleRenameSavedSearch}
+                            onDelete={handleDeleteSavedSearch}
+                        />
+                    )}
+
+                    {activeTab === 'pipeline' && (
+                        <PipelineBoard refreshKey={pipelineVersion} onMoveLead={handleMoveLead} onOpenLeads={handleOpenSavedLeads} />
+                    )}
+
                     {activeTab === 'history' && (
-                         <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
-                             <div className="flex justify-between items-center mb-4">
-                                <h2 className="text-lg font-semibold text-gray-700">Search History</h2>
-                                {searchHistory.length > 0 && 
-                                    <button onClick={handleClearHistory} className="text-sm text-red-500 hover:underline">Clear History</button>}
-                             </div>
-                             {searchHistory.length === 0 ? (
-                                <p className="text-gray-500 text-center py-8">No search history yet.</p>
-                             ) : (
-                                 <ul className="divide-y divide-gray-200">
-                                     {searchHistory.map(item => (
-                                         <li key={item.id} className="py-3 flex justify-between items-center">
-                                             <div>
-                                                 <p className="font-medium text-gray-800">{item.query}</p>
-
-                                                 <p className="text-sm text-gray-500">
-                                                     {new Date(item.timestamp).toLocaleString()} - {item.resultCount} results
-                                                 </p>
-                                             </div>
-                                             <button onClick={() => handleRerunSearch(item.query)} className="bg-gray-100 text-gray-700 font-semibold px-4 py-1.5 rounded-md text-sm hover:bg-gray-200 transition">
-                                                Rerun
-                                            </button>
-                                         </li>
-                                     ))}
-                                 </ul>
-                             )}
-                         </div>
+                        <SearchHistoryPanel
+                            history={searchHistory}
+                            activeId={activeHistoryId}
+                            onOpen={handleOpenHistoryEntry}
+                            onRerun={handleRerunSearch}
+                            onDelete={handleDeleteHistoryEntry}
+                            onClear={handleClearHistory}
+                        />
+                    )}
+
+                    {activeTab === 'usage' && (
+                        <div className="space-y-8">
+                            <UsageDashboard
+                                records={usageRecords}
+                                prices={modelPrices}
+                                onPricesChange={handleModelPricesChange}
+                                budget={budgetSettings}
+                                onBudgetChange={handleBudgetSettingsChange}
+                                status={budget}
+                                onClear={clearUsageRecords}
+                            />
+                            <CachePanel settings={cacheSettings} onSettingsChange={handleCacheSettingsChange} />
+                        </div>
                     )}
                 </div>
             </main>
+            {showImportDialog && (
+                <ImportDialog
+                    hasCurrentResults={leads.length > 0}
+                    canScrape={!isScrapeQueueActive}
+                    onImport={handleImport}
+                    onClose={() => setShowImportDialog(false)}
+                />
+            )}
+            {outreachLeads && (
+                <OutreachComposer
+                    leads={outreachLeads}
+                    templates={outreachTemplates}
+                    onTemplatesChange={handleOutreachTemplatesChange}
+                    onWriteOpenings={handleWriteOpenings}
+                    onClose={() => setOutreachLeads(null)}
+                />
+            )}
+            {showExportDialog && (
+                <ExportDialog
+                    settings={exportSettings}
+                    onChange={handleExportSettingsChange}
+                    scopeCounts={{ all: leads.length, filtered: filteredLeads.length, selected: checkedLeads.length }}
+                    fixedSource={savedLeadsExport ? { label: savedLeadsExport.label, count: savedLeadsExport.leads.length } : undefined}
+                    onExport={handleExport}
+                    onClose={() => setShowExportDialog(false)}
+                />
+            )}
         </div>
     );
 };
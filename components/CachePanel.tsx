@@ -0,0 +1,163 @@
+/**
+ * @file CachePanel.tsx
+ * This file contains the CachePanel component, shown in the "API Usage" tab. It sets how long
+ * scrapes and searches are reused for, lists the cached responses with their age and how often they
+ * were reused, and deletes single entries, expired entries or the whole cache, including the
+ * geocoding cache.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { CacheKind, CachedResponse, CacheSettings } from '../types';
+import { deleteCachedResponses, getCachedResponses } from '../services/leadStore';
+import { deleteExpiredResponses, isExpired } from '../services/responseCache';
+import { clearGeocodeCache, geocodeCacheSize } from '../services/geocodeCache';
+
+/**
+ * Props for the CachePanel component.
+ */
+interface CachePanelProps {
+    settings: CacheSettings; // How long responses are reused for.
+    onSettingsChange: (settings: CacheSettings) => void; // Called with the updated settings on every edit.
+}
+
+// Classes shared by the small number inputs.
+const NUMBER_INPUT_CLASS = 'w-20 px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500';
+
+// The entry filters, in display order.
+const KIND_FILTERS: { id: CacheKind | 'all'; label: string }[] = [
+    { id: 'all', label: 'All' },
+    { id: 'scrape', label: 'Scrapes' },
+    { id: 'search', label: 'Searches' },
+];
+
+/**
+ * The response cache's settings and contents.
+ */
+export const CachePanel: React.FC<CachePanelProps> = ({ settings, onSettingsChange }) => {
+    const [responses, setResponses] = useState<CachedResponse[]>([]); // Every cached response, newest first.
+    const [kindFilter, setKindFilter] = useState<CacheKind | 'all'>('all'); // Which kind of entry is listed.
+    const [filterText, setFilterText] = useState(''); // Search text for the entries.
+    const [geocodedCount, setGeocodedCount] = useState(geocodeCacheSize); // Addresses in the geocoding cache.
+
+    const refresh = () => {
+        getCachedResponses()
+            .then(setResponses)
+            .catch(err => console.error("Failed to load the response cache", err));
+    };
+
+    useEffect(refresh, []);
+
+    const needle = filterText.trim().toLowerCase();
+    const shown = responses.filter(response =>
+        (kindFilter === 'all' || response.kind === kindFilter)
+        && (!needle || response.label.toLowerCase().includes(needle))
+    );
+    const now = Date.now();
+    const expiredCount = responses.filter(response => isExpired(response, settings, now)).length;
+    const hits = responses.reduce((sum, response) => sum + response.hits, 0);
+
+    const handleDelete = async (keys: string[]) => {
+        await deleteCachedResponses(keys);
+        refresh();
+    };
+
+    const handleDeleteExpired = async () => {
+        await deleteExpiredResponses(settings);
+        refresh();
+    };
+
+    const handleClearAll = async () => {
+        if (!confirm('Delete every cached scrape and search? They will be fetched from the API again when next needed.')) return;
+        await deleteCachedResponses(null);
+        refresh();
+    };
+
+    const handleClearGeocodes = () => {
+        clearGeocodeCache();
+        setGeocodedCount(geocodeCacheSize());
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm space-y-6">
+            <div className="flex justify-between items-center">
+                <h2 className="text-lg font-semibold text-gray-700">Response Cache</h2>
+                <div className="flex items-center space-x-4 text-sm">
+                    {expiredCount > 0 && <button onClick={handleDeleteExpired} className="text-indigo-600 hover:underline">Delete {expiredCount} expired</button>}
+                    {responses.length > 0 && <button onClick={handleClearAll} className="text-red-500 hover:underline">Clear all</button>}
+                </div>
+            </div>
+
+            <div className="flex flex-wrap gap-6 text-sm text-gray-700">
+                <label className="flex items-center space-x-2">
+                    <span>Reuse scraped contacts for</span>
+                    <input type="number" min={0} value={settings.scrapeTtlDays} onChange={(e) => onSettingsChange({ ...settings, scrapeTtlDays: Math.max(0, Number(e.target.value)) })} className={NUMBER_INPUT_CLASS} />
+                    <span>days</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                    <span>Reuse search results for</span>
+                    <input type="number" min={0} value={settings.searchTtlDays} onChange={(e) => onSettingsChange({ ...settings, searchTtlDays: Math.max(0, Number(e.target.value)) })} className={NUMBER_INPUT_CLASS} />
+                    <span>days</span>
+                </label>
+            </div>
+            <p className="text-xs text-gray-500 -mt-4">
+                0 turns the cache off. Use "Refresh" on a result card or above the results to ask the API again. Rerunning a search from the history or a saved search always asks the API.
+            </p>
+
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+                <span>{responses.length} cached responses, reused {hits} times</span>
+                <span>
+                    {geocodedCount} geocoded addresses
+                    {geocodedCount > 0 && <button onClick={handleClearGeocodes} className="ml-2 text-red-500 hover:underline">Clear</button>}
+                </span>
+            </div>
+
+            <div>
+                <div className="flex flex-wrap items-center gap-4 mb-2">
+                    <div className="flex space-x-1 text-sm">
+                        {KIND_FILTERS.map(filter => (
+                            <button
+                                key={filter.id}
+                                onClick={() => setKindFilter(filter.id)}
+                                className={`px-3 py-1 rounded-md ${kindFilter === filter.id ? 'bg-indigo-100 text-indigo-700 font-semibold' : 'text-gray-600 hover:bg-gray-100'}`}>
+                                {filter.label}
+                            </button>
+                        ))}
+                    </div>
+                    <input
+                        type="text"
+                        value={filterText}
+                        onChange={(e) => setFilterText(e.target.value)}
+                        placeholder="Search domains and queries…"
+                        className="flex-1 min-w-[12rem] px-3 py-1 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                </div>
+                {shown.length === 0 ? (
+                    <p className="text-gray-500 text-center py-8">{responses.length === 0 ? 'Nothing cached yet.' : 'No cached responses match.'}</p>
+                ) : (
+                    <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+                        {shown.map(response => (
+                            <li key={response.key} className="py-2 flex justify-between items-center text-sm">
+                                <div className="min-w-0">
+                                    <p className="text-gray-800 truncate">
+                                        <span className="text-xs font-medium text-gray-600 bg-gray-100 rounded px-1.5 py-0.5 mr-2">{response.kind === 'scrape' ? 'Scrape' : 'Search'}</span>
+                                        {response.label}
+                                        {isExpired(response, settings, now) && <span className="ml-2 text-xs text-amber-600">expired</span>}
+                                    </p>
+                                    <p className="text-xs text-gray-500 truncate">
+                                        {response.provider} · {new Date(response.cachedAt).toLocaleString()} · reused {response.hits} times
+                                        {response.search && ` · ${response.search.leads.length} leads`}
+                                        {response.scrape && ` · ${response.scrape.emails.length} emails, ${response.scrape.phones.length} phones`}
+                                        {response.detail && ` · ${response.detail}`}
+                                    </p>
+                                </div>
+                                <button onClick={() => handleDelete([response.key])} aria-label={`Delete the cached ${response.kind} for ${response.label}`} className="ml-4 text-gray-400 hover:text-red-500 text-xl leading-none px-1">
+                                    &times;
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+        </div>
+    );
+};
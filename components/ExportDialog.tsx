@@ -0,0 +1,190 @@
+/**
+ * @file ExportDialog.tsx
+ * This file contains the ExportDialog component, where the user picks the export format, which
+ * leads to export (unless they were chosen elsewhere, e.g. saved leads), and which columns to include in what order, optionally starting from a CRM template.
+ */
+
+import React from 'react';
+import { ExportField, ExportSettings } from '../types';
+import { EXPORT_COLUMNS, EXPORT_FORMATS, EXPORT_PRESETS, presetFields } from '../services/leadExport';
+
+/**
+ * Props for the ExportDialog component.
+ */
+interface ExportDialogProps {
+    settings: ExportSettings; // The current export settings.
+    onChange: (settings: ExportSettings) => void; // Called with the updated settings on every change.
+    scopeCounts: Record<ExportSettings['scope'], number>; // How many leads each scope would export.
+    fixedSource?: { label: string; count: number }; // Leads chosen outside the dialog, exported instead of a scope.
+    onExport: () => void; // Called when the "Export" button is clicked.
+    onClose: () => void; // Called when the dialog is dismissed.
+}
+
+// Classes for the labels above each section.
+const LABEL_CLASS = 'block text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2';
+
+const SCOPE_LABELS: Record<ExportSettings['scope'], string> = {
+    all: 'All results',
+    filtered: 'Results matching the filters',
+    selected: 'Selected results',
+};
+
+/**
+ * Modal dialog for configuring and starting an export.
+ */
+export const ExportDialog: React.FC<ExportDialogProps> = ({ settings, onChange, scopeCounts, fixedSource, onExport, onClose }) => {
+    const update = (changes: Partial<ExportSettings>) => onChange({ ...settings, ...changes });
+    const format = EXPORT_FORMATS.find(f => f.id === settings.format);
+    const isTabular = !format?.note;
+    const enabledCount = settings.fields.filter(field => field.enabled).length;
+
+    const updateField = (index: number, changes: Partial<ExportField>) => {
+        update({ fields: settings.fields.map((field, i) => (i === index ? { ...field, ...changes } : field)) });
+    };
+
+    const moveField = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= settings.fields.length) return;
+        const fields = [...settings.fields];
+        [fields[index], fields[target]] = [fields[target], fields[index]];
+        update({ fields });
+    };
+
+    const handlePresetChange = (preset: ExportSettings['preset']) => {
+        // CRMs expect one email per contact, so templates use the best email in joined mode.
+        update({ preset, fields: presetFields(preset), emailMode: 'joined' });
+    };
+
+    const leadCount = fixedSource ? fixedSource.count : scopeCounts[settings.scope];
+    const canExport = leadCount > 0 && (!isTabular || enabledCount > 0);
+
+    return (
+        <div className="fixed inset-0 z-[2000] bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="export-dialog-title"
+                onClick={(e) => e.stopPropagation()}
+                className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col text-sm">
+                <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200">
+                    <h2 id="export-dialog-title" className="text-lg font-semibold text-gray-800">Export leads</h2>
+                    <button onClick={onClose} aria-label="Close" className="text-gray-400 hover:text-gray-600 text-2xl leading-none">&times;</button>
+                </div>
+
+                <div className="px-6 py-4 space-y-5 overflow-y-auto">
+                    <div>
+                        <span className={LABEL_CLASS}>Format</span>
+                        <div className="flex rounded-md border border-gray-300 overflow-hidden" role="group" aria-label="Format">
+                            {EXPORT_FORMATS.map(option => (
+                                <button
+                                    key={option.id}
+                                    onClick={() => update({ format: option.id })}
+                                    className={`flex-1 px-3 py-1.5 ${settings.format === option.id ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}>
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div>
+                        <span className={LABEL_CLASS}>Leads</span>
+                        {fixedSource ? (
+                            <p className="text-gray-700">{fixedSource.label} ({fixedSource.count})</p>
+                        ) : (
+                            <div className="space-y-1">
+                                {(Object.keys(SCOPE_LABELS) as ExportSettings['scope'][]).map(scope => (
+                                    <label key={scope} className={`flex items-center ${scopeCounts[scope] === 0 ? 'text-gray-400' : 'text-gray-700'}`}>
+                                        <input
+                                            type="radio"
+                                            name="export-scope"
+                                            checked={settings.scope === scope}
+                                            onChange={() => update({ scope })}
+                                            className="mr-2 text-indigo-600 focus:ring-indigo-500"
+                                        />
+                                        {SCOPE_LABELS[scope]} ({scopeCounts[scope]})
+                                    </label>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    {isTabular ? (
+                        <>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                    <label className={LABEL_CLASS} htmlFor="export-preset">Template</label>
+                                    <select
+                                        id="export-preset"
+                                        value={settings.preset}
+                                        onChange={(e) => handlePresetChange(e.target.value as ExportSettings['preset'])}
+                                        className="w-full px-2 py-1.5 border border-gray-300 rounded-md bg-white focus:ring-indigo-500 focus:border-indigo-500">
+                                        <option value="custom">Custom columns</option>
+                                        {EXPORT_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+                                    </select>
+                                    <p className="mt-1 text-gray-500">{EXPORT_PRESETS.find(p => p.id === settings.preset)?.description ?? 'Choose and order the columns below.'}</p>
+                                </div>
+                                <div>
+                                    <span className={LABEL_CLASS}>Emails</span>
+                                    <label className="flex items-center text-gray-700">
+                                        <input type="radio" name="export-email-mode" checked={settings.emailMode === 'joined'} onChange={() => update({ emailMode: 'joined' })} className="mr-2 text-indigo-600 focus:ring-indigo-500" />
+                                        All emails in one cell
+                                    </label>
+                                    <label className="flex items-center text-gray-700">
+                                        <input type="radio" name="export-email-mode" checked={settings.emailMode === 'perEmail'} onChange={() => update({ emailMode: 'perEmail' })} className="mr-2 text-indigo-600 focus:ring-indigo-500" />
+                                        One row per email
+                                    </label>
+                                </div>
+                            </div>
+
+                            <div>
+                                <div className="flex justify-between items-center mb-2">
+                                    <span className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Columns ({enabledCount})</span>
+                                    <button onClick={() => handlePresetChange(settings.preset)} className="text-indigo-600 hover:underline">Reset columns</button>
+                                </div>
+                                <ul className="border border-gray-200 rounded-md divide-y divide-gray-100">
+                                    {settings.fields.map((field, index) => {
+                                        const label = EXPORT_COLUMNS.find(c => c.id === field.column)?.label;
+                                        return (
+                                            <li key={`${field.column}-${index}`} className={`flex items-center px-3 py-1.5 space-x-2 ${field.enabled ? '' : 'bg-gray-50'}`}>
+                                                <input
+                                                    type="checkbox"
+                                                    checked={field.enabled}
+                                                    onChange={(e) => updateField(index, { enabled: e.target.checked })}
+                                                    aria-label={`Include ${field.header}`}
+                                                    className="rounded text-indigo-600 focus:ring-indigo-500"
+                                                />
+                                                <input
+                                                    type="text"
+                                                    value={field.header}
+                                                    onChange={(e) => updateField(index, { header: e.target.value })}
+                                                    aria-label={`Heading for ${label}`}
+                                                    disabled={!field.enabled}
+                                                    className="flex-grow px-2 py-1 border border-gray-200 rounded-md focus:ring-indigo-500 focus:border-indigo-500 disabled:text-gray-400 disabled:bg-transparent"
+                                                />
+                                                {label !== field.header && <span className="text-xs text-gray-400 whitespace-nowrap">{label}</span>}
+                                                <button onClick={() => moveField(index, -1)} disabled={index === 0} aria-label={`Move ${field.header} up`} className="px-1.5 text-gray-500 hover:text-gray-800 disabled:opacity-30">&uarr;</button>
+                                                <button onClick={() => moveField(index, 1)} disabled={index === settings.fields.length - 1} aria-label={`Move ${field.header} down`} className="px-1.5 text-gray-500 hover:text-gray-800 disabled:opacity-30">&darr;</button>
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
+                            </div>
+                        </>
+                    ) : (
+                        <p className="text-gray-500">{format?.note}</p>
+                    )}
+                </div>
+
+                <div className="flex justify-end items-center space-x-3 px-6 py-4 border-t border-gray-200">
+                    <button onClick={onClose} className="bg-gray-100 text-gray-700 font-semibold px-4 py-2 rounded-md hover:bg-gray-200 transition">Cancel</button>
+                    <button
+                        onClick={onExport}
+                        disabled={!canExport}
+                        className="bg-indigo-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-indigo-700 transition disabled:bg-gray-300 disabled:cursor-not-allowed">
+                        Export {leadCount} {leadCount === 1 ? 'lead' : 'leads'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,185 @@
+/**
+ * @file FilterSidebar.tsx
+ * This file contains the FilterSidebar component, shown beside the "Current Results" map and list.
+ * Its facets are derived from the current leads; changing them filters both the list and the map.
+ */
+
+import React, { useState } from 'react';
+import { LeadFilters, LeadSortOrder } from '../types';
+import { EMPTY_FILTERS, LeadFacets, SORT_OPTIONS, countActiveFilters } from '../services/leadFilters';
+
+/**
+ * Props for the FilterSidebar component.
+ */
+interface FilterSidebarProps {
+    filters: LeadFilters; // The active filters and sort order.
+    facets: LeadFacets; // Facet values derived from the current leads.
+    onChange: (filters: LeadFilters) => void; // Called with the updated filters on every change.
+    shownCount: number; // How many leads pass the filters.
+    totalCount: number; // How many leads there are in total.
+    hasLocation: boolean; // Whether the user's location is known, which distance filtering needs.
+}
+
+// Number of categories listed before "Show all".
+const COLLAPSED_CATEGORY_COUNT = 8;
+// Minimum ratings offered by the rating filter.
+const RATING_OPTIONS = [3, 3.5, 4, 4.5];
+
+// Classes for the labels above each filter.
+const LABEL_CLASS = 'block text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2';
+
+/**
+ * A row of buttons for choosing one of a few values.
+ */
+const SegmentedControl = <T extends string>({ value, options, onChange, label }: { value: T; options: { value: T; label: string }[]; onChange: (value: T) => void; label: string }) => (
+    <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm" role="group" aria-label={label}>
+        {options.map(option => (
+            <button
+                key={option.value}
+                onClick={() => onChange(option.value)}
+                className={`flex-1 px-2 py-1 ${value === option.value ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}>
+                {option.label}
+            </button>
+        ))}
+    </div>
+);
+
+/**
+ * Filter and sort controls for the current results.
+ */
+export const FilterSidebar: React.FC<FilterSidebarProps> = ({ filters, facets, onChange, shownCount, totalCount, hasLocation }) => {
+    const [showAllCategories, setShowAllCategories] = useState(false);
+
+    const update = (changes: Partial<LeadFilters>) => onChange({ ...filters, ...changes });
+    // Reads an optional number input; blank clears the filter.
+    const numberOrNull = (value: string): number | null => (value === '' ? null : Math.max(0, Number(value)));
+
+    const toggleCategory = (category: string) => {
+        update({
+            categories: filters.categories.includes(category)
+                ? filters.categories.filter(c => c !== category)
+                : [...filters.categories, category],
+        });
+    };
+
+    const visibleCategories = showAllCategories ? facets.categories : facets.categories.slice(0, COLLAPSED_CATEGORY_COUNT);
+    const activeCount = countActiveFilters(filters);
+    const distanceLimit = Math.max(1, Math.ceil(facets.maxDistanceKm ?? 1));
+
+    return (
+        <aside className="bg-white p-5 rounded-lg border border-gray-200 shadow-sm space-y-5 text-sm">
+            <div className="flex justify-between items-center">
+                <h2 className="text-lg font-semibold text-gray-700">Filters</h2>
+                {activeCount > 0 && (
+                    <button onClick={() => onChange({ ...EMPTY_FILTERS, sort: filters.sort })} className="text-indigo-600 hover:underline">
+                        Clear ({activeCount})
+                    </button>
+                )}
+            </div>
+            <p className="text-gray-500">Showing {shownCount} of {totalCount}</p>
+
+            <div>
+                <label className={LABEL_CLASS} htmlFor="sort-order">Sort by</label>
+                <select
+                    id="sort-order"
+                    value={filters.sort}
+                    onChange={(e) => update({ sort: e.target.value as LeadSortOrder })}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded-md bg-white focus:ring-indigo-500 focus:border-indigo-500">
+                    {SORT_OPTIONS.map(option => (
+                        <option key={option.id} value={option.id} disabled={option.id === 'distance' && !hasLocation}>{option.label}</option>
+                    ))}
+                </select>
+            </div>
+
+            {facets.categories.length > 0 && (
+                <div>
+                    <span className={LABEL_CLASS}>Category</span>
+                    <div className="space-y-1">
+                        {visibleCategories.map(({ value, count }) => (
+                            <label key={value} className="flex items-center text-gray-700">
+                                <input type="checkbox" checked={filters.categories.includes(value)} onChange={() => toggleCategory(value)} className="mr-2 rounded text-indigo-600 focus:ring-indigo-500" />
+                                <span className="truncate flex-grow" title={value}>{value}</span>
+                                <span className="text-gray-400 ml-2">{count}</span>
+                            </label>
+                        ))}
+                    </div>
+                    {facets.categories.length > COLLAPSED_CATEGORY_COUNT && (
+                        <button onClick={() => setShowAllCategories(prev => !prev)} className="mt-1 text-indigo-600 hover:underline">
+                            {showAllCategories ? 'Show fewer' : `Show all ${facets.categories.length}`}
+                        </button>
+                    )}
+                </div>
+            )}
+
+            <div>
+                <label className={LABEL_CLASS} htmlFor="min-rating">Minimum rating</label>
+                <select
+                    id="min-rating"
+                    value={filters.minRating ?? ''}
+                    onChange={(e) => update({ minRating: numberOrNull(e.target.value) })}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded-md bg-white focus:ring-indigo-500 focus:border-indigo-500">
+                    <option value="">Any rating</option>
+                    {RATING_OPTIONS.map(rating => <option key={rating} value={rating}>{rating}+ stars</option>)}
+                </select>
+            </div>
+
+            <div>
+                <span className={LABEL_CLASS}>Reviews</span>
+                <div className="flex items-center space-x-2">
+                    <input type="number" min={0} value={filters.minReviews ?? ''} onChange={(e) => update({ minReviews: numberOrNull(e.target.value) })} placeholder="Min" aria-label="Minimum reviews" className="w-full px-2 py-1 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500" />
+                    <span className="text-gray-400">–</span>
+                    <input type="number" min={0} value={filters.maxReviews ?? ''} onChange={(e) => update({ maxReviews: numberOrNull(e.target.value) })} placeholder={String(facets.maxReviews)} aria-label="Maximum reviews" className="w-full px-2 py-1 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500" />
+                </div>
+            </div>
+
+            <div>
+                <span className={LABEL_CLASS}>Website ({facets.withWebsite})</span>
+                <SegmentedControl label="Has website" value={filters.website} onChange={(website) => update({ website })}
+                    options={[{ value: 'any', label: 'Any' }, { value: 'yes', label: 'Has one' }, { value: 'no', label: 'None' }]} />
+            </div>
+
+            <div>
+                <span className={LABEL_CLASS}>Scraped email ({facets.withEmail})</span>
+                <SegmentedControl label="Has scraped email" value={filters.email} onChange={(email) => update({ email })}
+                    options={[{ value: 'any', label: 'Any' }, { value: 'yes', label: 'Has one' }, { value: 'no', label: 'None' }]} />
+            </div>
+
+            <div>
+                <label className={LABEL_CLASS} htmlFor="scrape-status">Scrape status</label>
+                <select
+                    id="scrape-status"
+                    value={filters.scrapeStatus}
+                    onChange={(e) => update({ scrapeStatus: e.target.value as LeadFilters['scrapeStatus'] })}
+                    className="w-full px-2 py-1.5 border border-gray-300 rounded-md bg-white focus:ring-indigo-500 focus:border-indigo-500">
+                    <option value="any">Any</option>
+                    <option value="scraped">Scraped ({facets.scraped})</option>
+                    <option value="failed">Failed ({facets.failed})</option>
+                    <option value="pending">Not scraped ({facets.pending})</option>
+                </select>
+            </div>
+
+            <div>
+                <span className={LABEL_CLASS}>Distance</span>
+                {hasLocation ? (
+                    <>
+                        <input
+                            type="range"
+                            min={1}
+                            max={distanceLimit}
+                            value={Math.min(filters.maxDistanceKm ?? distanceLimit, distanceLimit)}
+                            onChange={(e) => {
+                                const value = Number(e.target.value);
+                                update({ maxDistanceKm: value >= distanceLimit ? null : value });
+                            }}
+                            aria-label="Maximum distance"
+                            className="w-full"
+                        />
+                        <p className="text-gray-500">{filters.maxDistanceKm === null ? 'Any distance' : `Within ${filters.maxDistanceKm} km`}</p>
+                    </>
+                ) : (
+                    <p className="text-gray-400">Allow location access to filter by distance.</p>
+                )}
+            </div>
+        </aside>
+    );
+};
@@ -0,0 +1,163 @@
+/**
+ * @file ImportDialog.tsx
+ * This file contains the ImportDialog component, which imports an existing lead list from a CSV,
+ * Excel, GeoJSON or KML file. The user picks the file, checks which column fills each lead field, and chooses whether
+ * the imported leads are geocoded and scraped.
+ */
+
+import React, { useState } from 'react';
+import { ImportColumnMapping, ImportFieldId, SearchResponse } from '../types';
+import { IMPORT_FIELDS, ImportOptions, ImportTable, buildImportedLeads, guessColumnMapping, readImportFile } from '../services/leadImport';
+import { LoadingSpinner } from './icons';
+
+/**
+ * Props for the ImportDialog component.
+ */
+interface ImportDialogProps {
+    hasCurrentResults: boolean; // Whether there are results the import could be added to.
+    canScrape: boolean; // False while a "Scrape All" run is in progress.
+    onImport: (response: SearchResponse, options: ImportOptions) => void; // Called with the validated leads.
+    onClose: () => void; // Called when the dialog is dismissed.
+}
+
+// Classes for the labels above each section.
+const LABEL_CLASS = 'block text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2';
+// Number of rows shown as examples under the column mapping.
+const SAMPLE_ROWS = 3;
+
+/**
+ * Modal dialog for importing leads from a file.
+ */
+export const ImportDialog: React.FC<ImportDialogProps> = ({ hasCurrentResults, canScrape, onImport, onClose }) => {
+    const [fileName, setFileName] = useState('');
+    const [table, setTable] = useState<ImportTable | null>(null);
+    const [mapping, setMapping] = useState<ImportColumnMapping>({});
+    const [options, setOptions] = useState<ImportOptions>({ append: hasCurrentResults, geocode: true, scrape: false });
+    const [isReading, setIsReading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setIsReading(true);
+        setError(null);
+        setTable(null);
+        try {
+            const contents = await readImportFile(file);
+            setFileName(file.name);
+            setTable(contents);
+            setMapping(guessColumnMapping(contents.headers));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'The file could not be read.');
+        } finally {
+            setIsReading(false);
+        }
+    };
+
+    const updateMapping = (field: ImportFieldId, value: string) => {
+        const next = { ...mapping };
+        if (value === '') delete next[field];
+        else next[field] = Number(value);
+        setMapping(next);
+    };
+
+    const missingRequired = IMPORT_FIELDS.filter(field => field.required && mapping[field.id] === undefined);
+
+    const handleImport = () => {
+        if (!table) return;
+        onImport(buildImportedLeads(table, mapping, fileName), { ...options, scrape: options.scrape && canScrape });
+    };
+
+    return (
+        <div className="fixed inset-0 z-[2000] bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="import-dialog-title"
+                onClick={(e) => e.stopPropagation()}
+                className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col text-sm">
+                <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200">
+                    <h2 id="import-dialog-title" className="text-lg font-semibold text-gray-800">Import leads</h2>
+                    <button onClick={onClose} aria-label="Close" className="text-gray-400 hover:text-gray-600 text-2xl leading-none">&times;</button>
+                </div>
+
+                <div className="px-6 py-4 space-y-5 overflow-y-auto">
+                    <div>
+                        <label className={LABEL_CLASS} htmlFor="import-file">CSV, Excel, GeoJSON or KML file</label>
+                        <input
+                            id="import-file"
+                            type="file"
+                            accept=".csv,.tsv,.txt,.xlsx,.geojson,.json,.kml,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/geo+json,application/vnd.google-earth.kml+xml"
+                            onChange={handleFileChange}
+                            className="block w-full text-gray-700 file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border-0 file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
+                        />
+                        {isReading && <p className="mt-2 flex items-center text-gray-500"><LoadingSpinner className="w-4 h-4 mr-2" />Reading file...</p>}
+                        {error && <p className="mt-2 text-red-600">{error}</p>}
+                        {table && <p className="mt-2 text-gray-500">{table.rows.length} rows and {table.headers.length} columns found.</p>}
+                    </div>
+
+                    {table && (
+                        <>
+                            <div>
+                                <span className={LABEL_CLASS}>Columns</span>
+                                <div className="space-y-2">
+                                    {IMPORT_FIELDS.map(field => {
+                                        const index = mapping[field.id];
+                                        const samples = index === undefined ? [] : table.rows.slice(0, SAMPLE_ROWS).map(row => row[index] ?? '').filter(Boolean);
+                                        return (
+                                            <div key={field.id} className="grid grid-cols-12 gap-2 items-center">
+                                                <label htmlFor={`import-field-${field.id}`} className="col-span-3 font-medium text-gray-700">
+                                                    {field.label}{field.required && <span className="text-red-500"> *</span>}
+                                                </label>
+                                                <select
+                                                    id={`import-field-${field.id}`}
+                                                    value={index ?? ''}
+                                                    onChange={(e) => updateMapping(field.id, e.target.value)}
+                                                    className="col-span-4 px-2 py-1 border border-gray-300 rounded-md bg-white focus:ring-indigo-500 focus:border-indigo-500">
+                                                    <option value="">Not imported</option>
+                                                    {table.headers.map((header, i) => <option key={i} value={i}>{header}</option>)}
+                                                </select>
+                                                <span className="col-span-5 truncate text-gray-400" title={samples.join(' · ')}>{samples.join(' · ')}</span>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                                {missingRequired.length > 0 && (
+                                    <p className="mt-2 text-amber-700">Choose a column for {missingRequired.map(field => field.label).join(' and ')}, which every lead needs.</p>
+                                )}
+                            </div>
+
+                            <div>
+                                <span className={LABEL_CLASS}>After importing</span>
+                                <div className="space-y-1 text-gray-700">
+                                    <label className="flex items-center">
+                                        <input type="checkbox" checked={options.append} disabled={!hasCurrentResults} onChange={(e) => setOptions({ ...options, append: e.target.checked })} className="mr-2 rounded text-indigo-600 focus:ring-indigo-500" />
+                                        Add to the current results, merging duplicates
+                                    </label>
+                                    <label className="flex items-center">
+                                        <input type="checkbox" checked={options.geocode} onChange={(e) => setOptions({ ...options, geocode: e.target.checked })} className="mr-2 rounded text-indigo-600 focus:ring-indigo-500" />
+                                        Geocode addresses without coordinates
+                                    </label>
+                                    <label className={`flex items-center ${canScrape ? '' : 'text-gray-400'}`}>
+                                        <input type="checkbox" checked={options.scrape && canScrape} disabled={!canScrape} onChange={(e) => setOptions({ ...options, scrape: e.target.checked })} className="mr-2 rounded text-indigo-600 focus:ring-indigo-500" />
+                                        Scrape websites for contact details{!canScrape && ' (wait for the current run to finish)'}
+                                    </label>
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                <div className="flex justify-end items-center space-x-3 px-6 py-4 border-t border-gray-200">
+                    <button onClick={onClose} className="bg-gray-100 text-gray-700 font-semibold px-4 py-2 rounded-md hover:bg-gray-200 transition">Cancel</button>
+                    <button
+                        onClick={handleImport}
+                        disabled={!table || missingRequired.length > 0}
+                        className="bg-indigo-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-indigo-700 transition disabled:bg-gray-300 disabled:cursor-not-allowed">
+                        Import {table ? `${table.rows.length} rows` : ''}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,105 @@
+/**
+ * @file LeadPipelineEditor.tsx
+ * This file contains the LeadPipelineEditor component, shown inside a ResultCard.
+ * It lets the user set a lead's pipeline stage, add and remove tags, and keep timestamped notes.
+ */
+
+import React, { useState } from 'react';
+import { Business, PipelineStage } from '../types';
+import { PIPELINE_STAGES, PipelineChanges, createNote, normaliseTag, stageOf } from '../services/pipeline';
+
+/**
+ * Props for the LeadPipelineEditor component.
+ */
+interface LeadPipelineEditorProps {
+    business: Business; // The lead being edited.
+    onChange: (changes: PipelineChanges) => void; // Called with the changed pipeline fields.
+}
+
+/**
+ * Stage selector, tag chips and notes for a single lead.
+ */
+export const LeadPipelineEditor: React.FC<LeadPipelineEditorProps> = ({ business, onChange }) => {
+    const [tagInput, setTagInput] = useState(''); // Tag being typed.
+    const [noteInput, setNoteInput] = useState(''); // Note being typed.
+    const [showNotes, setShowNotes] = useState(false); // Whether the notes section is expanded.
+
+    const stage = stageOf(business);
+    const stageInfo = PIPELINE_STAGES.find(s => s.id === stage)!;
+    const tags = business.tags ?? [];
+    const notes = business.notes ?? [];
+
+    const handleAddTag = (e: React.FormEvent) => {
+        e.preventDefault();
+        const tag = normaliseTag(tagInput);
+        if (tag && !tags.includes(tag)) {
+            onChange({ tags: [...tags, tag] });
+        }
+        setTagInput('');
+    };
+
+    const handleAddNote = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!noteInput.trim()) return;
+        onChange({ notes: [...notes, createNote(noteInput)] });
+        setNoteInput('');
+    };
+
+    return (
+        <div className="mt-3 pt-3 border-t border-gray-100 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={stage}
+                    onChange={(e) => onChange({ stage: e.target.value as PipelineStage })}
+                    aria-label="Pipeline stage"
+                    className={`px-2 py-1 rounded-md text-xs font-semibold border-0 focus:ring-indigo-500 ${stageInfo.badgeClass}`}>
+                    {PIPELINE_STAGES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                </select>
+                {tags.map(tag => (
+                    <span key={tag} className="flex items-center bg-gray-100 text-gray-700 rounded-full px-2 py-0.5 text-xs">
+                        #{tag}
+                        <button onClick={() => onChange({ tags: tags.filter(t => t !== tag) })} className="ml-1 text-gray-400 hover:text-gray-700" aria-label={`Remove tag ${tag}`}>×</button>
+                    </span>
+                ))}
+                <form onSubmit={handleAddTag}>
+                    <input
+                        type="text"
+                        value={tagInput}
+                        onChange={(e) => setTagInput(e.target.value)}
+                        placeholder="+ tag"
+                        className="w-20 px-2 py-0.5 border border-gray-200 rounded-full text-xs focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                </form>
+                <button onClick={() => setShowNotes(prev => !prev)} className="ml-auto text-indigo-600 hover:underline text-xs">
+                    {showNotes ? 'Hide notes' : `Notes (${notes.length})`}
+                </button>
+            </div>
+
+            {showNotes && (
+                <div className="mt-3 space-y-2">
+                    {notes.map(note => (
+                        <div key={note.id} className="bg-gray-50 rounded-md p-2 group">
+                            <div className="flex justify-between text-xs text-gray-400 mb-1">
+                                <span>{new Date(note.createdAt).toLocaleString()}</span>
+                                <button onClick={() => onChange({ notes: notes.filter(n => n.id !== note.id) })} className="opacity-0 group-hover:opacity-100 hover:text-red-500 transition">Delete</button>
+                            </div>
+                            <p className="text-gray-700 whitespace-pre-wrap">{note.text}</p>
+                        </div>
+                    ))}
+                    <form onSubmit={handleAddNote} className="flex space-x-2">
+                        <input
+                            type="text"
+                            value={noteInput}
+                            onChange={(e) => setNoteInput(e.target.value)}
+                            placeholder="Add a note…"
+                            className="flex-grow px-3 py-1.5 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                        />
+                        <button type="submit" disabled={!noteInput.trim()} className="bg-gray-100 text-gray-700 font-semibold px-3 py-1.5 rounded-md hover:bg-gray-200 transition disabled:text-gray-400">
+                            Add
+                        </button>
+                    </form>
+                </div>
+            )}
+        </div>
+    );
+};
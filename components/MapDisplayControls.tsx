@@ -0,0 +1,55 @@
+/**
+ * @file MapDisplayControls.tsx
+ * This file contains the MapDisplayControls component, shown below the map. It chooses what the
+ * marker colours show, turns clustering and the density heatmap on or off, and shows the colour legend.
+ */
+
+import React from 'react';
+import { MapDisplaySettings, MarkerColourMode } from '../types';
+import { LegendEntry, MARKER_COLOUR_MODES } from '../services/mapClustering';
+
+/**
+ * Props for the MapDisplayControls component.
+ */
+interface MapDisplayControlsProps {
+    settings: MapDisplaySettings; // The current display settings.
+    onChange: (settings: MapDisplaySettings) => void; // Called when any setting changes.
+    legend: LegendEntry[]; // What each marker colour means.
+}
+
+/**
+ * Display options and legend for the map.
+ */
+export const MapDisplayControls: React.FC<MapDisplayControlsProps> = ({ settings, onChange, legend }) => (
+    <div className="mt-3 space-y-2 text-sm">
+        <div className="flex flex-wrap items-center gap-4 text-gray-700">
+            <label className="flex items-center">
+                <span className="font-medium text-gray-600 mr-2">Colour by:</span>
+                <select
+                    value={settings.colourBy}
+                    onChange={(e) => onChange({ ...settings, colourBy: e.target.value as MarkerColourMode })}
+                    className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:ring-indigo-500 focus:border-indigo-500">
+                    {MARKER_COLOUR_MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.label}</option>)}
+                </select>
+            </label>
+            <label className="flex items-center">
+                <input type="checkbox" checked={settings.cluster} onChange={(e) => onChange({ ...settings, cluster: e.target.checked })} className="mr-2 rounded text-indigo-600 focus:ring-indigo-500" />
+                Cluster nearby markers
+            </label>
+            <label className="flex items-center">
+                <input type="checkbox" checked={settings.heatmap} onChange={(e) => onChange({ ...settings, heatmap: e.target.checked })} className="mr-2 rounded text-indigo-600 focus:ring-indigo-500" />
+                Density heatmap
+            </label>
+        </div>
+        {legend.length > 0 && (
+            <ul className="flex flex-wrap gap-x-4 gap-y-1 text-gray-600">
+                {legend.map(entry => (
+                    <li key={entry.label} className="flex items-center">
+                        <span className="inline-block w-3 h-3 rounded-full mr-1.5" style={{ backgroundColor: entry.colour }} />
+                        {entry.label}
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+);
@@ -0,0 +1,229 @@
+/**
+ * @file OutreachComposer.tsx
+ * This file contains the OutreachComposer component, a dialog for writing outreach emails to the
+ * chosen leads. The user edits a template with merge fields, optionally has AI write a personalised
+ * opening line for each lead, previews the email each lead will get, and sends it through their mail
+ * app, or downloads the emails as .eml drafts or a mail-merge CSV.
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Business, OutreachField, OutreachTemplate } from '../types';
+import { OUTREACH_FIELDS, composeEmail, createEmlArchive, emlFileName, mailMergeTable, mailtoLink, toEml } from '../services/outreach';
+import { downloadBlob, toCsv } from '../services/leadExport';
+import { LoadingSpinner } from './icons';
+
+/**
+ * Props for the OutreachComposer component.
+ */
+interface OutreachComposerProps {
+    leads: Business[]; // The leads to write to.
+    templates: OutreachTemplate[]; // The saved templates.
+    onTemplatesChange: (templates: OutreachTemplate[]) => void; // Called with the updated templates on every edit.
+    onWriteOpenings: (leads: Business[], brief: string) => Promise<Map<string, string>>; // Has AI write an opening line for each lead.
+    onClose: () => void; // Called when the dialog is dismissed.
+}
+
+// Classes for the labels above each section.
+const LABEL_CLASS = 'block text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2';
+// Classes shared by the text inputs.
+const INPUT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500';
+
+/**
+ * Modal dialog for writing outreach emails to leads.
+ */
+export const OutreachComposer: React.FC<OutreachComposerProps> = ({ leads, templates, onTemplatesChange, onWriteOpenings, onClose }) => {
+    const [templateId, setTemplateId] = useState(templates[0].id); // The template being edited.
+    const [openings, setOpenings] = useState<Map<string, string>>(new Map()); // AI-written opening lines, keyed by lead ID.
+    const [isWriting, setIsWriting] = useState(false); // True while opening lines are being written.
+    const [writeError, setWriteError] = useState<string | null>(null); // Why the opening lines couldn't be written.
+    const [previewIndex, setPreviewIndex] = useState(0); // The lead whose email is previewed.
+    const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+    const template = templates.find(t => t.id === templateId) ?? templates[0];
+    const emails = useMemo(
+        () => leads.map(lead => composeEmail(lead, template, openings.get(lead.id))),
+        [leads, template, openings]
+    );
+    const sendable = emails.filter(email => email.to);
+    const preview = emails[Math.min(previewIndex, emails.length - 1)];
+    const usesOpening = /\{\{\s*opening\b/.test(template.body) || /\{\{\s*opening\b/.test(template.subject);
+
+    const updateTemplate = (changes: Partial<OutreachTemplate>) => {
+        onTemplatesChange(templates.map(t => (t.id === template.id ? { ...t, ...changes } : t)));
+    };
+
+    const handleNewTemplate = () => {
+        const created: OutreachTemplate = { ...template, id: `template-${Date.now()}`, name: `${template.name} (copy)` };
+        onTemplatesChange([...templates, created]);
+        setTemplateId(created.id);
+    };
+
+    const handleDeleteTemplate = () => {
+        if (templates.length <= 1 || !confirm(`Delete the template "${template.name}"?`)) return;
+        const remaining = templates.filter(t => t.id !== template.id);
+        onTemplatesChange(remaining);
+        setTemplateId(remaining[0].id);
+    };
+
+    // Inserts a merge field at the cursor in the body.
+    const insertField = (field: OutreachField) => {
+        const textarea = bodyRef.current;
+        const token = `{{${field}}}`;
+        const start = textarea?.selectionStart ?? template.body.length;
+        const end = textarea?.selectionEnd ?? template.body.length;
+        updateTemplate({ body: template.body.slice(0, start) + token + template.body.slice(end) });
+        requestAnimationFrame(() => {
+            textarea?.focus();
+            textarea?.setSelectionRange(start + token.length, start + token.length);
+        });
+    };
+
+    const handleWriteOpenings = async () => {
+        setIsWriting(true);
+        setWriteError(null);
+        try {
+            setOpenings(await onWriteOpenings(leads, template.brief));
+        } catch (err) {
+            setWriteError(err instanceof Error ? err.message : 'Writing the opening lines failed.');
+        } finally {
+            setIsWriting(false);
+        }
+    };
+
+    const handleDownloadEml = () => {
+        if (sendable.length === 1) {
+            downloadBlob(new Blob([toEml(sendable[0])], { type: 'message/rfc822' }), emlFileName(sendable[0]));
+        } else {
+            downloadBlob(new Blob([createEmlArchive(sendable)], { type: 'application/zip' }), `outreach-emails-${new Date().toISOString().slice(0, 10)}.zip`);
+        }
+    };
+
+    const handleDownloadCsv = () => {
+        const csv = toCsv(mailMergeTable(sendable, leads, openings));
+        downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `mail-merge-${new Date().toISOString().slice(0, 10)}.csv`);
+    };
+
+    return (
+        <div className="fixed inset-0 z-[2000] bg-black/40 flex items-center justify-center p-4" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="outreach-dialog-title"
+                onClick={(e) => e.stopPropagation()}
+                className="bg-white rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col text-sm">
+                <div className="flex justify-between items-center px-6 py-4 border-b border-gray-200">
+                    <h2 id="outreach-dialog-title" className="text-lg font-semibold text-gray-800">
+                        Write emails to {leads.length} {leads.length === 1 ? 'lead' : 'leads'}
+                    </h2>
+                    <button onClick={onClose} aria-label="Close" className="text-gray-400 hover:text-gray-600 text-2xl leading-none">&times;</button>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 px-6 py-4 overflow-y-auto">
+                    <div className="space-y-4">
+                        <div>
+                            <label className={LABEL_CLASS}>Template</label>
+                            <div className="flex items-center space-x-2">
+                                <select value={template.id} onChange={(e) => setTemplateId(e.target.value)} className="flex-1 px-3 py-2 border border-gray-300 rounded-md bg-white">
+                                    {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                                </select>
+                                <button onClick={handleNewTemplate} className="text-indigo-600 hover:underline whitespace-nowrap">Duplicate</button>
+                                {templates.length > 1 && <button onClick={handleDeleteTemplate} className="text-red-500 hover:underline">Delete</button>}
+                            </div>
+                            <input type="text" value={template.name} onChange={(e) => updateTemplate({ name: e.target.value })} aria-label="Template name" className={`${INPUT_CLASS} mt-2`} />
+                        </div>
+                        <div>
+                            <label htmlFor="outreach-subject" className={LABEL_CLASS}>Subject</label>
+                            <input id="outreach-subject" type="text" value={template.subject} onChange={(e) => updateTemplate({ subject: e.target.value })} className={INPUT_CLASS} />
+                        </div>
+                        <div>
+                            <label htmlFor="outreach-body" className={LABEL_CLASS}>Body</label>
+                            <div className="flex flex-wrap gap-1 mb-2">
+                                {OUTREACH_FIELDS.map(field => (
+                                    <button key={field.id} onClick={() => insertField(field.id)} title={`Insert {{${field.id}}}`} className="px-2 py-0.5 rounded bg-gray-100 text-gray-700 text-xs hover:bg-gray-200">
+                                        {field.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <textarea id="outreach-body" ref={bodyRef} value={template.body} onChange={(e) => updateTemplate({ body: e.target.value })} rows={12} className={`${INPUT_CLASS} font-mono text-xs`} />
+                            <p className="text-xs text-gray-500 mt-1">Write {'{{city|your area}}'} to use "your area" for leads without a city.</p>
+                        </div>
+                        <div>
+                            <label htmlFor="outreach-brief" className={LABEL_CLASS}>AI opening lines</label>
+                            <textarea
+                                id="outreach-brief"
+                                value={template.brief}
+                                onChange={(e) => updateTemplate({ brief: e.target.value })}
+                                rows={2}
+                                placeholder="What you offer and to whom, e.g. We redesign websites for independent dental practices."
+                                className={INPUT_CLASS}
+                            />
+                            <div className="flex items-center mt-2 space-x-3">
+                                <button
+                                    onClick={handleWriteOpenings}
+                                    disabled={isWriting}
+                                    className="flex items-center bg-indigo-50 text-indigo-700 font-semibold px-3 py-1.5 rounded-md hover:bg-indigo-100 transition disabled:opacity-50 disabled:cursor-not-allowed">
+                                    {isWriting && <LoadingSpinner className="w-4 h-4 mr-2" />}
+                                    {openings.size > 0 ? 'Rewrite opening lines' : 'Write opening lines'}
+                                </button>
+                                {openings.size > 0 && <span className="text-gray-500">{openings.size} of {leads.length} written</span>}
+                            </div>
+                            {!usesOpening && <p className="text-xs text-amber-600 mt-1">Add {'{{opening}}'} to the body to use the opening lines.</p>}
+                            {writeError && <p className="text-xs text-red-600 mt-1">{writeError}</p>}
+                        </div>
+                    </div>
+
+                    <div>
+                        <div className="flex justify-between items-center mb-2">
+                            <label className={LABEL_CLASS}>Preview</label>
+                            <div className="flex items-center space-x-2 text-gray-600">
+                                <button onClick={() => setPreviewIndex(i => Math.max(0, i - 1))} disabled={previewIndex === 0} aria-label="Previous lead" className="px-2 hover:text-gray-900 disabled:text-gray-300">&lsaquo;</button>
+                                <span>{Math.min(previewIndex, emails.length - 1) + 1} of {emails.length}</span>
+                                <button onClick={() => setPreviewIndex(i => Math.min(emails.length - 1, i + 1))} disabled={previewIndex >= emails.length - 1} aria-label="Next lead" className="px-2 hover:text-gray-900 disabled:text-gray-300">&rsaquo;</button>
+                            </div>
+                        </div>
+                        {preview && (
+                            <div className="border border-gray-200 rounded-md">
+                                <div className="px-4 py-2 border-b border-gray-100 bg-gray-50 space-y-1">
+                                    <p className="font-semibold text-gray-800">{preview.leadName}</p>
+                                    <p className="text-gray-600">To: {preview.to || <span className="text-amber-600">no email found; scrape the website first</span>}</p>
+                                    <p className="text-gray-600">Subject: <span className="text-gray-800">{preview.subject}</span></p>
+                                </div>
+                                <p className="px-4 py-3 whitespace-pre-wrap text-gray-800">{preview.body}</p>
+                                <div className="px-4 py-2 border-t border-gray-100 text-right">
+                                    <a
+                                        href={mailtoLink(preview)}
+                                        className={`font-semibold ${preview.to ? 'text-indigo-600 hover:underline' : 'text-gray-400 pointer-events-none'}`}
+                                        aria-disabled={!preview.to}>
+                                        Open in mail app
+                                    </a>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                </div>
+
+                <div className="flex justify-between items-center px-6 py-4 border-t border-gray-200">
+                    <p className="text-gray-500">
+                        {sendable.length} of {leads.length} leads have an email address
+                        {sendable.length < leads.length && '; the rest are left out of the downloads'}.
+                    </p>
+                    <div className="flex items-center space-x-3">
+                        <button onClick={onClose} className="bg-gray-100 text-gray-700 font-semibold px-4 py-2 rounded-md hover:bg-gray-200 transition">Close</button>
+                        <button
+                            onClick={handleDownloadCsv}
+                            disabled={sendable.length === 0}
+                            className="bg-gray-100 text-gray-700 font-semibold px-4 py-2 rounded-md hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed">
+                            Mail-merge CSV
+                        </button>
+                        <button
+                            onClick={handleDownloadEml}
+                            disabled={sendable.length === 0}
+                            className="bg-indigo-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-indigo-700 transition disabled:bg-gray-300 disabled:cursor-not-allowed">
+                            Download {sendable.length === 1 ? '.eml draft' : `${sendable.length} .eml drafts`}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,124 @@
+/**
+ * @file PipelineBoard.tsx
+ * This file contains the PipelineBoard component, a kanban-style board of the leads in the
+ * local lead database, with one column per pipeline stage. Leads can be dragged between
+ * columns to change their stage, and the board can be filtered by tag.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Business, PipelineStage } from '../types';
+import { getAllSavedLeads } from '../services/leadStore';
+import { PIPELINE_STAGES, stageOf } from '../services/pipeline';
+import { LoadingSpinner } from './icons';
+
+/**
+ * Props for the PipelineBoard component.
+ */
+interface PipelineBoardProps {
+    refreshKey: number; // Changes whenever stored leads change, so the board reloads.
+    onMoveLead: (lead: Business, stage: PipelineStage) => void; // Called when a lead is dropped on another column.
+    onOpenLeads: (leads: Business[]) => void; // Shows the given leads in "Current Results".
+}
+
+/**
+ * The kanban board of saved leads, grouped by pipeline stage.
+ */
+export const PipelineBoard: React.FC<PipelineBoardProps> = ({ refreshKey, onMoveLead, onOpenLeads }) => {
+    const [leads, setLeads] = useState<Business[]>([]); // All saved leads.
+    const [isLoading, setIsLoading] = useState(true);
+    const [tagFilter, setTagFilter] = useState(''); // Only show leads with this tag, if set.
+    const [dragOverStage, setDragOverStage] = useState<PipelineStage | null>(null); // Column being dragged over, for highlighting.
+
+    // Reload the saved leads whenever they change.
+    useEffect(() => {
+        let cancelled = false;
+        getAllSavedLeads()
+            .then(result => { if (!cancelled) setLeads(result); })
+            .catch(err => console.error("Failed to load pipeline leads", err))
+            .finally(() => { if (!cancelled) setIsLoading(false); });
+        return () => { cancelled = true; };
+    }, [refreshKey]);
+
+    const allTags = useMemo(() => Array.from(new Set(leads.flatMap(lead => lead.tags ?? []))).sort(), [leads]);
+    const visibleLeads = tagFilter ? leads.filter(lead => lead.tags?.includes(tagFilter)) : leads;
+
+    const handleDrop = (e: React.DragEvent, stage: PipelineStage) => {
+        e.preventDefault();
+        setDragOverStage(null);
+        const lead = leads.find(l => l.id === e.dataTransfer.getData('text/plain'));
+        if (lead && stageOf(lead) !== stage) {
+            // Move the card immediately; the stored copy is updated by the parent.
+            setLeads(prev => prev.map(l => l.id === lead.id ? { ...l, stage } : l));
+            onMoveLead(lead, stage);
+        }
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-semibold text-gray-700">Pipeline</h2>
+                <div className="flex items-center space-x-3">
+                    <select
+                        value={tagFilter}
+                        onChange={(e) => setTagFilter(e.target.value)}
+                        aria-label="Filter by tag"
+                        className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:ring-indigo-500 focus:border-indigo-500">
+                        <option value="">All tags</option>
+                        {allTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                    </select>
+                    <button
+                        onClick={() => onOpenLeads(visibleLeads)}
+                        disabled={visibleLeads.length === 0}
+                        className="bg-gray-100 text-gray-700 font-semibold px-4 py-2 rounded-md hover:bg-gray-200 transition disabled:text-gray-400 text-sm">
+                        Open in Current Results
+                    </button>
+                </div>
+            </div>
+
+            {isLoading ? (
+                <div className="text-center py-10"><LoadingSpinner className="w-8 h-8 mx-auto text-indigo-600" /></div>
+            ) : leads.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No leads in the pipeline yet. Set a stage, note or tag on a result, or save results to a list.</p>
+            ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+                    {PIPELINE_STAGES.map(stage => {
+                        const columnLeads = visibleLeads.filter(lead => stageOf(lead) === stage.id);
+                        return (
+                            <div
+                                key={stage.id}
+                                onDragOver={(e) => { e.preventDefault(); setDragOverStage(stage.id); }}
+                                onDragLeave={() => setDragOverStage(null)}
+                                onDrop={(e) => handleDrop(e, stage.id)}
+                                className={`rounded-md p-2 min-h-[12rem] transition ${dragOverStage === stage.id ? 'bg-indigo-50 ring-2 ring-indigo-300' : 'bg-gray-50'}`}>
+                                <h3 className="flex justify-between items-center text-sm font-semibold mb-2 px-1">
+                                    <span className={`px-2 py-0.5 rounded-md ${stage.badgeClass}`}>{stage.label}</span>
+                                    <span className="text-gray-400">{columnLeads.length}</span>
+                                </h3>
+                                <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+                                    {columnLeads.map(lead => (
+                                        <div
+                                            key={lead.id}
+                                            draggable
+                                            onDragStart={(e) => e.dataTransfer.setData('text/plain', lead.id)}
+                                            className="bg-white border border-gray-200 rounded-md p-2 shadow-sm cursor-grab text-sm">
+                                            <p className="font-medium text-gray-800 truncate" title={lead.name}>{lead.name}</p>
+                                            <p className="text-xs text-gray-500 truncate">{lead.type || lead.address}</p>
+                                            {(lead.tags?.length ?? 0) > 0 && (
+                                                <p className="text-xs text-indigo-600 mt-1 truncate">{lead.tags!.map(tag => `#${tag}`).join(' ')}</p>
+                                            )}
+                                            {(lead.notes?.length ?? 0) > 0 && (
+                                                <p className="text-xs text-gray-400 mt-1 truncate" title={lead.notes![lead.notes!.length - 1].text}>
+                                                    {lead.notes!.length} {lead.notes!.length === 1 ? 'note' : 'notes'}
+                                                </p>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -2,11 +2,17 @@
  * @file ResultCard.tsx
  * This file contains the ResultCard component, which is responsible for displaying
  * a single business lead's information, including scraped contact details.
- * It also handles user interactions like scraping and selecting a card.
+ * It also handles user interactions like scraping, auditing the website and selecting a card.
  */
 
 import React, { useState } from 'react';
-import { Business, ScrapedData } from '../types';
+import { Business, EmailVerification, LeadScore, ScrapedData, WebsiteAudit } from '../types';
+import { EMAIL_STATUS_STYLES } from '../services/emailVerifier';
+import { PHONE_TYPE_LABELS, formatPhone } from '../services/phoneNumbers';
+import { scoreBadgeClass } from '../services/leadScoring';
+import { PipelineChanges } from '../services/pipeline';
+import { AUDIT_CHECKS } from '../services/websiteAudit';
+import { LeadPipelineEditor } from './LeadPipelineEditor';
 import { EmailIcon, PhoneIcon, SocialIcon, WebsiteIcon, StarIcon, CopyIcon, CheckIcon, LoadingSpinner, SocialMediaIcon } from './icons';
 
 /**
@@ -14,16 +20,37 @@ import { EmailIcon, PhoneIcon, SocialIcon, WebsiteIcon, StarIcon, CopyIcon, Chec
  */
 interface ResultCardProps {
     business: Business; // The business data to display.
-    onScrape: (businessId: string, websiteUrl: string) => void; // Callback function when the "Scrape" button is clicked.
+    onScrape: (business: Business, refresh?: boolean) => void; // Callback function when the "Scrape" button is clicked, or `refresh` to bypass the cache.
+    onAudit: (business: Business) => void; // Callback function when the "Audit" button is clicked.
     isSelected: boolean; // True if this card is currently selected, used for highlighting.
     onSelect: (businessId: string) => void; // Callback function when the card is clicked.
+    onUpdatePipeline: (business: Business, changes: PipelineChanges) => void; // Callback function when the stage, notes or tags are edited.
+    score?: LeadScore; // The lead's score, shown as a badge.
+    isChecked?: boolean; // True if the lead is ticked for export or a route.
+    onToggleChecked?: (businessId: string) => void; // Callback function when the selection checkbox is toggled.
+    locationWarning?: string; // Why the lead's map position looks wrong, if it does.
 }
 
+/**
+ * Returns a short label for the page a contact item was found on, e.g. "/contact".
+ */
+const sourceLabel = (pageUrl: string): string => {
+    try {
+        const { pathname } = new URL(pageUrl);
+        return pathname === '/' ? 'homepage' : pathname.replace(/\/+$/, '');
+    } catch {
+        return pageUrl;
+    }
+};
+
 /**
  * A small reusable component to display a single contact item (email, phone, etc.)
- * with an icon, text, a link, and a copy-to-clipboard button.
+ * with an icon, text, a link, the page it was found on, and a copy-to-clipboard button.
+ * Items without a source page were suggested by AI and are marked as unverified.
+ * Emails also show their verification status and score; hover it for the reasons.
+ * `label` replaces the text on screen (e.g. a formatted phone number) while the copy button still copies `text`.
  */
-const ContactItem: React.FC<{ icon: React.ReactNode; text: string; link: string }> = ({ icon, text, link }) => {
+const ContactItem: React.FC<{ icon: React.ReactNode; text: string; label?: string; note?: string; link: string; source?: string; verification?: EmailVerification }> = ({ icon, text, label, note, link, source, verification }) => {
     // State to provide visual feedback when the copy button is clicked.
     const [copied, setCopied] = useState(false);
 
@@ -38,8 +65,23 @@ const ContactItem: React.FC<{ icon: React.ReactNode; text: string; link: string
         <div className="flex items-center justify-between text-sm text-gray-700 py-1.5 group">
             <a href={link} target="_blank" rel="noopener noreferrer" className="flex items-center min-w-0">
                 <span className="text-gray-400 mr-2">{icon}</span>
-                <span className="truncate group-hover:underline">{text}</span>
+                <span className="truncate group-hover:underline">{label ?? text}</span>
             </a>
+            {note && <span className="ml-2 text-xs text-gray-400 whitespace-nowrap">{note}</span>}
+            {verification && (
+                <span
+                    className={`ml-2 px-1.5 py-0.5 rounded text-xs font-medium whitespace-nowrap ${EMAIL_STATUS_STYLES[verification.status].badgeClass}`}
+                    title={verification.reasons.join('\n') || 'All checks passed.'}>
+                    {EMAIL_STATUS_STYLES[verification.status].label} {verification.score}
+                </span>
+            )}
+            {source ? (
+                <a href={source} target="_blank" rel="noopener noreferrer" className="ml-2 text-xs text-gray-400 hover:underline whitespace-nowrap" title={`Found on ${source}`}>
+                    {sourceLabel(source)}
+                </a>
+            ) : (
+                <span className="ml-2 text-xs text-amber-600 whitespace-nowrap" title="Suggested by AI; not found on the website">AI guess</span>
+            )}
             <button onClick={handleCopy} className="ml-2 p-1 rounded-md hover:bg-gray-200 text-gray-400 hover:text-gray-700 transition-all">
                 {copied ? <CheckIcon className="w-4 h-4 text-green-500" /> : <CopyIcon className="w-4 h-4" />}
             </button>
@@ -51,7 +93,7 @@ const ContactItem: React.FC<{ icon: React.ReactNode; text: string; link: string
  * A component to display a section of scraped data (e.g., Emails, Phones).
  * It renders a title and a list of ContactItem components.
  */
-const ScrapedDataSection: React.FC<{ title: string; items: string[]; icon: React.ReactNode; linkPrefix?: string; isSocial?: boolean }> = ({ title, items, icon, linkPrefix = '', isSocial = false }) => (
+const ScrapedDataSection: React.FC<{ title: string; items: string[]; sources?: Record<string, string>; verifications?: Record<string, EmailVerification>; notes?: Record<string, string>; formatItem?: (item: string) => string; icon: React.ReactNode; linkPrefix?: string; isSocial?: boolean }> = ({ title, items, sources, verifications, notes, formatItem, icon, linkPrefix = '', isSocial = false }) => (
     <div>
         <h4 className="flex items-center font-semibold text-gray-600 text-sm mb-2">
             {icon}
@@ -60,29 +102,60 @@ const ScrapedDataSection: React.FC<{ title: string; items: string[]; icon: React
         <div className="space-y-1">
             {items.map((item, index) => {
                 const link = isSocial ? item : `${linkPrefix}${item}`;
-                return <ContactItem key={index} icon={ isSocial ? <SocialMediaIcon url={item} className="w-4 h-4 fill-current"/> : icon} text={item} link={link} />;
+                return <ContactItem key={index} icon={ isSocial ? <SocialMediaIcon url={item} className="w-4 h-4 fill-current"/> : icon} text={item} label={formatItem?.(item)} note={notes?.[item]} link={link} source={sources?.[item]} verification={verifications?.[item]} />;
             })}
         </div>
     </div>
 );
 
+/**
+ * Returns a display label for each scraped phone number's type, e.g. "Mobile".
+ */
+const phoneTypeLabels = (data: ScrapedData): Record<string, string> =>
+    Object.fromEntries(Object.entries(data.phoneTypes ?? {}).map(([phone, type]) => [phone, PHONE_TYPE_LABELS[type]]));
+
+/**
+ * The website audit's opportunity score and every check's finding, failed checks marked as talking points.
+ */
+const AuditSection: React.FC<{ audit: WebsiteAudit }> = ({ audit }) => (
+    <div className="mt-4 pt-4 border-t border-gray-100">
+        <h4 className="flex items-center font-semibold text-gray-600 text-sm mb-2">
+            <span className={`mr-2 px-2 py-0.5 rounded-md font-semibold ${scoreBadgeClass(audit.opportunity)}`} title="How much there is to fix, 0–100">
+                {audit.opportunity}
+            </span>
+            Website audit
+            <span className="ml-2 text-xs font-normal text-gray-400">{new Date(audit.auditedAt).toLocaleDateString()}</span>
+        </h4>
+        <ul className="space-y-1 text-sm">
+            {audit.findings.map(finding => (
+                <li key={finding.check} className={`flex items-start ${finding.passed ? 'text-gray-500' : 'text-gray-800'}`}>
+                    <span className={`w-4 mr-2 flex-shrink-0 font-bold ${finding.passed ? 'text-green-500' : 'text-red-500'}`}>{finding.passed ? '✓' : '✗'}</span>
+                    <span>
+                        <span className="font-medium">{AUDIT_CHECKS.find(check => check.id === finding.check)?.label}:</span> {finding.detail}
+                    </span>
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
 /**
  * The main component for displaying a business lead.
  * It shows primary business info and conditionally displays scraped data or errors.
  */
-export const ResultCard: React.FC<ResultCardProps> = ({ business, onScrape, isSelected, onSelect }) => {
+export const ResultCard: React.FC<ResultCardProps> = ({ business, onScrape, onAudit, isSelected, onSelect, onUpdatePipeline, score, isChecked = false, onToggleChecked, locationWarning }) => {
     
     // Handler for the "Scrape" button click.
     const handleScrapeClick = () => {
         if (business.website) {
-            onScrape(business.id, business.website);
+            onScrape(business);
         }
     };
 
     // Handler for clicking the card itself. This is used for map synchronization.
     const handleCardClick = (e: React.MouseEvent<HTMLDivElement>) => {
-        // We prevent the select action if the user clicks on a button or link inside the card.
-        if ((e.target as HTMLElement).closest('button, a')) {
+        // We prevent the select action if the user clicks on a control or link inside the card.
+        if ((e.target as HTMLElement).closest('button, a, input, select, form')) {
             return;
         }
         onSelect(business.id);
@@ -96,21 +169,64 @@ export const ResultCard: React.FC<ResultCardProps> = ({ business, onScrape, isSe
         >
             <div className="flex justify-between items-start">
                 <div>
-                    <h3 className="text-lg font-bold text-gray-800">{business.name}</h3>
+                    <h3 className="flex items-center text-lg font-bold text-gray-800">
+                        {onToggleChecked && (
+                            <input
+                                type="checkbox"
+                                checked={isChecked}
+                                onChange={() => onToggleChecked(business.id)}
+                                aria-label={`Select ${business.name} for export or a route`}
+                                className="mr-3 rounded text-indigo-600 focus:ring-indigo-500"
+                            />
+                        )}
+                        {score && (
+                            <span
+                                className={`mr-2 px-2 py-0.5 rounded-md text-sm font-semibold ${scoreBadgeClass(score.score)}`}
+                                title={score.breakdown.map(item => `${item.label}: ${item.points.toFixed(1)} / ${item.max}`).join('\n')}>
+                                {score.score}
+                            </span>
+                        )}
+                        {business.name}
+                    </h3>
                     <p className="text-sm text-gray-500 mt-1">{business.address}</p>
+                    {locationWarning && (
+                        <p className="inline-block text-xs font-medium text-amber-800 bg-amber-100 rounded px-1.5 py-0.5 mt-1" title="The map position may be wrong; check the address.">
+                            Check location: {locationWarning}
+                        </p>
+                    )}
                     <p className="text-xs text-gray-400 mt-1">{business.type}</p>
+                    {!business.website && (
+                        <p className="inline-block text-xs font-medium text-green-800 bg-green-100 rounded px-1.5 py-0.5 mt-1" title="A business without a website needs one built from scratch.">
+                            No website: top opportunity
+                        </p>
+                    )}
+                </div>
+                <div className="flex items-center space-x-2">
+                    <button
+                        onClick={() => onAudit(business)}
+                        disabled={!business.website || business.isAuditing}
+                        title="Check the website for things to fix, such as HTTPS, mobile support and broken links"
+                        className="flex items-center border border-indigo-500 text-indigo-600 font-semibold px-4 py-2 rounded-md hover:bg-indigo-50 transition disabled:border-gray-300 disabled:text-gray-400 disabled:bg-white disabled:cursor-not-allowed">
+                        {business.isAuditing ? <LoadingSpinner className="w-4 h-4 mr-2" /> : null}
+                        {business.isAuditing ? 'Auditing...' : 'Audit'}
+                    </button>
+                    <button 
+                        onClick={handleScrapeClick} 
+                        disabled={!business.website || business.isScraping}
+                        className="flex items-center bg-green-500 text-white font-semibold px-4 py-2 rounded-md hover:bg-green-600 transition disabled:bg-gray-300 disabled:cursor-not-allowed">
+                         {/* Show a loading spinner while scraping */}
+                         {business.isScraping ? <LoadingSpinner className="w-4 h-4 mr-2" /> : null}
+                         {business.isScraping ? 'Scraping...' : 'Scrape'}
+                    </button>
                 </div>
-                <button 
-                    onClick={handleScrapeClick} 
-                    disabled={!business.website || business.isScraping}
-                    className="flex items-center bg-green-500 text-white font-semibold px-4 py-2 rounded-md hover:bg-green-600 transition disabled:bg-gray-300 disabled:cursor-not-allowed">
-                     {/* Show a loading spinner while scraping */}
-                     {business.isScraping ? <LoadingSpinner className="w-4 h-4 mr-2" /> : null}
-                     {business.isScraping ? 'Scraping...' : 'Scrape'}
-                </button>
             </div>
             <div className="flex items-center space-x-4 text-sm text-gray-600 mt-3 pt-3 border-t border-gray-100">
-                {business.phone && <div className="flex items-center"><PhoneIcon className="w-4 h-4 mr-1.5 text-blue-500"/> {business.phone}</div>}
+                {business.phone && (
+                    <a href={`tel:${business.phone}`} className="flex items-center hover:underline">
+                        <PhoneIcon className="w-4 h-4 mr-1.5 text-blue-500"/> {formatPhone(business.phone)}
+                        {business.phoneType && PHONE_TYPE_LABELS[business.phoneType] && <span className="text-xs text-gray-400 ml-1.5">{PHONE_TYPE_LABELS[business.phoneType]}</span>}
+                    </a>
+                )}
                 {business.rating && business.reviews && (
                     <div className="flex items-center">
                         <StarIcon className="w-4 h-4 mr-1.5 text-yellow-400"/> 
@@ -121,6 +237,9 @@ export const ResultCard: React.FC<ResultCardProps> = ({ business, onScrape, isSe
                 {business.website && <a href={business.website} target="_blank" rel="noopener noreferrer" className="flex items-center text-blue-600 hover:underline"><WebsiteIcon className="w-4 h-4 mr-1.5"/> Website</a>}
             </div>
 
+            {/* Pipeline stage, tags and notes */}
+            <LeadPipelineEditor business={business} onChange={(changes) => onUpdatePipeline(business, changes)} />
+
             {/* Conditionally render an error message if scraping failed */}
             {business.scrapeError && (
                 <div className="mt-4 p-3 bg-red-50 text-red-700 border border-red-200 rounded-md text-sm">
@@ -128,12 +247,32 @@ export const ResultCard: React.FC<ResultCardProps> = ({ business, onScrape, isSe
                 </div>
             )}
 
+            {/* Conditionally render an error message if the audit failed */}
+            {business.auditError && (
+                <div className="mt-4 p-3 bg-red-50 text-red-700 border border-red-200 rounded-md text-sm">
+                    Audit failed: {business.auditError}
+                </div>
+            )}
+
+            {business.audit && <AuditSection audit={business.audit} />}
+
+            {/* Scraped contacts reused from the response cache can be scraped afresh */}
+            {business.scrapedData?.cachedAt && (
+                <p className="mt-4 text-xs text-gray-500">
+                    <span className="font-medium text-gray-600 bg-gray-100 rounded px-1.5 py-0.5 mr-1">Cached</span>
+                    Contacts from a scrape on {new Date(business.scrapedData.cachedAt).toLocaleDateString()}.
+                    <button onClick={() => onScrape(business, true)} disabled={business.isScraping} className="ml-1 text-indigo-600 hover:underline disabled:text-gray-400 disabled:no-underline">
+                        Refresh
+                    </button>
+                </p>
+            )}
+
             {/* Conditionally render the scraped data section if data exists */}
             {business.scrapedData && (
                 <div className="mt-4 pt-4 border-t border-gray-100 grid grid-cols-1 md:grid-cols-3 gap-6">
-                    <ScrapedDataSection title="Emails" items={business.scrapedData.emails} icon={<EmailIcon className="w-5 h-5" />} linkPrefix="mailto:" />
-                    <ScrapedDataSection title="Phone Numbers" items={business.scrapedData.phones} icon={<PhoneIcon className="w-5 h-5" />} linkPrefix="tel:" />
-                    <ScrapedDataSection title="Social Media" items={business.scrapedData.socials} icon={<SocialIcon className="w-5 h-5" />} isSocial={true} />
+                    <ScrapedDataSection title="Emails" items={business.scrapedData.emails} sources={business.scrapedData.sources} verifications={business.scrapedData.verifications} icon={<EmailIcon className="w-5 h-5" />} linkPrefix="mailto:" />
+                    <ScrapedDataSection title="Phone Numbers" items={business.scrapedData.phones} sources={business.scrapedData.sources} notes={phoneTypeLabels(business.scrapedData)} formatItem={formatPhone} icon={<PhoneIcon className="w-5 h-5" />} linkPrefix="tel:" />
+                    <ScrapedDataSection title="Social Media" items={business.scrapedData.socials} sources={business.scrapedData.sources} icon={<SocialIcon className="w-5 h-5" />} isSocial={true} />
                 </div>
             )}
         </div>
@@ -0,0 +1,111 @@
+/**
+ * @file RoutePlannerPanel.tsx
+ * This file contains the RoutePlannerPanel component, shown below the map. It plans a field-visit
+ * route through the selected leads, lists the stops in visiting order with estimated arrival times,
+ * and exports the route as GPX, KML or a printable itinerary.
+ */
+
+import React from 'react';
+import { PlannedRoute, RouteOptions, RouteStart } from '../types';
+import { ROUTE_STARTS } from '../services/routePlanner';
+
+/**
+ * Props for the RoutePlannerPanel component.
+ */
+interface RoutePlannerPanelProps {
+    selectedCount: number; // Number of leads ticked in the results or on the map.
+    availableStarts: RouteStart[]; // Start points that can be used right now.
+    options: RouteOptions; // The planning options.
+    onOptionsChange: (options: RouteOptions) => void; // Called when any option changes.
+    route: PlannedRoute | null; // The planned route, if any.
+    error: string | null; // Why the last plan failed, if it did.
+    onPlan: () => void; // Called when "Plan route" is clicked.
+    onExport: (format: 'gpx' | 'kml') => void; // Called to download the route.
+    onPrint: () => void; // Called to print the itinerary.
+    onSelectStop: (id: string) => void; // Called when a stop is clicked, to show it on the map.
+    onClear: () => void; // Called to remove the route from the map.
+    onClose: () => void; // Called to hide the panel.
+}
+
+const INPUT_CLASS = 'px-2 py-1 border border-gray-300 rounded-md bg-white focus:ring-indigo-500 focus:border-indigo-500';
+
+/**
+ * Route planning options, the planned stops and the route's exports.
+ */
+export const RoutePlannerPanel: React.FC<RoutePlannerPanelProps> = ({ selectedCount, availableStarts, options, onOptionsChange, route, error, onPlan, onExport, onPrint, onSelectStop, onClear, onClose }) => (
+    <div className="mt-4 p-4 border border-gray-200 rounded-md bg-gray-50 text-sm">
+        <div className="flex justify-between items-center mb-3">
+            <span className="font-semibold text-gray-700">Route planner</span>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-700" aria-label="Close route planner">×</button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-gray-700">
+            <label className="flex items-center">
+                <span className="mr-2">Start at</span>
+                <select value={options.start} onChange={(e) => onOptionsChange({ ...options, start: e.target.value as RouteStart })} className={INPUT_CLASS}>
+                    {ROUTE_STARTS.map(start => (
+                        <option key={start.id} value={start.id} disabled={!availableStarts.includes(start.id)}>{start.label}</option>
+                    ))}
+                </select>
+            </label>
+            <label className="flex items-center">
+                <span className="mr-2">Leave at</span>
+                <input type="time" value={options.startTime} onChange={(e) => onOptionsChange({ ...options, startTime: e.target.value })} className={INPUT_CLASS} />
+            </label>
+            <label className="flex items-center">
+                <input type="number" min={0} step={5} value={options.visitMinutes} onChange={(e) => onOptionsChange({ ...options, visitMinutes: Math.max(0, Number(e.target.value)) })} className={`${INPUT_CLASS} w-16 mr-2`} />
+                min per visit
+            </label>
+            <label className="flex items-center">
+                <input type="number" min={1} step={5} value={options.speedKmh} onChange={(e) => onOptionsChange({ ...options, speedKmh: Math.max(1, Number(e.target.value)) })} className={`${INPUT_CLASS} w-16 mr-2`} />
+                km/h average
+            </label>
+            <label className="flex items-center">
+                <input type="checkbox" checked={options.returnToStart} onChange={(e) => onOptionsChange({ ...options, returnToStart: e.target.checked })} className="mr-2 rounded text-indigo-600 focus:ring-indigo-500" />
+                Return to start
+            </label>
+            <button
+                onClick={onPlan}
+                disabled={selectedCount === 0}
+                className="bg-indigo-600 text-white font-semibold px-3 py-1.5 rounded-md hover:bg-indigo-700 transition disabled:bg-gray-300 disabled:cursor-not-allowed">
+                Plan route through {selectedCount} selected
+            </button>
+        </div>
+        {selectedCount === 0 && <p className="mt-2 text-gray-500">Tick leads in the results, or use "Select" in a map marker's popup, to add them to the route.</p>}
+        {error && <p className="mt-2 text-red-600">{error}</p>}
+
+        {route && (
+            <div className="mt-4">
+                <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                    <span className="text-gray-700">
+                        {route.stops.length} stops · {route.totalKm.toFixed(1)} km in straight lines · finish about {route.finish}
+                        {route.skipped > 0 && <span className="text-amber-700"> · {route.skipped} without coordinates left out</span>}
+                    </span>
+                    <div className="flex items-center space-x-3">
+                        <button onClick={() => onExport('gpx')} className="text-indigo-600 hover:underline">GPX</button>
+                        <button onClick={() => onExport('kml')} className="text-indigo-600 hover:underline">KML</button>
+                        <button onClick={onPrint} className="text-indigo-600 hover:underline">Print itinerary</button>
+                        <button onClick={onClear} className="text-red-500 hover:underline">Clear route</button>
+                    </div>
+                </div>
+                <ol className="divide-y divide-gray-200 border border-gray-200 rounded-md bg-white max-h-64 overflow-y-auto">
+                    <li className="px-3 py-2 text-gray-500">Start: {route.startLabel} at {options.startTime}</li>
+                    {route.stops.map((stop, i) => (
+                        <li key={stop.lead.id}>
+                            <button onClick={() => onSelectStop(stop.lead.id)} className="w-full flex items-start px-3 py-2 text-left hover:bg-indigo-50">
+                                <span className="w-6 font-semibold text-indigo-600">{i + 1}</span>
+                                <span className="w-14 text-gray-500">{stop.arrival}</span>
+                                <span className="flex-1 min-w-0">
+                                    <span className="block font-medium text-gray-800 truncate">{stop.lead.name}</span>
+                                    <span className="block text-gray-500 truncate">{stop.lead.address}</span>
+                                </span>
+                                <span className="ml-2 text-gray-400">{stop.legKm.toFixed(1)} km</span>
+                            </button>
+                        </li>
+                    ))}
+                    {route.returnLegKm !== null && <li className="px-3 py-2 text-gray-500">Back to start · {route.returnLegKm.toFixed(1)} km</li>}
+                </ol>
+            </div>
+        )}
+    </div>
+);
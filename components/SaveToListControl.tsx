@@ -0,0 +1,81 @@
+/**
+ * @file SaveToListControl.tsx
+ * This file contains the SaveToListControl component, which lets the user save the current
+ * results into an existing named list or a new one in the local lead database.
+ */
+
+import React, { useState } from 'react';
+import { LeadList } from '../types';
+import { LoadingSpinner } from './icons';
+
+// Select value used for the "create a new list" option.
+const NEW_LIST_VALUE = '__new__';
+
+/**
+ * Props for the SaveToListControl component.
+ */
+interface SaveToListControlProps {
+    lists: LeadList[]; // The existing lists to choose from.
+    leadCount: number; // How many leads will be saved, shown on the button.
+    onSave: (target: { listId: string } | { newListName: string }) => Promise<string>; // Saves the leads and resolves to a status message.
+}
+
+/**
+ * A list picker and "Save" button for saving the current results.
+ */
+export const SaveToListControl: React.FC<SaveToListControlProps> = ({ lists, leadCount, onSave }) => {
+    const [selected, setSelected] = useState(lists[0]?.id ?? NEW_LIST_VALUE); // Chosen list ID, or NEW_LIST_VALUE.
+    const [newListName, setNewListName] = useState(''); // Name typed for a new list.
+    const [isSaving, setIsSaving] = useState(false);
+    const [status, setStatus] = useState<string | null>(null); // Result of the last save, shown briefly.
+
+    // Fall back to "new list" if the selected list was deleted.
+    const selectedValue = selected === NEW_LIST_VALUE || lists.some(list => list.id === selected) ? selected : NEW_LIST_VALUE;
+    const isCreating = selectedValue === NEW_LIST_VALUE;
+
+    const handleSave = async () => {
+        if (isCreating && !newListName.trim()) return;
+        setIsSaving(true);
+        try {
+            const message = await onSave(isCreating ? { newListName } : { listId: selectedValue });
+            setStatus(message);
+            setNewListName('');
+        } catch (err) {
+            setStatus(err instanceof Error ? err.message : 'Saving failed.');
+        } finally {
+            setIsSaving(false);
+            // Clear the status message after a few seconds.
+            setTimeout(() => setStatus(null), 4000);
+        }
+    };
+
+    return (
+        <div className="flex items-center space-x-2">
+            {status && <span className="text-sm text-gray-500">{status}</span>}
+            <select
+                value={selectedValue}
+                onChange={(e) => setSelected(e.target.value)}
+                aria-label="Save to list"
+                className="px-3 py-2 border border-gray-300 rounded-md bg-white text-sm focus:ring-indigo-500 focus:border-indigo-500">
+                {lists.map(list => <option key={list.id} value={list.id}>{list.name}</option>)}
+                <option value={NEW_LIST_VALUE}>+ New list…</option>
+            </select>
+            {isCreating && (
+                <input
+                    type="text"
+                    value={newListName}
+                    onChange={(e) => setNewListName(e.target.value)}
+                    placeholder="List name"
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500 w-40"
+                />
+            )}
+            <button
+                onClick={handleSave}
+                disabled={isSaving || (isCreating && !newListName.trim())}
+                className="flex items-center bg-indigo-100 text-indigo-700 font-semibold px-4 py-2 rounded-md hover:bg-indigo-200 transition disabled:bg-gray-200 disabled:text-gray-500 disabled:cursor-not-allowed">
+                {isSaving && <LoadingSpinner className="w-4 h-4 mr-2" />}
+                Save {leadCount}
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,164 @@
+/**
+ * @file SavedLeadsPanel.tsx
+ * This file contains the SavedLeadsPanel component, the "Saved Leads" tab. It lets the user browse
+ * the named lists in the local lead database, search saved leads, remove them, manage lists,
+ * export them, and reopen leads in the "Current Results" view.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Business, LeadList } from '../types';
+import { removeLeadsFromList, searchSavedLeads } from '../services/leadStore';
+import { EmailIcon, LoadingSpinner } from './icons';
+
+/**
+ * Props for the SavedLeadsPanel component.
+ */
+interface SavedLeadsPanelProps {
+    lists: LeadList[]; // All saved lists.
+    onOpenLeads: (leads: Business[]) => void; // Shows the given leads in "Current Results".
+    onExportLeads: (leads: Business[], label: string) => void; // Opens the export dialog for the given leads.
+    onRenameList: (listId: string, name: string) => Promise<void>; // Renames a list.
+    onDeleteList: (listId: string) => Promise<void>; // Deletes a list.
+    onListsChanged: () => void; // Called after leads were removed, so list counts can be refreshed.
+}
+
+/**
+ * The "Saved Leads" tab: lists on the left, the selected list's leads on the right.
+ */
+export const SavedLeadsPanel: React.FC<SavedLeadsPanelProps> = ({ lists, onOpenLeads, onExportLeads, onRenameList, onDeleteList, onListsChanged }) => {
+    const [selectedListId, setSelectedListId] = useState<string | null>(null); // null shows all saved leads.
+    const [filterText, setFilterText] = useState(''); // Search text for the saved leads.
+    const [leads, setLeads] = useState<Business[]>([]); // Leads matching the current list and search.
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const selectedList = lists.find(list => list.id === selectedListId) ?? null;
+
+    // Reload the displayed leads whenever the list, search text or stored lists change.
+    useEffect(() => {
+        let cancelled = false;
+        setIsLoading(true);
+        searchSavedLeads(filterText, selectedList?.id ?? null)
+            .then(result => {
+                if (!cancelled) {
+                    setLeads(result);
+                    setError(null);
+                }
+            })
+            .catch(err => {
+                console.error("Failed to load saved leads", err);
+                if (!cancelled) setError('Could not read the saved leads database.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => { cancelled = true; };
+    }, [filterText, selectedList?.id, lists]);
+
+    const handleRename = async () => {
+        if (!selectedList) return;
+        const name = prompt('Rename list', selectedList.name);
+        if (name && name.trim()) {
+            await onRenameList(selectedList.id, name);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!selectedList) return;
+        if (confirm(`Delete the list "${selectedList.name}"? Leads that are not in another list will be deleted too.`)) {
+            await onDeleteList(selectedList.id);
+            setSelectedListId(null);
+        }
+    };
+
+    const handleRemoveLead = async (leadId: string) => {
+        if (!selectedList) return;
+        await removeLeadsFromList(selectedList.id, [leadId]);
+        onListsChanged();
+    };
+
+    // Classes for an entry in the list navigation.
+    const listButtonClass = (isActive: boolean) =>
+        `w-full text-left px-3 py-2 rounded-md text-sm flex justify-between items-center ${isActive ? 'bg-indigo-50 text-indigo-700 font-semibold' : 'text-gray-700 hover:bg-gray-100'}`;
+
+    return (
+        <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+            <h2 className="text-lg font-semibold text-gray-700 mb-4">Saved Leads</h2>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                {/* List navigation */}
+                <nav className="space-y-1">
+                    <button onClick={() => setSelectedListId(null)} className={listButtonClass(selectedList === null)}>
+                        <span>All saved leads</span>
+                    </button>
+                    {lists.map(list => (
+                        <button key={list.id} onClick={() => setSelectedListId(list.id)} className={listButtonClass(list.id === selectedList?.id)}>
+                            <span className="truncate">{list.name}</span>
+                            <span className="text-xs text-gray-400 ml-2">{list.leadIds.length}</span>
+                        </button>
+                    ))}
+                    {lists.length === 0 && <p className="text-sm text-gray-500 px-3 py-2">No lists yet. Save results from the "Current Results" tab.</p>}
+                </nav>
+
+                {/* Leads in the selected list */}
+                <div className="md:col-span-3">
+                    <div className="flex items-center space-x-3 mb-4">
+                        <input
+                            type="text"
+                            value={filterText}
+                            onChange={(e) => setFilterText(e.target.value)}
+                            placeholder={`Search ${selectedList ? selectedList.name : 'all saved leads'}…`}
+                            className="flex-grow px-4 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                        />
+                        <button
+                            onClick={() => onOpenLeads(leads)}
+                            disabled={leads.length === 0}
+                            className="bg-indigo-600 text-white font-semibold px-4 py-2 rounded-md hover:bg-indigo-700 transition disabled:bg-gray-300 disabled:cursor-not-allowed whitespace-nowrap">
+                            Open {leads.length} in Current Results
+                        </button>
+                        <button
+                            onClick={() => onExportLeads(leads, `Saved leads in ${selectedList ? `"${selectedList.name}"` : 'all lists'}${filterText ? ` matching "${filterText}"` : ''}`)}
+                            disabled={leads.length === 0}
+                            className="bg-gray-100 text-gray-700 font-semibold px-4 py-2 rounded-md hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap">
+                            Export
+                        </button>
+                    </div>
+                    {selectedList && (
+                        <div className="flex space-x-4 mb-4 text-sm">
+                            <button onClick={handleRename} className="text-indigo-600 hover:underline">Rename list</button>
+                            <button onClick={handleDelete} className="text-red-500 hover:underline">Delete list</button>
+                        </div>
+                    )}
+
+                    {isLoading && <div className="text-center py-6"><LoadingSpinner className="w-6 h-6 mx-auto text-indigo-600" /></div>}
+                    {error && <div className="text-center py-6 text-red-500">{error}</div>}
+                    {!isLoading && !error && leads.length === 0 && (
+                        <p className="text-gray-500 text-center py-8">{filterText ? 'No saved leads match your search.' : 'No leads saved here yet.'}</p>
+                    )}
+                    {!isLoading && leads.length > 0 && (
+                        <ul className="divide-y divide-gray-200">
+                            {leads.map(lead => (
+                                <li key={lead.id} className="py-3 flex justify-between items-center">
+                                    <div className="min-w-0">
+                                        <p className="font-medium text-gray-800 truncate">{lead.name}</p>
+                                        <p className="text-sm text-gray-500 truncate">{lead.address}</p>
+                                        <p className="text-xs text-gray-400">{lead.type}</p>
+                                    </div>
+                                    <div className="flex items-center space-x-4 ml-4 flex-shrink-0">
+                                        {lead.scrapedData && (
+                                            <span className="flex items-center text-sm text-gray-500" title="Scraped emails">
+                                                <EmailIcon className="w-4 h-4 mr-1" /> {lead.scrapedData.emails.length}
+                                            </span>
+                                        )}
+                                        {selectedList && (
+                                            <button onClick={() => handleRemoveLead(lead.id)} className="text-sm text-red-500 hover:underline">Remove</button>
+                                        )}
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
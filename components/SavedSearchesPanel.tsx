@@ -0,0 +1,75 @@
+/**
+ * @file SavedSearchesPanel.tsx
+ * This file contains the SavedSearchesPanel component, the "Saved Searches" tab. It lists the
+ * searches kept for re-running, with when they last ran and what changed then, and lets the user
+ * run one again to see what is new, reopen its last results, rename it or delete it.
+ */
+
+import React from 'react';
+import { Business, SavedSearch } from '../types';
+
+/**
+ * Props for the SavedSearchesPanel component.
+ */
+interface SavedSearchesPanelProps {
+    searches: SavedSearch[]; // The saved searches, most recently run first.
+    isSearching: boolean; // True while a search is running, which disables "Run again".
+    onRun: (search: SavedSearch) => void; // Runs the search again and shows what changed.
+    onOpenLeads: (leads: Business[]) => void; // Shows the given leads in "Current Results".
+    onRename: (search: SavedSearch, name: string) => Promise<void>; // Renames a saved search.
+    onDelete: (search: SavedSearch) => Promise<void>; // Deletes a saved search.
+}
+
+/**
+ * The "Saved Searches" tab.
+ */
+export const SavedSearchesPanel: React.FC<SavedSearchesPanelProps> = ({ searches, isSearching, onRun, onOpenLeads, onRename, onDelete }) => {
+    const handleRename = async (search: SavedSearch) => {
+        const name = prompt('Rename saved search', search.name);
+        if (name && name.trim()) {
+            await onRename(search, name.trim());
+        }
+    };
+
+    const handleDelete = async (search: SavedSearch) => {
+        if (confirm(`Delete the saved search "${search.name}"?`)) {
+            await onDelete(search);
+        }
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+            <h2 className="text-lg font-semibold text-gray-700 mb-4">Saved Searches</h2>
+            {searches.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No saved searches yet. Run a search, then use "Save this search" above its results to check it for changes later.</p>
+            ) : (
+                <ul className="divide-y divide-gray-200">
+                    {searches.map(search => (
+                        <li key={search.id} className="py-3 flex justify-between items-center">
+                            <div className="min-w-0">
+                                <p className="font-medium text-gray-800 truncate">{search.name}</p>
+                                {search.name !== search.query && <p className="text-sm text-gray-600 truncate">{search.query}</p>}
+                                <p className="text-sm text-gray-500">
+                                    {search.leads.length} results on {new Date(search.lastRunAt).toLocaleString()}
+                                    {search.area && ' · in a map area'}
+                                    {search.lastChanges && ` · last run: ${search.lastChanges.added} new, ${search.lastChanges.removed} gone, ${search.lastChanges.changed} changed`}
+                                </p>
+                            </div>
+                            <div className="flex items-center space-x-4 ml-4 flex-shrink-0 text-sm">
+                                <button onClick={() => onOpenLeads(search.leads)} className="text-indigo-600 hover:underline">Open last results</button>
+                                <button onClick={() => handleRename(search)} className="text-indigo-600 hover:underline">Rename</button>
+                                <button onClick={() => handleDelete(search)} className="text-red-500 hover:underline">Delete</button>
+                                <button
+                                    onClick={() => onRun(search)}
+                                    disabled={isSearching}
+                                    className="bg-gray-100 text-gray-700 font-semibold px-4 py-1.5 rounded-md hover:bg-gray-200 transition disabled:opacity-50 disabled:cursor-not-allowed">
+                                    Run again
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,117 @@
+/**
+ * @file ScoringSettingsPanel.tsx
+ * This file contains the ScoringSettingsPanel component, where the user turns lead scoring rules
+ * on and off, sets their weights, and adjusts each rule's parameters.
+ */
+
+import React, { useState } from 'react';
+import { ScoringConfig, ScoringRuleId } from '../types';
+import { DEFAULT_SCORING_CONFIG, SCORING_RULES } from '../services/leadScoring';
+
+/**
+ * Props for the ScoringSettingsPanel component.
+ */
+interface ScoringSettingsPanelProps {
+    config: ScoringConfig; // The current settings.
+    onChange: (config: ScoringConfig) => void; // Called with the updated settings on every edit.
+    hasLocation: boolean; // Whether the user's location is known, which the distance rule needs.
+}
+
+// Classes shared by the small number inputs.
+const NUMBER_INPUT_CLASS = 'w-20 px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500';
+
+/**
+ * Editor for the lead scoring rules and weights.
+ */
+export const ScoringSettingsPanel: React.FC<ScoringSettingsPanelProps> = ({ config, onChange, hasLocation }) => {
+    // Keywords are edited as free text and split when committed, so typing a comma doesn't fight the input.
+    const [keywordText, setKeywordText] = useState(config.categoryKeywords.join(', '));
+
+    const updateRule = (id: ScoringRuleId, changes: Partial<ScoringConfig['rules'][ScoringRuleId]>) => {
+        onChange({ ...config, rules: { ...config.rules, [id]: { ...config.rules[id], ...changes } } });
+    };
+
+    const commitKeywords = () => {
+        const keywords = keywordText.split(',').map(keyword => keyword.trim()).filter(Boolean);
+        onChange({ ...config, categoryKeywords: keywords });
+    };
+
+    const handleReset = () => {
+        setKeywordText(DEFAULT_SCORING_CONFIG.categoryKeywords.join(', '));
+        onChange(DEFAULT_SCORING_CONFIG);
+    };
+
+    // The parameter editor shown next to each rule.
+    const renderParameter = (id: ScoringRuleId) => {
+        switch (id) {
+            case 'rating':
+                return <label>Scores from <input type="number" min={0} max={4.5} step={0.5} value={config.minRating} onChange={(e) => onChange({ ...config, minRating: Number(e.target.value) })} className={NUMBER_INPUT_CLASS} /> stars</label>;
+            case 'reviews':
+                return <label>Full points at <input type="number" min={1} value={config.reviewTarget} onChange={(e) => onChange({ ...config, reviewTarget: Number(e.target.value) })} className={NUMBER_INPUT_CLASS} /> reviews</label>;
+            case 'website':
+                return (
+                    <select value={config.websitePreference} onChange={(e) => onChange({ ...config, websitePreference: e.target.value as ScoringConfig['websitePreference'] })} className="px-2 py-1 border border-gray-300 rounded-md bg-white text-sm">
+                        <option value="has">Prefer leads with a website</option>
+                        <option value="lacks">Prefer leads without a website</option>
+                    </select>
+                );
+            case 'verifiedEmails':
+                return <label>Full points at <input type="number" min={1} value={config.emailTarget} onChange={(e) => onChange({ ...config, emailTarget: Number(e.target.value) })} className={NUMBER_INPUT_CLASS} /> valid emails</label>;
+            case 'distance':
+                return (
+                    <label>
+                        Nothing beyond <input type="number" min={1} value={config.maxDistanceKm} onChange={(e) => onChange({ ...config, maxDistanceKm: Number(e.target.value) })} className={NUMBER_INPUT_CLASS} /> km
+                        {!hasLocation && <span className="ml-2 text-amber-600">Needs your location</span>}
+                    </label>
+                );
+            case 'category':
+                return (
+                    <input
+                        type="text"
+                        value={keywordText}
+                        onChange={(e) => setKeywordText(e.target.value)}
+                        onBlur={commitKeywords}
+                        onKeyDown={(e) => { if (e.key === 'Enter') commitKeywords(); }}
+                        placeholder="e.g. dentist, orthodontist"
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                );
+        }
+    };
+
+    return (
+        <div className="mb-4 p-4 border border-gray-200 rounded-md bg-gray-50 text-sm">
+            <div className="flex justify-between items-center mb-3">
+                <h3 className="font-semibold text-gray-700">Lead scoring</h3>
+                <button onClick={handleReset} className="text-indigo-600 hover:underline">Reset to defaults</button>
+            </div>
+            <div className="space-y-3">
+                {SCORING_RULES.map(rule => {
+                    const { enabled, weight } = config.rules[rule.id];
+                    return (
+                        <div key={rule.id} className="grid grid-cols-1 md:grid-cols-12 gap-2 items-center">
+                            <label className="md:col-span-3 flex items-center font-medium text-gray-700" title={rule.description}>
+                                <input type="checkbox" checked={enabled} onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })} className="mr-2 rounded text-indigo-600 focus:ring-indigo-500" />
+                                {rule.label}
+                            </label>
+                            <div className="md:col-span-3 flex items-center space-x-2">
+                                <input
+                                    type="range"
+                                    min={0}
+                                    max={10}
+                                    value={weight}
+                                    disabled={!enabled}
+                                    onChange={(e) => updateRule(rule.id, { weight: Number(e.target.value) })}
+                                    aria-label={`${rule.label} weight`}
+                                    className="flex-grow"
+                                />
+                                <span className="w-6 text-right text-gray-500">{weight}</span>
+                            </div>
+                            <div className={`md:col-span-6 text-gray-600 ${enabled ? '' : 'opacity-50'}`}>{renderParameter(rule.id)}</div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
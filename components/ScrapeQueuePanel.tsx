@@ -0,0 +1,70 @@
+/**
+ * @file ScrapeQueuePanel.tsx
+ * This file contains the ScrapeQueuePanel component, shown above the results while "Scrape All"
+ * is running or has finished. It shows overall progress and lets the user pause, resume or
+ * cancel the run, and retry the websites that failed.
+ */
+
+import React from 'react';
+import { ScrapeQueueState } from '../types';
+import { LoadingSpinner } from './icons';
+
+/**
+ * Props for the ScrapeQueuePanel component.
+ */
+interface ScrapeQueuePanelProps {
+    state: ScrapeQueueState; // The queue's current progress.
+    onPause: () => void;
+    onResume: () => void;
+    onCancel: () => void;
+    onRetryFailed: () => void;
+    onDismiss: () => void; // Hides the panel once the run is over.
+}
+
+// Headline for each queue status.
+const STATUS_LABELS: Record<ScrapeQueueState['status'], string> = {
+    running: 'Scraping websites…',
+    paused: 'Scraping paused',
+    cancelled: 'Scraping cancelled',
+    finished: 'Scraping finished',
+};
+
+/**
+ * Progress bar and controls for a "Scrape All" run.
+ */
+export const ScrapeQueuePanel: React.FC<ScrapeQueuePanelProps> = ({ state, onPause, onResume, onCancel, onRetryFailed, onDismiss }) => {
+    const { status, total, done, failed, remaining, retrying } = state;
+    const isActive = status === 'running' || status === 'paused';
+    // Width of a segment of the progress bar, as a percentage of the run.
+    const percent = (count: number) => `${total > 0 ? (count / total) * 100 : 0}%`;
+
+    return (
+        <div className="mb-4 p-4 border border-gray-200 rounded-md bg-gray-50 text-sm">
+            <div className="flex justify-between items-center mb-2">
+                <span className="flex items-center font-semibold text-gray-700">
+                    {status === 'running' && <LoadingSpinner className="w-4 h-4 mr-2 text-green-600" />}
+                    {STATUS_LABELS[status]}
+                </span>
+                <div className="flex items-center space-x-3">
+                    {status === 'running' && <button onClick={onPause} className="text-indigo-600 hover:underline">Pause</button>}
+                    {status === 'paused' && <button onClick={onResume} className="text-indigo-600 hover:underline">Resume</button>}
+                    {isActive && <button onClick={onCancel} className="text-red-500 hover:underline">Cancel</button>}
+                    {failed > 0 && <button onClick={onRetryFailed} className="text-indigo-600 hover:underline">Retry failed</button>}
+                    {!isActive && <button onClick={onDismiss} className="text-gray-400 hover:text-gray-700" aria-label="Dismiss">×</button>}
+                </div>
+            </div>
+            <div className="flex h-2 rounded-full overflow-hidden bg-gray-200">
+                <div className="bg-green-500 transition-all" style={{ width: percent(done) }} />
+                <div className="bg-red-400 transition-all" style={{ width: percent(failed) }} />
+            </div>
+            <p className="mt-2 text-gray-500">
+                <span className="text-green-700">{done} done</span>
+                {' · '}
+                <span className={failed > 0 ? 'text-red-600' : ''}>{failed} failed</span>
+                {' · '}
+                {remaining} remaining
+                {retrying > 0 && ` (${retrying} waiting to retry)`}
+            </p>
+        </div>
+    );
+};
@@ -0,0 +1,72 @@
+/**
+ * @file SearchAreaToolbar.tsx
+ * This file contains the SearchAreaToolbar component, shown above the map. It switches the map into
+ * drawing a circle, a polygon, or dropping a pin with a radius, and shows or clears the current search area.
+ */
+
+import React from 'react';
+import { SearchArea } from '../types';
+import { SEARCH_RADIUS_OPTIONS, summariseArea } from '../services/searchArea';
+
+/**
+ * The ways a search area can be drawn on the map.
+ */
+export type AreaDrawMode = 'circle' | 'polygon' | 'pin';
+
+/**
+ * Props for the SearchAreaToolbar component.
+ */
+interface SearchAreaToolbarProps {
+    area: SearchArea | null; // The current search area, if any.
+    drawMode: AreaDrawMode | null; // The shape being drawn, if any.
+    onDrawModeChange: (mode: AreaDrawMode | null) => void; // Called to start or stop drawing.
+    radiusKm: number; // The radius used when dropping a pin.
+    onRadiusChange: (radiusKm: number) => void; // Called when a different radius is picked.
+    onClear: () => void; // Called when the "Clear area" button is clicked.
+}
+
+// Instructions shown while drawing each shape.
+const DRAW_HINTS: Record<AreaDrawMode, string> = {
+    circle: 'Click the centre, then click again to set the radius. Esc cancels.',
+    polygon: 'Click to add corners, double-click to finish. Esc cancels.',
+    pin: 'Click the map to drop the pin. Esc cancels.',
+};
+
+const MODE_LABELS: Record<AreaDrawMode, string> = {
+    circle: 'Circle',
+    polygon: 'Polygon',
+    pin: 'Pin',
+};
+
+/**
+ * Drawing controls and a summary of the search area.
+ */
+export const SearchAreaToolbar: React.FC<SearchAreaToolbarProps> = ({ area, drawMode, onDrawModeChange, radiusKm, onRadiusChange, onClear }) => (
+    <div className="mb-3 flex flex-wrap items-center gap-2 text-sm">
+        <span className="font-medium text-gray-600">Search area:</span>
+        {(Object.keys(MODE_LABELS) as AreaDrawMode[]).map(mode => (
+            <button
+                key={mode}
+                onClick={() => onDrawModeChange(drawMode === mode ? null : mode)}
+                className={`px-3 py-1 rounded-md border ${drawMode === mode ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`}>
+                {MODE_LABELS[mode]}
+            </button>
+        ))}
+        <select
+            value={radiusKm}
+            onChange={(e) => onRadiusChange(Number(e.target.value))}
+            aria-label="Pin radius"
+            title="Radius used when dropping a pin"
+            className="px-2 py-1 border border-gray-300 rounded-md bg-white focus:ring-indigo-500 focus:border-indigo-500">
+            {SEARCH_RADIUS_OPTIONS.map(km => <option key={km} value={km}>{km < 1 ? `${km * 1000} m` : `${km} km`}</option>)}
+        </select>
+        {area && (
+            <>
+                <span className="text-gray-500 truncate">{summariseArea(area)}</span>
+                <button onClick={onClear} className="text-red-500 hover:underline">Clear area</button>
+            </>
+        )}
+        {drawMode && <p className="w-full text-indigo-700">{DRAW_HINTS[drawMode]}</p>}
+        {!drawMode && !area && <p className="w-full text-gray-400">Draw an area to limit searches to it; results outside it are dropped.</p>}
+    </div>
+);
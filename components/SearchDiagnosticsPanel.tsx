@@ -0,0 +1,77 @@
+/**
+ * @file SearchDiagnosticsPanel.tsx
+ * This file contains the SearchDiagnosticsPanel component, which summarises how the last
+ * search's responses (or imported file's rows) were parsed: how many entries were received, kept, dropped as duplicates
+ * or rejected, and why. It explains why the same query can yield different lead counts, and shows
+ * how many responses came from the response cache.
+ */
+
+import React, { useState } from 'react';
+import { SearchDiagnostics } from '../types';
+
+/**
+ * Props for the SearchDiagnosticsPanel component.
+ */
+interface SearchDiagnosticsPanelProps {
+    diagnostics: SearchDiagnostics; // The report for the most recent search.
+    onRefresh?: () => void; // Runs the search again without the cache; offered when responses came from it.
+}
+
+/**
+ * A compact summary of a search's parse diagnostics, with an expandable list of problem entries.
+ */
+export const SearchDiagnosticsPanel: React.FC<SearchDiagnosticsPanelProps> = ({ diagnostics, onRefresh }) => {
+    // Whether the list of individual issues is expanded.
+    const [isExpanded, setIsExpanded] = useState(false);
+
+    const rejected = diagnostics.issues.filter(issue => issue.severity === 'rejected').length;
+    const partial = diagnostics.issues.length - rejected;
+    const hasIssues = diagnostics.issues.length > 0;
+
+    return (
+        <div className={`mb-4 p-3 rounded-md border text-sm ${hasIssues || diagnostics.markdownFallbacks > 0 ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-gray-50 border-gray-200 text-gray-600'}`}>
+            <div className="flex justify-between items-center">
+                <p>
+                    {diagnostics.fileName
+                        ? <>{diagnostics.received} rows imported from {diagnostics.fileName}</>
+                        : <>{diagnostics.received} entries received from {diagnostics.responses} {diagnostics.responses === 1 ? 'request' : 'requests'}</>}
+                    {' · '}{diagnostics.accepted} valid
+                    {diagnostics.duplicates > 0 && <>{' · '}{diagnostics.duplicates} duplicates</>}
+                    {diagnostics.outsideArea > 0 && <>{' · '}{diagnostics.outsideArea} outside the search area</>}
+                    {rejected > 0 && <>{' · '}{rejected} rejected</>}
+                    {partial > 0 && <>{' · '}{partial} partly invalid</>}
+                    {diagnostics.markdownFallbacks > 0 && <>{' · '}{diagnostics.markdownFallbacks} parsed from markdown</>}
+                    {diagnostics.cachedResponses > 0 && <>{' · '}{diagnostics.cachedResponses === diagnostics.responses ? 'all' : diagnostics.cachedResponses} from cache</>}
+                </p>
+                <div className="flex items-center ml-4 space-x-3 whitespace-nowrap">
+                    {onRefresh && diagnostics.cachedResponses > 0 && (
+                        <button onClick={onRefresh} className="font-semibold hover:underline" title="Search again, asking the API instead of reusing cached results">
+                            Refresh
+                        </button>
+                    )}
+                    {hasIssues && (
+                        <button onClick={() => setIsExpanded(prev => !prev)} className="font-semibold hover:underline">
+                            {isExpanded ? 'Hide details' : 'Show details'}
+                        </button>
+                    )}
+                </div>
+            </div>
+            {isExpanded && (
+                <ul className="mt-3 space-y-1 max-h-60 overflow-y-auto">
+                    {diagnostics.issues.map((issue, index) => (
+                        <li key={index} className="flex">
+                            <span className={`font-semibold mr-2 ${issue.severity === 'rejected' ? 'text-red-600' : 'text-amber-700'}`}>
+                                {issue.severity === 'rejected' ? 'Rejected' : 'Partial'}
+                            </span>
+                            <span>
+                                {issue.name ?? `Entry ${issue.index + 1}`}
+                                {issue.round != null && <span className="text-gray-500"> (request {issue.round})</span>}
+                                : {issue.reasons.join(', ')}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
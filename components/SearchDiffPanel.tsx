@@ -0,0 +1,89 @@
+/**
+ * @file SearchDiffPanel.tsx
+ * This file contains the SearchDiffPanel component, shown above the results after a saved search is
+ * run again. It lists what changed since the previous run: new businesses, businesses that are no
+ * longer found, and businesses whose name, address, phone number, website or rating changed.
+ */
+
+import React, { useState } from 'react';
+import { LeadFieldChange, SearchDiff } from '../types';
+import { DIFF_FIELDS } from '../services/searchDiff';
+
+/**
+ * Props for the SearchDiffPanel component.
+ */
+interface SearchDiffPanelProps {
+    diff: SearchDiff; // The changes to show.
+    onSelectLead: (id: string) => void; // Called when a new or changed business is clicked, to show it on the map.
+    onDismiss: () => void; // Called to hide the panel.
+}
+
+const fieldLabel = (change: LeadFieldChange): string => DIFF_FIELDS.find(f => f.id === change.field)?.label ?? change.field;
+
+/**
+ * A summary of what a saved search's latest run found had changed, expandable into the details.
+ */
+export const SearchDiffPanel: React.FC<SearchDiffPanelProps> = ({ diff, onSelectLead, onDismiss }) => {
+    // Whether the lists of businesses are expanded.
+    const [isExpanded, setIsExpanded] = useState(true);
+    const hasChanges = diff.added.length + diff.removed.length + diff.changed.length > 0;
+
+    return (
+        <div className="mb-4 p-3 rounded-md border text-sm bg-indigo-50 border-indigo-200 text-indigo-900">
+            <div className="flex justify-between items-center">
+                <p>
+                    <span className="font-semibold">{diff.searchName}</span> since {new Date(diff.previousRunAt).toLocaleDateString()}:
+                    {' '}{diff.added.length} new · {diff.removed.length} gone · {diff.changed.length} changed · {diff.unchanged} unchanged
+                </p>
+                <div className="flex items-center ml-4 space-x-3 whitespace-nowrap">
+                    {hasChanges && (
+                        <button onClick={() => setIsExpanded(prev => !prev)} className="font-semibold hover:underline">
+                            {isExpanded ? 'Hide details' : 'Show details'}
+                        </button>
+                    )}
+                    <button onClick={onDismiss} aria-label="Dismiss changes" className="text-indigo-400 hover:text-indigo-700">×</button>
+                </div>
+            </div>
+            {isExpanded && hasChanges && (
+                <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-4 max-h-72 overflow-y-auto">
+                    <div>
+                        <h4 className="font-semibold text-green-700 mb-1">New ({diff.added.length})</h4>
+                        <ul className="space-y-1">
+                            {diff.added.map(lead => (
+                                <li key={lead.id}>
+                                    <button onClick={() => onSelectLead(lead.id)} className="text-left hover:underline">{lead.name}</button>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                    <div>
+                        <h4 className="font-semibold text-red-700 mb-1">No longer found ({diff.removed.length})</h4>
+                        <ul className="space-y-1">
+                            {diff.removed.map(lead => (
+                                <li key={lead.id} title={lead.address}>
+                                    {lead.name}
+                                    <span className="block text-xs text-indigo-700/70 truncate">{lead.address}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                    <div>
+                        <h4 className="font-semibold text-amber-700 mb-1">Changed ({diff.changed.length})</h4>
+                        <ul className="space-y-2">
+                            {diff.changed.map(({ lead, changes }) => (
+                                <li key={lead.id}>
+                                    <button onClick={() => onSelectLead(lead.id)} className="text-left hover:underline">{lead.name}</button>
+                                    {changes.map(change => (
+                                        <span key={change.field} className="block text-xs">
+                                            {fieldLabel(change)}: <span className="line-through text-indigo-700/70">{change.before ?? 'none'}</span> → {change.after ?? 'none'}
+                                        </span>
+                                    ))}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
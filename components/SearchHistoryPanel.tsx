@@ -0,0 +1,88 @@
+/**
+ * @file SearchHistoryPanel.tsx
+ * This file contains the SearchHistoryPanel component, the "Search History" tab. Entries whose
+ * results were kept can be reopened instantly without searching again; "Rerun" searches again for
+ * fresh results. The history can be searched, and entries deleted one by one or all at once.
+ */
+
+import React, { useState } from 'react';
+import { SearchHistoryItem } from '../types';
+
+/**
+ * Props for the SearchHistoryPanel component.
+ */
+interface SearchHistoryPanelProps {
+    history: SearchHistoryItem[]; // Past searches, most recent first.
+    activeId: string | null; // The entry whose results are in "Current Results", if any.
+    onOpen: (item: SearchHistoryItem) => void; // Shows the entry's kept results in "Current Results".
+    onRerun: (item: SearchHistoryItem) => void; // Searches for the entry's query again.
+    onDelete: (item: SearchHistoryItem) => void; // Removes the entry and its kept results.
+    onClear: () => void; // Removes every entry.
+}
+
+/**
+ * The "Search History" tab.
+ */
+export const SearchHistoryPanel: React.FC<SearchHistoryPanelProps> = ({ history, activeId, onOpen, onRerun, onDelete, onClear }) => {
+    const [filterText, setFilterText] = useState(''); // Search text for the history.
+
+    const needle = filterText.trim().toLowerCase();
+    const shown = needle ? history.filter(item => item.query.toLowerCase().includes(needle)) : history;
+
+    const handleClear = () => {
+        if (confirm('Clear the whole search history, including the kept results?')) onClear();
+    };
+
+    return (
+        <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-semibold text-gray-700">Search History</h2>
+                {history.length > 0 &&
+                    <button onClick={handleClear} className="text-sm text-red-500 hover:underline">Clear History</button>}
+            </div>
+            {history.length > 0 && (
+                <input
+                    type="text"
+                    value={filterText}
+                    onChange={(e) => setFilterText(e.target.value)}
+                    placeholder="Search history…"
+                    className="w-full mb-4 px-4 py-2 border border-gray-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+                />
+            )}
+            {history.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No search history yet.</p>
+            ) : shown.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No searches match "{filterText}".</p>
+            ) : (
+                <ul className="divide-y divide-gray-200">
+                    {shown.map(item => (
+                        <li key={item.id} className="py-3 flex justify-between items-center">
+                            <div className="min-w-0">
+                                <p className="font-medium text-gray-800 truncate">
+                                    {item.query}
+                                    {item.id === activeId && <span className="ml-2 text-xs font-normal text-indigo-600">open in Current Results</span>}
+                                </p>
+                                <p className="text-sm text-gray-500">
+                                    {new Date(item.timestamp).toLocaleString()} - {item.resultCount} results
+                                </p>
+                            </div>
+                            <div className="flex items-center space-x-3 ml-4 flex-shrink-0">
+                                {item.hasSnapshot && (
+                                    <button onClick={() => onOpen(item)} className="bg-indigo-600 text-white font-semibold px-4 py-1.5 rounded-md text-sm hover:bg-indigo-700 transition" title="Show these results again without searching">
+                                        Open
+                                    </button>
+                                )}
+                                <button onClick={() => onRerun(item)} className="bg-gray-100 text-gray-700 font-semibold px-4 py-1.5 rounded-md text-sm hover:bg-gray-200 transition" title="Search again for fresh results">
+                                    Rerun
+                                </button>
+                                <button onClick={() => onDelete(item)} aria-label={`Delete "${item.query}" from the history`} className="text-gray-400 hover:text-red-500 text-xl leading-none px-1">
+                                    &times;
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
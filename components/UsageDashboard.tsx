@@ -0,0 +1,205 @@
+/**
+ * @file UsageDashboard.tsx
+ * This file contains the UsageDashboard component, the "API Usage" tab. It shows the tokens used and
+ * the estimated cost of API calls by day, by search and by operation, and lets the user set budget
+ * limits, correct the prices the estimates use, export the calls as CSV, and clear them.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { ApiUsageRecord, BudgetSettings, ModelPrice } from '../types';
+import { BudgetStatus, DEFAULT_MODEL_PRICES, UsageSummary, formatCost, summariseUsage, usageExportTable } from '../services/apiUsage';
+import { downloadBlob, toCsv } from '../services/leadExport';
+
+/**
+ * Props for the UsageDashboard component.
+ */
+interface UsageDashboardProps {
+    records: ApiUsageRecord[]; // Every recorded call, oldest first.
+    prices: ModelPrice[]; // The price table the estimates use.
+    onPricesChange: (prices: ModelPrice[]) => void; // Called with the updated table on every edit.
+    budget: BudgetSettings; // The spending limits.
+    onBudgetChange: (budget: BudgetSettings) => void; // Called with the updated limits on every edit.
+    status: BudgetStatus; // Today's and this month's cost against the limits.
+    onClear: () => void; // Forgets every recorded call.
+}
+
+// Classes shared by the small number inputs.
+const NUMBER_INPUT_CLASS = 'w-24 px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500';
+
+// The budget inputs, in display order.
+const BUDGET_FIELDS: { key: keyof BudgetSettings; label: string }[] = [
+    { key: 'dailySoft', label: 'Daily warning' },
+    { key: 'dailyHard', label: 'Daily limit' },
+    { key: 'monthlySoft', label: 'Monthly warning' },
+    { key: 'monthlyHard', label: 'Monthly limit' },
+];
+
+// The summary tables, in display order.
+const GROUPINGS: { id: 'day' | 'session' | 'operation'; label: string; column: string }[] = [
+    { id: 'day', label: 'By day', column: 'Day' },
+    { id: 'session', label: 'By search', column: 'Search' },
+    { id: 'operation', label: 'By operation', column: 'Operation' },
+];
+
+const formatTokens = (tokens: number): string => tokens.toLocaleString();
+
+/**
+ * The "API Usage" tab.
+ */
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, prices, onPricesChange, budget, onBudgetChange, status, onClear }) => {
+    const [groupBy, setGroupBy] = useState<'day' | 'session' | 'operation'>('day'); // Which summary table is shown.
+
+    const summaries = useMemo(() => summariseUsage(records, groupBy, prices), [records, groupBy, prices]);
+    const totalCost = useMemo(() => summariseUsage(records, 'operation', prices).reduce((sum, summary) => sum + summary.cost, 0), [records, prices]);
+
+    const updatePrice = (index: number, changes: Partial<ModelPrice>) => {
+        onPricesChange(prices.map((price, i) => i === index ? { ...price, ...changes } : price));
+    };
+
+    const handleExport = () => {
+        const csv = toCsv(usageExportTable(records, prices));
+        downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `api-usage-${new Date().toISOString().slice(0, 10)}.csv`);
+    };
+
+    const handleClear = () => {
+        if (confirm('Forget every recorded API call? Budget limits will count from zero.')) onClear();
+    };
+
+    const renderRow = (summary: UsageSummary) => (
+        <tr key={summary.key} className="border-t border-gray-100">
+            <td className="py-2 pr-4 text-gray-800 truncate max-w-xs" title={summary.label}>{summary.label}</td>
+            <td className="py-2 pr-4 text-right">{summary.calls}</td>
+            <td className="py-2 pr-4 text-right">{formatTokens(summary.promptTokens)}</td>
+            <td className="py-2 pr-4 text-right">{formatTokens(summary.responseTokens)}</td>
+            <td className="py-2 text-right">
+                {formatCost(summary.cost)}
+                {summary.unpriced > 0 && <span className="ml-1 text-amber-600" title={`${summary.unpriced} calls used a model with no price`}>*</span>}
+            </td>
+        </tr>
+    );
+
+    return (
+        <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm space-y-6">
+            <div className="flex justify-between items-center">
+                <h2 className="text-lg font-semibold text-gray-700">API Usage</h2>
+                {records.length > 0 && (
+                    <div className="flex items-center space-x-4 text-sm">
+                        <button onClick={handleExport} className="text-indigo-600 hover:underline">Export CSV</button>
+                        <button onClick={handleClear} className="text-red-500 hover:underline">Clear</button>
+                    </div>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="p-3 rounded-md bg-gray-50 border border-gray-200">
+                    <p className="text-xs text-gray-500">Today</p>
+                    <p className="text-xl font-semibold text-gray-800">{formatCost(status.todayCost)}</p>
+                </div>
+                <div className="p-3 rounded-md bg-gray-50 border border-gray-200">
+                    <p className="text-xs text-gray-500">This month</p>
+                    <p className="text-xl font-semibold text-gray-800">{formatCost(status.monthCost)}</p>
+                </div>
+                <div className="p-3 rounded-md bg-gray-50 border border-gray-200">
+                    <p className="text-xs text-gray-500">All recorded ({records.length} calls)</p>
+                    <p className="text-xl font-semibold text-gray-800">{formatCost(totalCost)}</p>
+                </div>
+            </div>
+            <p className="text-xs text-gray-500">
+                Costs are estimates from the token counts the API reports and the prices below; check your billing console for actual charges.
+            </p>
+
+            <div>
+                <h3 className="font-semibold text-gray-700 mb-2">Budget (US$)</h3>
+                <div className="flex flex-wrap gap-4 text-sm text-gray-700">
+                    {BUDGET_FIELDS.map(({ key, label }) => (
+                        <label key={key} className="flex items-center space-x-2">
+                            <span>{label}</span>
+                            <input
+                                type="number"
+                                min={0}
+                                step={0.5}
+                                value={budget[key] ?? ''}
+                                placeholder="None"
+                                onChange={(e) => onBudgetChange({ ...budget, [key]: e.target.value === '' ? null : Number(e.target.value) })}
+                                className={NUMBER_INPUT_CLASS}
+                            />
+                        </label>
+                    ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">A warning shows a notice; a limit blocks searches and pauses scraping. Leave blank for none.</p>
+            </div>
+
+            <div>
+                <div className="flex items-center mb-2 space-x-4">
+                    <h3 className="font-semibold text-gray-700">Usage</h3>
+                    <div className="flex space-x-1 text-sm">
+                        {GROUPINGS.map(grouping => (
+                            <button
+                                key={grouping.id}
+                                onClick={() => setGroupBy(grouping.id)}
+                                className={`px-3 py-1 rounded-md ${groupBy === grouping.id ? 'bg-indigo-100 text-indigo-700 font-semibold' : 'text-gray-600 hover:bg-gray-100'}`}>
+                                {grouping.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                {summaries.length === 0 ? (
+                    <p className="text-gray-500 text-center py-8">No API calls recorded yet.</p>
+                ) : (
+                    <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                        <table className="w-full text-sm text-gray-700">
+                            <thead>
+                                <tr className="text-left text-xs text-gray-500">
+                                    <th className="pb-2 pr-4 font-medium">{GROUPINGS.find(g => g.id === groupBy)!.column}</th>
+                                    <th className="pb-2 pr-4 font-medium text-right">Calls</th>
+                                    <th className="pb-2 pr-4 font-medium text-right">Input tokens</th>
+                                    <th className="pb-2 pr-4 font-medium text-right">Output tokens</th>
+                                    <th className="pb-2 font-medium text-right">Estimated cost</th>
+                                </tr>
+                            </thead>
+                            <tbody>{summaries.map(renderRow)}</tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            <div>
+                <div className="flex justify-between items-center mb-2">
+                    <h3 className="font-semibold text-gray-700">Prices (US$)</h3>
+                    <button onClick={() => onPricesChange(DEFAULT_MODEL_PRICES)} className="text-sm text-gray-500 hover:underline">Reset to defaults</button>
+                </div>
+                <table className="w-full text-sm text-gray-700">
+                    <thead>
+                        <tr className="text-left text-xs text-gray-500">
+                            <th className="pb-2 pr-4 font-medium">Model</th>
+                            <th className="pb-2 pr-4 font-medium">Per 1M input tokens</th>
+                            <th className="pb-2 pr-4 font-medium">Per 1M output tokens</th>
+                            <th className="pb-2 pr-4 font-medium">Per 1,000 grounded searches</th>
+                            <th />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {prices.map((price, index) => (
+                            <tr key={index}>
+                                <td className="py-1 pr-4">
+                                    <input type="text" value={price.model} onChange={(e) => updatePrice(index, { model: e.target.value })} className="w-48 px-2 py-1 border border-gray-300 rounded-md text-sm focus:ring-indigo-500 focus:border-indigo-500" />
+                                </td>
+                                <td className="py-1 pr-4"><input type="number" min={0} step={0.01} value={price.inputPerMillion} onChange={(e) => updatePrice(index, { inputPerMillion: Number(e.target.value) })} className={NUMBER_INPUT_CLASS} /></td>
+                                <td className="py-1 pr-4"><input type="number" min={0} step={0.01} value={price.outputPerMillion} onChange={(e) => updatePrice(index, { outputPerMillion: Number(e.target.value) })} className={NUMBER_INPUT_CLASS} /></td>
+                                <td className="py-1 pr-4"><input type="number" min={0} step={1} value={price.groundingPerThousand} onChange={(e) => updatePrice(index, { groundingPerThousand: Number(e.target.value) })} className={NUMBER_INPUT_CLASS} /></td>
+                                <td className="py-1 text-right">
+                                    <button onClick={() => onPricesChange(prices.filter((_, i) => i !== index))} aria-label={`Remove the price for ${price.model}`} className="text-gray-400 hover:text-red-500 text-xl leading-none px-1">&times;</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <button
+                    onClick={() => onPricesChange([...prices, { model: '', inputPerMillion: 0, outputPerMillion: 0, groundingPerThousand: 0 }])}
+                    className="mt-2 text-sm text-indigo-600 hover:underline">
+                    Add model
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,220 @@
+/**
+ * @file pageProxy.ts
+ * A small page-fetching proxy, mounted on the Vite dev and preview servers.
+ * Browsers can't read other sites' HTML because of CORS, so the contact crawler and the website
+ * audit ask this proxy to fetch pages for them: `GET /api/page?url=https://example.com/contact`
+ * returns the page's HTML as plain text, with the final URL after redirects in the `X-Final-Url` header.
+ * Only public http(s) HTML pages are fetched; private and loopback addresses are refused.
+ */
+
+import { lookup as dnsLookup } from 'node:dns';
+import { request as httpRequest } from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP } from 'node:net';
+import type { LookupFunction } from 'node:net';
+import { pipeline } from 'node:stream';
+import type { Readable } from 'node:stream';
+import { createBrotliDecompress, createGunzip, createInflate } from 'node:zlib';
+import type { Plugin } from 'vite';
+
+// Path the proxy is mounted on. Keep in sync with PAGE_PROXY_PATH in services/contactCrawler.ts.
+const PAGE_PROXY_PATH = '/api/page';
+// Give up on a page after this long.
+const FETCH_TIMEOUT_MS = 10000;
+// Pages larger than this are truncated; contact details are rarely that far down.
+const MAX_PAGE_BYTES = 2 * 1024 * 1024;
+// Redirects followed before giving up.
+const MAX_REDIRECTS = 5;
+const USER_AGENT = 'Mozilla/5.0 (compatible; LeadFinderPro/1.0; contact crawler)';
+
+/**
+ * An error with the HTTP status the proxy should answer with.
+ */
+class ProxyError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Addresses that aren't on the public internet: loopback, private, link-local, carrier-grade NAT,
+ * documentation, benchmarking, multicast and reserved ranges. IPv6 ranges that embed an IPv4 address
+ * (IPv4-mapped, IPv4-compatible, NAT64, 6to4 and Teredo) are refused whole, since the embedded
+ * address could be any of the above. The families are kept apart because a BlockList matches IPv4
+ * addresses against IPv4-mapped IPv6 ranges too.
+ */
+const PRIVATE_IPV4_RANGES = new BlockList();
+const PRIVATE_IPV6_RANGES = new BlockList();
+([
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+    ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 3],
+] as const).forEach(([network, prefix]) => PRIVATE_IPV4_RANGES.addSubnet(network, prefix, 'ipv4'));
+([
+    ['::', 96], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001::', 32],
+    ['2001:db8::', 32], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+] as const).forEach(([network, prefix]) => PRIVATE_IPV6_RANGES.addSubnet(network, prefix, 'ipv6'));
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not on the public internet.
+ */
+const isPrivateAddress = (address: string): boolean => {
+    const family = isIP(address);
+    if (family === 0) return true;
+    return family === 6 ? PRIVATE_IPV6_RANGES.check(address, 'ipv6') : PRIVATE_IPV4_RANGES.check(address, 'ipv4');
+};
+
+/**
+ * Checks that a URL is an http(s) address the proxy may fetch. Host names are checked when they are
+ * resolved for the connection (see publicLookup); IP addresses are checked here.
+ * @throws {ProxyError} If the URL isn't http(s) or points at a private address.
+ */
+const assertFetchable = (url: URL) => {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new ProxyError(400, 'Only http and https URLs can be fetched.');
+    }
+    const host = url.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(host) && isPrivateAddress(host)) {
+        throw new ProxyError(403, 'Private and local addresses cannot be fetched.');
+    }
+};
+
+/**
+ * Resolves a host name for a connection, refusing it if any of its addresses is private. The
+ * connection is made to the addresses checked here, so a host can't resolve to a public address for
+ * the check and to a private one for the request (DNS rebinding).
+ */
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error || addresses.length === 0) {
+            callback(new ProxyError(502, `Could not resolve ${hostname}.`), '', 0);
+        } else if (addresses.some(entry => isPrivateAddress(entry.address))) {
+            callback(new ProxyError(403, 'Private and local addresses cannot be fetched.'), '', 0);
+        } else if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+};
+
+/**
+ * Sends a GET request for a URL, without following redirects.
+ * @returns {Promise<IncomingMessage>} The response, once its headers have arrived.
+ */
+const openPage = (url: URL, signal: AbortSignal): Promise<IncomingMessage> => new Promise((resolve, reject) => {
+    const send = url.protocol === 'https:' ? httpsRequest : httpRequest;
+    const request = send(url, {
+        headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml', 'Accept-Encoding': 'gzip, deflate, br' },
+        lookup: publicLookup,
+        signal,
+    }, resolve);
+    request.on('error', reject);
+    request.end();
+});
+
+/**
+ * Reads a response body as text, decompressing it and stopping after MAX_PAGE_BYTES.
+ */
+const readLimited = async (response: IncomingMessage): Promise<string> => {
+    const encoding = (response.headers['content-encoding'] ?? '').trim().toLowerCase();
+    const decompressor = encoding === 'gzip' || encoding === 'x-gzip' ? createGunzip()
+        : encoding === 'deflate' ? createInflate()
+        : encoding === 'br' ? createBrotliDecompress()
+        : null;
+    const body: Readable = decompressor ? pipeline(response, decompressor, () => undefined) : response;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of body) {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size >= MAX_PAGE_BYTES) break;
+    }
+    response.destroy();
+    return new TextDecoder().decode(Buffer.concat(chunks).subarray(0, MAX_PAGE_BYTES));
+};
+
+/**
+ * Fetches an HTML page, following redirects manually so every hop is checked.
+ * @returns {Promise<{ url: string, html: string }>} The final URL and the page's HTML.
+ */
+const fetchPage = async (target: string): Promise<{ url: string; html: string }> => {
+    let url: URL;
+    try {
+        url = new URL(target);
+    } catch {
+        throw new ProxyError(400, 'Invalid URL.');
+    }
+    const couldNotFetch = (error: unknown): never => {
+        if (error instanceof ProxyError) throw error;
+        throw new ProxyError(502, `Could not fetch ${url.href}: ${error instanceof Error ? error.message : error}`);
+    };
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+        assertFetchable(url);
+        const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+        const response = await openPage(url, signal).catch(couldNotFetch);
+        const status = response.statusCode ?? 0;
+        const location = response.headers.location;
+        if (status >= 300 && status < 400 && location) {
+            response.destroy();
+            url = new URL(location, url);
+            continue;
+        }
+        if (status < 200 || status >= 300) {
+            response.destroy();
+            throw new ProxyError(502, `${url.href} answered with status ${status}.`);
+        }
+        const contentType = response.headers['content-type'] ?? '';
+        if (contentType && !/html|xml/i.test(contentType)) {
+            response.destroy();
+            throw new ProxyError(415, `${url.href} is not an HTML page.`);
+        }
+        return { url: url.href, html: await readLimited(response).catch(couldNotFetch) };
+    }
+    throw new ProxyError(502, 'Too many redirects.');
+};
+
+/**
+ * Handles a proxy request.
+ */
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    try {
+        if (req.method !== 'GET') {
+            throw new ProxyError(405, 'Only GET is supported.');
+        }
+        const target = new URL(req.url ?? '', 'http://localhost').searchParams.get('url');
+        if (!target) {
+            throw new ProxyError(400, 'Missing "url" parameter.');
+        }
+        const page = await fetchPage(target);
+        // The HTML is answered as plain text, sandboxed, so a fetched page opened directly can't run
+        // its scripts on the app's origin, where the API key and the lead database live.
+        res.writeHead(200, {
+            'Content-Type': 'text/plain; charset=utf-8',
+            'X-Content-Type-Options': 'nosniff',
+            'Content-Security-Policy': 'sandbox',
+            'X-Final-Url': page.url,
+            'Cache-Control': 'no-store',
+        });
+        res.end(page.html);
+    } catch (error) {
+        const status = error instanceof ProxyError ? error.status : 500;
+        res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8', 'X-Content-Type-Options': 'nosniff' });
+        res.end(error instanceof Error ? error.message : 'Proxy error.');
+    }
+};
+
+/**
+ * A Vite plugin that serves the page proxy from the dev and preview servers.
+ * @returns {Plugin} The plugin.
+ */
+export const pageProxyPlugin = (): Plugin => ({
+    name: 'lead-finder-page-proxy',
+    configureServer(server) {
+        server.middlewares.use(PAGE_PROXY_PATH, (req, res) => void handleRequest(req, res));
+    },
+    configurePreviewServer(server) {
+        server.middlewares.use(PAGE_PROXY_PATH, (req, res) => void handleRequest(req, res));
+    },
+});
@@ -0,0 +1,307 @@
+/**
+ * @file apiUsage.ts
+ * Records the tokens used by every API call, estimates what they cost from an editable price table,
+ * and checks the estimate against daily and monthly budget limits.
+ * Each call is attributed to the current session (the search or import whose results are being
+ * worked on), so the cost of a search can be seen together with the scraping and geocoding it led to.
+ * Records, prices and limits are persisted in localStorage; costs are computed from the current
+ * prices whenever they are shown, so correcting a price corrects past estimates too.
+ */
+
+import { ApiOperation, ApiUsageRecord, BudgetSettings, ModelPrice } from '../types';
+import type { ExportTable } from './leadExport';
+
+// localStorage keys under which records, prices and limits are persisted.
+const USAGE_STORAGE_KEY = 'leadFinderApiUsage';
+const PRICES_STORAGE_KEY = 'leadFinderModelPrices';
+const BUDGET_STORAGE_KEY = 'leadFinderBudget';
+// The oldest records are dropped beyond this many.
+const MAX_RECORDS = 5000;
+
+/**
+ * The operations, with their labels, in display order.
+ */
+export const API_OPERATIONS: { id: ApiOperation; label: string }[] = [
+    { id: 'search', label: 'Search' },
+    { id: 'scrape', label: 'Scrape' },
+    { id: 'geocode', label: 'Geocode' },
+    { id: 'outreach', label: 'Opening lines' },
+];
+
+/**
+ * Gemini list prices at the time of writing (standard tier, prompts up to 200k tokens).
+ * They change; edit them in the usage dashboard to match the current pricing page.
+ */
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+    { model: 'gemini-2.5-flash', inputPerMillion: 0.30, outputPerMillion: 2.50, groundingPerThousand: 25 },
+    { model: 'gemini-2.5-flash-lite', inputPerMillion: 0.10, outputPerMillion: 0.40, groundingPerThousand: 25 },
+    { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10, groundingPerThousand: 25 },
+];
+
+/**
+ * No limits until the user sets some.
+ */
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = { dailySoft: null, dailyHard: null, monthlySoft: null, monthlyHard: null };
+
+let records: ApiUsageRecord[] | null = null;
+let session: { id: string; label: string } | null = null;
+const listeners = new Set<(records: ApiUsageRecord[]) => void>();
+
+const getRecords = (): ApiUsageRecord[] => {
+    if (!records) {
+        records = [];
+        try {
+            const stored = localStorage.getItem(USAGE_STORAGE_KEY);
+            if (stored) records = JSON.parse(stored);
+        } catch (e) {
+            console.error("Failed to parse API usage from localStorage", e);
+        }
+    }
+    return records!;
+};
+
+const persistRecords = (next: ApiUsageRecord[]) => {
+    records = next.slice(-MAX_RECORDS);
+    try {
+        localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(records));
+    } catch (e) {
+        console.error("Failed to save API usage to localStorage", e);
+    }
+    listeners.forEach(listener => listener(records!));
+};
+
+/**
+ * Sets the session later calls are attributed to, e.g. when a search starts.
+ * @param {{ id: string, label: string } | null} next - The session, or null for none.
+ */
+export const setUsageSession = (next: { id: string; label: string } | null) => {
+    session = next;
+};
+
+/**
+ * Records one API call, attributed to the current session.
+ * @param {Omit<ApiUsageRecord, 'id' | 'timestamp' | 'sessionId' | 'sessionLabel'>} call - Who made the call, for what, and the tokens it used.
+ */
+export const recordApiUsage = (call: Omit<ApiUsageRecord, 'id' | 'timestamp' | 'sessionId' | 'sessionLabel'>) => {
+    const now = Date.now();
+    persistRecords([...getRecords(), {
+        ...call,
+        id: `usage-${now}-${Math.random().toString(36).slice(2, 8)}`,
+        timestamp: now,
+        ...(session && { sessionId: session.id, sessionLabel: session.label }),
+    }]);
+};
+
+/**
+ * Every recorded call, oldest first.
+ * @returns {ApiUsageRecord[]} The records.
+ */
+export const getUsageRecords = (): ApiUsageRecord[] => getRecords();
+
+/**
+ * Calls the listener with all records whenever one is added or they are cleared.
+ * @param {(records: ApiUsageRecord[]) => void} listener - The listener.
+ * @returns {() => void} A function that stops the calls.
+ */
+export const subscribeToUsage = (listener: (records: ApiUsageRecord[]) => void): (() => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+/**
+ * Forgets every recorded call.
+ */
+export const clearUsageRecords = () => persistRecords([]);
+
+/**
+ * The price entry for a model: the longest model name the record's model starts with, so
+ * "gemini-2.5-flash-lite" isn't priced as "gemini-2.5-flash".
+ */
+const priceFor = (model: string, prices: ModelPrice[]): ModelPrice | undefined =>
+    prices
+        .filter(price => price.model && model.startsWith(price.model))
+        .sort((a, b) => b.model.length - a.model.length)[0];
+
+/**
+ * Estimates what a call cost. Searches are grounded with Google Maps, which is charged per request.
+ * @param {ApiUsageRecord} record - The call.
+ * @param {ModelPrice[]} prices - The price table.
+ * @returns {number | null} The cost in US dollars, or null if the model has no price.
+ */
+export const estimateCost = (record: ApiUsageRecord, prices: ModelPrice[]): number | null => {
+    const price = priceFor(record.model, prices);
+    if (!price) return null;
+    return (record.promptTokens * price.inputPerMillion + record.responseTokens * price.outputPerMillion) / 1_000_000
+        + (record.operation === 'search' ? price.groundingPerThousand / 1000 : 0);
+};
+
+/**
+ * Totals for a group of calls.
+ */
+export interface UsageSummary {
+    key: string; // What the calls have in common, e.g. "2024-05-01".
+    label: string; // How to show the key.
+    calls: number;
+    promptTokens: number;
+    responseTokens: number;
+    cost: number; // Estimated cost in US dollars, of the calls whose model has a price.
+    unpriced: number; // Calls whose model has no price, so aren't in `cost`.
+    lastAt: number; // When the latest call was made.
+}
+
+const dayKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * Totals the calls by day, session or operation.
+ * @param {ApiUsageRecord[]} usage - The calls.
+ * @param {'day' | 'session' | 'operation'} groupBy - How to group them.
+ * @param {ModelPrice[]} prices - The price table.
+ * @returns {UsageSummary[]} One summary per group, most recent first (by operation: in display order).
+ */
+export const summariseUsage = (usage: ApiUsageRecord[], groupBy: 'day' | 'session' | 'operation', prices: ModelPrice[]): UsageSummary[] => {
+    const groups = new Map<string, UsageSummary>();
+    usage.forEach(record => {
+        const [key, label] = groupBy === 'day'
+            ? [dayKey(record.timestamp), new Date(record.timestamp).toLocaleDateString()]
+            : groupBy === 'operation'
+                ? [record.operation, API_OPERATIONS.find(op => op.id === record.operation)?.label ?? record.operation]
+                : [record.sessionId ?? '', record.sessionLabel ?? 'Outside a search'];
+        const group = groups.get(key) ?? { key, label, calls: 0, promptTokens: 0, responseTokens: 0, cost: 0, unpriced: 0, lastAt: 0 };
+        const cost = estimateCost(record, prices);
+        group.calls++;
+        group.promptTokens += record.promptTokens;
+        group.responseTokens += record.responseTokens;
+        if (cost === null) group.unpriced++;
+        else group.cost += cost;
+        group.lastAt = Math.max(group.lastAt, record.timestamp);
+        groups.set(key, group);
+    });
+    const summaries = Array.from(groups.values());
+    return groupBy === 'operation'
+        ? API_OPERATIONS.map(op => summaries.find(s => s.key === op.id)).filter((s): s is UsageSummary => !!s)
+        : summaries.sort((a, b) => b.lastAt - a.lastAt);
+};
+
+/**
+ * Where spending stands against the budget limits.
+ */
+export interface BudgetStatus {
+    todayCost: number; // Estimated cost of today's calls.
+    monthCost: number; // Estimated cost of this calendar month's calls.
+    level: 'ok' | 'soft' | 'hard'; // The most serious limit reached.
+    message: string | null; // Which limit was reached, for display.
+}
+
+/**
+ * Compares today's and this month's estimated cost with the limits.
+ * @param {ApiUsageRecord[]} usage - The calls.
+ * @param {BudgetSettings} budget - The limits.
+ * @param {ModelPrice[]} prices - The price table.
+ * @param {Date} [now] - The current time.
+ * @returns {BudgetStatus} The costs and the most serious limit reached.
+ */
+export const budgetStatus = (usage: ApiUsageRecord[], budget: BudgetSettings, prices: ModelPrice[], now: Date = new Date()): BudgetStatus => {
+    const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+    let todayCost = 0;
+    let monthCost = 0;
+    usage.forEach(record => {
+        if (record.timestamp < monthStart) return;
+        const cost = estimateCost(record, prices) ?? 0;
+        monthCost += cost;
+        if (record.timestamp >= dayStart) todayCost += cost;
+    });
+
+    const checks: { level: 'soft' | 'hard'; limit: number | null; cost: number; period: string }[] = [
+        { level: 'hard', limit: budget.dailyHard, cost: todayCost, period: "Today's" },
+        { level: 'hard', limit: budget.monthlyHard, cost: monthCost, period: "This month's" },
+        { level: 'soft', limit: budget.dailySoft, cost: todayCost, period: "Today's" },
+        { level: 'soft', limit: budget.monthlySoft, cost: monthCost, period: "This month's" },
+    ];
+    const reached = checks.find(check => check.limit !== null && check.cost >= check.limit);
+    if (!reached) return { todayCost, monthCost, level: 'ok', message: null };
+    const consequence = reached.level === 'hard'
+        ? 'Searches are blocked and scraping is paused until the limit is raised.'
+        : 'Searches and scraping still work.';
+    return {
+        todayCost,
+        monthCost,
+        level: reached.level,
+        message: `${reached.period} estimated API cost of ${formatCost(reached.cost)} has reached the ${reached.level === 'hard' ? 'limit' : 'warning level'} of ${formatCost(reached.limit!)}. ${consequence}`,
+    };
+};
+
+/**
+ * Formats a cost in US dollars, with more decimals for the fractions of a cent single calls cost.
+ * @param {number} cost - The cost.
+ * @returns {string} The formatted cost, e.g. "$1.23" or "$0.0042".
+ */
+export const formatCost = (cost: number): string =>
+    `$${cost > 0 && cost < 0.1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+/**
+ * The calls as a table, one row per call, for a CSV export.
+ * @param {ApiUsageRecord[]} usage - The calls.
+ * @param {ModelPrice[]} prices - The price table.
+ * @returns {ExportTable} The headings and rows.
+ */
+export const usageExportTable = (usage: ApiUsageRecord[], prices: ModelPrice[]): ExportTable => ({
+    headers: ['Time', 'Operation', 'Provider', 'Model', 'Prompt Tokens', 'Response Tokens', 'Estimated Cost (USD)', 'Search'],
+    rows: usage.map(record => [
+        new Date(record.timestamp).toISOString(),
+        record.operation,
+        record.provider,
+        record.model,
+        record.promptTokens,
+        record.responseTokens,
+        estimateCost(record, prices),
+        record.sessionLabel ?? '',
+    ]),
+});
+
+/**
+ * Reads the persisted price table, falling back to the defaults.
+ * @returns {ModelPrice[]} The prices.
+ */
+export const loadModelPrices = (): ModelPrice[] => {
+    try {
+        const stored = localStorage.getItem(PRICES_STORAGE_KEY);
+        if (stored) return JSON.parse(stored);
+    } catch (e) {
+        console.error("Failed to parse model prices from localStorage", e);
+    }
+    return DEFAULT_MODEL_PRICES;
+};
+
+/**
+ * Persists the price table.
+ * @param {ModelPrice[]} prices - The prices.
+ */
+export const saveModelPrices = (prices: ModelPrice[]) => {
+    localStorage.setItem(PRICES_STORAGE_KEY, JSON.stringify(prices));
+};
+
+/**
+ * Reads the persisted budget limits.
+ * @returns {BudgetSettings} The limits.
+ */
+export const loadBudgetSettings = (): BudgetSettings => {
+    try {
+        const stored = localStorage.getItem(BUDGET_STORAGE_KEY);
+        if (stored) return { ...DEFAULT_BUDGET_SETTINGS, ...JSON.parse(stored) };
+    } catch (e) {
+        console.error("Failed to parse budget settings from localStorage", e);
+    }
+    return DEFAULT_BUDGET_SETTINGS;
+};
+
+/**
+ * Persists the budget limits.
+ * @param {BudgetSettings} budget - The limits.
+ */
+export const saveBudgetSettings = (budget: BudgetSettings) => {
+    localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+};
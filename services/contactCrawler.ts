@@ -0,0 +1,272 @@
+/**
+ * @file contactCrawler.ts
+ * Extracts contact details from a business's own website.
+ * The homepage and a few likely contact pages (contact, about, impressum…) are fetched through the
+ * local page proxy and parsed as HTML. Emails come from `mailto:` links, Cloudflare-protected
+ * addresses, JSON-LD and the page text (including "name [at] domain [dot] com" obfuscation);
+ * phones from `tel:` links and structured data; social profiles from links to the major networks.
+ * Every item records the page it was found on.
+ */
+
+import { ScrapedData } from '../types';
+
+// Path of the page proxy served by the dev server (see server/pageProxy.ts).
+const PAGE_PROXY_PATH = '/api/page';
+// How many pages besides the homepage are crawled.
+const MAX_EXTRA_PAGES = 3;
+
+// Links to pages likely to list contact details, in order of preference.
+const CONTACT_PAGE_PATTERNS = [
+    /contact|kontakt|contacto|contatti|get-in-touch|reach-us/i,
+    /impressum|imprint|legal-notice|mentions-legales/i,
+    /about|ueber-uns|uber-uns|team|company/i,
+];
+
+// Hosts of the social networks whose profile links are collected.
+const SOCIAL_HOSTS = /(^|\.)(facebook\.com|instagram\.com|linkedin\.com|twitter\.com|x\.com|youtube\.com|tiktok\.com|pinterest\.com)$/i;
+// Social links that share the current page rather than pointing at a profile.
+const SOCIAL_SHARE_PATHS = /\/(sharer|share|intent|dialog|plugins|hashtag)\b|shareArticle/i;
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+// Matches that look like emails but are asset names or placeholders.
+const FALSE_EMAIL_PATTERN = /\.(png|jpe?g|gif|svg|webp|css|js)$|@(example|domain|email|sentry|wixpress)\./i;
+
+/**
+ * A fetched HTML page.
+ */
+export interface FetchedPage {
+    url: string; // The page's final URL, after redirects.
+    html: string; // The page's HTML.
+}
+
+/**
+ * Fetches a page's HTML. Swappable so the crawler can run without the proxy.
+ */
+export type PageFetcher = (url: string) => Promise<FetchedPage>;
+
+/**
+ * Contact details found on a single page.
+ */
+export interface PageContacts {
+    emails: string[];
+    phones: string[];
+    socials: string[];
+    links: string[]; // Same-site links to likely contact pages, best first.
+}
+
+/**
+ * Fetches a page through the local page proxy.
+ * @param {string} url - The page to fetch.
+ * @returns {Promise<FetchedPage>} The page.
+ */
+export const fetchPageViaProxy: PageFetcher = async (url) => {
+    const response = await fetch(`${PAGE_PROXY_PATH}?url=${encodeURIComponent(url)}`);
+    if (!response.ok) {
+        throw new Error(`Could not fetch ${url}: ${(await response.text()) || response.status}`);
+    }
+    return { url: response.headers.get('X-Final-Url') ?? url, html: await response.text() };
+};
+
+/**
+ * Checks whether a link works. Resolves false for a broken link rather than rejecting.
+ */
+export type LinkChecker = (url: string) => Promise<boolean>;
+
+/**
+ * Checks a link through the local page proxy. Pages that aren't HTML, such as PDFs, still count as working.
+ * @param {string} url - The link to check.
+ * @returns {Promise<boolean>} True if the link leads to a page.
+ */
+export const checkLinkViaProxy: LinkChecker = async (url) => {
+    try {
+        const response = await fetch(`${PAGE_PROXY_PATH}?url=${encodeURIComponent(url)}`);
+        await response.body?.cancel();
+        return response.ok || response.status === 415;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Decodes a percent-encoded link target, leaving malformed ones as they are.
+ */
+const safeDecode = (value: string): string => {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+};
+
+/**
+ * Decodes an email address protected by Cloudflare's email obfuscation (`data-cfemail`).
+ */
+const decodeCloudflareEmail = (encoded: string): string => {
+    const key = parseInt(encoded.slice(0, 2), 16);
+    let email = '';
+    for (let i = 2; i < encoded.length; i += 2) {
+        email += String.fromCharCode(parseInt(encoded.slice(i, i + 2), 16) ^ key);
+    }
+    return email;
+};
+
+/**
+ * Rewrites common email obfuscations ("info [at] example [dot] com", "info(at)example.com") as plain addresses.
+ */
+const deobfuscateEmails = (text: string): string =>
+    text
+        .replace(/\s*[\[({<]\s*(?:at|@)\s*[\])}>]\s*/gi, '@')
+        .replace(/\s*[\[({<]\s*(?:dot|\.)\s*[\])}>]\s*/gi, '.')
+        .replace(/\b([\w.+-]+)\s+at\s+([\w-]+(?:\s+dot\s+[\w-]+)+)\b/gi,
+            (_, user: string, domain: string) => `${user}@${domain.replace(/\s+dot\s+/gi, '.')}`);
+
+/**
+ * Returns the email addresses in a piece of text.
+ */
+const findEmails = (text: string): string[] =>
+    (deobfuscateEmails(text).match(EMAIL_PATTERN) ?? []).filter(email => !FALSE_EMAIL_PATTERN.test(email));
+
+/**
+ * Normalises a social profile link, or returns null if it isn't one.
+ */
+const normaliseSocialLink = (href: string): string | null => {
+    try {
+        const url = new URL(href);
+        if (!SOCIAL_HOSTS.test(url.hostname) || SOCIAL_SHARE_PATHS.test(url.pathname + url.search)) return null;
+        if (url.pathname === '/' || url.pathname === '') return null;
+        const host = url.hostname.replace(/^(www|m|mobile)\./, '');
+        return `https://${host.split('.').length === 2 ? `www.${host}` : host}${url.pathname.replace(/\/+$/, '')}`;
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Collects contact values from JSON-LD structured data (schema.org `email`, `telephone` and `sameAs`).
+ */
+const readStructuredData = (doc: Document, contacts: PageContacts) => {
+    const visit = (node: unknown) => {
+        if (Array.isArray(node)) {
+            node.forEach(visit);
+        } else if (node && typeof node === 'object') {
+            Object.entries(node as Record<string, unknown>).forEach(([key, value]) => {
+                if (key === 'email' && typeof value === 'string') contacts.emails.push(value.replace(/^mailto:/i, ''));
+                else if (key === 'telephone' && typeof value === 'string') contacts.phones.push(value);
+                else if (key === 'sameAs') [value].flat().forEach(link => {
+                    const social = typeof link === 'string' ? normaliseSocialLink(link) : null;
+                    if (social) contacts.socials.push(social);
+                });
+                else visit(value);
+            });
+        }
+    };
+    doc.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+        try {
+            visit(JSON.parse(script.textContent ?? ''));
+        } catch {
+            // Malformed structured data is common; ignore it.
+        }
+    });
+};
+
+/**
+ * Extracts the contact details on a single HTML page.
+ * @param {string} html - The page's HTML.
+ * @param {string} pageUrl - The page's URL, used to resolve relative links.
+ * @returns {PageContacts} The emails, phones and social links found, and links to likely contact pages.
+ */
+export const extractPageContacts = (html: string, pageUrl: string): PageContacts => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    const contacts: PageContacts = { emails: [], phones: [], socials: [], links: [] };
+    const pageHost = new URL(pageUrl).hostname.replace(/^www\./, '');
+    const rankedLinks: { url: string; rank: number }[] = [];
+
+    doc.querySelectorAll('a[href]').forEach(anchor => {
+        const href = anchor.getAttribute('href')!.trim();
+        if (/^mailto:/i.test(href)) {
+            safeDecode(href.slice(7).split('?')[0]).split(',').forEach(email => contacts.emails.push(email));
+        } else if (/^tel:/i.test(href)) {
+            contacts.phones.push(safeDecode(href.slice(4)));
+        } else {
+            let url: URL;
+            try {
+                url = new URL(href, pageUrl);
+            } catch {
+                return;
+            }
+            const social = normaliseSocialLink(url.href);
+            if (social) {
+                contacts.socials.push(social);
+            } else if (url.hostname.replace(/^www\./, '') === pageHost && /^https?:$/.test(url.protocol)) {
+                const label = `${url.pathname} ${anchor.textContent ?? ''}`;
+                const rank = CONTACT_PAGE_PATTERNS.findIndex(pattern => pattern.test(label));
+                if (rank !== -1) {
+                    url.hash = '';
+                    rankedLinks.push({ url: url.href, rank });
+                }
+            }
+        }
+    });
+
+    doc.querySelectorAll('[data-cfemail]').forEach(element => {
+        contacts.emails.push(decodeCloudflareEmail(element.getAttribute('data-cfemail')!));
+    });
+    doc.querySelectorAll('[itemprop="telephone"]').forEach(element => {
+        contacts.phones.push(element.getAttribute('content') ?? element.textContent ?? '');
+    });
+    readStructuredData(doc, contacts);
+
+    // Scripts and styles aren't visible text, and often contain false matches.
+    doc.querySelectorAll('script, style, noscript').forEach(element => element.remove());
+    contacts.emails.push(...findEmails(doc.body?.textContent ?? ''));
+
+    contacts.emails = contacts.emails.map(email => email.trim().toLowerCase()).filter(email => /^[^@\s]+@[^@\s]+\.[a-z]{2,}$/.test(email));
+    contacts.phones = contacts.phones.map(phone => phone.trim()).filter(phone => phone.replace(/\D/g, '').length >= 6);
+    contacts.links = Array.from(new Set(rankedLinks.sort((a, b) => a.rank - b.rank).map(link => link.url)));
+    return contacts;
+};
+
+/**
+ * Whether scraped data contains any contact details at all.
+ * @param {ScrapedData} data - The scraped data.
+ * @returns {boolean} True if at least one email, phone or social link was found.
+ */
+export const hasContacts = (data: ScrapedData): boolean =>
+    data.emails.length + data.phones.length + data.socials.length > 0;
+
+/**
+ * Crawls a website's homepage and likely contact pages for contact details.
+ * @param {string} websiteUrl - The website's homepage.
+ * @param {PageFetcher} [fetchPage] - Fetches a page; defaults to the local page proxy.
+ * @returns {Promise<ScrapedData>} The contact details found, with the page each came from.
+ * @throws {Error} If the homepage can't be fetched. Extra pages that fail are skipped.
+ */
+export const crawlWebsiteContacts = async (websiteUrl: string, fetchPage: PageFetcher = fetchPageViaProxy): Promise<ScrapedData> => {
+    const result: ScrapedData = { emails: [], phones: [], socials: [], sources: {} };
+    // Adds values to a list, remembering the first page each was seen on.
+    const collect = (target: string[], values: string[], pageUrl: string) => {
+        values.forEach(value => {
+            if (!target.includes(value)) {
+                target.push(value);
+                result.sources![value] = pageUrl;
+            }
+        });
+    };
+
+    const homepage = await fetchPage(websiteUrl);
+    const pages: FetchedPage[] = [homepage];
+    const homeContacts = extractPageContacts(homepage.html, homepage.url);
+    const extraUrls = homeContacts.links.filter(url => url !== homepage.url && url !== websiteUrl).slice(0, MAX_EXTRA_PAGES);
+    const extraPages = await Promise.allSettled(extraUrls.map(url => fetchPage(url)));
+    extraPages.forEach(page => {
+        if (page.status === 'fulfilled') pages.push(page.value);
+    });
+
+    pages.forEach((page, index) => {
+        const contacts = index === 0 ? homeContacts : extractPageContacts(page.html, page.url);
+        collect(result.emails, contacts.emails, page.url);
+        collect(result.phones, contacts.phones, page.url);
+        collect(result.socials, contacts.socials, page.url);
+    });
+    return result;
+};
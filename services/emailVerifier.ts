@@ -0,0 +1,203 @@
+/**
+ * @file emailVerifier.ts
+ * Checks scraped email addresses before they're used for outreach, so bad addresses don't bounce.
+ * Each address is checked for syntax, whether it's on the business's own domain, whether it's a
+ * role mailbox (info@, sales@…), whether it's on a disposable email service, and whether its domain
+ * accepts mail (MX records, looked up through a pluggable `DnsResolver`). The checks are combined
+ * into a 0–100 score and a status.
+ */
+
+import { DnsResolver, EmailStatus, EmailVerification, ScrapedData } from '../types';
+
+// DNS-over-HTTPS endpoint used for MX lookups in the browser.
+const DEFAULT_DOH_ENDPOINT = 'https://dns.google/resolve';
+// DNS record type number for MX records.
+const MX_RECORD_TYPE = 15;
+
+// Local parts of shared role mailboxes. They're real, but reach a shared inbox rather than a person.
+const ROLE_LOCAL_PARTS = new Set([
+    'info', 'sales', 'contact', 'hello', 'office', 'admin', 'support', 'help', 'team', 'enquiries', 'inquiries',
+    'enquiry', 'inquiry', 'marketing', 'billing', 'accounts', 'service', 'booking', 'bookings', 'reservations',
+    'mail', 'press', 'media', 'hr', 'jobs', 'careers', 'webmaster', 'postmaster', 'hostmaster', 'abuse',
+]);
+// Local parts that never read replies.
+const NO_REPLY_PATTERN = /^(no-?reply|do-?not-?reply|mailer-daemon|bounces?)$/i;
+// Well-known throwaway email services.
+const DISPOSABLE_DOMAINS = new Set([
+    'mailinator.com', 'guerrillamail.com', 'guerrillamail.net', 'sharklasers.com', '10minutemail.com', 'tempmail.com',
+    'temp-mail.org', 'yopmail.com', 'trashmail.com', 'getnada.com', 'dispostable.com', 'throwawaymail.com',
+    'maildrop.cc', 'fakeinbox.com', 'mintemail.com', 'emailondeck.com', 'spamgourmet.com', 'mohmal.com',
+]);
+
+// Score deductions for each finding.
+const PENALTIES = {
+    domainMismatch: 20,
+    roleBased: 25,
+    mxUnknown: 15,
+};
+// Minimum score for an address to count as valid rather than risky.
+const VALID_SCORE = 70;
+
+/**
+ * Creates a resolver that looks up MX records over DNS-over-HTTPS (JSON API), which works from the browser.
+ * Lookups are cached per domain for the resolver's lifetime.
+ * @param {string} [endpoint] - The DoH JSON endpoint.
+ * @returns {DnsResolver} The resolver.
+ */
+export const createDohResolver = (endpoint: string = DEFAULT_DOH_ENDPOINT): DnsResolver => {
+    const cache = new Map<string, Promise<string[]>>();
+    const lookup = async (domain: string): Promise<string[]> => {
+        const response = await fetch(`${endpoint}?name=${encodeURIComponent(domain)}&type=MX`, {
+            headers: { Accept: 'application/dns-json' },
+        });
+        if (!response.ok) {
+            throw new Error(`MX lookup for ${domain} failed with status ${response.status}.`);
+        }
+        const data = await response.json();
+        // Status 3 is NXDOMAIN: the domain doesn't exist, so it certainly has no mail exchangers.
+        if (data.Status !== 0 && data.Status !== 3) {
+            throw new Error(`MX lookup for ${domain} failed with DNS status ${data.Status}.`);
+        }
+        return (data.Answer ?? [])
+            .filter((answer: { type: number }) => answer.type === MX_RECORD_TYPE)
+            .map((answer: { data: string }) => answer.data.split(' ').pop()!.replace(/\.$/, ''))
+            .filter((host: string) => host !== '');
+    };
+    return {
+        resolveMx: (domain) => {
+            let result = cache.get(domain);
+            if (!result) {
+                result = lookup(domain);
+                // Don't cache failures, so a later lookup can succeed.
+                result.catch(() => cache.delete(domain));
+                cache.set(domain, result);
+            }
+            return result;
+        },
+    };
+};
+
+/**
+ * Creates a resolver that answers from a fixed table, for offline use and testing.
+ * @param {Record<string, string[]>} records - Mail exchangers by domain.
+ * @param {string[] | null} [fallback] - The answer for domains not in the table; null makes those lookups fail.
+ * @returns {DnsResolver} The resolver.
+ */
+export const createStaticResolver = (records: Record<string, string[]>, fallback: string[] | null = []): DnsResolver => ({
+    resolveMx: async (domain) => {
+        const answer = records[domain.toLowerCase()] ?? fallback;
+        if (!answer) throw new Error(`No MX record data for ${domain}.`);
+        return answer;
+    },
+});
+
+/**
+ * Whether an email address is well-formed.
+ */
+const isValidSyntax = (email: string): boolean => {
+    if (email.length > 254) return false;
+    const match = /^([a-z0-9!#$%&'*+/=?^_`{|}~.-]+)@([a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,})$/i.exec(email);
+    if (!match) return false;
+    const [, local, domain] = match;
+    return local.length <= 64 && !local.startsWith('.') && !local.endsWith('.') && !local.includes('..')
+        && domain.split('.').every(label => label.length <= 63 && !label.startsWith('-') && !label.endsWith('-'));
+};
+
+/**
+ * Whether an email domain belongs to the business website, allowing either to be a subdomain of the other.
+ */
+const matchesWebsite = (emailDomain: string, websiteUrl?: string): boolean => {
+    if (!websiteUrl) return false;
+    try {
+        const siteDomain = new URL(websiteUrl).hostname.toLowerCase().replace(/^www\./, '');
+        return emailDomain === siteDomain || emailDomain.endsWith(`.${siteDomain}`) || siteDomain.endsWith(`.${emailDomain}`);
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Checks a single email address.
+ * @param {string} email - The address to check.
+ * @param {string | undefined} websiteUrl - The business's website, for the domain match check.
+ * @param {DnsResolver} resolver - Used to look up the domain's MX records.
+ * @returns {Promise<EmailVerification>} The checks, score and status.
+ */
+export const verifyEmail = async (email: string, websiteUrl: string | undefined, resolver: DnsResolver): Promise<EmailVerification> => {
+    const address = email.trim().toLowerCase();
+    const [local = '', domain = ''] = address.split('@');
+    const result: EmailVerification = {
+        status: 'invalid',
+        score: 0,
+        syntaxValid: isValidSyntax(address),
+        domainMatch: matchesWebsite(domain, websiteUrl),
+        roleBased: ROLE_LOCAL_PARTS.has(local.split('+')[0]),
+        disposable: DISPOSABLE_DOMAINS.has(domain),
+        hasMx: null,
+        reasons: [],
+    };
+
+    if (!result.syntaxValid) {
+        result.reasons.push('The address is malformed.');
+        return result;
+    }
+    if (result.disposable) {
+        result.reasons.push('The domain is a disposable email service.');
+        return result;
+    }
+    if (NO_REPLY_PATTERN.test(local)) {
+        result.reasons.push('No-reply addresses don\'t accept mail.');
+        return result;
+    }
+
+    try {
+        result.hasMx = (await resolver.resolveMx(domain)).length > 0;
+    } catch (error) {
+        console.warn(`MX lookup for ${domain} failed:`, error);
+    }
+    if (result.hasMx === false) {
+        result.reasons.push(`${domain} has no mail servers (no MX records).`);
+        return result;
+    }
+
+    let score = 100;
+    if (!result.domainMatch) {
+        score -= PENALTIES.domainMismatch;
+        result.reasons.push(websiteUrl ? 'The address isn\'t on the business\'s website domain.' : 'There is no website to match the domain against.');
+    }
+    if (result.roleBased) {
+        score -= PENALTIES.roleBased;
+        result.reasons.push('Role address; it reaches a shared inbox rather than a person.');
+    }
+    if (result.hasMx === null) {
+        score -= PENALTIES.mxUnknown;
+        result.reasons.push('The mail servers couldn\'t be checked.');
+    }
+    result.score = score;
+    result.status = result.hasMx === null ? 'unknown' : score >= VALID_SCORE ? 'valid' : 'risky';
+    return result;
+};
+
+/**
+ * Checks every email in a scrape and attaches the results to it.
+ * @param {ScrapedData} data - The scraped contact data.
+ * @param {string | undefined} websiteUrl - The business's website.
+ * @param {DnsResolver} resolver - Used to look up MX records.
+ * @returns {Promise<ScrapedData>} The scraped data with `verifications` filled in.
+ */
+export const verifyScrapedEmails = async (data: ScrapedData, websiteUrl: string | undefined, resolver: DnsResolver): Promise<ScrapedData> => {
+    const results = await Promise.all(data.emails.map(email => verifyEmail(email, websiteUrl, resolver)));
+    const verifications: Record<string, EmailVerification> = {};
+    data.emails.forEach((email, index) => { verifications[email] = results[index]; });
+    return { ...data, verifications };
+};
+
+/**
+ * Display settings for each email status.
+ */
+export const EMAIL_STATUS_STYLES: Record<EmailStatus, { label: string; badgeClass: string }> = {
+    valid: { label: 'Valid', badgeClass: 'bg-green-100 text-green-700' },
+    risky: { label: 'Risky', badgeClass: 'bg-yellow-100 text-yellow-800' },
+    invalid: { label: 'Invalid', badgeClass: 'bg-red-100 text-red-700' },
+    unknown: { label: 'Unverified', badgeClass: 'bg-gray-100 text-gray-600' },
+};
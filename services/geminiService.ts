@@ -1,191 +1,180 @@
 /**
  * @file geminiService.ts
  * This service module handles all interactions with the Google Gemini API.
- * It includes functions for searching for business leads, scraping websites for contacts,
- * and geocoding addresses that are missing coordinates.
+ * It provides the Gemini implementation of `LeadProvider`: searching for business leads,
+ * scraping websites for contacts, geocoding addresses that are missing coordinates, and writing
+ * personalised opening lines for outreach emails.
  */
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { Business, LatLng, ScrapedData } from '../types';
+import { GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { ApiOperation, Business, LatLng, LeadProvider, ScrapedData, SearchArea, SearchResponse } from '../types';
+import { LEAD_JSON_EXAMPLE, parseSearchResponse } from './leadParser';
+import { crawlWebsiteContacts, hasContacts } from './contactCrawler';
+import { areaCenter, describeAreaForPrompt } from './searchArea';
+import { recordApiUsage } from './apiUsage';
+import { cityFromAddress } from './outreach';
 
-// Initialize the GoogleGenAI client with the API key from environment variables.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY as string });
+// The model used when no other model is requested.
+export const DEFAULT_GEMINI_MODEL = "gemini-2.5-flash";
 
 /**
- * Parses a markdown string response from the Gemini API into an array of Business objects.
- * @param {string} markdown - The markdown string returned by the API.
- * @returns {Business[]} An array of parsed business leads.
+ * Creates the Gemini-backed lead provider.
+ * The client is created here rather than at module load so the app can start without an API key
+ * when another provider is selected.
+ * @param {string} apiKey - The Gemini API key.
+ * @param {string} model - The Gemini model to use for every request.
+ * @returns {LeadProvider} The Gemini lead provider.
  */
-function parseLeads(markdown: string): Business[] {
-    const leads: Business[] = [];
-    // Each business is separated by '---', so we split the string by this delimiter.
-    const businesses = markdown.split('---').filter(b => b.trim() !== '');
-
-    businesses.forEach((bizText, index) => {
-        const lines = bizText.trim().split('\n');
-        const name = lines[0].replace(/\*\*/g, '').trim();
-        
-        // Create a new Business object with a unique ID.
-        const lead: Business = {
-            id: `${Date.now()}-${index}`,
-            name: name,
-            address: '',
-            type: '',
-        };
-
-        // Iterate over each line to extract details for the business.
-        lines.slice(1).forEach(line => {
-            const lowerLine = line.toLowerCase();
-            if (lowerLine.includes('address:')) {
-                lead.address = line.substring(line.indexOf(':') + 1).trim();
-            } else if (lowerLine.includes('type:') || lowerLine.includes('category:')) {
-                lead.type = line.substring(line.indexOf(':') + 1).trim();
-            } else if (lowerLine.includes('phone:')) {
-                lead.phone = line.substring(line.indexOf(':') + 1).trim();
-            } else if (lowerLine.includes('website:')) {
-                lead.website = line.substring(line.indexOf(':') + 1).trim();
-            } else if (lowerLine.includes('coordinates:')) {
-                 try {
-                    const coordsText = line.substring(line.indexOf(':') + 1).trim();
-                    const [lat, lng] = coordsText.split(',').map(c => parseFloat(c.trim()));
-                    if (!isNaN(lat) && !isNaN(lng)) {
-                       lead.latitude = lat;
-                       lead.longitude = lng;
-                    }
-                } catch (e) {
-                    console.error("Could not parse coordinates:", e);
-                }
-            } else if (lowerLine.includes('rating:')) {
-                try {
-                    const ratingText = line.substring(line.indexOf(':') + 1).trim();
-                    const ratingMatch = ratingText.match(/(\d\.\d|\d)/);
-                    const reviewsMatch = ratingText.match(/\((\d+)/);
-                    if(ratingMatch) lead.rating = parseFloat(ratingMatch[0]);
-                    if(reviewsMatch) lead.reviews = parseInt(reviewsMatch[1]);
-                } catch(e) {
-                    console.error("Could not parse rating:", e);
-                }
-            }
-        });
+export const createGeminiProvider = (apiKey: string, model: string = DEFAULT_GEMINI_MODEL): LeadProvider => {
+    // Initialize the GoogleGenAI client for this provider.
+    const ai = new GoogleGenAI({ apiKey });
 
-        // Only add the lead if it has a name and address.
-        if (lead.name && lead.address) {
-            leads.push(lead);
-        }
-    });
+    /**
+     * Records the tokens a call used, for the usage dashboard and budget limits.
+     * Tool-use prompts (the Maps grounding results) count as input, and thinking as output, as they are billed.
+     * @param {ApiOperation} operation - What the call was for.
+     * @param {GenerateContentResponse} response - The call's response.
+     */
+    const trackUsage = (operation: ApiOperation, response: GenerateContentResponse) => {
+        const usage = response.usageMetadata;
+        recordApiUsage({
+            provider: 'gemini',
+            model: response.modelVersion || model,
+            operation,
+            promptTokens: (usage?.promptTokenCount ?? 0) + (usage?.toolUsePromptTokenCount ?? 0),
+            responseTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+        });
+    };
 
-    return leads;
-}
+    /**
+     * Searches for business leads using the Gemini API with Google Maps grounding.
+     * @param {string} query - The user's search query (e.g., "restaurants in London").
+     * @param {LatLng | null} location - The user's current location to improve search results.
+     * @param {string[]} excludeNames - Names of businesses already found, which the model is asked to skip.
+     * @param {SearchArea | null} area - An area drawn on the map that results must lie in.
+     * @returns {Promise<SearchResponse>} A promise that resolves to the parsed leads and a report of any entries that were dropped.
+     */
+    const searchLeads = async (query: string, location: LatLng | null, excludeNames: string[] = [], area: SearchArea | null = null): Promise<SearchResponse> => {
+        try {
+            // Keep the model to the drawn area, and centre the Maps tool on it rather than on the user.
+            const areaConstraint = area ? ` Only include businesses located ${describeAreaForPrompt(area)}.` : '';
+            const center = area ? areaCenter(area) : location;
 
+            // When paging through a larger search, tell the model which businesses we already have.
+            const exclusion = excludeNames.length > 0
+                ? `\nDo NOT include any of these businesses, which have already been found: ${excludeNames.join('; ')}.\nFind as many other matching businesses as you can.\n`
+                : '';
 
-/**
- * Searches for business leads using the Gemini API with Google Maps grounding.
- * @param {string} query - The user's search query (e.g., "restaurants in London").
- * @param {LatLng | null} location - The user's current location to improve search results.
- * @returns {Promise<Business[]>} A promise that resolves to an array of business leads.
- */
-export const searchLeads = async (query: string, location: LatLng | null): Promise<Business[]> => {
-    try {
-        // Construct a detailed prompt for the Gemini API.
-        const prompt = `Find businesses matching '${query}'. For each business, provide its name, full address, category/type, main phone number, average star rating, number of reviews, official website URL, and geographic coordinates (latitude, longitude). Format each business entry clearly, separated by '---'. Example:
-**Business Name**
-- Address: 123 Main St, City, State, ZIP
-- Category: Category Type
-- Phone: (555) 555-5555
-- Rating: 4.5 (123 reviews)
-- Website: https://example.com
-- Coordinates: 40.7128, -74.0060
----
+            // Construct a detailed prompt for the Gemini API.
+            // The Maps tool cannot be combined with a response schema, so the JSON shape is requested in the prompt
+            // and validated after parsing.
+            const prompt = `Find businesses matching '${query}'.${areaConstraint}${exclusion} For each business, provide its name, full address, category/type, main phone number, average star rating, number of reviews, official website URL, and geographic coordinates (latitude, longitude).
+Respond with ONLY a JSON array inside a \`\`\`json code block, one object per business, using exactly these keys. Use numbers for rating, reviews, latitude and longitude, and omit any key whose value you do not know. Example:
+\`\`\`json
+${LEAD_JSON_EXAMPLE}
+\`\`\`
 `;
 
-        // Call the Gemini API, enabling the googleMaps tool for grounded results.
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                tools: [{ googleMaps: {} }],
-                // If user location is available, provide it to the tool for better local results.
-                ...(location && {
-                    toolConfig: {
-                        retrievalConfig: {
-                            latLng: location
+            // Call the Gemini API, enabling the googleMaps tool for grounded results.
+            const response = await ai.models.generateContent({
+                model,
+                contents: prompt,
+                config: {
+                    tools: [{ googleMaps: {} }],
+                    // If a location is available, provide it to the tool for better local results.
+                    ...(center && {
+                        toolConfig: {
+                            retrievalConfig: {
+                                latLng: center
+                            }
                         }
-                    }
-                })
-            },
-        });
-        
-        const markdownResponse = response.text;
-        // Parse the markdown response into structured Business objects.
-        return parseLeads(markdownResponse);
-
-    } catch (error) {
-        console.error("Error searching for leads:", error);
-        throw new Error("Failed to fetch leads from Gemini API.");
-    }
-};
+                    })
+                },
+            });
+            trackUsage('search', response);
 
-/**
- * Scrapes a website for contact information (emails, phones, social media links).
- * @param {string} websiteUrl - The URL of the website to scrape.
- * @returns {Promise<ScrapedData>} A promise that resolves to the scraped contact data.
- */
-export const scrapeContacts = async (websiteUrl: string): Promise<ScrapedData> => {
-    if(!websiteUrl || !websiteUrl.startsWith('http')) {
-        throw new Error("Invalid or missing website URL.");
-    }
+            // Parse the response into validated Business objects, falling back to markdown if it isn't valid JSON.
+            return parseSearchResponse(response.text ?? '');
+
+        } catch (error) {
+            console.error("Error searching for leads:", error);
+            throw new Error("Failed to fetch leads from Gemini API.");
+        }
+    };
+
+    /**
+     * Scrapes a website for contact information (emails, phones, social media links).
+     * The website itself is crawled first; Gemini is only asked when the crawl finds nothing
+     * or the site can't be fetched, and its answers carry no source page.
+     * @param {string} websiteUrl - The URL of the website to scrape.
+     * @returns {Promise<ScrapedData>} A promise that resolves to the scraped contact data.
+     */
+    const scrapeContacts = async (websiteUrl: string): Promise<ScrapedData> => {
+        if(!websiteUrl || !websiteUrl.startsWith('http')) {
+            throw new Error("Invalid or missing website URL.");
+        }
+
+        try {
+            const crawled = await crawlWebsiteContacts(websiteUrl);
+            if (hasContacts(crawled)) {
+                return crawled;
+            }
+        } catch (error) {
+            console.warn("Could not crawl website, asking Gemini instead:", error);
+        }
     
-    try {
-        // Prompt for Gemini to analyze a website and extract contact info as a JSON object.
-        const prompt = `Analyze the content of the website ${websiteUrl} and extract contact information. I need all unique email addresses, phone numbers, and social media profile links (specifically for Facebook, Instagram, LinkedIn, and Twitter). Provide the output strictly as a JSON object. The JSON object must have three keys: "emails", "phones", and "socials", where each key holds an array of unique strings. If no information is found for a key, provide an empty array.`;
+        try {
+            // Prompt for Gemini to analyze a website and extract contact info as a JSON object.
+            const prompt = `Analyze the content of the website ${websiteUrl} and extract contact information. I need all unique email addresses, phone numbers, and social media profile links (specifically for Facebook, Instagram, LinkedIn, and Twitter). Provide the output strictly as a JSON object. The JSON object must have three keys: "emails", "phones", and "socials", where each key holds an array of unique strings. If no information is found for a key, provide an empty array.`;
         
-        // Call the Gemini API, specifying a JSON response format and schema.
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        emails: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        phones: { type: Type.ARRAY, items: { type: Type.STRING } },
-                        socials: { type: Type.ARRAY, items: { type: Type.STRING } },
+            // Call the Gemini API, specifying a JSON response format and schema.
+            const response = await ai.models.generateContent({
+                model,
+                contents: prompt,
+                config: {
+                    responseMimeType: "application/json",
+                    responseSchema: {
+                        type: Type.OBJECT,
+                        properties: {
+                            emails: { type: Type.ARRAY, items: { type: Type.STRING } },
+                            phones: { type: Type.ARRAY, items: { type: Type.STRING } },
+                            socials: { type: Type.ARRAY, items: { type: Type.STRING } },
+                        },
                     },
                 },
-            },
-        });
+            });
+            trackUsage('scrape', response);
 
-        const jsonString = response.text;
-        const data = JSON.parse(jsonString);
+            const jsonString = response.text;
+            const data = JSON.parse(jsonString);
 
-        // Return the parsed data, ensuring arrays exist even if empty.
-        return {
-            emails: data.emails || [],
-            phones: data.phones || [],
-            socials: data.socials || [],
-        };
+            // Return the parsed data, ensuring arrays exist even if empty.
+            return {
+                emails: data.emails || [],
+                phones: data.phones || [],
+                socials: data.socials || [],
+            };
 
-    } catch (error) {
-        console.error("Error scraping website:", error);
-        throw new Error(`Failed to scrape contacts for ${websiteUrl}.`);
-    }
-};
+        } catch (error) {
+            console.error("Error scraping website:", error);
+            throw new Error(`Failed to scrape contacts for ${websiteUrl}.`);
+        }
+    };
 
-/**
- * Batch geocodes a list of business addresses to get their latitude and longitude.
- * This is used as a fallback for leads that are missing coordinates from the initial search.
- * @param {{ id: string, address: string }[]} businesses - An array of business objects with ID and address.
- * @returns {Promise<Map<string, LatLng>>} A promise resolving to a Map where keys are business IDs and values are their coordinates.
- */
-export const geocodeAddresses = async (businesses: { id: string, address: string }[]): Promise<Map<string, LatLng>> => {
-    if (businesses.length === 0) {
-        return new Map();
-    }
+    /**
+     * Batch geocodes a list of business addresses to get their latitude and longitude.
+     * This is used as a fallback for leads that are missing coordinates from the initial search.
+     * @param {{ id: string, address: string }[]} businesses - An array of business objects with ID and address.
+     * @returns {Promise<Map<string, LatLng>>} A promise resolving to a Map where keys are business IDs and values are their coordinates.
+     */
+    const geocodeAddresses = async (businesses: { id: string, address: string }[]): Promise<Map<string, LatLng>> => {
+        if (businesses.length === 0) {
+            return new Map();
+        }
     
-    try {
-        // Construct a prompt to ask Gemini for coordinates for a list of addresses.
-        const prompt = `Provide the geographic coordinates (latitude and longitude) for the following list of businesses.
+        try {
+            // Construct a prompt to ask Gemini for coordinates for a list of addresses.
+            const prompt = `Provide the geographic coordinates (latitude and longitude) for the following list of businesses.
 Input format is "ID: Address".
 Your output MUST be a valid JSON object where keys are the business IDs and values are objects with "latitude" and "longitude" properties.
 If you cannot find coordinates for a specific business ID, omit it from your JSON response.
@@ -194,35 +183,100 @@ Businesses:
 ${businesses.map(b => `${b.id}: ${b.address}`).join('\n')}
 `;
         
-        // Call the API, expecting a JSON response.
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: {
-                responseMimeType: "application/json",
-            },
-        });
+            // Call the API, expecting a JSON response.
+            const response = await ai.models.generateContent({
+                model,
+                contents: prompt,
+                config: {
+                    responseMimeType: "application/json",
+                },
+            });
+            trackUsage('geocode', response);
+
+            // Clean up the response string in case it's wrapped in markdown backticks.
+            const jsonString = response.text.trim().replace(/^```json|```$/g, '');
+            const data = JSON.parse(jsonString);
 
-        // Clean up the response string in case it's wrapped in markdown backticks.
-        const jsonString = response.text.trim().replace(/^```json|```$/g, '');
-        const data = JSON.parse(jsonString);
-
-        // Create a Map to store the results for efficient lookup.
-        const coordinatesMap = new Map<string, LatLng>();
-        for (const id in data) {
-            if (Object.prototype.hasOwnProperty.call(data, id) && data[id].latitude && data[id].longitude) {
-                const lat = parseFloat(data[id].latitude);
-                const lng = parseFloat(data[id].longitude);
-                // Ensure coordinates are valid numbers before adding them to the map.
-                if (!isNaN(lat) && !isNaN(lng)) {
-                  coordinatesMap.set(id, { latitude: lat, longitude: lng });
+            // Create a Map to store the results for efficient lookup.
+            const coordinatesMap = new Map<string, LatLng>();
+            for (const id in data) {
+                if (Object.prototype.hasOwnProperty.call(data, id) && data[id].latitude && data[id].longitude) {
+                    const lat = parseFloat(data[id].latitude);
+                    const lng = parseFloat(data[id].longitude);
+                    // Ensure coordinates are valid numbers before adding them to the map.
+                    if (!isNaN(lat) && !isNaN(lng)) {
+                      coordinatesMap.set(id, { latitude: lat, longitude: lng });
+                    }
                 }
             }
+            return coordinatesMap;
+
+        } catch (error) {
+            console.error("Error batch geocoding addresses:", error);
+            return new Map(); // Return an empty map on failure to prevent crashes.
+        }
+    };
+
+    /**
+     * Writes a personalised first sentence of an outreach email to each business, from what is known about it.
+     * @param {Business[]} leads - The businesses to write to.
+     * @param {string} brief - What the sender offers and to whom, so the lines lead into the pitch.
+     * @returns {Promise<Map<string, string>>} A promise resolving to a Map of business IDs to opening lines.
+     */
+    const writeOpeningLines = async (leads: Business[], brief: string): Promise<Map<string, string>> => {
+        if (leads.length === 0) {
+            return new Map();
+        }
+
+        try {
+            // Only what was found about each business, so the lines can't claim anything else.
+            const facts = leads.map(lead => ({
+                id: lead.id,
+                name: lead.name,
+                type: lead.type,
+                city: cityFromAddress(lead.address) || undefined,
+                rating: lead.rating,
+                reviews: lead.reviews,
+                hasWebsite: Boolean(lead.website),
+            }));
+            const prompt = `Write the opening sentence of a short, friendly cold email to each of the businesses below.
+${brief.trim() ? `The sender's offer: ${brief.trim()}
+` : ''}Each sentence must be specific to that business, using only the facts given (for example its type, city, rating or number of reviews), must not pitch the offer yet, must not greet the reader, and must be under 30 words.
+Your output MUST be a valid JSON object where keys are the business IDs and values are the opening sentences.
+
+Businesses:
+${JSON.stringify(facts)}
+`;
+
+            const response = await ai.models.generateContent({
+                model,
+                contents: prompt,
+                config: {
+                    responseMimeType: "application/json",
+                },
+            });
+            trackUsage('outreach', response);
+
+            const data = JSON.parse(response.text.trim().replace(/^```json|```$/g, ''));
+            const lines = new Map<string, string>();
+            leads.forEach(lead => {
+                if (typeof data[lead.id] === 'string' && data[lead.id].trim()) {
+                    lines.set(lead.id, data[lead.id].trim());
+                }
+            });
+            return lines;
+
+        } catch (error) {
+            console.error("Error writing opening lines:", error);
+            throw new Error("Failed to write opening lines with Gemini.");
         }
-        return coordinatesMap;
+    };
 
-    } catch (error) {
-        console.error("Error batch geocoding addresses:", error);
-        return new Map(); // Return an empty map on failure to prevent crashes.
-    }
+    return {
+        id: 'gemini',
+        searchLeads,
+        scrapeContacts,
+        geocodeAddresses,
+        writeOpeningLines,
+    };
 };
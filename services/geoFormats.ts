@@ -0,0 +1,262 @@
+/**
+ * @file geoFormats.ts
+ * Moves leads in and out of GIS and mapping tools such as QGIS and Google Earth.
+ * Leads are written as a GeoJSON FeatureCollection or as KML placemarks carrying every attribute,
+ * scraped contact details included. GeoJSON and KML files are read back into an import table whose
+ * first columns are the coordinates taken from each feature's geometry, so they go through the same
+ * column mapping and validation as a CSV import; the original attributes are kept alongside so
+ * scraped data, the pipeline stage and dated notes can be restored.
+ */
+
+import { Business, LeadNote, LeadScore, ScrapedData } from '../types';
+import { PIPELINE_STAGES } from './pipeline';
+import type { ImportTable } from './leadImport';
+
+// Separator for a list of strings in one KML value or import cell.
+const LIST_SEPARATOR = '; ';
+
+/**
+ * Everything about a lead worth keeping in a file: its fields without coordinates (the geometry
+ * holds those) or transient scraping and audit state, plus its score.
+ */
+const leadAttributes = (lead: Business, score: LeadScore | undefined): Record<string, unknown> => {
+    const { latitude, longitude, isScraping, scrapeError, isAuditing, auditError, ...attributes } = lead;
+    return { ...attributes, score: score?.score ?? null };
+};
+
+const hasCoordinates = (lead: Business): boolean => lead.latitude != null && lead.longitude != null;
+
+/**
+ * Writes leads as a GeoJSON FeatureCollection (RFC 7946), one Point feature per lead.
+ * Leads without coordinates are kept with a null geometry, so no attributes are lost.
+ * @param {Business[]} leads - The leads.
+ * @param {Map<string, LeadScore>} scores - Every lead's score.
+ * @returns {string} The GeoJSON text.
+ */
+export const leadsToGeoJson = (leads: Business[], scores: Map<string, LeadScore>): string => JSON.stringify({
+    type: 'FeatureCollection',
+    features: leads.map(lead => ({
+        type: 'Feature',
+        id: lead.id,
+        geometry: hasCoordinates(lead) ? { type: 'Point', coordinates: [lead.longitude, lead.latitude] } : null,
+        properties: leadAttributes(lead, scores.get(lead.id)),
+    })),
+}, null, 2);
+
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+/**
+ * An attribute as KML text: lists of strings are joined, other objects are written as JSON.
+ */
+const kmlValue = (value: unknown): string => {
+    if (value == null) return '';
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value.join(LIST_SEPARATOR);
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Writes leads as a KML document, one placemark per lead with every attribute in its ExtendedData.
+ * Leads without coordinates get a placemark without a point.
+ * @param {Business[]} leads - The leads.
+ * @param {Map<string, LeadScore>} scores - Every lead's score.
+ * @returns {string} The KML text.
+ */
+export const leadsToKml = (leads: Business[], scores: Map<string, LeadScore>): string => {
+    const placemarks = leads.map(lead => {
+        const data = Object.entries(leadAttributes(lead, scores.get(lead.id)))
+            .map(([name, value]) => `<Data name="${escapeXml(name)}"><value>${escapeXml(kmlValue(value))}</value></Data>`)
+            .join('');
+        const point = hasCoordinates(lead) ? `<Point><coordinates>${lead.longitude},${lead.latitude}</coordinates></Point>` : '';
+        return `    <Placemark id="${escapeXml(lead.id)}"><name>${escapeXml(lead.name)}</name><address>${escapeXml(lead.address)}</address><ExtendedData>${data}</ExtendedData>${point}</Placemark>`;
+    });
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">',
+        '  <Document>',
+        '    <name>Leads</name>',
+        ...placemarks,
+        '  </Document>',
+        '</kml>',
+    ].join('\n') + '\n';
+};
+
+/**
+ * A feature read from a file: where it is, if anywhere, and its attributes.
+ */
+interface GeoFeature {
+    point: [number, number] | null; // Longitude and latitude.
+    record: Record<string, unknown>; // The feature's attributes.
+}
+
+/**
+ * A geometry's position: a point's own coordinates, or the middle of the bounding box of any other shape.
+ */
+const representativePoint = (positions: number[][]): [number, number] | null => {
+    const valid = positions.filter(([lng, lat]) => Number.isFinite(lng) && Number.isFinite(lat));
+    if (valid.length === 0) return null;
+    if (valid.length === 1) return [valid[0][0], valid[0][1]];
+    const lngs = valid.map(([lng]) => lng);
+    const lats = valid.map(([, lat]) => lat);
+    return [(Math.min(...lngs) + Math.max(...lngs)) / 2, (Math.min(...lats) + Math.max(...lats)) / 2];
+};
+
+/**
+ * Every position in a GeoJSON geometry, however deeply its coordinates are nested.
+ */
+const geoJsonPositions = (geometry: any): number[][] => {
+    if (!geometry || typeof geometry !== 'object') return [];
+    if (geometry.type === 'GeometryCollection') return (geometry.geometries ?? []).flatMap(geoJsonPositions);
+    const positions: number[][] = [];
+    const collect = (value: unknown) => {
+        if (!Array.isArray(value)) return;
+        if (typeof value[0] === 'number') positions.push(value.map(Number));
+        else value.forEach(collect);
+    };
+    collect(geometry.coordinates);
+    return positions;
+};
+
+/**
+ * Reads the features of a GeoJSON FeatureCollection or single Feature.
+ */
+const parseGeoJson = (text: string): GeoFeature[] => {
+    let data: any;
+    try {
+        data = JSON.parse(text.replace(/^\uFEFF/, ''));
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    const features = data?.type === 'FeatureCollection' && Array.isArray(data.features) ? data.features
+        : data?.type === 'Feature' ? [data]
+        : null;
+    if (!features) throw new Error('The file is not a GeoJSON FeatureCollection or Feature.');
+    return features.map((feature: any) => ({
+        point: representativePoint(geoJsonPositions(feature?.geometry)),
+        record: feature?.properties && typeof feature.properties === 'object' ? feature.properties : {},
+    }));
+};
+
+const elements = (parent: Document | Element, localName: string): Element[] =>
+    Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const childText = (parent: Element, localName: string): string | undefined =>
+    Array.from(parent.children).find(child => child.localName === localName)?.textContent?.trim();
+
+/**
+ * A KML value as an attribute: JSON written by this app's export is decoded, the rest is kept as text.
+ */
+const kmlAttribute = (text: string): unknown => {
+    if (/^[[{]/.test(text)) {
+        try {
+            return JSON.parse(text);
+        } catch {
+            // Not JSON after all; keep the text.
+        }
+    }
+    return text;
+};
+
+/**
+ * Reads the placemarks of a KML document, with their name, address, description and extended data.
+ */
+const parseKml = (text: string): GeoFeature[] => {
+    const doc = new DOMParser().parseFromString(text, 'application/xml');
+    if (elements(doc, 'parsererror').length > 0) throw new Error('The file is not valid KML.');
+    const placemarks = elements(doc, 'Placemark');
+    if (placemarks.length === 0) throw new Error('The KML file has no placemarks.');
+    return placemarks.map(placemark => {
+        const record: Record<string, unknown> = {};
+        (['name', 'address', 'description'] as const).forEach(field => {
+            const value = childText(placemark, field);
+            if (value) record[field] = value;
+        });
+        elements(placemark, 'Data').forEach(data => {
+            const name = data.getAttribute('name');
+            if (name) record[name] = kmlAttribute(elements(data, 'value')[0]?.textContent?.trim() ?? '');
+        });
+        elements(placemark, 'SimpleData').forEach(data => {
+            const name = data.getAttribute('name');
+            if (name) record[name] = kmlAttribute(data.textContent?.trim() ?? '');
+        });
+        const positions = elements(placemark, 'coordinates').flatMap(node =>
+            (node.textContent ?? '').trim().split(/\s+/).filter(Boolean).map(tuple => tuple.split(',').map(Number)));
+        return { point: representativePoint(positions), record };
+    });
+};
+
+const isNote = (value: unknown): value is LeadNote => {
+    const note = value as LeadNote;
+    return !!note && typeof note === 'object' && typeof note.text === 'string' && typeof note.createdAt === 'number';
+};
+
+/**
+ * An attribute as an import cell: lists of strings are joined, notes become their text, other objects JSON.
+ */
+const cellText = (value: unknown): string => {
+    if (value == null) return '';
+    if (typeof value === 'string') return value;
+    if (typeof value !== 'object') return String(value);
+    if (Array.isArray(value)) {
+        if (value.every(item => typeof item === 'string')) return value.join(LIST_SEPARATOR);
+        if (value.every(isNote)) return value.map(note => note.text).join('\n');
+    }
+    return JSON.stringify(value);
+};
+
+/**
+ * Reads a GeoJSON or KML file into an import table. The first two columns are the latitude and
+ * longitude of each feature's geometry; the rest are its attributes, in order of first appearance.
+ * @param {string} text - The file's contents.
+ * @param {'geojson' | 'kml'} format - Which format the file is in.
+ * @returns {ImportTable} The headings, rows and each feature's original attributes.
+ */
+export const readGeoTable = (text: string, format: 'geojson' | 'kml'): ImportTable => {
+    const features = format === 'kml' ? parseKml(text) : parseGeoJson(text);
+    if (features.length === 0) throw new Error('The file has no features.');
+    const keys: string[] = [];
+    features.forEach(({ record }) => Object.keys(record).forEach(key => {
+        // The geometry is the source of truth for coordinates.
+        if (key !== 'latitude' && key !== 'longitude' && !keys.includes(key)) keys.push(key);
+    }));
+    return {
+        headers: ['latitude', 'longitude', ...keys],
+        rows: features.map(({ point, record }) => [
+            point ? String(point[1]) : '',
+            point ? String(point[0]) : '',
+            ...keys.map(key => cellText(record[key])),
+        ]),
+        records: features.map(({ record }) => record),
+    };
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Scraped data from an attribute, which is an object in GeoJSON and JSON text in KML from other tools.
+ */
+const scrapedDataOf = (value: unknown): ScrapedData | undefined => {
+    const data = typeof value === 'string' ? kmlAttribute(value) : value;
+    if (!data || typeof data !== 'object') return undefined;
+    const candidate = data as ScrapedData;
+    if (!isStringArray(candidate.emails) || !isStringArray(candidate.phones) || !isStringArray(candidate.socials)) return undefined;
+    return candidate;
+};
+
+/**
+ * Restores the attributes a column mapping can't carry from a feature exported by this app:
+ * scraped contact details, the pipeline stage, and notes with their dates (when the notes
+ * column was imported).
+ * @param {Business} lead - The lead built from the mapped columns; updated in place.
+ * @param {Record<string, unknown>} record - The feature's original attributes.
+ */
+export const restoreLeadAttributes = (lead: Business, record: Record<string, unknown>) => {
+    const scrapedData = scrapedDataOf(record.scrapedData);
+    if (scrapedData) lead.scrapedData = scrapedData;
+    const stage = PIPELINE_STAGES.find(s => s.id === record.stage);
+    if (stage) lead.stage = stage.id;
+    if (lead.notes && Array.isArray(record.notes) && record.notes.length > 0 && record.notes.every(isNote)) {
+        lead.notes = record.notes.map(note => ({ id: String(note.id), text: note.text, createdAt: note.createdAt }));
+    }
+};
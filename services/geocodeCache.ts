@@ -0,0 +1,105 @@
+/**
+ * @file geocodeCache.ts
+ * A persistent cache of geocoding results, keyed by geocoder and normalised address, so the same
+ * addresses aren't looked up again on every search. Results that can't be real coordinates are
+ * dropped before they are cached or returned. The cache lives in localStorage and keeps the most
+ * recently added entries.
+ */
+
+import { Geocoder, LatLng } from '../types';
+import { isValidCoordinate } from './locationChecks';
+
+// localStorage key under which the cache is persisted.
+const CACHE_STORAGE_KEY = 'leadFinderGeocodeCache';
+// The oldest entries are dropped beyond this many.
+const MAX_CACHE_ENTRIES = 5000;
+
+/**
+ * A cached geocoding result.
+ */
+interface CachedCoordinates extends LatLng {
+    cachedAt: number; // When the address was geocoded, in ms since the epoch.
+}
+
+let cache: Map<string, CachedCoordinates> | null = null;
+
+/**
+ * The cache, read from localStorage on first use.
+ */
+const getCache = (): Map<string, CachedCoordinates> => {
+    if (!cache) {
+        cache = new Map();
+        try {
+            const stored = localStorage.getItem(CACHE_STORAGE_KEY);
+            if (stored) cache = new Map(Object.entries(JSON.parse(stored)));
+        } catch (e) {
+            console.error("Failed to parse geocode cache from localStorage", e);
+        }
+    }
+    return cache;
+};
+
+const persistCache = (entries: Map<string, CachedCoordinates>) => {
+    // Map iteration follows insertion order, so the first keys are the oldest.
+    for (const key of entries.keys()) {
+        if (entries.size <= MAX_CACHE_ENTRIES) break;
+        entries.delete(key);
+    }
+    try {
+        localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+    } catch (e) {
+        console.error("Failed to save geocode cache to localStorage", e);
+    }
+};
+
+/**
+ * The cache key of an address within a backend's namespace. Case, accents, punctuation and spacing
+ * are ignored, e.g. "nominatim|12 rue de l eglise paris".
+ */
+const geocodeCacheKey = (namespace: string, address: string): string =>
+    `${namespace}|${address.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()}`;
+
+/**
+ * Wraps a geocoder with the cache. Cached addresses are answered without calling the geocoder;
+ * the rest are looked up, and valid results are cached.
+ * @param {Geocoder} geocoder - The geocoder to wrap.
+ * @param {string} namespace - Keeps each backend's results apart, so switching backend re-geocodes.
+ * @returns {Geocoder} The caching geocoder.
+ */
+export const withGeocodeCache = (geocoder: Geocoder, namespace: string): Geocoder => ({
+    geocodeAddresses: async (businesses) => {
+        const entries = getCache();
+        const keyOf = (address: string) => geocodeCacheKey(namespace, address);
+        const found = new Map<string, LatLng>();
+        const misses = businesses.filter(({ id, address }) => {
+            const hit = entries.get(keyOf(address));
+            if (hit) found.set(id, { latitude: hit.latitude, longitude: hit.longitude });
+            return !hit;
+        });
+        if (misses.length === 0) return found;
+
+        const addresses = new Map(misses.map(({ id, address }) => [id, address]));
+        const resolved = await geocoder.geocodeAddresses(misses);
+        resolved.forEach((point, id) => {
+            if (!addresses.has(id) || !isValidCoordinate(point)) return;
+            found.set(id, point);
+            entries.set(keyOf(addresses.get(id)!), { latitude: point.latitude, longitude: point.longitude, cachedAt: Date.now() });
+        });
+        persistCache(entries);
+        return found;
+    },
+});
+
+/**
+ * The number of cached addresses.
+ * @returns {number} The count.
+ */
+export const geocodeCacheSize = (): number => getCache().size;
+
+/**
+ * Forgets every cached address.
+ */
+export const clearGeocodeCache = () => {
+    cache = new Map();
+    localStorage.removeItem(CACHE_STORAGE_KEY);
+};
@@ -0,0 +1,92 @@
+/**
+ * @file heatmap.ts
+ * Draws a density heatmap of points onto a canvas.
+ * Each point stamps a soft, faint circle into the canvas's alpha channel, so overlapping points add up;
+ * the accumulated alpha is then mapped through a blue-to-red gradient.
+ */
+
+/**
+ * A point to draw, in canvas pixels.
+ */
+export interface HeatPoint {
+    x: number;
+    y: number;
+}
+
+// Colour stops from sparse to dense.
+const GRADIENT_STOPS: [number, string][] = [[0.25, '#2563EB'], [0.5, '#06B6D4'], [0.7, '#84CC16'], [0.85, '#FACC15'], [1, '#DC2626']];
+// How much a single point contributes; about this many overlapping points reach the densest colour.
+const POINT_ALPHA = 0.15;
+// The most opaque the heatmap gets, so the map underneath stays readable.
+const MAX_OPACITY = 0.75;
+
+let palette: Uint8ClampedArray | null = null;
+
+/**
+ * The gradient as 256 RGBA entries, one per alpha level. Built once.
+ */
+const getPalette = (): Uint8ClampedArray => {
+    if (!palette) {
+        const canvas = document.createElement('canvas');
+        canvas.width = 256;
+        canvas.height = 1;
+        const ctx = canvas.getContext('2d')!;
+        const gradient = ctx.createLinearGradient(0, 0, 256, 0);
+        GRADIENT_STOPS.forEach(([offset, colour]) => gradient.addColorStop(offset, colour));
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, 256, 1);
+        palette = ctx.getImageData(0, 0, 256, 1).data;
+    }
+    return palette;
+};
+
+/**
+ * A soft circle of the given radius: opaque in the middle, fading to transparent at the edge.
+ */
+const createStamp = (radius: number): HTMLCanvasElement => {
+    const stamp = document.createElement('canvas');
+    stamp.width = stamp.height = radius * 2;
+    const ctx = stamp.getContext('2d')!;
+    const gradient = ctx.createRadialGradient(radius, radius, 0, radius, radius, radius);
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 1)');
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, radius * 2, radius * 2);
+    return stamp;
+};
+
+/**
+ * Clears the canvas and draws a heatmap of the points on it.
+ * @param {HTMLCanvasElement} canvas - The canvas, already sized.
+ * @param {HeatPoint[]} points - The points, in canvas pixels.
+ * @param {number} radius - How far each point's heat spreads, in pixels.
+ */
+export const drawHeatmap = (canvas: HTMLCanvasElement, points: HeatPoint[], radius: number) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (points.length === 0 || canvas.width === 0 || canvas.height === 0) return;
+
+    const stamp = createStamp(radius);
+    ctx.globalAlpha = POINT_ALPHA;
+    points.forEach(point => {
+        // Points well off the canvas can't contribute to it.
+        if (point.x < -radius || point.y < -radius || point.x > canvas.width + radius || point.y > canvas.height + radius) return;
+        ctx.drawImage(stamp, point.x - radius, point.y - radius);
+    });
+    ctx.globalAlpha = 1;
+
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const pixels = image.data;
+    const colours = getPalette();
+    for (let i = 3; i < pixels.length; i += 4) {
+        const alpha = pixels[i];
+        if (alpha === 0) continue;
+        const offset = alpha * 4;
+        pixels[i - 3] = colours[offset];
+        pixels[i - 2] = colours[offset + 1];
+        pixels[i - 1] = colours[offset + 2];
+        pixels[i] = Math.min(alpha * 3, 255 * MAX_OPACITY);
+    }
+    ctx.putImageData(image, 0, 0);
+};
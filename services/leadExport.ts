@@ -0,0 +1,404 @@
+/**
+ * @file leadExport.ts
+ * Exports leads as CSV, Excel (.xlsx), JSON, vCard, GeoJSON or KML.
+ * The user picks and orders the columns, or starts from a preset matching the import format of a
+ * CRM (HubSpot, Salesforce, Pipedrive). Emails are either joined into one cell or written one row per email.
+ * The last settings used are persisted in localStorage.
+ */
+
+import { Business, ExportColumnId, ExportField, ExportFormat, ExportSettings, LeadScore } from '../types';
+import { leadsToGeoJson, leadsToKml } from './geoFormats';
+import { PIPELINE_STAGES, stageOf } from './pipeline';
+import { auditOf, auditTalkingPoints } from './websiteAudit';
+import { createXlsx } from './xlsxWriter';
+
+// localStorage key under which the export settings are persisted.
+const EXPORT_STORAGE_KEY = 'leadFinderExportSettings';
+// Value of the "Lead Source" column, which CRMs use to record where a lead came from.
+const LEAD_SOURCE = 'Lead Finder Pro';
+// Separator for several values in one cell.
+const LIST_SEPARATOR = '; ';
+
+/**
+ * The exportable columns in their default order, with their default headings.
+ */
+export const EXPORT_COLUMNS: { id: ExportColumnId; label: string }[] = [
+    { id: 'name', label: 'Name' },
+    { id: 'address', label: 'Address' },
+    { id: 'category', label: 'Type' },
+    { id: 'phone', label: 'Phone' },
+    { id: 'phoneType', label: 'Phone Type' },
+    { id: 'rating', label: 'Rating' },
+    { id: 'reviews', label: 'Reviews' },
+    { id: 'website', label: 'Website' },
+    { id: 'emails', label: 'Scraped Emails' },
+    { id: 'scrapedPhones', label: 'Scraped Phones' },
+    { id: 'socials', label: 'Scraped Socials' },
+    { id: 'primaryEmail', label: 'Best Email' },
+    { id: 'emailStatus', label: 'Email Status' },
+    { id: 'domain', label: 'Domain' },
+    { id: 'latitude', label: 'Latitude' },
+    { id: 'longitude', label: 'Longitude' },
+    { id: 'score', label: 'Score' },
+    { id: 'opportunity', label: 'Website Opportunity' },
+    { id: 'talkingPoints', label: 'Talking Points' },
+    { id: 'stage', label: 'Stage' },
+    { id: 'tags', label: 'Tags' },
+    { id: 'notes', label: 'Notes' },
+    { id: 'leadSource', label: 'Lead Source' },
+];
+
+// The columns the original CSV export wrote, which a custom export starts with.
+const DEFAULT_COLUMNS: ExportColumnId[] = ['name', 'address', 'category', 'phone', 'phoneType', 'rating', 'reviews', 'website', 'emails', 'scrapedPhones', 'socials'];
+
+/**
+ * The export formats, with their file extensions and MIME types.
+ * Formats with a `note` write every attribute of a lead, so columns don't apply; the note says what they contain.
+ */
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string; note?: string }[] = [
+    { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+    { id: 'xlsx', label: 'Excel (.xlsx)', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+    { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+    {
+        id: 'vcard', label: 'vCard (.vcf)', extension: 'vcf', mimeType: 'text/vcard;charset=utf-8',
+        note: "vCard exports one business card per lead with every phone number, email, website and address, so columns don't apply.",
+    },
+    {
+        id: 'geojson', label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json',
+        note: "GeoJSON exports one point per lead with every attribute, scraped contact details included, for QGIS and other GIS tools, so columns don't apply. Leads without coordinates have no geometry.",
+    },
+    {
+        id: 'kml', label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml',
+        note: "KML exports one placemark per lead with every attribute in its extended data, for Google Earth, My Maps and GIS tools, so columns don't apply.",
+    },
+];
+
+/**
+ * Column presets matching CRM import templates. Each maps lead columns to the CRM's field names.
+ */
+export const EXPORT_PRESETS: { id: Exclude<ExportSettings['preset'], 'custom'>; label: string; description: string; fields: [ExportColumnId, string][] }[] = [
+    {
+        id: 'hubspot',
+        label: 'HubSpot',
+        description: 'Companies import, with the best email for the associated contact.',
+        fields: [
+            ['name', 'Name'], ['domain', 'Company Domain Name'], ['website', 'Website URL'], ['phone', 'Phone Number'],
+            ['address', 'Street Address'], ['category', 'Industry'], ['primaryEmail', 'Email'], ['leadSource', 'Lead Source'],
+        ],
+    },
+    {
+        id: 'salesforce',
+        label: 'Salesforce',
+        description: 'Leads import. Last Name is required, so the business name fills it.',
+        fields: [
+            ['name', 'Company'], ['name', 'Last Name'], ['primaryEmail', 'Email'], ['phone', 'Phone'], ['website', 'Website'],
+            ['address', 'Street'], ['category', 'Industry'], ['leadSource', 'Lead Source'], ['notes', 'Description'],
+        ],
+    },
+    {
+        id: 'pipedrive',
+        label: 'Pipedrive',
+        description: 'Leads import, creating an organization and a person per row.',
+        fields: [
+            ['name', 'Lead - Title'], ['name', 'Organization - Name'], ['address', 'Organization - Address'], ['name', 'Person - Name'],
+            ['primaryEmail', 'Person - Email'], ['phone', 'Person - Phone'], ['notes', 'Note - Content'],
+        ],
+    },
+];
+
+const labelOf = (column: ExportColumnId): string => EXPORT_COLUMNS.find(c => c.id === column)?.label ?? column;
+
+/**
+ * The fields of a custom export: the original CSV columns, followed by the rest switched off.
+ * @returns {ExportField[]} Every column, in order.
+ */
+export const defaultExportFields = (): ExportField[] => [
+    ...DEFAULT_COLUMNS.map(column => ({ column, header: labelOf(column), enabled: true })),
+    ...EXPORT_COLUMNS.filter(c => !DEFAULT_COLUMNS.includes(c.id)).map(c => ({ column: c.id, header: c.label, enabled: false })),
+];
+
+/**
+ * The fields for a preset: its columns under the CRM's headings, followed by the unused columns switched off.
+ * @param {ExportSettings['preset']} preset - The preset, or 'custom' for the default columns.
+ * @returns {ExportField[]} Every column, in order.
+ */
+export const presetFields = (preset: ExportSettings['preset']): ExportField[] => {
+    const definition = EXPORT_PRESETS.find(p => p.id === preset);
+    if (!definition) return defaultExportFields();
+    const used = new Set(definition.fields.map(([column]) => column));
+    return [
+        ...definition.fields.map(([column, header]) => ({ column, header, enabled: true })),
+        ...EXPORT_COLUMNS.filter(c => !used.has(c.id)).map(c => ({ column: c.id, header: c.label, enabled: false })),
+    ];
+};
+
+/**
+ * The settings used until the user changes them.
+ */
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+    format: 'csv',
+    preset: 'custom',
+    fields: defaultExportFields(),
+    emailMode: 'joined',
+    scope: 'filtered',
+};
+
+/**
+ * The lead's best email: the highest-scoring one that didn't fail verification.
+ */
+export const primaryEmailOf = (lead: Business): string => {
+    const verifications = lead.scrapedData?.verifications ?? {};
+    const candidates = (lead.scrapedData?.emails ?? []).filter(email => verifications[email]?.status !== 'invalid');
+    return candidates.sort((a, b) => (verifications[b]?.score ?? 0) - (verifications[a]?.score ?? 0))[0] ?? '';
+};
+
+/**
+ * The host name of the lead's website, without "www.".
+ */
+const domainOf = (lead: Business): string => {
+    if (!lead.website) return '';
+    try {
+        return new URL(/^https?:\/\//i.test(lead.website) ? lead.website : `https://${lead.website}`).hostname.replace(/^www\./, '');
+    } catch {
+        return '';
+    }
+};
+
+/**
+ * A cell's value: numbers are kept as numbers so spreadsheets and JSON treat them as such.
+ * In one-row-per-email mode `email` is the row's email; otherwise it is null and every email is joined.
+ */
+const cellValue = (column: ExportColumnId, lead: Business, email: string | null, score: LeadScore | undefined): string | number | null => {
+    const emails = email !== null ? (email ? [email] : []) : lead.scrapedData?.emails ?? [];
+    switch (column) {
+        case 'name': return lead.name;
+        case 'address': return lead.address;
+        case 'category': return lead.type;
+        case 'phone': return lead.phone ?? null;
+        case 'phoneType': return lead.phoneType ?? '';
+        case 'rating': return lead.rating ?? null;
+        case 'reviews': return lead.reviews ?? null;
+        case 'website': return lead.website ?? '';
+        case 'domain': return domainOf(lead);
+        case 'emails': return emails.join(LIST_SEPARATOR);
+        case 'emailStatus': return emails.map(e => lead.scrapedData?.verifications?.[e]?.status ?? 'unknown').join(LIST_SEPARATOR);
+        case 'primaryEmail': return primaryEmailOf(lead);
+        case 'scrapedPhones': return (lead.scrapedData?.phones ?? []).join(LIST_SEPARATOR);
+        case 'socials': return (lead.scrapedData?.socials ?? []).join(LIST_SEPARATOR);
+        case 'latitude': return lead.latitude ?? null;
+        case 'longitude': return lead.longitude ?? null;
+        case 'score': return score?.score ?? null;
+        case 'opportunity': return auditOf(lead)?.opportunity ?? null;
+        case 'talkingPoints': return auditTalkingPoints(lead).join('\n');
+        case 'stage': return PIPELINE_STAGES.find(stage => stage.id === stageOf(lead))?.label ?? '';
+        case 'tags': return (lead.tags ?? []).join(LIST_SEPARATOR);
+        case 'notes': return (lead.notes ?? []).map(note => note.text).join('\n');
+        case 'leadSource': return LEAD_SOURCE;
+    }
+};
+
+/**
+ * A table of export rows, with the headings first.
+ */
+export interface ExportTable {
+    headers: string[];
+    rows: (string | number | null)[][];
+}
+
+/**
+ * Builds the rows of a tabular export from the enabled fields.
+ * @param {Business[]} leads - The leads to export.
+ * @param {ExportSettings} settings - The chosen columns and email mode.
+ * @param {Map<string, LeadScore>} scores - Every lead's score, for the score column.
+ * @returns {ExportTable} The headings and rows.
+ */
+export const buildExportTable = (leads: Business[], settings: ExportSettings, scores: Map<string, LeadScore>): ExportTable => {
+    const fields = settings.fields.filter(field => field.enabled);
+    const rows: ExportTable['rows'] = [];
+    leads.forEach(lead => {
+        const score = scores.get(lead.id);
+        // Leads without emails still get a row in one-row-per-email mode.
+        const rowEmails = settings.emailMode === 'perEmail'
+            ? (lead.scrapedData?.emails.length ? lead.scrapedData.emails : [''])
+            : [null];
+        rowEmails.forEach(email => rows.push(fields.map(field => cellValue(field.column, lead, email, score))));
+    });
+    return { headers: fields.map(field => field.header), rows };
+};
+
+/**
+ * Formats one CSV cell per RFC 4180: fields containing commas, quotes or line breaks are quoted,
+ * with quotes doubled. Text starting with a formula character is prefixed with an apostrophe so
+ * spreadsheets don't run it; E.164 phone numbers are only digits, so they're left alone for diallers.
+ */
+const csvCell = (value: string | number | null): string => {
+    if (value == null) return '';
+    let text = String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && !/^\+[\d; +]+$/.test(text)) {
+        text = "'" + text;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Writes a table as RFC 4180 CSV, with CRLF line endings and a byte order mark so Excel reads it as UTF-8.
+ * @param {ExportTable} table - The table.
+ * @returns {string} The CSV text.
+ */
+export const toCsv = (table: ExportTable): string =>
+    '\uFEFF' + [table.headers, ...table.rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * Writes a table as a JSON array of objects keyed by heading.
+ * @param {ExportTable} table - The table.
+ * @returns {string} The JSON text.
+ */
+export const toJson = (table: ExportTable): string =>
+    JSON.stringify(table.rows.map(row => Object.fromEntries(table.headers.map((header, i) => [header, row[i]]))), null, 2);
+
+/**
+ * Escapes a vCard property value.
+ */
+const vCardText = (text: string): string =>
+    text.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/[,;]/g, match => `\\${match}`);
+
+/**
+ * Folds a vCard line to at most 75 bytes per line, continuing with a leading space.
+ */
+const foldLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let bytes = 0;
+    for (const char of line) {
+        const size = encoder.encode(char).length;
+        // Continuation lines start with a space, which counts towards their length.
+        if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+            parts.push(current);
+            current = '';
+            bytes = 0;
+        }
+        current += char;
+        bytes += size;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+/**
+ * Writes leads as vCard 3.0 business cards, one per lead. Columns don't apply; every contact detail is included.
+ * @param {Business[]} leads - The leads.
+ * @returns {string} The vCard text.
+ */
+export const toVCard = (leads: Business[]): string => leads.map(lead => {
+    const scraped = lead.scrapedData;
+    const primaryEmail = primaryEmailOf(lead);
+    const lines = [
+        'BEGIN:VCARD',
+        'VERSION:3.0',
+        'N:;;;;',
+        `FN:${vCardText(lead.name)}`,
+        `ORG:${vCardText(lead.name)}`,
+        'X-ABShowAs:COMPANY',
+    ];
+    if (lead.phone) lines.push(`TEL;TYPE=WORK,VOICE:${lead.phone}`);
+    scraped?.phones.filter(phone => phone !== lead.phone).forEach(phone => {
+        lines.push(`TEL;TYPE=${scraped.phoneTypes?.[phone] === 'mobile' ? 'CELL' : 'WORK,VOICE'}:${phone}`);
+    });
+    scraped?.emails.forEach(email => {
+        lines.push(`EMAIL;TYPE=INTERNET${email === primaryEmail ? ',PREF' : ''}:${email}`);
+    });
+    if (lead.website) lines.push(`URL:${lead.website}`);
+    scraped?.socials.forEach(social => lines.push(`URL:${social}`));
+    if (lead.address) lines.push(`ADR;TYPE=WORK:;;${vCardText(lead.address)};;;;`);
+    if (lead.latitude != null && lead.longitude != null) lines.push(`GEO:${lead.latitude};${lead.longitude}`);
+    const categories = [lead.type, ...(lead.tags ?? [])].filter(Boolean).map(vCardText);
+    if (categories.length > 0) lines.push(`CATEGORIES:${categories.join(',')}`);
+    if (lead.notes?.length) lines.push(`NOTE:${vCardText(lead.notes.map(note => note.text).join('\n'))}`);
+    lines.push('END:VCARD');
+    return lines.map(foldLine).join('\r\n');
+}).join('\r\n') + '\r\n';
+
+/**
+ * Builds the export file for the chosen settings.
+ * @param {Business[]} leads - The leads to export.
+ * @param {ExportSettings} settings - The export settings.
+ * @param {Map<string, LeadScore>} scores - Every lead's score, for the score column and geographic formats.
+ * @returns {Blob} The file contents.
+ */
+export const createExportFile = (leads: Business[], settings: ExportSettings, scores: Map<string, LeadScore>): Blob => {
+    const { mimeType } = EXPORT_FORMATS.find(f => f.id === settings.format)!;
+    if (settings.format === 'vcard') return new Blob([toVCard(leads)], { type: mimeType });
+    if (settings.format === 'geojson') return new Blob([leadsToGeoJson(leads, scores)], { type: mimeType });
+    if (settings.format === 'kml') return new Blob([leadsToKml(leads, scores)], { type: mimeType });
+    const table = buildExportTable(leads, settings, scores);
+    switch (settings.format) {
+        case 'xlsx':
+            return new Blob([createXlsx('Leads', [table.headers, ...table.rows])], { type: mimeType });
+        case 'json':
+            return new Blob([toJson(table)], { type: mimeType });
+        default:
+            return new Blob([toCsv(table)], { type: mimeType });
+    }
+};
+
+/**
+ * The download file name, e.g. "leads-hubspot-2024-05-01.csv".
+ * @param {ExportSettings} settings - The export settings.
+ * @returns {string} The file name.
+ */
+export const exportFileName = (settings: ExportSettings): string => {
+    const { extension } = EXPORT_FORMATS.find(f => f.id === settings.format)!;
+    const date = new Date().toISOString().slice(0, 10);
+    return `leads-${settings.preset === 'custom' ? '' : `${settings.preset}-`}${date}.${extension}`;
+};
+
+/**
+ * Saves a file through the browser's download mechanism.
+ * @param {Blob} blob - The file contents.
+ * @param {string} fileName - The file name.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const link = document.createElement("a");
+    const url = URL.createObjectURL(blob);
+    link.href = url;
+    link.setAttribute("download", fileName);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Reads the persisted export settings. Columns added since they were saved are appended, switched off.
+ * @returns {ExportSettings} The export settings.
+ */
+export const loadExportSettings = (): ExportSettings => {
+    try {
+        const stored = localStorage.getItem(EXPORT_STORAGE_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored) as Partial<ExportSettings>;
+            const known = new Set(EXPORT_COLUMNS.map(c => c.id));
+            const fields = (parsed.fields ?? []).filter(field => known.has(field.column));
+            const present = new Set(fields.map(field => field.column));
+            return {
+                ...DEFAULT_EXPORT_SETTINGS,
+                ...parsed,
+                fields: fields.length > 0
+                    ? [...fields, ...EXPORT_COLUMNS.filter(c => !present.has(c.id)).map(c => ({ column: c.id, header: c.label, enabled: false }))]
+                    : DEFAULT_EXPORT_SETTINGS.fields,
+            };
+        }
+    } catch (e) {
+        console.error("Failed to parse export settings from localStorage", e);
+    }
+    return DEFAULT_EXPORT_SETTINGS;
+};
+
+/**
+ * Persists the export settings.
+ * @param {ExportSettings} settings - The export settings.
+ */
+export const saveExportSettings = (settings: ExportSettings) => {
+    localStorage.setItem(EXPORT_STORAGE_KEY, JSON.stringify(settings));
+};
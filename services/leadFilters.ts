@@ -0,0 +1,209 @@
+/**
+ * @file leadFilters.ts
+ * Filtering and sorting for the "Current Results" list and map.
+ * Facets (categories, rating and review ranges, website, email and scrape status, distance) are
+ * derived from the current leads, and the active filters are serialised to and from the page URL
+ * so a filtered view can be bookmarked or shared.
+ */
+
+import { Business, LatLng, LeadFilters, LeadScore, LeadSortOrder } from '../types';
+import { distanceKm } from './leadScoring';
+import { auditOf } from './websiteAudit';
+
+/**
+ * Filters that don't restrict anything, with results in the order they were found.
+ */
+export const EMPTY_FILTERS: LeadFilters = {
+    categories: [],
+    minRating: null,
+    minReviews: null,
+    maxReviews: null,
+    website: 'any',
+    email: 'any',
+    scrapeStatus: 'any',
+    maxDistanceKm: null,
+    sort: 'found',
+};
+
+/**
+ * The sort orders in display order, with their labels.
+ */
+export const SORT_OPTIONS: { id: LeadSortOrder; label: string }[] = [
+    { id: 'found', label: 'Order found' },
+    { id: 'score', label: 'Score (best first)' },
+    { id: 'opportunity', label: 'Website opportunity (biggest first)' },
+    { id: 'rating', label: 'Rating (highest first)' },
+    { id: 'reviews', label: 'Reviews (most first)' },
+    { id: 'distance', label: 'Distance (nearest first)' },
+    { id: 'name', label: 'Name (A–Z)' },
+];
+
+/**
+ * Facet values derived from the current leads, used to build the filter controls.
+ */
+export interface LeadFacets {
+    categories: { value: string; count: number }[]; // Every category, most common first.
+    maxReviews: number; // The largest review count.
+    maxDistanceKm: number | null; // The furthest lead from the user, if the location is known.
+    withWebsite: number;
+    withEmail: number;
+    scraped: number;
+    failed: number;
+    pending: number;
+}
+
+/**
+ * A lead's scrape status, as used by the scrape status filter.
+ */
+const scrapeStatusOf = (lead: Business): LeadFilters['scrapeStatus'] =>
+    lead.scrapedData ? 'scraped' : lead.scrapeError ? 'failed' : 'pending';
+
+/**
+ * A lead's distance from the origin, or null if either location is unknown.
+ */
+const leadDistance = (lead: Business, origin: LatLng | null): number | null =>
+    origin && lead.latitude != null && lead.longitude != null
+        ? distanceKm(origin, { latitude: lead.latitude, longitude: lead.longitude })
+        : null;
+
+/**
+ * Derives the facet values for a set of leads.
+ * @param {Business[]} leads - The current leads.
+ * @param {LatLng | null} origin - The user's location, for the distance facet.
+ * @returns {LeadFacets} The facets.
+ */
+export const deriveFacets = (leads: Business[], origin: LatLng | null): LeadFacets => {
+    const categoryCounts = new Map<string, number>();
+    let maxDistance: number | null = null;
+    const facets: LeadFacets = { categories: [], maxReviews: 0, maxDistanceKm: null, withWebsite: 0, withEmail: 0, scraped: 0, failed: 0, pending: 0 };
+    leads.forEach(lead => {
+        const category = lead.type || 'Uncategorised';
+        categoryCounts.set(category, (categoryCounts.get(category) ?? 0) + 1);
+        facets.maxReviews = Math.max(facets.maxReviews, lead.reviews ?? 0);
+        if (lead.website) facets.withWebsite++;
+        if ((lead.scrapedData?.emails.length ?? 0) > 0) facets.withEmail++;
+        facets[scrapeStatusOf(lead) as 'scraped' | 'failed' | 'pending']++;
+        const distance = leadDistance(lead, origin);
+        if (distance !== null) maxDistance = Math.max(maxDistance ?? 0, distance);
+    });
+    facets.categories = Array.from(categoryCounts, ([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    facets.maxDistanceKm = maxDistance;
+    return facets;
+};
+
+/**
+ * Whether a lead passes every active filter.
+ */
+const matchesFilters = (lead: Business, filters: LeadFilters, origin: LatLng | null): boolean => {
+    if (filters.categories.length > 0 && !filters.categories.includes(lead.type || 'Uncategorised')) return false;
+    if (filters.minRating !== null && (lead.rating ?? 0) < filters.minRating) return false;
+    if (filters.minReviews !== null && (lead.reviews ?? 0) < filters.minReviews) return false;
+    if (filters.maxReviews !== null && (lead.reviews ?? 0) > filters.maxReviews) return false;
+    if (filters.website !== 'any' && (filters.website === 'yes') !== !!lead.website) return false;
+    if (filters.email !== 'any' && (filters.email === 'yes') !== (lead.scrapedData?.emails.length ?? 0) > 0) return false;
+    if (filters.scrapeStatus !== 'any' && scrapeStatusOf(lead) !== filters.scrapeStatus) return false;
+    if (filters.maxDistanceKm !== null && origin) {
+        const distance = leadDistance(lead, origin);
+        if (distance === null || distance > filters.maxDistanceKm) return false;
+    }
+    return true;
+};
+
+/**
+ * Filters and sorts leads.
+ * @param {Business[]} leads - The leads, in the order they were found.
+ * @param {LeadFilters} filters - The filters and sort order.
+ * @param {Map<string, LeadScore>} scores - Every lead's score, for sorting by score.
+ * @param {LatLng | null} origin - The user's location, for the distance filter and sort.
+ * @returns {Business[]} The matching leads in display order.
+ */
+export const applyLeadFilters = (leads: Business[], filters: LeadFilters, scores: Map<string, LeadScore>, origin: LatLng | null): Business[] => {
+    const matching = leads.filter(lead => matchesFilters(lead, filters, origin));
+    // Array.prototype.sort is stable, so ties keep the order found.
+    switch (filters.sort) {
+        case 'score':
+            return matching.sort((a, b) => (scores.get(b.id)?.score ?? 0) - (scores.get(a.id)?.score ?? 0));
+        case 'opportunity':
+            // Leads whose website hasn't been audited yet go last.
+            return matching.sort((a, b) => (auditOf(b)?.opportunity ?? -1) - (auditOf(a)?.opportunity ?? -1));
+        case 'rating':
+            return matching.sort((a, b) => (b.rating ?? -1) - (a.rating ?? -1));
+        case 'reviews':
+            return matching.sort((a, b) => (b.reviews ?? -1) - (a.reviews ?? -1));
+        case 'distance':
+            return matching.sort((a, b) => (leadDistance(a, origin) ?? Infinity) - (leadDistance(b, origin) ?? Infinity));
+        case 'name':
+            return matching.sort((a, b) => a.name.localeCompare(b.name));
+        default:
+            return matching;
+    }
+};
+
+/**
+ * Counts the filters that restrict the results (the sort order doesn't count).
+ * @param {LeadFilters} filters - The filters.
+ * @returns {number} The number of active filters.
+ */
+export const countActiveFilters = (filters: LeadFilters): number =>
+    [filters.categories.length > 0, filters.minRating !== null, filters.minReviews !== null || filters.maxReviews !== null,
+        filters.website !== 'any', filters.email !== 'any', filters.scrapeStatus !== 'any', filters.maxDistanceKm !== null]
+        .filter(Boolean).length;
+
+// URL parameter names for each filter.
+const PARAMS = {
+    categories: 'category',
+    minRating: 'minRating',
+    minReviews: 'minReviews',
+    maxReviews: 'maxReviews',
+    website: 'website',
+    email: 'email',
+    scrapeStatus: 'scrape',
+    maxDistanceKm: 'maxKm',
+    sort: 'sort',
+} as const;
+
+/**
+ * Writes the active filters into a set of URL parameters, replacing any previous filter parameters.
+ * Other parameters are left alone.
+ * @param {LeadFilters} filters - The filters.
+ * @param {URLSearchParams} params - The parameters to update.
+ */
+export const writeFiltersToParams = (filters: LeadFilters, params: URLSearchParams) => {
+    Object.values(PARAMS).forEach(name => params.delete(name));
+    filters.categories.forEach(category => params.append(PARAMS.categories, category));
+    ([['minRating', filters.minRating], ['minReviews', filters.minReviews], ['maxReviews', filters.maxReviews], ['maxDistanceKm', filters.maxDistanceKm]] as const)
+        .forEach(([key, value]) => { if (value !== null) params.set(PARAMS[key], String(value)); });
+    if (filters.website !== 'any') params.set(PARAMS.website, filters.website);
+    if (filters.email !== 'any') params.set(PARAMS.email, filters.email);
+    if (filters.scrapeStatus !== 'any') params.set(PARAMS.scrapeStatus, filters.scrapeStatus);
+    if (filters.sort !== 'found') params.set(PARAMS.sort, filters.sort);
+};
+
+/**
+ * Reads filters from URL parameters, ignoring values that aren't valid.
+ * @param {URLSearchParams} params - The URL parameters.
+ * @returns {LeadFilters} The filters.
+ */
+export const readFiltersFromParams = (params: URLSearchParams): LeadFilters => {
+    const number = (name: string): number | null => {
+        const value = params.get(name);
+        const parsed = value === null || value === '' ? NaN : Number(value);
+        return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+    };
+    const choice = <T extends string>(name: string, options: readonly T[], fallback: T): T => {
+        const value = params.get(name) as T | null;
+        return value !== null && options.includes(value) ? value : fallback;
+    };
+    return {
+        categories: params.getAll(PARAMS.categories),
+        minRating: number(PARAMS.minRating),
+        minReviews: number(PARAMS.minReviews),
+        maxReviews: number(PARAMS.maxReviews),
+        website: choice(PARAMS.website, ['any', 'yes', 'no'] as const, 'any'),
+        email: choice(PARAMS.email, ['any', 'yes', 'no'] as const, 'any'),
+        scrapeStatus: choice(PARAMS.scrapeStatus, ['any', 'scraped', 'failed', 'pending'] as const, 'any'),
+        maxDistanceKm: number(PARAMS.maxDistanceKm),
+        sort: choice(PARAMS.sort, SORT_OPTIONS.map(option => option.id), 'found'),
+    };
+};
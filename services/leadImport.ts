@@ -0,0 +1,187 @@
+/**
+ * @file leadImport.ts
+ * Imports an existing lead list from a CSV, Excel, GeoJSON or KML file.
+ * The file is read into a table, its columns are mapped to lead fields (guessed from the headings,
+ * then adjusted by the user), and each row is validated the same way as a search result, so
+ * imported leads can be geocoded, scraped and deduplicated like found ones.
+ */
+
+import { Business, ImportColumnMapping, ImportFieldId, SearchResponse } from '../types';
+import { readGeoTable, restoreLeadAttributes } from './geoFormats';
+import { emptyDiagnostics, validateLeadRecord } from './leadParser';
+import { createNote, normaliseTag } from './pipeline';
+import { readXlsx } from './xlsxReader';
+
+/**
+ * A file's contents as a table.
+ */
+export interface ImportTable {
+    headers: string[]; // The first row.
+    rows: string[][]; // Every following non-blank row.
+    records?: Record<string, unknown>[]; // Each row's original attributes, for GeoJSON and KML features.
+}
+
+/**
+ * What to do with the imported leads.
+ */
+export interface ImportOptions {
+    append: boolean; // Add to the current results rather than replacing them.
+    geocode: boolean; // Geocode leads that have an address but no coordinates.
+    scrape: boolean; // Scrape the websites of the imported leads.
+}
+
+/**
+ * The fields columns can be mapped to, in display order. Name and address are required.
+ * `aliases` are headings the field is guessed from, compared without case, spaces or punctuation.
+ */
+export const IMPORT_FIELDS: { id: ImportFieldId; label: string; required?: boolean; aliases: string[] }[] = [
+    { id: 'name', label: 'Name', required: true, aliases: ['name', 'businessname', 'company', 'companyname', 'organization', 'organisation', 'organizationname', 'account', 'accountname'] },
+    { id: 'address', label: 'Address', required: true, aliases: ['address', 'fulladdress', 'streetaddress', 'street', 'location', 'organizationaddress', 'billingaddress', 'billingstreet'] },
+    { id: 'category', label: 'Category', aliases: ['category', 'type', 'industry', 'businesstype'] },
+    { id: 'phone', label: 'Phone', aliases: ['phone', 'phonenumber', 'telephone', 'tel', 'mobile', 'personphone'] },
+    { id: 'website', label: 'Website', aliases: ['website', 'websiteurl', 'url', 'web', 'site', 'domain', 'companydomainname'] },
+    { id: 'rating', label: 'Rating', aliases: ['rating', 'stars', 'googlerating'] },
+    { id: 'reviews', label: 'Reviews', aliases: ['reviews', 'reviewcount', 'numberofreviews'] },
+    { id: 'latitude', label: 'Latitude', aliases: ['latitude', 'lat'] },
+    { id: 'longitude', label: 'Longitude', aliases: ['longitude', 'lng', 'lon', 'long'] },
+    { id: 'notes', label: 'Notes', aliases: ['notes', 'note', 'description', 'comments', 'notecontent'] },
+    { id: 'tags', label: 'Tags', aliases: ['tags', 'labels', 'tag'] },
+];
+
+/**
+ * Parses CSV text per RFC 4180: quoted fields may contain the delimiter, doubled quotes and line breaks.
+ * The delimiter (comma, semicolon or tab) is detected from the first line.
+ * @param {string} text - The CSV text.
+ * @returns {string[][]} The rows.
+ */
+export const parseCsv = (text: string): string[][] => {
+    const source = text.replace(/^\uFEFF/, '');
+    const firstLine = source.slice(0, source.search(/\r?\n|$/));
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',');
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (inQuotes) {
+            if (char === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows;
+};
+
+/**
+ * Reads a CSV, Excel, GeoJSON or KML file into a table. Blank rows are skipped.
+ * @param {File} file - The chosen file.
+ * @returns {Promise<ImportTable>} The headings and rows.
+ */
+export const readImportFile = async (file: File): Promise<ImportTable> => {
+    if (/\.(geo)?json$/i.test(file.name)) return readGeoTable(await file.text(), 'geojson');
+    if (/\.kml$/i.test(file.name)) return readGeoTable(await file.text(), 'kml');
+    const rows = /\.xlsx$/i.test(file.name)
+        ? await readXlsx(await file.arrayBuffer())
+        : parseCsv(await file.text());
+    const nonBlank = rows.filter(row => row.some(cell => cell.trim() !== ''));
+    if (nonBlank.length < 2) throw new Error('The file has no rows below the heading row.');
+    const [headers, ...body] = nonBlank;
+    const width = Math.max(...nonBlank.map(row => row.length));
+    return {
+        headers: Array.from({ length: width }, (_, i) => headers[i]?.trim() || `Column ${i + 1}`),
+        rows: body,
+    };
+};
+
+const headingKey = (heading: string): string => heading.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Guesses which column fills each field from the headings. Each column is used at most once.
+ * @param {string[]} headers - The file's headings.
+ * @returns {ImportColumnMapping} The guessed mapping.
+ */
+export const guessColumnMapping = (headers: string[]): ImportColumnMapping => {
+    const keys = headers.map(headingKey);
+    const used = new Set<number>();
+    const mapping: ImportColumnMapping = {};
+    IMPORT_FIELDS.forEach(field => {
+        // Aliases are in order of preference, so the first one present wins.
+        for (const alias of field.aliases) {
+            const index = keys.findIndex((key, i) => key === alias && !used.has(i));
+            if (index !== -1) {
+                mapping[field.id] = index;
+                used.add(index);
+                return;
+            }
+        }
+    });
+    return mapping;
+};
+
+/**
+ * Converts the rows of a table into leads using a column mapping.
+ * Rows are validated like search results; rejected and partial rows are reported in the diagnostics.
+ * @param {ImportTable} table - The file's contents.
+ * @param {ImportColumnMapping} mapping - Which column fills each field.
+ * @param {string} fileName - The file's name, shown in the diagnostics.
+ * @returns {SearchResponse} The leads and a diagnostics report.
+ */
+export const buildImportedLeads = (table: ImportTable, mapping: ImportColumnMapping, fileName: string): SearchResponse => {
+    const idPrefix = `import-${Date.now()}`;
+    const diagnostics = { ...emptyDiagnostics(), responses: 1, received: table.rows.length, fileName };
+    const leads: Business[] = [];
+    const cell = (row: string[], field: ImportFieldId): string | undefined => {
+        const index = mapping[field];
+        return index === undefined ? undefined : row[index]?.trim();
+    };
+
+    table.rows.forEach((row, index) => {
+        const { lead, issue } = validateLeadRecord({
+            name: cell(row, 'name'),
+            address: cell(row, 'address'),
+            category: cell(row, 'category'),
+            phone: cell(row, 'phone'),
+            website: cell(row, 'website'),
+            rating: cell(row, 'rating'),
+            reviews: cell(row, 'reviews'),
+            latitude: cell(row, 'latitude'),
+            longitude: cell(row, 'longitude'),
+        }, index, idPrefix);
+        if (issue) diagnostics.issues.push(issue);
+        if (!lead) return;
+        const notes = cell(row, 'notes');
+        if (notes) lead.notes = [createNote(notes)];
+        const tags = (cell(row, 'tags') ?? '').split(/[,;]/).map(normaliseTag).filter(Boolean);
+        if (tags.length > 0) lead.tags = Array.from(new Set(tags));
+        const record = table.records?.[index];
+        if (record) restoreLeadAttributes(lead, record);
+        leads.push(lead);
+    });
+    diagnostics.accepted = leads.length;
+    return { leads, diagnostics };
+};
@@ -0,0 +1,330 @@
+/**
+ * @file leadMerge.ts
+ * Lead identity and deduplication.
+ * Every lead gets a stable ID derived from its normalised name and address, so the same business
+ * found by two searches gets the same ID. A merger recognises near-duplicates (the same business
+ * with a slightly different name or address, or sharing a phone number or website domain) and
+ * merges their fields instead of keeping both.
+ */
+
+import { Business, LeadNote, ScrapedData } from '../types';
+
+// Words that don't help tell businesses apart, e.g. "Acme Plumbing LLC" vs "The Acme Plumbing".
+const NAME_STOP_WORDS = new Set(['the', 'and', 'llc', 'inc', 'ltd', 'limited', 'co', 'corp', 'corporation', 'company', 'gmbh', 'plc', 'srl', 'sa']);
+// Common street-type spellings, mapped to one abbreviation so "Main Street" matches "Main St.".
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+    street: 'st', avenue: 'ave', road: 'rd', boulevard: 'blvd', drive: 'dr', lane: 'ln', place: 'pl',
+    court: 'ct', square: 'sq', highway: 'hwy', parkway: 'pkwy', suite: 'ste', floor: 'fl',
+    north: 'n', south: 's', east: 'e', west: 'w',
+};
+// Similarity thresholds (0-1) for treating two leads as the same business.
+const SAME_NAME_THRESHOLD = 0.85;
+const SAME_ADDRESS_THRESHOLD = 0.75;
+const RELATED_NAME_THRESHOLD = 0.5;
+const RELATED_ADDRESS_THRESHOLD = 0.5;
+// Two leads this close together (in degrees, roughly 50 m) with related names are the same place.
+const SAME_PLACE_DEGREES = 0.0005;
+
+/**
+ * Computes a small deterministic hash of a string (FNV-1a).
+ * @param {string} value - The string to hash.
+ * @returns {number} An unsigned 32-bit hash.
+ */
+export const hashString = (value: string): number => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        h ^= value.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return h >>> 0;
+};
+
+/**
+ * Splits text into lowercase alphanumeric tokens, stripping accents.
+ * @param {string} value - The text to split.
+ * @returns {string[]} The tokens.
+ */
+const tokenize = (value: string): string[] =>
+    value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/&/g, ' and ').split(/[^a-z0-9]+/).filter(Boolean);
+
+/**
+ * Normalises a business name for comparison, dropping legal suffixes and filler words.
+ * @param {string} name - The business name.
+ * @returns {string} The normalised name, e.g. "acme plumbing".
+ */
+export const normaliseName = (name: string): string => {
+    const tokens = tokenize(name);
+    const significant = tokens.filter(token => !NAME_STOP_WORDS.has(token));
+    return (significant.length > 0 ? significant : tokens).join(' ');
+};
+
+/**
+ * Normalises an address for comparison, unifying street-type abbreviations.
+ * @param {string} address - The address.
+ * @returns {string} The normalised address, e.g. "123 main st springfield".
+ */
+export const normaliseAddress = (address: string): string =>
+    tokenize(address).map(token => ADDRESS_ABBREVIATIONS[token] ?? token).join(' ');
+
+/**
+ * Normalises a phone number to its last ten digits, which ignores country-code and formatting differences.
+ * @param {string | undefined} phone - The phone number.
+ * @returns {string} The digits, or an empty string if there are too few to be a phone number.
+ */
+export const normalisePhone = (phone: string | undefined): string => {
+    const digits = (phone ?? '').replace(/\D/g, '');
+    return digits.length >= 7 ? digits.slice(-10) : '';
+};
+
+/**
+ * Extracts a website's domain without any "www." prefix.
+ * @param {string | undefined} website - The website URL.
+ * @returns {string} The domain, or an empty string if the URL cannot be parsed.
+ */
+export const websiteDomain = (website: string | undefined): string => {
+    if (!website) return '';
+    try {
+        const url = new URL(/^https?:\/\//i.test(website) ? website : `https://${website}`);
+        return url.hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+        return '';
+    }
+};
+
+/**
+ * Derives a lead's stable ID from its normalised name and address.
+ * The same business always gets the same ID, regardless of which search found it.
+ * @param {Pick<Business, 'name' | 'address'>} lead - The lead's name and address.
+ * @returns {string} The stable ID.
+ */
+export const stableLeadId = (lead: Pick<Business, 'name' | 'address'>): string =>
+    `lead-${hashString(`${normaliseName(lead.name)}|${normaliseAddress(lead.address)}`).toString(36)}`;
+
+/**
+ * Measures how similar two token lists are (Dice coefficient over unique tokens).
+ * @param {string} a - The first normalised string.
+ * @param {string} b - The second normalised string.
+ * @returns {number} A similarity between 0 (nothing shared) and 1 (same tokens).
+ */
+const similarity = (a: string, b: string): number => {
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+    const setA = new Set(a.split(' '));
+    const setB = new Set(b.split(' '));
+    let shared = 0;
+    setA.forEach(token => { if (setB.has(token)) shared++; });
+    return (2 * shared) / (setA.size + setB.size);
+};
+
+/**
+ * The normalised fields of a lead, computed once for comparisons.
+ */
+interface LeadFingerprint {
+    name: string;
+    address: string;
+    phone: string;
+    domain: string;
+}
+
+/**
+ * Computes the normalised fields used to compare a lead.
+ * @param {Business} lead - The lead.
+ * @returns {LeadFingerprint} Its fingerprint.
+ */
+const fingerprint = (lead: Business): LeadFingerprint => ({
+    name: normaliseName(lead.name),
+    address: normaliseAddress(lead.address),
+    phone: normalisePhone(lead.phone),
+    domain: websiteDomain(lead.website),
+});
+
+/**
+ * Decides whether two leads describe the same business.
+ * @param {Business} a - The first lead.
+ * @param {LeadFingerprint} fa - The first lead's fingerprint.
+ * @param {Business} b - The second lead.
+ * @param {LeadFingerprint} fb - The second lead's fingerprint.
+ * @returns {boolean} True if they are near-duplicates.
+ */
+const isSameBusiness = (a: Business, fa: LeadFingerprint, b: Business, fb: LeadFingerprint): boolean => {
+    const nameSimilarity = similarity(fa.name, fb.name);
+    // Same name at (nearly) the same address.
+    if (nameSimilarity >= SAME_NAME_THRESHOLD && similarity(fa.address, fb.address) >= SAME_ADDRESS_THRESHOLD) return true;
+    // Related names sharing a phone number, or a website at a similar address (chain branches share a website).
+    if (nameSimilarity >= RELATED_NAME_THRESHOLD && fa.phone && fa.phone === fb.phone) return true;
+    if (nameSimilarity >= RELATED_NAME_THRESHOLD && fa.domain && fa.domain === fb.domain && similarity(fa.address, fb.address) >= RELATED_ADDRESS_THRESHOLD) return true;
+    // Related names at practically the same coordinates.
+    if (nameSimilarity >= RELATED_NAME_THRESHOLD && a.latitude != null && a.longitude != null && b.latitude != null && b.longitude != null) {
+        return Math.abs(a.latitude - b.latitude) < SAME_PLACE_DEGREES && Math.abs(a.longitude - b.longitude) < SAME_PLACE_DEGREES;
+    }
+    return false;
+};
+
+/**
+ * Decides whether two leads describe the same business, e.g. the same result from two runs of a search.
+ * @param {Business} a - The first lead.
+ * @param {Business} b - The second lead.
+ * @returns {boolean} True if they share an ID or are near-duplicates.
+ */
+export const isSameLead = (a: Business, b: Business): boolean =>
+    a.id === b.id || isSameBusiness(a, fingerprint(a), b, fingerprint(b));
+
+/**
+ * Unions two lists of scraped values, keeping the first spelling of each (case-insensitive) value.
+ */
+const unionValues = (a: string[], b: string[]): string[] => {
+    const seen = new Map<string, string>();
+    [...a, ...b].forEach(value => {
+        const key = value.trim().toLowerCase();
+        if (key && !seen.has(key)) seen.set(key, value.trim());
+    });
+    return Array.from(seen.values());
+};
+
+/**
+ * Merges scraped data from two copies of a lead.
+ */
+const mergeScrapedData = (a?: ScrapedData, b?: ScrapedData): ScrapedData | undefined => {
+    if (!a || !b) return a ?? b;
+    return {
+        emails: unionValues(a.emails, b.emails),
+        phones: unionValues(a.phones, b.phones),
+        socials: unionValues(a.socials, b.socials),
+        sources: a.sources || b.sources ? { ...b.sources, ...a.sources } : undefined,
+        verifications: a.verifications || b.verifications ? { ...b.verifications, ...a.verifications } : undefined,
+        phoneTypes: a.phoneTypes || b.phoneTypes ? { ...b.phoneTypes, ...a.phoneTypes } : undefined,
+    };
+};
+
+/**
+ * Combines the notes of two copies of a lead, oldest first.
+ */
+const mergeNotes = (a?: LeadNote[], b?: LeadNote[]): LeadNote[] | undefined => {
+    if (!a || !b) return a ?? b;
+    const byId = new Map([...a, ...b].map(note => [note.id, note]));
+    return Array.from(byId.values()).sort((x, y) => x.createdAt - y.createdAt);
+};
+
+/**
+ * Merges two copies of the same business. The existing lead keeps its ID and pipeline stage; missing fields
+ * are filled in from the incoming one, the rating with the larger review count wins, the latest website
+ * audit is kept, and scraped data, notes and tags are combined.
+ * @param {Business} existing - The lead already known.
+ * @param {Business} incoming - The newly found copy.
+ * @returns {Business} The merged lead.
+ */
+export const mergeLeads = (existing: Business, incoming: Business): Business => {
+    const preferIncomingRating = (incoming.reviews ?? -1) > (existing.reviews ?? -1);
+    const merged: Business = {
+        ...existing,
+        address: existing.address || incoming.address,
+        type: existing.type || incoming.type,
+        phone: existing.phone || incoming.phone,
+        phoneType: existing.phone ? existing.phoneType : incoming.phoneType,
+        website: existing.website || incoming.website,
+        rating: preferIncomingRating ? incoming.rating ?? existing.rating : existing.rating ?? incoming.rating,
+        reviews: preferIncomingRating ? incoming.reviews : existing.reviews ?? incoming.reviews,
+        scrapedData: mergeScrapedData(existing.scrapedData, incoming.scrapedData),
+        audit: (incoming.audit?.auditedAt ?? 0) > (existing.audit?.auditedAt ?? 0) ? incoming.audit : existing.audit,
+        stage: existing.stage ?? incoming.stage,
+        notes: mergeNotes(existing.notes, incoming.notes),
+        tags: existing.tags || incoming.tags ? unionValues(existing.tags ?? [], incoming.tags ?? []) : undefined,
+    };
+    if (existing.latitude == null || existing.longitude == null) {
+        merged.latitude = incoming.latitude;
+        merged.longitude = incoming.longitude;
+    }
+    // A successful scrape on either copy clears an old error.
+    if (merged.scrapedData) merged.scrapeError = undefined;
+    else merged.scrapeError = existing.scrapeError ?? incoming.scrapeError;
+    return merged;
+};
+
+/**
+ * An accumulating, deduplicated collection of leads.
+ */
+export interface LeadMerger {
+    add: (lead: Business) => 'added' | 'merged'; // Adds a lead, or merges it into a near-duplicate already present.
+    leads: () => Business[]; // The deduplicated leads, in the order they were first added.
+    size: () => number; // The number of distinct businesses.
+}
+
+/**
+ * Creates a merger that deduplicates leads as they are added.
+ * Exact matches on name+address, phone or website domain are looked up directly; fuzzy comparisons
+ * are only made against leads sharing a name token, which keeps large result sets fast.
+ * @param {Business[]} initial - Leads to start with, e.g. the results of an earlier search.
+ * @returns {LeadMerger} The merger.
+ */
+export const createLeadMerger = (initial: Business[] = []): LeadMerger => {
+    const entries = new Map<string, { lead: Business; print: LeadFingerprint }>();
+    // Lead IDs indexed by each name token, for finding fuzzy-match candidates.
+    const byNameToken = new Map<string, Set<string>>();
+    const byPhone = new Map<string, Set<string>>();
+    const byDomain = new Map<string, Set<string>>();
+
+    const index = (map: Map<string, Set<string>>, key: string, id: string) => {
+        if (!key) return;
+        if (!map.has(key)) map.set(key, new Set());
+        map.get(key)!.add(id);
+    };
+
+    const store = (lead: Business, print: LeadFingerprint) => {
+        entries.set(lead.id, { lead, print });
+        print.name.split(' ').forEach(token => index(byNameToken, token, lead.id));
+        index(byPhone, print.phone, lead.id);
+        index(byDomain, print.domain, lead.id);
+    };
+
+    const findDuplicate = (lead: Business, print: LeadFingerprint): string | undefined => {
+        if (entries.has(lead.id)) return lead.id;
+        const candidates = new Set<string>([
+            ...(byPhone.get(print.phone) ?? []),
+            ...(byDomain.get(print.domain) ?? []),
+            ...print.name.split(' ').flatMap(token => Array.from(byNameToken.get(token) ?? [])),
+        ]);
+        for (const id of candidates) {
+            const entry = entries.get(id)!;
+            if (isSameBusiness(entry.lead, entry.print, lead, print)) return id;
+        }
+        return undefined;
+    };
+
+    const add = (incoming: Business): 'added' | 'merged' => {
+        const lead = { ...incoming, id: stableLeadId(incoming) };
+        const print = fingerprint(lead);
+        const duplicateId = findDuplicate(lead, print);
+        if (duplicateId) {
+            const merged = mergeLeads(entries.get(duplicateId)!.lead, lead);
+            store(merged, fingerprint(merged));
+            return 'merged';
+        }
+        store(lead, print);
+        return 'added';
+    };
+
+    initial.forEach(add);
+
+    return {
+        add,
+        leads: () => Array.from(entries.values()).map(entry => entry.lead),
+        size: () => entries.size,
+    };
+};
+
+/**
+ * Merges a set of incoming leads into an existing set, e.g. when adding a new search's results to the current list.
+ * @param {Business[]} existing - The leads already shown.
+ * @param {Business[]} incoming - The new leads.
+ * @returns {{ leads: Business[], added: number, merged: number }} The combined leads and how many were new or merged.
+ */
+export const mergeLeadSets = (existing: Business[], incoming: Business[]): { leads: Business[]; added: number; merged: number } => {
+    const merger = createLeadMerger(existing);
+    let added = 0;
+    let merged = 0;
+    incoming.forEach(lead => {
+        if (merger.add(lead) === 'added') added++;
+        else merged++;
+    });
+    return { leads: merger.leads(), added, merged };
+};
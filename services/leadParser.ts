@@ -0,0 +1,293 @@
+/**
+ * @file leadParser.ts
+ * Turns raw search responses into validated `Business` records.
+ * Responses are expected to contain a JSON array of businesses; when they don't, the older
+ * markdown format is parsed instead. Either way every entry goes through the same validation,
+ * and anything rejected or only partly usable is recorded in a `SearchDiagnostics` report.
+ */
+
+import { Business, LeadIssue, SearchDiagnostics, SearchResponse } from '../types';
+import { inferCountry, parsePhone } from './phoneNumbers';
+
+/**
+ * The raw, unvalidated fields of one business entry, as produced by the model.
+ */
+type RawLeadRecord = Record<string, unknown>;
+
+/**
+ * The JSON shape search prompts ask for, shown to the model as an example.
+ */
+export const LEAD_JSON_EXAMPLE = `[
+  {
+    "name": "Business Name",
+    "address": "123 Main St, City, State, ZIP",
+    "category": "Category Type",
+    "phone": "(555) 555-5555",
+    "rating": 4.5,
+    "reviews": 123,
+    "website": "https://example.com",
+    "latitude": 40.7128,
+    "longitude": -74.0060
+  }
+]`;
+
+/**
+ * Returns an empty diagnostics report.
+ * @returns {SearchDiagnostics} A report with all counts at zero.
+ */
+export const emptyDiagnostics = (): SearchDiagnostics => ({
+    responses: 0,
+    markdownFallbacks: 0,
+    received: 0,
+    accepted: 0,
+    duplicates: 0,
+    outsideArea: 0,
+    issues: [],
+    cachedResponses: 0,
+});
+
+/**
+ * Combines two diagnostics reports, e.g. from successive rounds of one search.
+ * @param {SearchDiagnostics} a - The first report.
+ * @param {SearchDiagnostics} b - The second report.
+ * @returns {SearchDiagnostics} The combined report.
+ */
+export const mergeDiagnostics = (a: SearchDiagnostics, b: SearchDiagnostics): SearchDiagnostics => ({
+    responses: a.responses + b.responses,
+    markdownFallbacks: a.markdownFallbacks + b.markdownFallbacks,
+    received: a.received + b.received,
+    accepted: a.accepted + b.accepted,
+    duplicates: a.duplicates + b.duplicates,
+    outsideArea: a.outsideArea + b.outsideArea,
+    issues: [...a.issues, ...b.issues],
+    cachedResponses: a.cachedResponses + b.cachedResponses,
+});
+
+/**
+ * Reads a finite number from a JSON number or a numeric string such as "4.5" or "1,234".
+ * @param {unknown} value - The raw value.
+ * @returns {number | undefined} The number, or undefined if the value is not numeric.
+ */
+const toNumber = (value: unknown): number | undefined => {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+    if (typeof value === 'string' && value.trim() !== '') {
+        const parsed = Number(value.replace(/,/g, '').trim());
+        return Number.isFinite(parsed) ? parsed : undefined;
+    }
+    return undefined;
+};
+
+/**
+ * Reads a trimmed, non-empty string.
+ * @param {unknown} value - The raw value.
+ * @returns {string | undefined} The string, or undefined if missing or blank.
+ */
+const toText = (value: unknown): string | undefined => {
+    if (typeof value === 'string' && value.trim() !== '') return value.trim();
+    if (typeof value === 'number') return String(value);
+    return undefined;
+};
+
+/**
+ * Validates one raw entry and converts it into a `Business`.
+ * Entries without a name or address are rejected; invalid optional fields are dropped and reported.
+ * @param {unknown} raw - The raw entry.
+ * @param {number} index - The entry's position in its response.
+ * @param {string} idPrefix - Prefix for the generated lead ID.
+ * @returns {{ lead?: Business, issue?: LeadIssue }} The lead, if accepted, and an issue, if anything was wrong.
+ */
+export const validateLeadRecord = (raw: unknown, index: number, idPrefix: string): { lead?: Business; issue?: LeadIssue } => {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        return { issue: { index, severity: 'rejected', reasons: ['entry is not an object'] } };
+    }
+    const record = raw as RawLeadRecord;
+    const name = toText(record.name);
+    const address = toText(record.address);
+
+    const missing = [!name && 'missing name', !address && 'missing address'].filter((r): r is string => !!r);
+    if (missing.length > 0) {
+        return { issue: { index, name, severity: 'rejected', reasons: missing } };
+    }
+
+    const lead: Business = {
+        id: `${idPrefix}-${index}`,
+        name: name!,
+        address: address!,
+        type: toText(record.category ?? record.type) ?? '',
+    };
+    const problems: string[] = [];
+
+    const phone = toText(record.phone);
+    if (phone) lead.phone = phone;
+
+    if (record.rating != null && record.rating !== '') {
+        const rating = toNumber(record.rating);
+        if (rating != null && rating >= 0 && rating <= 5) lead.rating = rating;
+        else problems.push(`invalid rating "${String(record.rating)}"`);
+    }
+
+    if (record.reviews != null && record.reviews !== '') {
+        const reviews = toNumber(record.reviews);
+        if (reviews != null && reviews >= 0 && Number.isInteger(reviews)) lead.reviews = reviews;
+        else problems.push(`invalid review count "${String(record.reviews)}"`);
+    }
+
+    const website = toText(record.website);
+    if (website) {
+        // Accept bare domains such as "example.com" by assuming https.
+        const candidate = /^https?:\/\//i.test(website) ? website : `https://${website}`;
+        try {
+            const url = new URL(candidate);
+            if (!url.hostname.includes('.')) throw new Error('no domain');
+            lead.website = candidate;
+        } catch {
+            problems.push(`invalid website "${website}"`);
+        }
+    }
+
+    const hasLatitude = record.latitude != null && record.latitude !== '';
+    const hasLongitude = record.longitude != null && record.longitude !== '';
+    if (hasLatitude || hasLongitude) {
+        const latitude = toNumber(record.latitude);
+        const longitude = toNumber(record.longitude);
+        if (latitude != null && longitude != null && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) {
+            lead.latitude = latitude;
+            lead.longitude = longitude;
+        } else {
+            problems.push(`invalid coordinates "${String(record.latitude ?? '')}, ${String(record.longitude ?? '')}"`);
+        }
+    }
+
+    if (lead.phone) {
+        const parsed = parsePhone(lead.phone, inferCountry(lead));
+        if (parsed) {
+            lead.phone = parsed.e164;
+            lead.phoneType = parsed.type;
+        } else {
+            problems.push(`unrecognised phone number "${lead.phone}"`);
+        }
+    }
+
+    return problems.length > 0
+        ? { lead, issue: { index, name, severity: 'partial', reasons: problems } }
+        : { lead };
+};
+
+/**
+ * Validates a list of raw entries.
+ * @param {unknown[]} records - The raw entries.
+ * @param {'json' | 'markdown'} format - Which format the entries were parsed from.
+ * @returns {SearchResponse} The accepted leads and a diagnostics report for this response.
+ */
+export const validateLeadRecords = (records: unknown[], format: 'json' | 'markdown'): SearchResponse => {
+    const idPrefix = `${Date.now()}`;
+    const leads: Business[] = [];
+    const issues: LeadIssue[] = [];
+    records.forEach((raw, index) => {
+        const { lead, issue } = validateLeadRecord(raw, index, idPrefix);
+        if (lead) leads.push(lead);
+        if (issue) issues.push(issue);
+    });
+    return {
+        leads,
+        diagnostics: {
+            ...emptyDiagnostics(),
+            responses: 1,
+            markdownFallbacks: format === 'markdown' ? 1 : 0,
+            received: records.length,
+            accepted: leads.length,
+            issues,
+        },
+    };
+};
+
+/**
+ * Extracts a JSON array of entries from a model response, which may wrap it in a code fence or prose.
+ * @param {string} text - The model's response text.
+ * @returns {unknown[] | null} The parsed array, or null if the response holds no valid JSON array.
+ */
+export const extractJsonArray = (text: string): unknown[] | null => {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const candidates = [fenced?.[1], text.slice(text.indexOf('['), text.lastIndexOf(']') + 1)];
+    for (const candidate of candidates) {
+        if (!candidate || !candidate.trim().startsWith('[')) continue;
+        try {
+            const parsed = JSON.parse(candidate);
+            if (Array.isArray(parsed)) return parsed;
+        } catch {
+            // Fall through to the next candidate.
+        }
+    }
+    // Some responses wrap the list in an object, e.g. { "businesses": [...] }.
+    try {
+        const parsed = JSON.parse(fenced?.[1] ?? text);
+        if (parsed && typeof parsed === 'object') {
+            const list = Object.values(parsed).find(Array.isArray);
+            if (list) return list as unknown[];
+        }
+    } catch {
+        // Not JSON at all.
+    }
+    return null;
+};
+
+// Matches a "- **Label:** value" style line and captures the label and value.
+const MARKDOWN_FIELD_PATTERN = /^\s*(?:[-*•]|\d+\.)?\s*\**\s*(address|category|type|phone|rating|website|coordinates)\s*\**\s*:\s*\**\s*(.*)$/i;
+
+/**
+ * Parses the older markdown response format into raw entries.
+ * Each business is separated by '---'; the first line is the name and each following line is a
+ * "Label: value" field. Labels are only recognised at the start of a line, so a name or value
+ * that merely contains a word like "Rating:" is not mistaken for a field.
+ * @param {string} markdown - The markdown string returned by the API.
+ * @returns {RawLeadRecord[]} The raw entries.
+ */
+export const parseMarkdownRecords = (markdown: string): RawLeadRecord[] => {
+    // Each business is separated by '---', so we split the string by this delimiter.
+    const blocks = markdown.split(/^\s*---+\s*$/m).filter(b => b.trim() !== '');
+
+    return blocks.map(block => {
+        const lines = block.trim().split('\n').filter(line => line.trim() !== '');
+        const record: RawLeadRecord = {
+            name: lines[0].replace(/\*\*/g, '').replace(/^\s*(?:#+|[-*•]|\d+\.)\s*/, '').trim(),
+        };
+
+        // Iterate over each line to extract details for the business.
+        lines.slice(1).forEach(line => {
+            const match = line.match(MARKDOWN_FIELD_PATTERN);
+            if (!match) return;
+            const label = match[1].toLowerCase();
+            const value = match[2].replace(/\*\*/g, '').trim();
+
+            if (label === 'coordinates') {
+                const [latitude, longitude] = value.split(',').map(c => c.trim());
+                record.latitude = latitude;
+                record.longitude = longitude;
+            } else if (label === 'rating') {
+                // e.g. "4.5 (123 reviews)"
+                const ratingMatch = value.match(/^(\d+(?:\.\d+)?)/);
+                const reviewsMatch = value.match(/\(([\d,]+)/);
+                record.rating = ratingMatch ? ratingMatch[1] : value;
+                if (reviewsMatch) record.reviews = reviewsMatch[1];
+            } else if (label === 'type') {
+                record.category = value;
+            } else {
+                record[label] = value;
+            }
+        });
+        return record;
+    });
+};
+
+/**
+ * Parses a search response, preferring structured JSON and falling back to markdown.
+ * @param {string} text - The model's response text.
+ * @returns {SearchResponse} The accepted leads and a diagnostics report.
+ */
+export const parseSearchResponse = (text: string): SearchResponse => {
+    const records = extractJsonArray(text);
+    if (records) {
+        return validateLeadRecords(records, 'json');
+    }
+    return validateLeadRecords(parseMarkdownRecords(text), 'markdown');
+};
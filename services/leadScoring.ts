@@ -0,0 +1,152 @@
+/**
+ * @file leadScoring.ts
+ * A rule-based scoring engine that ranks leads by how good a prospect they are.
+ * Each enabled rule awards up to its weight in points, from rating, review count, website,
+ * valid emails, distance from the user and category match. The total is scaled to 0–100.
+ * Rules and weights are edited by the user and persisted in localStorage.
+ */
+
+import { Business, LatLng, LeadScore, ScoringConfig, ScoringRuleId } from '../types';
+
+// localStorage key under which the scoring settings are persisted.
+const SCORING_STORAGE_KEY = 'leadFinderScoring';
+// Mean radius of the Earth, for great-circle distances.
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * The scoring rules in display order, with their labels.
+ */
+export const SCORING_RULES: { id: ScoringRuleId; label: string; description: string }[] = [
+    { id: 'rating', label: 'Rating', description: 'Higher star ratings score more.' },
+    { id: 'reviews', label: 'Review count', description: 'More reviews score more, up to the target.' },
+    { id: 'website', label: 'Website', description: 'Prefer leads with, or without, a website.' },
+    { id: 'verifiedEmails', label: 'Valid emails', description: 'Scraped emails that passed verification, up to the target.' },
+    { id: 'distance', label: 'Distance', description: 'Closer to your location scores more.' },
+    { id: 'category', label: 'Category match', description: 'Category or name contains one of the keywords.' },
+];
+
+/**
+ * The settings used until the user changes them.
+ */
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+    rules: {
+        rating: { enabled: true, weight: 5 },
+        reviews: { enabled: true, weight: 4 },
+        website: { enabled: true, weight: 3 },
+        verifiedEmails: { enabled: true, weight: 5 },
+        distance: { enabled: true, weight: 2 },
+        category: { enabled: false, weight: 3 },
+    },
+    minRating: 3,
+    reviewTarget: 200,
+    websitePreference: 'has',
+    emailTarget: 2,
+    maxDistanceKm: 25,
+    categoryKeywords: [],
+};
+
+/**
+ * Great-circle distance between two points.
+ * @param {LatLng} a - The first point.
+ * @param {LatLng} b - The second point.
+ * @returns {number} The distance in kilometres.
+ */
+export const distanceKm = (a: LatLng, b: LatLng): number => {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(b.latitude - a.latitude);
+    const dLng = toRadians(b.longitude - a.longitude);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * How well a lead meets a rule, from 0 to 1, or null if the rule can't be applied.
+ */
+const ruleFraction = (rule: ScoringRuleId, lead: Business, config: ScoringConfig, origin: LatLng | null): number | null => {
+    switch (rule) {
+        case 'rating':
+            if (lead.rating == null) return 0;
+            // With a minimum of 5 stars there is no range to scale over: only a perfect rating counts.
+            if (config.minRating >= 5) return lead.rating >= 5 ? 1 : 0;
+            return clamp01((lead.rating - config.minRating) / (5 - config.minRating));
+        case 'reviews':
+            // Logarithmic, so the first reviews count for more than the hundredth.
+            return clamp01(Math.log10((lead.reviews ?? 0) + 1) / Math.log10(Math.max(config.reviewTarget, 1) + 1));
+        case 'website':
+            return (config.websitePreference === 'has') === !!lead.website ? 1 : 0;
+        case 'verifiedEmails': {
+            const valid = Object.values(lead.scrapedData?.verifications ?? {}).filter(v => v.status === 'valid').length;
+            return clamp01(valid / Math.max(config.emailTarget, 1));
+        }
+        case 'distance':
+            if (!origin) return null;
+            if (lead.latitude == null || lead.longitude == null) return 0;
+            return clamp01(1 - distanceKm(origin, { latitude: lead.latitude, longitude: lead.longitude }) / config.maxDistanceKm);
+        case 'category': {
+            if (config.categoryKeywords.length === 0) return null;
+            const text = `${lead.type} ${lead.name}`.toLowerCase();
+            return config.categoryKeywords.some(keyword => text.includes(keyword.toLowerCase())) ? 1 : 0;
+        }
+    }
+};
+
+/**
+ * Scores a lead. Rules that don't apply (distance without a known location, category without
+ * keywords) are left out rather than counted as zero.
+ * @param {Business} lead - The lead to score.
+ * @param {ScoringConfig} config - The scoring settings.
+ * @param {LatLng | null} origin - The user's location, for the distance rule.
+ * @returns {LeadScore} The score and its breakdown.
+ */
+export const scoreLead = (lead: Business, config: ScoringConfig, origin: LatLng | null): LeadScore => {
+    const breakdown: LeadScore['breakdown'] = [];
+    SCORING_RULES.forEach(({ id, label }) => {
+        const { enabled, weight } = config.rules[id];
+        if (!enabled || weight <= 0) return;
+        const fraction = ruleFraction(id, lead, config, origin);
+        if (fraction === null) return;
+        breakdown.push({ rule: id, label, points: fraction * weight, max: weight });
+    });
+    const max = breakdown.reduce((sum, item) => sum + item.max, 0);
+    const points = breakdown.reduce((sum, item) => sum + item.points, 0);
+    return { score: max > 0 ? Math.round((points / max) * 100) : 0, breakdown };
+};
+
+/**
+ * Reads the persisted scoring settings, filling in anything missing from the defaults.
+ * @returns {ScoringConfig} The scoring settings.
+ */
+export const loadScoringConfig = (): ScoringConfig => {
+    try {
+        const stored = localStorage.getItem(SCORING_STORAGE_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored) as Partial<ScoringConfig>;
+            return {
+                ...DEFAULT_SCORING_CONFIG,
+                ...parsed,
+                rules: { ...DEFAULT_SCORING_CONFIG.rules, ...parsed.rules },
+            };
+        }
+    } catch (e) {
+        console.error("Failed to parse scoring settings from localStorage", e);
+    }
+    return DEFAULT_SCORING_CONFIG;
+};
+
+/**
+ * Persists the scoring settings.
+ * @param {ScoringConfig} config - The scoring settings.
+ */
+export const saveScoringConfig = (config: ScoringConfig) => {
+    localStorage.setItem(SCORING_STORAGE_KEY, JSON.stringify(config));
+};
+
+/**
+ * Badge colours for a score.
+ * @param {number} score - The score, 0–100.
+ * @returns {string} Tailwind classes for the badge.
+ */
+export const scoreBadgeClass = (score: number): string =>
+    score >= 70 ? 'bg-green-100 text-green-800' : score >= 40 ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-600';
@@ -0,0 +1,90 @@
+/**
+ * @file leadSearch.ts
+ * This module drives a target-count search on top of a provider's single-request `searchLeads` call.
+ * A single request only returns a handful of businesses, so it keeps issuing follow-up
+ * requests that exclude the businesses already found, deduplicating as it goes, until the
+ * requested number of leads is reached or the model stops returning anything new.
+ */
+
+import { Business, LatLng, LeadProvider, SearchArea, SearchDiagnostics, SearchProgress, SearchResponse } from '../types';
+import { emptyDiagnostics, mergeDiagnostics } from './leadParser';
+import { createLeadMerger } from './leadMerge';
+import { isOutsideArea } from './searchArea';
+
+// How many of the most recently found names are sent back to the model as exclusions.
+// Sending every name would make the prompt grow without bound on large searches.
+const MAX_EXCLUDED_NAMES = 150;
+// Stop once this many rounds in a row have produced no new businesses.
+const MAX_EMPTY_ROUNDS = 2;
+// A single round typically yields around ten businesses; allow for rounds with heavy overlap.
+const ROUNDS_PER_TEN_RESULTS = 2;
+
+/**
+ * Options for a target-count search.
+ */
+export interface TargetSearchOptions {
+    targetCount: number; // The number of unique leads to collect before stopping.
+    onProgress?: (progress: SearchProgress, leads: Business[]) => void; // Called after every round with the leads found so far.
+    signal?: AbortSignal; // Aborting stops after the current round and returns what was found.
+    area?: SearchArea | null; // Limits the search to an area; leads placed outside it are dropped.
+}
+
+/**
+ * Repeatedly searches for leads until `targetCount` unique businesses have been found,
+ * the results are exhausted, or the search is aborted. With a search area, leads whose coordinates
+ * fall outside it don't count; leads without coordinates are kept for the caller to check after geocoding.
+ * @param {LeadProvider} provider - The backend to search with.
+ * @param {string} query - The user's search query.
+ * @param {LatLng | null} location - The user's current location to improve search results.
+ * @param {TargetSearchOptions} options - Target count, progress callback, abort signal and search area.
+ * @returns {Promise<SearchResponse>} A promise that resolves to the deduplicated leads, capped at `targetCount`,
+ * and the combined diagnostics of every round.
+ */
+export const searchLeadsToTarget = async (provider: LeadProvider, query: string, location: LatLng | null, options: TargetSearchOptions): Promise<SearchResponse> => {
+    const { targetCount, onProgress, signal, area = null } = options;
+    const maxRounds = Math.ceil(targetCount / 10) * ROUNDS_PER_TEN_RESULTS;
+    const found = createLeadMerger();
+    let diagnostics: SearchDiagnostics = emptyDiagnostics();
+    let emptyRounds = 0;
+    let round = 0;
+
+    while (found.size() < targetCount && round < maxRounds && emptyRounds < MAX_EMPTY_ROUNDS && !signal?.aborted) {
+        round++;
+        const excludeNames = found.leads().slice(-MAX_EXCLUDED_NAMES).map(lead => lead.name);
+
+        let response: SearchResponse;
+        try {
+            response = await provider.searchLeads(query, location, excludeNames, area);
+        } catch (error) {
+            // The first round failing means the search failed; later failures just end the search early.
+            if (found.size() === 0) throw error;
+            console.error(`Search round ${round} failed, stopping with ${found.size()} results:`, error);
+            break;
+        }
+
+        let added = 0;
+        let duplicates = 0;
+        let outsideArea = 0;
+        for (const lead of response.leads) {
+            if (found.size() >= targetCount) break;
+            if (isOutsideArea(lead, area)) {
+                outsideArea++;
+                continue;
+            }
+            // Near-duplicates of businesses already found are merged into them rather than added again.
+            if (found.add(lead) === 'added') added++;
+            else duplicates++;
+        }
+        emptyRounds = added === 0 ? emptyRounds + 1 : 0;
+        diagnostics = mergeDiagnostics(diagnostics, {
+            ...response.diagnostics,
+            duplicates: response.diagnostics.duplicates + duplicates,
+            outsideArea: response.diagnostics.outsideArea + outsideArea,
+            issues: response.diagnostics.issues.map(issue => ({ ...issue, round })),
+        });
+
+        onProgress?.({ found: found.size(), target: targetCount, round }, found.leads());
+    }
+
+    return { leads: found.leads(), diagnostics };
+};
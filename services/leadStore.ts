@@ -0,0 +1,424 @@
+/**
+ * @file leadStore.ts
+ * A persistent local lead database backed by IndexedDB.
+ * Saved `Business` records (including scraped contact data) are kept in one object store,
+ * keyed by their stable ID, and named lists reference them by ID, so a lead saved to several
+ * lists is stored once and a scrape updates it everywhere. Leads with pipeline data (a stage,
+ * notes or tags) are stored too, whether or not they are in a list. Saved searches, with the
+ * results of their last run, snapshots of the results behind each search history entry, and the
+ * response cache live in stores of their own.
+ */
+
+import { Business, CachedResponse, LeadList, SavedSearch, SearchSnapshot } from '../types';
+import { mergeLeads } from './leadMerge';
+import { hasPipelineData } from './pipeline';
+
+const DB_NAME = 'leadFinderDatabase';
+const DB_VERSION = 4;
+const LEADS_STORE = 'leads';
+const LISTS_STORE = 'lists';
+const SEARCHES_STORE = 'searches';
+const SNAPSHOTS_STORE = 'snapshots';
+const RESPONSES_STORE = 'responses';
+
+// The database connection, opened on first use and shared afterwards.
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and on first run, creates) the lead database.
+ * @returns {Promise<IDBDatabase>} The open database.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(LEADS_STORE)) {
+                    db.createObjectStore(LEADS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(LISTS_STORE)) {
+                    db.createObjectStore(LISTS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(SEARCHES_STORE)) {
+                    db.createObjectStore(SEARCHES_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) {
+                    db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+                }
+                if (!db.objectStoreNames.contains(RESPONSES_STORE)) {
+                    db.createObjectStore(RESPONSES_STORE, { keyPath: 'key' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                databasePromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return databasePromise;
+};
+
+/**
+ * Wraps an IndexedDB request in a promise.
+ */
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Resolves when a transaction has committed.
+ */
+const completed = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+/**
+ * Strips UI-only state from a lead before it is stored.
+ */
+const toStoredLead = (lead: Business): Business => {
+    const { isScraping, isAuditing, ...stored } = lead;
+    return stored;
+};
+
+/**
+ * Returns all lists, most recently updated first.
+ * @returns {Promise<LeadList[]>} The saved lists.
+ */
+export const getLists = async (): Promise<LeadList[]> => {
+    const db = await openDatabase();
+    const lists = await promisify(db.transaction(LISTS_STORE).objectStore(LISTS_STORE).getAll() as IDBRequest<LeadList[]>);
+    return lists.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Creates a new, empty list.
+ * @param {string} name - The list's name.
+ * @returns {Promise<LeadList>} The created list.
+ */
+export const createList = async (name: string): Promise<LeadList> => {
+    const db = await openDatabase();
+    const now = Date.now();
+    const list: LeadList = { id: `list-${now}`, name: name.trim(), leadIds: [], createdAt: now, updatedAt: now };
+    const transaction = db.transaction(LISTS_STORE, 'readwrite');
+    transaction.objectStore(LISTS_STORE).add(list);
+    await completed(transaction);
+    return list;
+};
+
+/**
+ * Renames a list.
+ * @param {string} listId - The list to rename.
+ * @param {string} name - The new name.
+ */
+export const renameList = async (listId: string, name: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(LISTS_STORE, 'readwrite');
+    const store = transaction.objectStore(LISTS_STORE);
+    const list = await promisify(store.get(listId) as IDBRequest<LeadList | undefined>);
+    if (list) {
+        store.put({ ...list, name: name.trim(), updatedAt: Date.now() });
+    }
+    await completed(transaction);
+};
+
+/**
+ * Deletes the leads in `candidateIds` that no remaining list references and that have no pipeline data.
+ */
+const deleteOrphanedLeads = (leadsStore: IDBObjectStore, remainingLists: LeadList[], candidateIds: string[]) => {
+    const referenced = new Set(remainingLists.flatMap(list => list.leadIds));
+    candidateIds.filter(id => !referenced.has(id)).forEach(id => {
+        const request = leadsStore.get(id) as IDBRequest<Business | undefined>;
+        request.onsuccess = () => {
+            if (request.result && !hasPipelineData(request.result)) {
+                leadsStore.delete(id);
+            }
+        };
+    });
+};
+
+/**
+ * Deletes a list. Leads that are not in any other list, and aren't being tracked in the pipeline, are deleted with it.
+ * @param {string} listId - The list to delete.
+ */
+export const deleteList = async (listId: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([LISTS_STORE, LEADS_STORE], 'readwrite');
+    const listsStore = transaction.objectStore(LISTS_STORE);
+    const lists = await promisify(listsStore.getAll() as IDBRequest<LeadList[]>);
+    const list = lists.find(l => l.id === listId);
+    if (list) {
+        listsStore.delete(listId);
+        deleteOrphanedLeads(transaction.objectStore(LEADS_STORE), lists.filter(l => l.id !== listId), list.leadIds);
+    }
+    await completed(transaction);
+};
+
+/**
+ * Saves leads into a list. Leads already in the database are merged with the new copy,
+ * so earlier scrape results are kept and new ones added.
+ * @param {string} listId - The list to save into.
+ * @param {Business[]} leads - The leads to save.
+ * @returns {Promise<number>} How many leads were newly added to the list.
+ */
+export const saveLeadsToList = async (listId: string, leads: Business[]): Promise<number> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([LISTS_STORE, LEADS_STORE], 'readwrite');
+    const listsStore = transaction.objectStore(LISTS_STORE);
+    const leadsStore = transaction.objectStore(LEADS_STORE);
+
+    const list = await promisify(listsStore.get(listId) as IDBRequest<LeadList | undefined>);
+    if (!list) {
+        transaction.abort();
+        throw new Error('That list no longer exists.');
+    }
+
+    const existing = await Promise.all(leads.map(lead => promisify(leadsStore.get(lead.id) as IDBRequest<Business | undefined>)));
+    leads.forEach((lead, index) => {
+        const stored = existing[index];
+        leadsStore.put(toStoredLead(stored ? mergeLeads(stored, lead) : lead));
+    });
+
+    const inList = new Set(list.leadIds);
+    const newIds: string[] = [];
+    leads.forEach(lead => {
+        if (!inList.has(lead.id)) {
+            inList.add(lead.id);
+            newIds.push(lead.id);
+        }
+    });
+    listsStore.put({ ...list, leadIds: [...list.leadIds, ...newIds], updatedAt: Date.now() });
+
+    await completed(transaction);
+    return newIds.length;
+};
+
+/**
+ * Removes leads from a list. Leads that are not in any other list, and aren't being tracked in the pipeline, are deleted.
+ * @param {string} listId - The list to remove from.
+ * @param {string[]} leadIds - The leads to remove.
+ */
+export const removeLeadsFromList = async (listId: string, leadIds: string[]): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([LISTS_STORE, LEADS_STORE], 'readwrite');
+    const listsStore = transaction.objectStore(LISTS_STORE);
+    const lists = await promisify(listsStore.getAll() as IDBRequest<LeadList[]>);
+    const list = lists.find(l => l.id === listId);
+    if (list) {
+        const removed = new Set(leadIds);
+        const updated = { ...list, leadIds: list.leadIds.filter(id => !removed.has(id)), updatedAt: Date.now() };
+        listsStore.put(updated);
+        deleteOrphanedLeads(transaction.objectStore(LEADS_STORE), lists.map(l => l.id === listId ? updated : l), leadIds);
+    }
+    await completed(transaction);
+};
+
+/**
+ * Returns the leads in a list, in list order.
+ * @param {string} listId - The list to read.
+ * @returns {Promise<Business[]>} The list's leads.
+ */
+export const getListLeads = async (listId: string): Promise<Business[]> => {
+    const db = await openDatabase();
+    const transaction = db.transaction([LISTS_STORE, LEADS_STORE]);
+    const list = await promisify(transaction.objectStore(LISTS_STORE).get(listId) as IDBRequest<LeadList | undefined>);
+    if (!list) return [];
+    const leadsStore = transaction.objectStore(LEADS_STORE);
+    const leads = await Promise.all(list.leadIds.map(id => promisify(leadsStore.get(id) as IDBRequest<Business | undefined>)));
+    return leads.filter((lead): lead is Business => !!lead);
+};
+
+/**
+ * Returns every saved lead.
+ * @returns {Promise<Business[]>} All leads in the database.
+ */
+export const getAllSavedLeads = async (): Promise<Business[]> => {
+    const db = await openDatabase();
+    return promisify(db.transaction(LEADS_STORE).objectStore(LEADS_STORE).getAll() as IDBRequest<Business[]>);
+};
+
+/**
+ * Searches saved leads by name, address, category, phone, website or scraped email.
+ * @param {string} text - The text to look for (case-insensitive).
+ * @param {string | null} listId - Restrict the search to one list, or null for all saved leads.
+ * @returns {Promise<Business[]>} The matching leads.
+ */
+export const searchSavedLeads = async (text: string, listId: string | null): Promise<Business[]> => {
+    const leads = listId ? await getListLeads(listId) : await getAllSavedLeads();
+    const needle = text.trim().toLowerCase();
+    if (!needle) return leads;
+    return leads.filter(lead =>
+        [lead.name, lead.address, lead.type, lead.phone, lead.website, ...(lead.scrapedData?.emails ?? [])]
+            .some(value => value?.toLowerCase().includes(needle))
+    );
+};
+
+/**
+ * Updates a lead that has already been saved, e.g. after it was scraped. Unsaved leads are ignored.
+ * @param {string} leadId - The lead to update.
+ * @param {Partial<Business>} changes - The fields to overwrite.
+ */
+export const updateSavedLead = async (leadId: string, changes: Partial<Business>): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(LEADS_STORE, 'readwrite');
+    const store = transaction.objectStore(LEADS_STORE);
+    const stored = await promisify(store.get(leadId) as IDBRequest<Business | undefined>);
+    if (stored) {
+        store.put(toStoredLead({ ...stored, ...changes, id: leadId }));
+    }
+    await completed(transaction);
+};
+
+/**
+ * Stores a lead whether or not it is in a list, e.g. after its pipeline stage, notes or tags were edited.
+ * A stored copy is merged with it, with the given lead's pipeline fields taking precedence.
+ * @param {Business} lead - The lead to store.
+ */
+export const upsertLead = async (lead: Business): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(LEADS_STORE, 'readwrite');
+    const store = transaction.objectStore(LEADS_STORE);
+    const stored = await promisify(store.get(lead.id) as IDBRequest<Business | undefined>);
+    const merged = stored ? mergeLeads(stored, lead) : lead;
+    store.put(toStoredLead({ ...merged, stage: lead.stage, notes: lead.notes, tags: lead.tags }));
+    await completed(transaction);
+};
+
+/**
+ * Looks up stored copies of the given leads.
+ * @param {string[]} leadIds - The stable IDs to look up.
+ * @returns {Promise<Map<string, Business>>} The stored leads that were found, keyed by ID.
+ */
+export const getSavedLeadsByIds = async (leadIds: string[]): Promise<Map<string, Business>> => {
+    const db = await openDatabase();
+    const store = db.transaction(LEADS_STORE).objectStore(LEADS_STORE);
+    const leads = await Promise.all(leadIds.map(id => promisify(store.get(id) as IDBRequest<Business | undefined>)));
+    return new Map(leads.filter((lead): lead is Business => !!lead).map(lead => [lead.id, lead]));
+};
+
+/**
+ * Returns all saved searches, most recently run first.
+ * @returns {Promise<SavedSearch[]>} The saved searches.
+ */
+export const getSavedSearches = async (): Promise<SavedSearch[]> => {
+    const db = await openDatabase();
+    const searches = await promisify(db.transaction(SEARCHES_STORE).objectStore(SEARCHES_STORE).getAll() as IDBRequest<SavedSearch[]>);
+    return searches.sort((a, b) => b.lastRunAt - a.lastRunAt);
+};
+
+/**
+ * Creates or replaces a saved search.
+ * @param {SavedSearch} search - The saved search.
+ */
+export const putSavedSearch = async (search: SavedSearch): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(SEARCHES_STORE, 'readwrite');
+    transaction.objectStore(SEARCHES_STORE).put({ ...search, leads: search.leads.map(toStoredLead) });
+    await completed(transaction);
+};
+
+/**
+ * Deletes a saved search. Its leads stay in any lists they were saved to.
+ * @param {string} searchId - The saved search to delete.
+ */
+export const deleteSavedSearch = async (searchId: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(SEARCHES_STORE, 'readwrite');
+    transaction.objectStore(SEARCHES_STORE).delete(searchId);
+    await completed(transaction);
+};
+
+/**
+ * Looks up the snapshot of a search history entry's results.
+ * @param {string} historyId - The history entry's ID.
+ * @returns {Promise<SearchSnapshot | undefined>} The snapshot, if one was kept.
+ */
+export const getSearchSnapshot = async (historyId: string): Promise<SearchSnapshot | undefined> => {
+    const db = await openDatabase();
+    return promisify(db.transaction(SNAPSHOTS_STORE).objectStore(SNAPSHOTS_STORE).get(historyId) as IDBRequest<SearchSnapshot | undefined>);
+};
+
+/**
+ * Creates or replaces the snapshot of a search history entry's results.
+ * @param {SearchSnapshot} snapshot - The snapshot.
+ */
+export const putSearchSnapshot = async (snapshot: SearchSnapshot): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    transaction.objectStore(SNAPSHOTS_STORE).put({ ...snapshot, leads: snapshot.leads.map(toStoredLead) });
+    await completed(transaction);
+};
+
+/**
+ * Deletes the snapshots of search history entries, e.g. when the entries are removed from the history.
+ * @param {string[] | null} historyIds - The history entries' IDs, or null to delete every snapshot.
+ */
+export const deleteSearchSnapshots = async (historyIds: string[] | null): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(SNAPSHOTS_STORE, 'readwrite');
+    const store = transaction.objectStore(SNAPSHOTS_STORE);
+    if (historyIds === null) store.clear();
+    else historyIds.forEach(id => store.delete(id));
+    await completed(transaction);
+};
+
+/**
+ * Reads a cached provider response.
+ * @param {string} key - The response's cache key.
+ * @returns {Promise<CachedResponse | undefined>} The response, or undefined if none is cached.
+ */
+export const getCachedResponse = async (key: string): Promise<CachedResponse | undefined> => {
+    const db = await openDatabase();
+    return promisify(db.transaction(RESPONSES_STORE).objectStore(RESPONSES_STORE).get(key) as IDBRequest<CachedResponse | undefined>);
+};
+
+/**
+ * Reads every cached provider response.
+ * @returns {Promise<CachedResponse[]>} The responses, most recently cached first.
+ */
+export const getCachedResponses = async (): Promise<CachedResponse[]> => {
+    const db = await openDatabase();
+    const responses = await promisify(db.transaction(RESPONSES_STORE).objectStore(RESPONSES_STORE).getAll() as IDBRequest<CachedResponse[]>);
+    return responses.sort((a, b) => b.cachedAt - a.cachedAt);
+};
+
+/**
+ * Creates or replaces a cached provider response.
+ * @param {CachedResponse} response - The response.
+ */
+export const putCachedResponse = async (response: CachedResponse): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(RESPONSES_STORE, 'readwrite');
+    transaction.objectStore(RESPONSES_STORE).put(response);
+    await completed(transaction);
+};
+
+/**
+ * Deletes cached provider responses.
+ * @param {string[] | null} keys - The responses' cache keys, or null to delete every response.
+ */
+export const deleteCachedResponses = async (keys: string[] | null): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(RESPONSES_STORE, 'readwrite');
+    const store = transaction.objectStore(RESPONSES_STORE);
+    if (keys === null) store.clear();
+    else keys.forEach(key => store.delete(key));
+    await completed(transaction);
+};
+
+/**
+ * Deletes the cached provider responses whose keys start with the given prefix, e.g. every page of one search.
+ * @param {string} prefix - The start of the keys.
+ */
+export const deleteCachedResponsesByPrefix = async (prefix: string): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(RESPONSES_STORE, 'readwrite');
+    transaction.objectStore(RESPONSES_STORE).delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`));
+    await completed(transaction);
+};
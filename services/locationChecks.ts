@@ -0,0 +1,80 @@
+/**
+ * @file locationChecks.ts
+ * Plausibility checks for lead coordinates. Coordinates that can't be right (out of range, or the
+ * 0, 0 "null island" a failed lookup often produces) are rejected outright; coordinates that are
+ * merely suspicious are flagged when they lie far outside the search area, far from the rest of the
+ * results, or, with too few results to compare, very far from the user.
+ */
+
+import { Business, LatLng, SearchArea } from '../types';
+import { distanceKm } from './leadScoring';
+import { areaCenter, areaRadiusKm } from './searchArea';
+
+// A lead may lie this far beyond the search area's edge, or one area radius if that is more, before it is flagged.
+const AREA_MARGIN_KM = 5;
+// With at least this many located results, each is compared with the rest.
+const MIN_RESULTS_FOR_SPREAD = 5;
+// A result is an outlier when it is this many times the typical distance from the middle of the results...
+const SPREAD_FACTOR = 6;
+// ...and at least this far away, so tightly grouped results don't flag their neighbours.
+const MIN_OUTLIER_KM = 30;
+// With too few results to compare, a lead this far from the user is flagged.
+const FAR_FROM_USER_KM = 1000;
+
+/**
+ * Whether coordinates could be a real location: finite, in range, and not exactly 0, 0.
+ * @param {LatLng} point - The coordinates.
+ * @returns {boolean} True if they are usable.
+ */
+export const isValidCoordinate = (point: LatLng): boolean =>
+    Number.isFinite(point.latitude) && Number.isFinite(point.longitude)
+    && Math.abs(point.latitude) <= 90 && Math.abs(point.longitude) <= 180
+    && !(point.latitude === 0 && point.longitude === 0);
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Finds leads whose coordinates look wrong for the search.
+ * @param {Business[]} leads - The leads.
+ * @param {{ area: SearchArea | null, userLocation: LatLng | null }} context - What the coordinates are compared with.
+ * @returns {Map<string, string>} A reason for each flagged lead, keyed by lead ID, e.g. "About 850 km from the other results".
+ */
+export const findLocationOutliers = (leads: Business[], context: { area: SearchArea | null; userLocation: LatLng | null }): Map<string, string> => {
+    const flags = new Map<string, string>();
+    const located = leads
+        .filter(lead => lead.latitude != null && lead.longitude != null)
+        .map(lead => ({ id: lead.id, point: { latitude: lead.latitude!, longitude: lead.longitude! } }));
+    const about = (km: number) => `About ${km < 10 ? km.toFixed(1) : Math.round(km)} km`;
+
+    if (context.area) {
+        // Compare with the area drawn on the map.
+        const center = areaCenter(context.area);
+        const radius = areaRadiusKm(context.area);
+        located.forEach(({ id, point }) => {
+            const beyond = distanceKm(center, point) - radius;
+            if (beyond > Math.max(AREA_MARGIN_KM, radius)) flags.set(id, `${about(beyond)} outside the search area`);
+        });
+    } else if (located.length >= MIN_RESULTS_FOR_SPREAD) {
+        // Compare with the middle of the results; medians keep the outliers themselves from moving it.
+        const middle = {
+            latitude: median(located.map(({ point }) => point.latitude)),
+            longitude: median(located.map(({ point }) => point.longitude)),
+        };
+        const distances = located.map(({ point }) => distanceKm(middle, point));
+        const limit = Math.max(MIN_OUTLIER_KM, median(distances) * SPREAD_FACTOR);
+        located.forEach(({ id }, i) => {
+            if (distances[i] > limit) flags.set(id, `${about(distances[i])} from the other results`);
+        });
+    } else if (context.userLocation) {
+        const origin = context.userLocation;
+        located.forEach(({ id, point }) => {
+            const distance = distanceKm(origin, point);
+            if (distance > FAR_FROM_USER_KM) flags.set(id, `${about(distance)} from your location`);
+        });
+    }
+    return flags;
+};
@@ -0,0 +1,148 @@
+/**
+ * @file mapClustering.ts
+ * Groups map markers into clusters and picks marker colours, independently of Leaflet.
+ * Clustering is grid-based in projected pixel space, so it depends only on the zoom level and
+ * not on where the map is panned. Colours show a lead's category, score band or pipeline stage.
+ */
+
+import { Business, LeadScore, MapDisplaySettings, MarkerColourMode, PipelineStage } from '../types';
+import { PIPELINE_STAGES, stageOf } from './pipeline';
+
+// localStorage key under which the map display settings are persisted.
+const MAP_SETTINGS_STORAGE_KEY = 'leadFinderMapSettings';
+
+/**
+ * A point to cluster, already projected to pixels at the current zoom.
+ */
+export interface ProjectedPoint {
+    id: string;
+    x: number;
+    y: number;
+}
+
+/**
+ * A group of nearby points. Single points are returned as clusters of one.
+ */
+export interface PointCluster {
+    key: string; // Stable while the cluster's grid cell and members are unchanged.
+    ids: string[];
+    x: number; // Mean pixel position of the members.
+    y: number;
+}
+
+/**
+ * Clusters points by the grid cell of the given size they fall in.
+ * @param {ProjectedPoint[]} points - The points, in pixels.
+ * @param {number} cellSize - The grid cell size in pixels.
+ * @returns {PointCluster[]} The clusters.
+ */
+export const clusterPoints = (points: ProjectedPoint[], cellSize: number): PointCluster[] => {
+    const cells = new Map<string, ProjectedPoint[]>();
+    points.forEach(point => {
+        const cell = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+        if (!cells.has(cell)) cells.set(cell, []);
+        cells.get(cell)!.push(point);
+    });
+    return Array.from(cells, ([cell, members]) => ({
+        key: members.length === 1 ? members[0].id : `${cell}:${members.length}`,
+        ids: members.map(member => member.id),
+        x: members.reduce((sum, member) => sum + member.x, 0) / members.length,
+        y: members.reduce((sum, member) => sum + member.y, 0) / members.length,
+    }));
+};
+
+/**
+ * The colour options for markers, in display order.
+ */
+export const MARKER_COLOUR_MODES: { id: MarkerColourMode; label: string }[] = [
+    { id: 'category', label: 'Category' },
+    { id: 'score', label: 'Score' },
+    { id: 'stage', label: 'Pipeline stage' },
+];
+
+// Distinct colours for the most common categories; the rest share OTHER_COLOUR.
+const CATEGORY_PALETTE = ['#4F46E5', '#059669', '#D97706', '#DC2626', '#0891B2', '#7C3AED', '#DB2777', '#65A30D', '#EA580C'];
+const OTHER_COLOUR = '#6B7280';
+
+// Marker colours for each pipeline stage, matching the stage badges.
+const STAGE_COLOURS: Record<PipelineStage, string> = {
+    new: '#6B7280',
+    contacted: '#2563EB',
+    replied: '#4F46E5',
+    qualified: '#D97706',
+    won: '#16A34A',
+    lost: '#DC2626',
+};
+
+// Score bands, matching the score badges.
+const SCORE_BANDS = [
+    { min: 70, label: 'Score 70+', colour: '#16A34A' },
+    { min: 40, label: 'Score 40–69', colour: '#CA8A04' },
+    { min: 0, label: 'Score under 40', colour: '#9CA3AF' },
+];
+
+/**
+ * A legend entry.
+ */
+export interface LegendEntry {
+    label: string;
+    colour: string;
+}
+
+/**
+ * Assigns marker colours for a set of leads.
+ * @param {Business[]} leads - The leads on the map.
+ * @param {MarkerColourMode} mode - What the colours show.
+ * @param {Map<string, LeadScore>} scores - Every lead's score, for the score mode.
+ * @returns {{ colourOf: (lead: Business) => string, legend: LegendEntry[] }} The colour of each lead and a legend.
+ */
+export const markerColours = (leads: Business[], mode: MarkerColourMode, scores: Map<string, LeadScore>): { colourOf: (lead: Business) => string; legend: LegendEntry[] } => {
+    switch (mode) {
+        case 'score': {
+            const band = (lead: Business) => SCORE_BANDS.find(b => (scores.get(lead.id)?.score ?? 0) >= b.min)!;
+            return { colourOf: lead => band(lead).colour, legend: SCORE_BANDS.map(({ label, colour }) => ({ label, colour })) };
+        }
+        case 'stage':
+            return {
+                colourOf: lead => STAGE_COLOURS[stageOf(lead)],
+                legend: PIPELINE_STAGES.map(stage => ({ label: stage.label, colour: STAGE_COLOURS[stage.id] })),
+            };
+        default: {
+            // The most common categories get their own colour.
+            const counts = new Map<string, number>();
+            leads.forEach(lead => counts.set(lead.type || 'Uncategorised', (counts.get(lead.type || 'Uncategorised') ?? 0) + 1));
+            const ranked = Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+            const colours = new Map(ranked.slice(0, CATEGORY_PALETTE.length).map((category, i) => [category, CATEGORY_PALETTE[i]]));
+            const legend = Array.from(colours, ([label, colour]) => ({ label, colour }));
+            if (ranked.length > CATEGORY_PALETTE.length) legend.push({ label: 'Other', colour: OTHER_COLOUR });
+            return { colourOf: lead => colours.get(lead.type || 'Uncategorised') ?? OTHER_COLOUR, legend };
+        }
+    }
+};
+
+/**
+ * The settings used until the user changes them.
+ */
+export const DEFAULT_MAP_SETTINGS: MapDisplaySettings = { colourBy: 'category', cluster: true, heatmap: false };
+
+/**
+ * Reads the persisted map display settings.
+ * @returns {MapDisplaySettings} The settings.
+ */
+export const loadMapSettings = (): MapDisplaySettings => {
+    try {
+        const stored = localStorage.getItem(MAP_SETTINGS_STORAGE_KEY);
+        if (stored) return { ...DEFAULT_MAP_SETTINGS, ...JSON.parse(stored) };
+    } catch (e) {
+        console.error("Failed to parse map settings from localStorage", e);
+    }
+    return DEFAULT_MAP_SETTINGS;
+};
+
+/**
+ * Persists the map display settings.
+ * @param {MapDisplaySettings} settings - The settings.
+ */
+export const saveMapSettings = (settings: MapDisplaySettings) => {
+    localStorage.setItem(MAP_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,218 @@
+/**
+ * @file mockProvider.ts
+ * An offline, fixture-backed implementation of `LeadProvider`.
+ * It returns deterministic results without an API key or network access, so the app's
+ * search, scrape, geocode and outreach flows can be developed and exercised locally.
+ * The same query always produces the same businesses, in the same order.
+ */
+
+import { Business, LatLng, LeadProvider, ScrapedData, SearchArea, SearchResponse } from '../types';
+import { validateLeadRecords } from './leadParser';
+import { hashString as hash } from './leadMerge';
+import { areaCenter, areaRadiusKm } from './searchArea';
+import { cityFromAddress } from './outreach';
+
+// Number of businesses returned by each call to `searchLeads`, mirroring a typical Gemini response.
+const PAGE_SIZE = 10;
+// Total number of distinct businesses available for any one query, so larger searches run dry.
+const FIXTURE_POOL_SIZE = 60;
+// Simulated network latency for every call, in milliseconds.
+const MOCK_LATENCY_MS = 300;
+// Where fixtures are placed when the user's location is unknown (Los Angeles, matching the map default).
+const DEFAULT_CENTER: LatLng = { latitude: 34.0522, longitude: -118.2437 };
+// How far fixtures are scattered from the centre, in kilometres.
+const DEFAULT_SPREAD_KM = 10;
+
+// Building blocks used to generate fixture businesses.
+const NAME_PREFIXES = ['Acme', 'Bluebird', 'Cedar', 'Summit', 'Harbor', 'Maple', 'Golden Gate', 'Riverside', 'Northside', 'Oakwood', 'Sunset', 'Pioneer'];
+const NAME_SUFFIXES = ['Co.', '& Sons', 'Group', 'Studio', 'Experts', 'Collective'];
+const STREETS = ['Main St', 'Oak Ave', 'Elm St', 'Park Blvd', 'Market St', 'Sunset Blvd', 'Broadway', 'Hill St'];
+
+/**
+ * Resolves after the simulated network latency.
+ */
+const delay = () => new Promise<void>(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+
+/**
+ * Derives a business category from a free-text query, e.g. "plumbers in new york" -> "Plumbers".
+ * @param {string} query - The user's search query.
+ * @returns {string} A title-cased category.
+ */
+const categoryFromQuery = (query: string): string => {
+    const subject = query.split(/\s+(?:in|near|around)\s+/i)[0].trim() || 'Business';
+    return subject.replace(/\b\w/g, c => c.toUpperCase());
+};
+
+/**
+ * Deterministically offsets a coordinate pair by up to a given distance, based on a seed.
+ * @param {LatLng} center - The point to offset from.
+ * @param {number} seed - The seed controlling the offset.
+ * @param {number} spreadKm - The largest offset along each axis, in kilometres.
+ * @returns {LatLng} The offset coordinates.
+ */
+const offsetCoordinates = (center: LatLng, seed: number, spreadKm: number = DEFAULT_SPREAD_KM): LatLng => {
+    // One degree of latitude is about 111 km; degrees of longitude shrink towards the poles.
+    const latitudeSpread = spreadKm / 111;
+    const longitudeSpread = spreadKm / (111 * Math.max(Math.cos((center.latitude * Math.PI) / 180), 0.01));
+    return {
+        latitude: +(center.latitude + ((seed % 1000) / 1000 - 0.5) * 2 * latitudeSpread).toFixed(6),
+        longitude: +(center.longitude + ((Math.floor(seed / 1000) % 1000) / 1000 - 0.5) * 2 * longitudeSpread).toFixed(6),
+    };
+};
+
+/**
+ * Where fixtures are scattered: around the search area, spilling a little past its edge so that
+ * out-of-area filtering is exercised, or around the user's location.
+ */
+interface Placement {
+    center: LatLng;
+    spreadKm: number;
+}
+
+const placementFor = (location: LatLng | null, area: SearchArea | null): Placement =>
+    area
+        ? { center: areaCenter(area), spreadKm: areaRadiusKm(area) * 1.5 }
+        : { center: location ?? DEFAULT_CENTER, spreadKm: DEFAULT_SPREAD_KM };
+
+/**
+ * Builds the full, ordered pool of fixture entries for a query, in the JSON shape the Gemini prompt asks for.
+ * Some fixtures deliberately lack a website, coordinates or rating, or are malformed, so that those code paths are exercised.
+ * @param {string} query - The user's search query.
+ * @param {Placement} placement - Where fixtures are placed.
+ * @returns {Record<string, unknown>[]} The raw fixture entries.
+ */
+const buildFixtures = (query: string, { center, spreadKm }: Placement): Record<string, unknown>[] => {
+    const category = categoryFromQuery(query);
+    const querySeed = hash(query.toLowerCase());
+
+    return Array.from({ length: FIXTURE_POOL_SIZE }, (_, index) => {
+        const seed = hash(`${querySeed}-${index}`);
+        const prefix = NAME_PREFIXES[index % NAME_PREFIXES.length];
+        const suffix = NAME_SUFFIXES[Math.floor(index / NAME_PREFIXES.length) % NAME_SUFFIXES.length];
+        const name = `${prefix} ${category} ${suffix}`;
+        const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+        const street = STREETS[seed % STREETS.length];
+
+        const business: Record<string, unknown> = {
+            name,
+            address: `${100 + (seed % 9000)} ${street}, Springfield, CA 9${String(seed % 10000).padStart(4, '0')}`,
+            category,
+            phone: `(555) ${String(100 + (seed % 900))}-${String(seed % 10000).padStart(4, '0')}`,
+        };
+        // Every seventh business has no website, to exercise the "nothing to scrape" path.
+        if (index % 7 !== 3) {
+            // Every eleventh website cannot be scraped.
+            business.website = index % 11 === 5 ? `https://broken.${slug}.example.com` : `https://www.${slug}.example.com`;
+        }
+        // Every fifth business has no rating, and every ninth has one that fails validation.
+        if (index % 9 === 8) {
+            business.rating = 'N/A';
+        } else if (index % 5 !== 4) {
+            business.rating = 3 + (seed % 21) / 10;
+            business.reviews = 5 + (seed % 400);
+        }
+        // Every fourth business has no coordinates, to exercise the geocoding fallback.
+        if (index % 4 !== 2) {
+            Object.assign(business, offsetCoordinates(center, seed, spreadKm));
+        }
+        // Every thirteenth business has no address, so it is rejected.
+        if (index % 13 === 6) {
+            delete business.address;
+        }
+        return business;
+    });
+};
+
+/**
+ * Creates the offline mock lead provider.
+ * @returns {LeadProvider} The mock lead provider.
+ */
+export const createMockProvider = (): LeadProvider => {
+    // Remembers where each generated address was placed, so geocoding stays consistent with search.
+    const addressPlacements = new Map<string, Placement>();
+
+    /**
+     * Returns the next page of fixture entries not already in `excludeNames`, validated like a real response.
+     */
+    const searchLeads = async (query: string, location: LatLng | null, excludeNames: string[] = [], area: SearchArea | null = null): Promise<SearchResponse> => {
+        await delay();
+        const excluded = new Set(excludeNames.map(name => name.toLowerCase()));
+        const placement = placementFor(location, area);
+        const page = buildFixtures(query, placement)
+            .filter(record => !excluded.has(String(record.name).toLowerCase()))
+            .slice(0, PAGE_SIZE);
+        const response = validateLeadRecords(page, 'json');
+        response.leads.forEach(business => addressPlacements.set(business.address, placement));
+        return response;
+    };
+
+    /**
+     * Returns contact details derived from the website's domain.
+     * Any URL containing "broken" fails, to exercise scrape error handling.
+     */
+    const scrapeContacts = async (websiteUrl: string): Promise<ScrapedData> => {
+        if (!websiteUrl || !websiteUrl.startsWith('http')) {
+            throw new Error("Invalid or missing website URL.");
+        }
+        await delay();
+        if (websiteUrl.includes('broken')) {
+            throw new Error(`Failed to scrape contacts for ${websiteUrl}.`);
+        }
+        const domain = new URL(websiteUrl).hostname.replace(/^www\./, '');
+        const handle = domain.split('.')[0];
+        const seed = hash(domain);
+        const homepage = `https://${domain}/`;
+        const contactPage = `https://${domain}/contact`;
+        const emails = seed % 3 === 0 ? [] : [`info@${domain}`, ...(seed % 2 === 0 ? [`sales@${domain}`] : [])];
+        const phones = [`(555) ${String(100 + (seed % 900))}-${String(seed % 10000).padStart(4, '0')}`];
+        const socials = [`https://www.facebook.com/${handle}`, ...(seed % 2 === 1 ? [`https://www.instagram.com/${handle}`] : [])];
+        // Emails and phones are "found" on the contact page, social links in the homepage footer.
+        const sources: Record<string, string> = {};
+        [...emails, ...phones].forEach(item => { sources[item] = contactPage; });
+        socials.forEach(item => { sources[item] = homepage; });
+        return { emails, phones, socials, sources };
+    };
+
+    /**
+     * Returns deterministic coordinates for each address, near the location it was searched around.
+     */
+    const geocodeAddresses = async (businesses: { id: string, address: string }[]): Promise<Map<string, LatLng>> => {
+        if (businesses.length === 0) {
+            return new Map();
+        }
+        await delay();
+        const coordinatesMap = new Map<string, LatLng>();
+        businesses.forEach(({ id, address }) => {
+            const { center, spreadKm } = addressPlacements.get(address) ?? placementFor(null, null);
+            coordinatesMap.set(id, offsetCoordinates(center, hash(address), spreadKm));
+        });
+        return coordinatesMap;
+    };
+
+    /**
+     * Returns an opening line for each business built from its rating, reviews and city.
+     */
+    const writeOpeningLines = async (leads: Business[]): Promise<Map<string, string>> => {
+        if (leads.length === 0) {
+            return new Map();
+        }
+        await delay();
+        const lines = new Map<string, string>();
+        leads.forEach(lead => {
+            const city = cityFromAddress(lead.address);
+            const praise = lead.rating && lead.reviews
+                ? `your ${lead.rating}-star rating from ${lead.reviews} reviews`
+                : 'what your customers say about you';
+            lines.set(lead.id, `I came across ${lead.name}${city ? ` in ${city}` : ''} and was struck by ${praise}.`);
+        });
+        return lines;
+    };
+
+    return {
+        id: 'mock',
+        searchLeads,
+        scrapeContacts,
+        geocodeAddresses,
+        writeOpeningLines,
+    };
+};
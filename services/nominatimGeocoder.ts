@@ -0,0 +1,60 @@
+/**
+ * @file nominatimGeocoder.ts
+ * A geocoder backed by a Nominatim server (OpenStreetMap's geocoding API), used instead of asking
+ * the lead provider for coordinates. It can point at the public server or a self-hosted instance.
+ * Addresses are looked up one request at a time, spaced to respect the public server's usage policy.
+ */
+
+import { Geocoder, LatLng } from '../types';
+
+/**
+ * The public Nominatim server, used when no other is configured.
+ */
+export const DEFAULT_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+// The public server allows at most one request per second.
+const REQUEST_INTERVAL_MS = 1000;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Creates a geocoder that queries a Nominatim server's search endpoint.
+ * @param {string} [baseUrl] - The server's base URL.
+ * @returns {Geocoder} The geocoder.
+ */
+export const createNominatimGeocoder = (baseUrl: string = DEFAULT_NOMINATIM_URL): Geocoder => {
+    const endpoint = `${baseUrl.replace(/\/+$/, '')}/search`;
+    let lastRequestAt = 0;
+
+    const lookup = async (address: string): Promise<LatLng | null> => {
+        const wait = lastRequestAt + REQUEST_INTERVAL_MS - Date.now();
+        if (wait > 0) await delay(wait);
+        lastRequestAt = Date.now();
+        const response = await fetch(`${endpoint}?format=jsonv2&limit=1&q=${encodeURIComponent(address)}`, {
+            headers: { Accept: 'application/json' },
+        });
+        if (!response.ok) {
+            throw new Error(`Nominatim lookup failed with status ${response.status}.`);
+        }
+        const [first] = await response.json() as { lat: string; lon: string }[];
+        if (!first) return null;
+        const latitude = parseFloat(first.lat);
+        const longitude = parseFloat(first.lon);
+        return isNaN(latitude) || isNaN(longitude) ? null : { latitude, longitude };
+    };
+
+    return {
+        geocodeAddresses: async (businesses) => {
+            const coordinatesMap = new Map<string, LatLng>();
+            for (const { id, address } of businesses) {
+                try {
+                    const point = await lookup(address);
+                    if (point) coordinatesMap.set(id, point);
+                } catch (error) {
+                    // One failed address shouldn't lose the rest of the batch.
+                    console.error(`Error geocoding "${address}" with Nominatim:`, error);
+                }
+            }
+            return coordinatesMap;
+        },
+    };
+};
@@ -0,0 +1,231 @@
+/**
+ * @file outreach.ts
+ * Writes outreach emails from templates with merge fields, and turns them into `mailto:` links,
+ * .eml drafts and mail-merge spreadsheets.
+ * Merge fields are written {{field}}, or {{field|fallback}} to use the fallback when the lead has
+ * no value. {{opening}} is a personalised first sentence written by the lead provider on request.
+ */
+
+import { Business, OutreachEmail, OutreachField, OutreachTemplate } from '../types';
+import { ExportTable, primaryEmailOf } from './leadExport';
+import { createZip } from './xlsxWriter';
+
+// localStorage key under which the templates are persisted.
+const TEMPLATES_STORAGE_KEY = 'leadFinderOutreachTemplates';
+
+/**
+ * The merge fields, in display order, with their labels.
+ */
+export const OUTREACH_FIELDS: { id: OutreachField; label: string }[] = [
+    { id: 'name', label: 'Business name' },
+    { id: 'type', label: 'Type' },
+    { id: 'city', label: 'City' },
+    { id: 'rating', label: 'Rating' },
+    { id: 'reviews', label: 'Reviews' },
+    { id: 'website', label: 'Website' },
+    { id: 'phone', label: 'Phone' },
+    { id: 'address', label: 'Address' },
+    { id: 'email', label: 'Email' },
+    { id: 'opening', label: 'AI opening line' },
+];
+
+/**
+ * The template offered before the user has written any.
+ */
+export const DEFAULT_OUTREACH_TEMPLATE: OutreachTemplate = {
+    id: 'template-default',
+    name: 'Introduction',
+    subject: 'A quick idea for {{name}}',
+    body: `Hi {{name}} team,
+
+{{opening|I came across {{name}} while looking for local businesses in {{city|your area}}.}}
+
+[What you offer, in a sentence or two.]
+
+Would you be open to a short call next week?
+
+Best regards,
+[Your name]`,
+    brief: '',
+};
+
+/**
+ * Reads the persisted templates, falling back to the default one.
+ * @returns {OutreachTemplate[]} The templates.
+ */
+export const loadOutreachTemplates = (): OutreachTemplate[] => {
+    try {
+        const stored = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+        if (stored) {
+            const templates: OutreachTemplate[] = JSON.parse(stored);
+            if (templates.length > 0) return templates;
+        }
+    } catch (e) {
+        console.error("Failed to parse outreach templates from localStorage", e);
+    }
+    return [DEFAULT_OUTREACH_TEMPLATE];
+};
+
+/**
+ * Persists the templates.
+ * @param {OutreachTemplate[]} templates - The templates.
+ */
+export const saveOutreachTemplates = (templates: OutreachTemplate[]) => {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
+
+// Postcodes, ZIP codes and state or county abbreviations, which aren't part of a city's name.
+const isPostalToken = (token: string): boolean => /\d/.test(token) || /^[A-Z]{2,3}$/.test(token);
+
+/**
+ * Picks the city out of a one-line address such as "123 Main St, Springfield, IL 62704, USA" or
+ * "12 High St, London SW1A 1AA, UK". A trailing country is skipped, then postcodes and state codes
+ * are removed from the last part; if nothing is left, the part before it is the city.
+ * @param {string} address - The address.
+ * @returns {string} The city, or an empty string if the address has no part after the street.
+ */
+export const cityFromAddress = (address: string): string => {
+    const parts = address.split(',').map(part => part.trim()).filter(Boolean);
+    // A last part without digits after at least two others is taken to be the country.
+    const end = parts.length >= 3 && !/\d/.test(parts[parts.length - 1]) ? parts.length - 1 : parts.length;
+    for (let i = end - 1; i >= 1; i--) {
+        const city = parts[i].split(/\s+/).filter(token => !isPostalToken(token)).join(' ');
+        if (city) return city;
+        if (i < end - 1) break;
+    }
+    return '';
+};
+
+/**
+ * The values of every merge field for a lead.
+ * @param {Business} lead - The lead.
+ * @param {string} [opening] - The lead's AI-written opening line, if one was written.
+ * @returns {Record<OutreachField, string>} The values; empty where the lead has none.
+ */
+export const outreachValues = (lead: Business, opening?: string): Record<OutreachField, string> => ({
+    name: lead.name,
+    type: lead.type ?? '',
+    city: cityFromAddress(lead.address),
+    rating: lead.rating != null ? String(lead.rating) : '',
+    reviews: lead.reviews != null ? String(lead.reviews) : '',
+    website: lead.website ?? '',
+    phone: lead.phone ?? '',
+    address: lead.address,
+    email: primaryEmailOf(lead),
+    opening: opening ?? '',
+});
+
+// {{field}} or {{field|fallback}}; the fallback may itself contain simple {{field}}s.
+const MERGE_FIELD_PATTERN = /\{\{\s*(\w+)\s*(?:\|((?:[^{}]|\{\{[^{}]*\}\})*))?\}\}/g;
+
+/**
+ * Fills in the merge fields of a template text. Unknown fields are left as they are, so typos show up in the preview.
+ * @param {string} text - The text, with merge fields.
+ * @param {Record<OutreachField, string>} values - The merge field values.
+ * @returns {string} The text with the fields filled in.
+ */
+export const fillTemplate = (text: string, values: Record<OutreachField, string>): string =>
+    text.replace(MERGE_FIELD_PATTERN, (match, field: string, fallback?: string) => {
+        if (!Object.hasOwn(values, field)) return match;
+        const value = values[field as OutreachField];
+        return value || (fallback !== undefined ? fillTemplate(fallback, values) : '');
+    });
+
+/**
+ * Writes a template's email for a lead.
+ * @param {Business} lead - The lead.
+ * @param {OutreachTemplate} template - The template.
+ * @param {string} [opening] - The lead's AI-written opening line, if one was written.
+ * @returns {OutreachEmail} The email.
+ */
+export const composeEmail = (lead: Business, template: OutreachTemplate, opening?: string): OutreachEmail => {
+    const values = outreachValues(lead, opening);
+    return {
+        leadId: lead.id,
+        leadName: lead.name,
+        to: values.email,
+        // A subject is a single line, so a multi-line value can't break the headers.
+        subject: fillTemplate(template.subject, values).replace(/\s*\n\s*/g, ' ').trim(),
+        body: fillTemplate(template.body, values),
+    };
+};
+
+/**
+ * A `mailto:` link that opens the email in the user's mail app.
+ * @param {OutreachEmail} email - The email.
+ * @returns {string} The link.
+ */
+export const mailtoLink = (email: OutreachEmail): string => {
+    // Line breaks in a mailto body must be CRLF.
+    const body = email.body.replace(/\r?\n/g, '\r\n');
+    return `mailto:${email.to}?subject=${encodeURIComponent(email.subject)}&body=${encodeURIComponent(body)}`;
+};
+
+// Encodes a header value as a MIME encoded-word when it isn't plain ASCII.
+const encodeHeader = (value: string): string => {
+    if (/^[\x20-\x7e]*$/.test(value)) return value;
+    const bytes = new TextEncoder().encode(value);
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return `=?UTF-8?B?${btoa(binary)}?=`;
+};
+
+/**
+ * Writes an email as an .eml file. It is marked as unsent, so mail apps open it as a draft ready to send.
+ * @param {OutreachEmail} email - The email.
+ * @returns {string} The file's contents.
+ */
+export const toEml = (email: OutreachEmail): string =>
+    [
+        `To: ${email.to}`,
+        `Subject: ${encodeHeader(email.subject)}`,
+        'X-Unsent: 1',
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=UTF-8',
+        'Content-Transfer-Encoding: 8bit',
+        '',
+        email.body,
+    ].join('\r\n').replace(/\r?\n/g, '\r\n');
+
+/**
+ * A safe file name for an email's .eml file, e.g. "acme-dental.eml".
+ * @param {OutreachEmail} email - The email.
+ * @returns {string} The file name.
+ */
+export const emlFileName = (email: OutreachEmail): string =>
+    `${email.leadName.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'email'}.eml`;
+
+/**
+ * Packs emails into a zip of .eml files, one per email. Names are made unique with a number.
+ * @param {OutreachEmail[]} emails - The emails.
+ * @returns {Uint8Array} The zip archive.
+ */
+export const createEmlArchive = (emails: OutreachEmail[]): Uint8Array => {
+    const encoder = new TextEncoder();
+    const used = new Map<string, number>();
+    return createZip(emails.map(email => {
+        const name = emlFileName(email);
+        const count = (used.get(name) ?? 0) + 1;
+        used.set(name, count);
+        return { name: count === 1 ? name : name.replace(/\.eml$/, `-${count}.eml`), data: encoder.encode(toEml(email)) };
+    }));
+};
+
+/**
+ * A mail-merge table: one row per email, with the written subject and body followed by every merge
+ * field, so it also works with mail-merge tools that fill in their own template.
+ * @param {OutreachEmail[]} emails - The emails.
+ * @param {Business[]} leads - The leads the emails were written for.
+ * @param {Map<string, string>} openings - The AI-written opening lines, keyed by lead ID.
+ * @returns {ExportTable} The headings and rows.
+ */
+export const mailMergeTable = (emails: OutreachEmail[], leads: Business[], openings: Map<string, string>): ExportTable => {
+    const leadsById = new Map(leads.map(lead => [lead.id, lead]));
+    return {
+        headers: ['Email', 'Subject', 'Body', ...OUTREACH_FIELDS.filter(f => f.id !== 'email').map(f => f.label)],
+        rows: emails.map(email => {
+            const values = outreachValues(leadsById.get(email.leadId)!, openings.get(email.leadId));
+            return [email.to, email.subject, email.body, ...OUTREACH_FIELDS.filter(f => f.id !== 'email').map(f => values[f.id])];
+        }),
+    };
+};
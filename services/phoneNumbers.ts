@@ -0,0 +1,257 @@
+/**
+ * @file phoneNumbers.ts
+ * Parses phone numbers in whatever format the search or a website gives them and normalises them
+ * to E.164 ("+13105551234"), so the same number is only stored once, `tel:` links work and exports
+ * are accepted by diallers. Numbers without an international prefix are read using the country
+ * inferred from the lead's address or coordinates. Where the numbering plan allows it, numbers are
+ * classified as mobile, landline or toll-free.
+ */
+
+import { Business, PhoneType, ScrapedData } from '../types';
+
+// Country assumed when neither the address nor the coordinates give it away.
+const DEFAULT_COUNTRY = 'US';
+
+/**
+ * The parts of a country's numbering plan needed to parse and classify numbers.
+ */
+interface NumberingPlan {
+    callingCode: string; // International calling code, without "+".
+    trunkPrefix?: string; // Prefix dialled before national numbers and dropped internationally, e.g. "0".
+    lengths: [number, number]; // Minimum and maximum length of the national significant number.
+    tollFree?: RegExp; // Matches toll-free national numbers.
+    mobile?: RegExp; // Matches mobile national numbers.
+    landline?: RegExp; // Matches geographic national numbers.
+}
+
+// Numbering plans for the countries we can classify, keyed by ISO 3166 country code.
+// North American numbers can't be told apart as mobile or landline, so they only report toll-free.
+const PLANS: Record<string, NumberingPlan> = {
+    US: { callingCode: '1', trunkPrefix: '1', lengths: [10, 10], tollFree: /^8(00|33|44|55|66|77|88)/ },
+    CA: { callingCode: '1', trunkPrefix: '1', lengths: [10, 10], tollFree: /^8(00|33|44|55|66|77|88)/ },
+    GB: { callingCode: '44', trunkPrefix: '0', lengths: [9, 10], tollFree: /^80[08]/, mobile: /^7[1-57-9]/, landline: /^[123]/ },
+    IE: { callingCode: '353', trunkPrefix: '0', lengths: [7, 9], tollFree: /^1800/, mobile: /^8[35-9]/, landline: /^[1-79]/ },
+    DE: { callingCode: '49', trunkPrefix: '0', lengths: [6, 11], tollFree: /^800/, mobile: /^1[5-7]/, landline: /^[2-9]/ },
+    FR: { callingCode: '33', trunkPrefix: '0', lengths: [9, 9], tollFree: /^80[05]/, mobile: /^[67]/, landline: /^[1-59]/ },
+    ES: { callingCode: '34', lengths: [9, 9], tollFree: /^90[01]/, mobile: /^[67]/, landline: /^[89]/ },
+    // Italian landline numbers keep their leading 0 internationally, so Italy has no trunk prefix.
+    IT: { callingCode: '39', lengths: [6, 11], tollFree: /^80[03]/, mobile: /^3/, landline: /^0/ },
+    NL: { callingCode: '31', trunkPrefix: '0', lengths: [9, 9], tollFree: /^800/, mobile: /^6/, landline: /^[1-57-9]/ },
+    AU: { callingCode: '61', trunkPrefix: '0', lengths: [9, 10], tollFree: /^180/, mobile: /^4/, landline: /^[2378]/ },
+    NZ: { callingCode: '64', trunkPrefix: '0', lengths: [8, 10], tollFree: /^80[08]/, mobile: /^2/, landline: /^[3-79]/ },
+    IN: { callingCode: '91', trunkPrefix: '0', lengths: [10, 10], tollFree: /^1800/, mobile: /^[6-9]/, landline: /^[1-5]/ },
+    MX: { callingCode: '52', lengths: [10, 10], tollFree: /^800/ },
+    ZA: { callingCode: '27', trunkPrefix: '0', lengths: [9, 9], tollFree: /^80/, mobile: /^[6-8]/, landline: /^[1-5]/ },
+};
+
+// Country names and abbreviations as they appear at the end of addresses.
+const COUNTRY_NAMES: Record<string, string> = {
+    'united states': 'US', 'united states of america': 'US', 'usa': 'US', 'us': 'US',
+    'canada': 'CA',
+    'united kingdom': 'GB', 'uk': 'GB', 'great britain': 'GB', 'england': 'GB', 'scotland': 'GB', 'wales': 'GB', 'northern ireland': 'GB',
+    'ireland': 'IE', 'éire': 'IE',
+    'germany': 'DE', 'deutschland': 'DE',
+    'france': 'FR',
+    'spain': 'ES', 'españa': 'ES',
+    'italy': 'IT', 'italia': 'IT',
+    'netherlands': 'NL', 'the netherlands': 'NL', 'nederland': 'NL',
+    'australia': 'AU',
+    'new zealand': 'NZ',
+    'india': 'IN',
+    'mexico': 'MX', 'méxico': 'MX',
+    'south africa': 'ZA',
+};
+
+// Postcode formats distinctive enough to identify a country.
+const POSTCODE_PATTERNS: [RegExp, string][] = [
+    [/\b[A-Z]{2}\s+\d{5}(-\d{4})?\b/, 'US'], // State and ZIP code, e.g. "CA 90012".
+    [/\b[A-Z]\d[A-Z]\s?\d[A-Z]\d\b/i, 'CA'],
+    [/\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/i, 'GB'],
+];
+
+// Rough bounding boxes [south, north, west, east], checked in order so small countries win over neighbours.
+const COUNTRY_BOUNDS: [string, [number, number, number, number]][] = [
+    ['IE', [51.4, 55.4, -10.7, -6.0]],
+    ['GB', [49.9, 60.9, -8.2, 1.8]],
+    ['NL', [50.7, 53.6, 3.3, 7.2]],
+    ['DE', [47.3, 55.1, 5.9, 15.0]],
+    ['FR', [41.3, 51.1, -5.2, 9.6]],
+    ['ES', [36.0, 43.8, -9.3, 3.3]],
+    ['IT', [36.6, 47.1, 6.6, 18.5]],
+    ['NZ', [-47.3, -34.4, 166.4, 178.6]],
+    ['AU', [-43.7, -10.7, 113.3, 153.6]],
+    ['ZA', [-34.8, -22.1, 16.5, 32.9]],
+    ['IN', [6.7, 35.5, 68.1, 97.4]],
+    ['MX', [14.5, 32.7, -118.4, -86.7]],
+    ['US', [24.5, 49.4, -125.0, -66.9]],
+    ['CA', [41.7, 83.1, -141.0, -52.6]],
+];
+
+/**
+ * A parsed phone number.
+ */
+export interface ParsedPhone {
+    e164: string; // The number in E.164 format, e.g. "+13105551234".
+    country?: string; // ISO country code, if the calling code is one we know.
+    type: PhoneType;
+}
+
+/**
+ * Infers a lead's country from its address, falling back to its coordinates.
+ * @param {Pick<Business, 'address' | 'latitude' | 'longitude'>} lead - The lead.
+ * @returns {string} An ISO 3166 country code; the default country if nothing matches.
+ */
+export const inferCountry = (lead: Pick<Business, 'address' | 'latitude' | 'longitude'>): string => {
+    const segments = (lead.address ?? '').split(',').map(part => part.trim().toLowerCase()).filter(Boolean);
+    // The country is usually the last part of an address; check it before the rest.
+    for (const segment of [...segments].reverse()) {
+        const country = COUNTRY_NAMES[segment] ?? COUNTRY_NAMES[segment.replace(/[\d\s-]+$/, '').trim()];
+        if (country) return country;
+    }
+    const postcode = POSTCODE_PATTERNS.find(([pattern]) => pattern.test(lead.address ?? ''));
+    if (postcode) return postcode[1];
+
+    if (lead.latitude != null && lead.longitude != null) {
+        const match = COUNTRY_BOUNDS.find(([, [south, north, west, east]]) =>
+            lead.latitude! >= south && lead.latitude! <= north && lead.longitude! >= west && lead.longitude! <= east);
+        if (match) return match[0];
+    }
+    return DEFAULT_COUNTRY;
+};
+
+/**
+ * Classifies a national number using its country's numbering plan.
+ */
+const classify = (plan: NumberingPlan, national: string): PhoneType => {
+    if (plan.tollFree?.test(national)) return 'toll-free';
+    if (plan.mobile?.test(national)) return 'mobile';
+    if (plan.landline?.test(national)) return 'landline';
+    return 'unknown';
+};
+
+/**
+ * Checks a national number against a plan and builds the parsed result.
+ */
+const fromNational = (country: string, plan: NumberingPlan, national: string): ParsedPhone | null => {
+    if (plan.trunkPrefix && national.startsWith(plan.trunkPrefix) && national.length > plan.lengths[0]) {
+        national = national.slice(plan.trunkPrefix.length);
+    }
+    if (national.length < plan.lengths[0] || national.length > plan.lengths[1]) return null;
+    // North American area codes never start with 0 or 1.
+    if (plan.callingCode === '1' && /^[01]/.test(national)) return null;
+    return { e164: `+${plan.callingCode}${national}`, country, type: classify(plan, national) };
+};
+
+/**
+ * Parses a phone number and normalises it to E.164.
+ * @param {string} raw - The number as written, e.g. "(310) 555-1234", "+44 (0)20 7946 0958" or "0049 30 123456".
+ * @param {string} country - The country to read numbers without an international prefix in.
+ * @returns {ParsedPhone | null} The parsed number, or null if it isn't a plausible phone number.
+ */
+export const parsePhone = (raw: string, country: string = DEFAULT_COUNTRY): ParsedPhone | null => {
+    // Drop extensions such as "ext. 12" or "x12"; they can't be dialled as part of the number.
+    const withoutExtension = raw.replace(/\s*(?:ext\.?|extension|x|#)\s*\d+\s*$/i, '');
+    // "(0)" marks a trunk prefix that isn't dialled from abroad.
+    const cleaned = withoutExtension.replace(/\(0\)/g, '');
+    const digits = cleaned.replace(/\D/g, '');
+    if (digits.length < 6 || digits.length > 17) return null;
+    const homePlan = PLANS[country] ?? PLANS[DEFAULT_COUNTRY];
+
+    let international: string | null = null;
+    if (cleaned.trim().startsWith('+')) international = digits;
+    else if (digits.startsWith('00')) international = digits.slice(2);
+    else if (homePlan.callingCode === '1' && digits.startsWith('011')) international = digits.slice(3);
+
+    if (international === null) {
+        const parsed = fromNational(country in PLANS ? country : DEFAULT_COUNTRY, homePlan, digits);
+        if (parsed) return parsed;
+        // Some sources write the calling code without a "+", e.g. "44 20 7946 0958".
+        if (!digits.startsWith(homePlan.callingCode)) return null;
+        international = digits;
+    }
+
+    // Prefer the lead's own country when several share a calling code (US and Canada).
+    const candidates = Object.entries(PLANS)
+        .filter(([, plan]) => international!.startsWith(plan.callingCode))
+        .sort(([a], [b]) => (a === country ? -1 : b === country ? 1 : 0));
+    for (const [code, plan] of candidates) {
+        const parsed = fromNational(code, plan, international.slice(plan.callingCode.length));
+        if (parsed) return parsed;
+    }
+    // An unknown calling code: accept any plausible length, without classifying it.
+    if (candidates.length === 0 && international.length >= 8 && international.length <= 15 && !international.startsWith('0')) {
+        return { e164: `+${international}`, type: 'unknown' };
+    }
+    return null;
+};
+
+/**
+ * Formats an E.164 number for display, e.g. "+1 (310) 555-1234" or "+44 207 946 0958".
+ * Numbers that aren't E.164 are returned unchanged.
+ * @param {string} phone - The number.
+ * @returns {string} The formatted number.
+ */
+export const formatPhone = (phone: string): string => {
+    const nanp = /^\+1(\d{3})(\d{3})(\d{4})$/.exec(phone);
+    if (nanp) return `+1 (${nanp[1]}) ${nanp[2]}-${nanp[3]}`;
+    if (!/^\+\d{8,15}$/.test(phone)) return phone;
+    const plan = Object.values(PLANS).find(p => phone.startsWith(`+${p.callingCode}`));
+    const callingCode = plan?.callingCode ?? phone.slice(1, 3);
+    const national = phone.slice(callingCode.length + 1);
+    // Groups of three digits, with the last group taking up to four.
+    const groups = national.match(/\d{1,3}/g)!;
+    if (groups.length > 1 && groups[groups.length - 1].length === 1) {
+        groups[groups.length - 2] += groups.pop();
+    }
+    return `+${callingCode} ${groups.join(' ')}`;
+};
+
+/**
+ * Display labels for each phone type.
+ */
+export const PHONE_TYPE_LABELS: Record<PhoneType, string> = {
+    mobile: 'Mobile',
+    landline: 'Landline',
+    'toll-free': 'Toll-free',
+    unknown: '',
+};
+
+/**
+ * Normalises a lead's primary phone number to E.164 and records its type.
+ * Numbers that can't be parsed are left as they are.
+ * @param {Business} lead - The lead.
+ * @returns {Business} The lead with its phone normalised.
+ */
+export const normaliseLeadPhone = (lead: Business): Business => {
+    if (!lead.phone) return lead;
+    const parsed = parsePhone(lead.phone, inferCountry(lead));
+    return parsed ? { ...lead, phone: parsed.e164, phoneType: parsed.type } : lead;
+};
+
+/**
+ * Normalises scraped phone numbers to E.164, records their types, and drops duplicates,
+ * including copies of the lead's primary phone.
+ * @param {ScrapedData} data - The scraped contact data.
+ * @param {Business} lead - The lead the data was scraped for.
+ * @returns {ScrapedData} The scraped data with normalised phones.
+ */
+export const normaliseScrapedPhones = (data: ScrapedData, lead: Business): ScrapedData => {
+    const country = inferCountry(lead);
+    const primary = lead.phone ? parsePhone(lead.phone, country)?.e164 ?? lead.phone : undefined;
+    const phones: string[] = [];
+    const phoneTypes: Record<string, PhoneType> = { ...data.phoneTypes };
+    const sources: Record<string, string> | undefined = data.sources && { ...data.sources };
+
+    data.phones.forEach(raw => {
+        const parsed = parsePhone(raw, country);
+        const phone = parsed?.e164 ?? raw.trim();
+        // Re-key the page the number was found on under its normalised form.
+        const source = data.sources?.[raw];
+        if (sources && !phones.includes(raw)) delete sources[raw];
+        if (phone === primary || phones.includes(phone)) return;
+        phones.push(phone);
+        if (parsed) phoneTypes[phone] = parsed.type;
+        if (sources && source) sources[phone] = source;
+    });
+    return { ...data, phones, phoneTypes, ...(sources && { sources }) };
+};
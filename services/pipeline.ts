@@ -0,0 +1,71 @@
+/**
+ * @file pipeline.ts
+ * Helpers for tracking leads through the sales pipeline: the stage definitions,
+ * and functions for working with a lead's stage, notes and tags.
+ */
+
+import { Business, LeadNote, PipelineStage } from '../types';
+
+/**
+ * The pipeline stages in order, with display labels and Tailwind colour classes.
+ */
+export const PIPELINE_STAGES: { id: PipelineStage; label: string; badgeClass: string }[] = [
+    { id: 'new', label: 'New', badgeClass: 'bg-gray-100 text-gray-700' },
+    { id: 'contacted', label: 'Contacted', badgeClass: 'bg-blue-100 text-blue-700' },
+    { id: 'replied', label: 'Replied', badgeClass: 'bg-indigo-100 text-indigo-700' },
+    { id: 'qualified', label: 'Qualified', badgeClass: 'bg-amber-100 text-amber-700' },
+    { id: 'won', label: 'Won', badgeClass: 'bg-green-100 text-green-700' },
+    { id: 'lost', label: 'Lost', badgeClass: 'bg-red-100 text-red-700' },
+];
+
+/**
+ * The pipeline fields of a lead, which the user edits.
+ */
+export type PipelineChanges = Partial<Pick<Business, 'stage' | 'notes' | 'tags'>>;
+
+/**
+ * Returns a lead's stage, treating leads without one as new.
+ * @param {Business} lead - The lead.
+ * @returns {PipelineStage} The lead's stage.
+ */
+export const stageOf = (lead: Business): PipelineStage => lead.stage ?? 'new';
+
+/**
+ * Whether the user has recorded anything about a lead's progress.
+ * Such leads are kept in the lead database even when they are not in any list.
+ * @param {Business} lead - The lead.
+ * @returns {boolean} True if the lead has a non-default stage, notes or tags.
+ */
+export const hasPipelineData = (lead: Business): boolean =>
+    stageOf(lead) !== 'new' || (lead.notes?.length ?? 0) > 0 || (lead.tags?.length ?? 0) > 0;
+
+/**
+ * Creates a new timestamped note.
+ * @param {string} text - The note's content.
+ * @returns {LeadNote} The note.
+ */
+export const createNote = (text: string): LeadNote => ({
+    id: `note-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    text: text.trim(),
+    createdAt: Date.now(),
+});
+
+/**
+ * Normalises a tag as typed by the user: trimmed, lowercase, spaces replaced with dashes.
+ * @param {string} tag - The raw tag.
+ * @returns {string} The normalised tag, or an empty string if nothing usable was typed.
+ */
+export const normaliseTag = (tag: string): string =>
+    tag.trim().toLowerCase().replace(/^#/, '').replace(/\s+/g, '-');
+
+/**
+ * Copies the pipeline fields from a stored lead onto a freshly found one, so a business found
+ * again by a new search keeps its stage, notes and tags.
+ * @param {Business} lead - The freshly found lead.
+ * @param {Business | undefined} stored - The stored copy of the same lead, if any.
+ * @returns {Business} The lead with its pipeline fields restored.
+ */
+export const withPipelineData = (lead: Business, stored: Business | undefined): Business =>
+    stored && hasPipelineData(stored)
+        ? { ...lead, stage: stored.stage, notes: stored.notes, tags: stored.tags }
+        : lead;
@@ -0,0 +1,141 @@
+/**
+ * @file providerRegistry.ts
+ * Keeps track of the available `LeadProvider` backends and which one is selected, and likewise
+ * for the geocoder used to place leads without coordinates.
+ * Providers are created lazily, so the Gemini client is never constructed when the
+ * offline mock provider is in use, and are wrapped in the response cache.
+ */
+
+import { DnsResolver, Geocoder, GeocoderId, LeadProvider, LeadProviderId } from '../types';
+import { createDohResolver, createStaticResolver } from './emailVerifier';
+import { createGeminiProvider } from './geminiService';
+import { createMockProvider } from './mockProvider';
+import { withGeocodeCache } from './geocodeCache';
+import { withResponseCache } from './responseCache';
+import { DEFAULT_NOMINATIM_URL, createNominatimGeocoder } from './nominatimGeocoder';
+
+// localStorage key under which the selected provider is persisted.
+const PROVIDER_STORAGE_KEY = 'leadFinderProvider';
+// localStorage key under which the selected geocoder is persisted.
+const GEOCODER_STORAGE_KEY = 'leadFinderGeocoder';
+
+/**
+ * The providers the user can choose between, in display order.
+ */
+export const PROVIDER_OPTIONS: { id: LeadProviderId; label: string }[] = [
+    { id: 'gemini', label: 'Gemini (Google Maps)' },
+    { id: 'mock', label: 'Offline mock data' },
+];
+
+// Factories for each provider, and the instances created so far.
+const factories: Record<LeadProviderId, () => LeadProvider> = {
+    gemini: () => createGeminiProvider(process.env.API_KEY as string),
+    mock: createMockProvider,
+};
+const instances = new Map<LeadProviderId, LeadProvider>();
+
+/**
+ * Returns the provider with the given ID, wrapped in the response cache, creating it on first use.
+ * @param {LeadProviderId} id - The provider to return.
+ * @returns {LeadProvider} The provider instance.
+ */
+export const getLeadProvider = (id: LeadProviderId): LeadProvider => {
+    let provider = instances.get(id);
+    if (!provider) {
+        provider = withResponseCache(factories[id]());
+        instances.set(id, provider);
+    }
+    return provider;
+};
+
+// DNS resolvers used to verify emails scraped by each provider. The mock provider's fixture
+// domains don't exist, so it gets an offline resolver that reports a mail server for every domain.
+const resolverFactories: Record<LeadProviderId, () => DnsResolver> = {
+    gemini: () => createDohResolver(),
+    mock: () => createStaticResolver({}, ['mx.mock.invalid']),
+};
+const resolvers = new Map<LeadProviderId, DnsResolver>();
+
+/**
+ * Returns the DNS resolver used to verify emails found by the given provider, creating it on first use.
+ * @param {LeadProviderId} id - The provider.
+ * @returns {DnsResolver} The resolver.
+ */
+export const getDnsResolver = (id: LeadProviderId): DnsResolver => {
+    let resolver = resolvers.get(id);
+    if (!resolver) {
+        resolver = resolverFactories[id]();
+        resolvers.set(id, resolver);
+    }
+    return resolver;
+};
+
+/**
+ * Reads the persisted provider selection. Without a saved choice, the mock provider is
+ * used when no Gemini API key is configured, and Gemini otherwise.
+ * @returns {LeadProviderId} The provider to use on startup.
+ */
+export const loadProviderId = (): LeadProviderId => {
+    const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    if (stored && Object.hasOwn(factories, stored)) {
+        return stored as LeadProviderId;
+    }
+    return process.env.API_KEY ? 'gemini' : 'mock';
+};
+
+/**
+ * Persists the provider selection.
+ * @param {LeadProviderId} id - The selected provider.
+ */
+export const saveProviderId = (id: LeadProviderId) => {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+};
+
+/**
+ * The geocoders the user can choose between, in display order.
+ */
+export const GEOCODER_OPTIONS: { id: GeocoderId; label: string }[] = [
+    { id: 'provider', label: 'Geocode with the data source' },
+    { id: 'nominatim', label: 'Geocode with Nominatim (OpenStreetMap)' },
+];
+
+// Cached geocoders, keyed by the backend that does the lookups.
+const geocoders = new Map<string, Geocoder>();
+
+/**
+ * Returns the geocoder to use, wrapped in the geocode cache, creating it on first use.
+ * The 'provider' geocoder asks the selected lead provider; 'nominatim' queries the server set in
+ * `NOMINATIM_URL`, or the public one.
+ * @param {GeocoderId} id - The selected geocoder.
+ * @param {LeadProviderId} providerId - The selected lead provider.
+ * @returns {Geocoder} The geocoder.
+ */
+export const getGeocoder = (id: GeocoderId, providerId: LeadProviderId): Geocoder => {
+    const backend = id === 'provider' ? providerId : id;
+    let geocoder = geocoders.get(backend);
+    if (!geocoder) {
+        const inner = id === 'provider'
+            ? getLeadProvider(providerId)
+            : createNominatimGeocoder(process.env.NOMINATIM_URL || DEFAULT_NOMINATIM_URL);
+        geocoder = withGeocodeCache(inner, backend);
+        geocoders.set(backend, geocoder);
+    }
+    return geocoder;
+};
+
+/**
+ * Reads the persisted geocoder selection.
+ * @returns {GeocoderId} The geocoder to use on startup.
+ */
+export const loadGeocoderId = (): GeocoderId => {
+    const stored = localStorage.getItem(GEOCODER_STORAGE_KEY);
+    return GEOCODER_OPTIONS.find(option => option.id === stored)?.id ?? 'provider';
+};
+
+/**
+ * Persists the geocoder selection.
+ * @param {GeocoderId} id - The selected geocoder.
+ */
+export const saveGeocoderId = (id: GeocoderId) => {
+    localStorage.setItem(GEOCODER_STORAGE_KEY, id);
+};
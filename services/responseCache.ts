@@ -0,0 +1,206 @@
+/**
+ * @file responseCache.ts
+ * A persistent cache of provider responses, so the same website isn't scraped and the same search
+ * isn't sent to the API again while an earlier answer is still fresh. Scrapes are keyed by the
+ * website's domain, plus the page when the website isn't a homepage, so a business found by several
+ * searches is scraped once; searches are keyed by
+ * the normalised query, the rounded location, the search area and the businesses already found, so
+ * each page of a multi-request search is cached separately. Entries are kept in the local IndexedDB
+ * database and reused for a configurable number of days.
+ */
+
+import { CachedResponse, CacheSettings, LatLng, LeadProvider, LeadProviderId, SearchArea } from '../types';
+import { websiteDomain } from './leadMerge';
+import { deleteCachedResponses, deleteCachedResponsesByPrefix, getCachedResponse, getCachedResponses, putCachedResponse } from './leadStore';
+import { summariseArea } from './searchArea';
+
+// localStorage key under which the cache settings are persisted.
+const SETTINGS_STORAGE_KEY = 'leadFinderCacheSettings';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Contacts change rarely; search results change more often.
+ */
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = { scrapeTtlDays: 30, searchTtlDays: 7 };
+
+/**
+ * Reads the persisted cache settings.
+ * @returns {CacheSettings} The settings.
+ */
+export const loadCacheSettings = (): CacheSettings => {
+    try {
+        const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        if (stored) return { ...DEFAULT_CACHE_SETTINGS, ...JSON.parse(stored) };
+    } catch (e) {
+        console.error("Failed to parse cache settings from localStorage", e);
+    }
+    return DEFAULT_CACHE_SETTINGS;
+};
+
+/**
+ * Persists the cache settings.
+ * @param {CacheSettings} settings - The settings.
+ */
+export const saveCacheSettings = (settings: CacheSettings) => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+const normaliseQuery = (query: string): string => query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * What a scrape is cached under: the domain for a homepage, or the domain, path and query for any
+ * other page. Many small businesses list a Facebook, Instagram, Linktree or Google Sites page as
+ * their website, and those share a domain with every other business doing the same. Tracking
+ * parameters and fragments are dropped.
+ */
+const scrapeTarget = (websiteUrl: string): string => {
+    const domain = websiteDomain(websiteUrl);
+    if (!domain) return '';
+    const url = new URL(/^https?:\/\//i.test(websiteUrl) ? websiteUrl : `https://${websiteUrl}`);
+    Array.from(url.searchParams.keys())
+        .filter(name => /^(utm_|fbclid$|gclid$)/i.test(name))
+        .forEach(name => url.searchParams.delete(name));
+    return `${domain}${url.pathname.replace(/\/+$/, '')}${url.search}`;
+};
+
+const scrapeKey = (provider: LeadProviderId, websiteUrl: string): string | null => {
+    const target = scrapeTarget(websiteUrl);
+    return target ? `scrape|${provider}|${target}` : null;
+};
+
+// Every page of a search shares this prefix, so refreshing a search can forget all of them.
+const searchPrefix = (provider: LeadProviderId, query: string): string => `search|${provider}|${normaliseQuery(query)}|`;
+
+/**
+ * The key of one search request. The location is rounded to about a kilometre, so small GPS
+ * changes don't miss the cache.
+ */
+const searchKey = (provider: LeadProviderId, query: string, location: LatLng | null, excludeNames: string[], area: SearchArea | null): string => {
+    const near = location ? `${location.latitude.toFixed(2)},${location.longitude.toFixed(2)}` : '';
+    const excluded = excludeNames.map(name => name.trim().toLowerCase()).sort().join(';');
+    return `${searchPrefix(provider, query)}${near}|${area ? JSON.stringify(area) : ''}|${excluded}`;
+};
+
+const describeSearch = (location: LatLng | null, excludeNames: string[], area: SearchArea | null): string | undefined => {
+    const parts = [
+        area ? summariseArea(area) : location ? `near ${location.latitude.toFixed(2)}, ${location.longitude.toFixed(2)}` : '',
+        excludeNames.length > 0 ? `skipping ${excludeNames.length} already found` : '',
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' · ') : undefined;
+};
+
+/**
+ * Whether a cached response is too old to reuse.
+ * @param {CachedResponse} response - The response.
+ * @param {CacheSettings} settings - How long responses are reused for.
+ * @param {number} [now] - The current time.
+ * @returns {boolean} True if it has expired.
+ */
+export const isExpired = (response: CachedResponse, settings: CacheSettings, now: number = Date.now()): boolean => {
+    const ttlDays = response.kind === 'scrape' ? settings.scrapeTtlDays : settings.searchTtlDays;
+    return now - response.cachedAt > ttlDays * DAY_MS;
+};
+
+/**
+ * Reads a response that is still fresh, counting the hit. A failing database counts as a miss.
+ */
+const readFresh = async (key: string, settings: CacheSettings): Promise<CachedResponse | undefined> => {
+    try {
+        const response = await getCachedResponse(key);
+        if (!response || isExpired(response, settings)) return undefined;
+        putCachedResponse({ ...response, hits: response.hits + 1 })
+            .catch(e => console.error("Failed to update the response cache", e));
+        return response;
+    } catch (e) {
+        console.error("Failed to read the response cache", e);
+        return undefined;
+    }
+};
+
+const write = (response: CachedResponse) => {
+    putCachedResponse(response).catch(e => console.error("Failed to write the response cache", e));
+};
+
+/**
+ * Wraps a provider with the response cache. Fresh cached scrapes and searches are answered without
+ * calling the provider, and are marked as coming from the cache; other answers are cached. A TTL of
+ * zero days turns the cache off for that kind. Geocoding has a cache of its own.
+ * @param {LeadProvider} provider - The provider to wrap.
+ * @returns {LeadProvider} The caching provider.
+ */
+export const withResponseCache = (provider: LeadProvider): LeadProvider => ({
+    ...provider,
+    searchLeads: async (query, location, excludeNames = [], area = null) => {
+        const settings = loadCacheSettings();
+        if (settings.searchTtlDays <= 0) return provider.searchLeads(query, location, excludeNames, area);
+        const key = searchKey(provider.id, query, location, excludeNames, area);
+        const hit = await readFresh(key, settings);
+        if (hit?.search) {
+            return { ...hit.search, diagnostics: { ...hit.search.diagnostics, cachedResponses: 1 } };
+        }
+        const response = await provider.searchLeads(query, location, excludeNames, area);
+        write({
+            key,
+            kind: 'search',
+            provider: provider.id,
+            label: query.trim(),
+            detail: describeSearch(location, excludeNames, area),
+            cachedAt: Date.now(),
+            hits: 0,
+            search: response,
+        });
+        return response;
+    },
+    scrapeContacts: async (websiteUrl) => {
+        const settings = loadCacheSettings();
+        const key = scrapeKey(provider.id, websiteUrl);
+        if (!key || settings.scrapeTtlDays <= 0) return provider.scrapeContacts(websiteUrl);
+        const hit = await readFresh(key, settings);
+        if (hit?.scrape) {
+            return { ...hit.scrape, cachedAt: hit.cachedAt };
+        }
+        const scrapedData = await provider.scrapeContacts(websiteUrl);
+        write({
+            key,
+            kind: 'scrape',
+            provider: provider.id,
+            label: scrapeTarget(websiteUrl),
+            cachedAt: Date.now(),
+            hits: 0,
+            scrape: scrapedData,
+        });
+        return scrapedData;
+    },
+});
+
+/**
+ * Forgets a website's cached scrape, so the next scrape asks the provider again.
+ * @param {LeadProviderId} provider - The provider whose answer to forget.
+ * @param {string} websiteUrl - The website.
+ */
+export const forgetCachedScrape = async (provider: LeadProviderId, websiteUrl: string): Promise<void> => {
+    const key = scrapeKey(provider, websiteUrl);
+    if (key) await deleteCachedResponses([key]);
+};
+
+/**
+ * Forgets every cached page of a search, wherever and within whichever area it was run, so the next
+ * run asks the provider again.
+ * @param {LeadProviderId} provider - The provider whose answers to forget.
+ * @param {string} query - The search query.
+ */
+export const forgetCachedSearch = async (provider: LeadProviderId, query: string): Promise<void> => {
+    await deleteCachedResponsesByPrefix(searchPrefix(provider, query));
+};
+
+/**
+ * Deletes the cached responses too old to be reused.
+ * @param {CacheSettings} settings - How long responses are reused for.
+ * @returns {Promise<number>} How many were deleted.
+ */
+export const deleteExpiredResponses = async (settings: CacheSettings): Promise<number> => {
+    const now = Date.now();
+    const expired = (await getCachedResponses()).filter(response => isExpired(response, settings, now));
+    await deleteCachedResponses(expired.map(response => response.key));
+    return expired.length;
+};
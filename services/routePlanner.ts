@@ -0,0 +1,294 @@
+/**
+ * @file routePlanner.ts
+ * Plans a field-visit route through a set of leads and exports it.
+ * The visiting order starts with a nearest-neighbour tour from the start point, which 2-opt then
+ * improves by reversing segments while that shortens the route. Distances are great-circle ("as the
+ * crow flies"), so arrival times are estimates from an average speed. Routes export as GPX, KML or a
+ * printable itinerary. The planning options are persisted in localStorage.
+ */
+
+import { Business, LatLng, PlannedRoute, RouteOptions, RouteStart } from '../types';
+import { distanceKm } from './leadScoring';
+
+// localStorage key under which the route options are persisted.
+const ROUTE_OPTIONS_STORAGE_KEY = 'leadFinderRouteOptions';
+// 2-opt stops after this many passes even if it is still finding small improvements.
+const MAX_IMPROVEMENT_PASSES = 50;
+
+/**
+ * The start points offered, with their labels.
+ */
+export const ROUTE_STARTS: { id: RouteStart; label: string }[] = [
+    { id: 'location', label: 'Your location' },
+    { id: 'area', label: 'Centre of the search area' },
+    { id: 'firstLead', label: 'First selected lead' },
+];
+
+/**
+ * The options used until the user changes them.
+ */
+export const DEFAULT_ROUTE_OPTIONS: RouteOptions = {
+    start: 'location',
+    returnToStart: true,
+    startTime: '09:00',
+    visitMinutes: 20,
+    speedKmh: 30,
+};
+
+/**
+ * Orders points into a short route from a start point, by nearest neighbour and then 2-opt.
+ * @param {LatLng} start - Where the route starts.
+ * @param {LatLng[]} points - The points to visit.
+ * @param {boolean} returnToStart - Whether the route ends back at the start, which the 2-opt step accounts for.
+ * @returns {number[]} Indexes into `points`, in visiting order.
+ */
+export const orderStops = (start: LatLng, points: LatLng[], returnToStart: boolean): number[] => {
+    // Node 0 is the start; node i + 1 is points[i].
+    const nodes = [start, ...points];
+    const matrix = nodes.map(a => nodes.map(b => distanceKm(a, b)));
+
+    // Nearest neighbour: always go to the closest point not yet visited.
+    const path = [0];
+    const unvisited = new Set(points.map((_, i) => i + 1));
+    while (unvisited.size > 0) {
+        const from = path[path.length - 1];
+        let nearest = -1;
+        unvisited.forEach(node => {
+            if (nearest === -1 || matrix[from][node] < matrix[from][nearest]) nearest = node;
+        });
+        path.push(nearest);
+        unvisited.delete(nearest);
+    }
+    if (returnToStart) path.push(0);
+
+    // 2-opt: reverse path[i..k] whenever that makes the route shorter. The start stays first, and last
+    // when returning there. On an open route, the last stop has no outgoing edge to account for.
+    const lastMovable = returnToStart ? path.length - 2 : path.length - 1;
+    const edge = (a: number, b: number | undefined) => (b === undefined ? 0 : matrix[a][b]);
+    for (let pass = 0, improved = true; improved && pass < MAX_IMPROVEMENT_PASSES; pass++) {
+        improved = false;
+        for (let i = 1; i < lastMovable; i++) {
+            for (let k = i + 1; k <= lastMovable; k++) {
+                const before = edge(path[i - 1], path[i]) + edge(path[k], path[k + 1]);
+                const after = edge(path[i - 1], path[k]) + edge(path[i], path[k + 1]);
+                if (after < before - 1e-9) {
+                    const reversed = path.slice(i, k + 1).reverse();
+                    path.splice(i, reversed.length, ...reversed);
+                    improved = true;
+                }
+            }
+        }
+    }
+    return path.filter(node => node !== 0).map(node => node - 1);
+};
+
+const parseTime = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours || 0) * 60 + (minutes || 0);
+};
+
+const formatTime = (totalMinutes: number): string => {
+    const minutes = Math.round(totalMinutes) % (24 * 60);
+    return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+const roundKm = (km: number): number => Math.round(km * 100) / 100;
+
+/**
+ * Plans a route through the leads.
+ * @param {Business[]} leads - The selected leads, in list order. Leads without coordinates are skipped.
+ * @param {RouteOptions} options - Where to start, whether to return and how to estimate times.
+ * @param {{ point: LatLng, label: string } | null} origin - The start point for the 'location' and 'area' starts, if known.
+ * @returns {PlannedRoute} The route.
+ * @throws {Error} If no selected lead has coordinates, or the start point isn't known.
+ */
+export const planRoute = (leads: Business[], options: RouteOptions, origin: { point: LatLng; label: string } | null): PlannedRoute => {
+    const located = leads.filter(lead => lead.latitude != null && lead.longitude != null);
+    if (located.length === 0) throw new Error('None of the selected leads has map coordinates.');
+    const pointOf = (lead: Business): LatLng => ({ latitude: lead.latitude!, longitude: lead.longitude! });
+
+    // Starting at the first lead makes it the first stop; the rest are ordered from there.
+    let start: { point: LatLng; label: string };
+    let fixedFirst: Business | null = null;
+    if (options.start === 'firstLead') {
+        fixedFirst = located[0];
+        start = { point: pointOf(fixedFirst), label: fixedFirst.name };
+    } else if (origin) {
+        start = origin;
+    } else {
+        throw new Error(options.start === 'location' ? 'Your location is not known; choose another start point.' : 'There is no search area; choose another start point.');
+    }
+
+    const toOrder = fixedFirst ? located.slice(1) : located;
+    const order = orderStops(start.point, toOrder.map(pointOf), options.returnToStart);
+    const visits = [...(fixedFirst ? [fixedFirst] : []), ...order.map(i => toOrder[i])];
+
+    let clock = parseTime(options.startTime);
+    let previous = start.point;
+    let totalKm = 0;
+    const travelMinutes = (km: number) => (options.speedKmh > 0 ? (km / options.speedKmh) * 60 : 0);
+    const stops = visits.map(lead => {
+        const legKm = distanceKm(previous, pointOf(lead));
+        clock += travelMinutes(legKm);
+        const arrival = formatTime(clock);
+        clock += options.visitMinutes;
+        totalKm += legKm;
+        previous = pointOf(lead);
+        return { lead, legKm: roundKm(legKm), arrival };
+    });
+
+    let returnLegKm: number | null = null;
+    if (options.returnToStart) {
+        returnLegKm = distanceKm(previous, start.point);
+        clock += travelMinutes(returnLegKm);
+        totalKm += returnLegKm;
+        returnLegKm = roundKm(returnLegKm);
+    }
+
+    return {
+        start: start.point,
+        startLabel: start.label,
+        stops,
+        returnLegKm,
+        totalKm: roundKm(totalKm),
+        finish: formatTime(clock),
+        skipped: leads.length - located.length,
+    };
+};
+
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+/**
+ * The route's points in driving order, from the start and back to it when returning.
+ * @param {PlannedRoute} route - The route.
+ * @returns {LatLng[]} The points.
+ */
+export const routePath = (route: PlannedRoute): LatLng[] => [
+    route.start,
+    ...route.stops.map(stop => ({ latitude: stop.lead.latitude!, longitude: stop.lead.longitude! })),
+    ...(route.returnLegKm !== null ? [route.start] : []),
+];
+
+/**
+ * Writes the route as GPX 1.1: a waypoint per stop and a route through them, for GPS apps.
+ * @param {PlannedRoute} route - The route.
+ * @returns {string} The GPX document.
+ */
+export const toGpx = (route: PlannedRoute): string => {
+    const point = (tag: string, p: LatLng, name: string, desc?: string) =>
+        `<${tag} lat="${p.latitude}" lon="${p.longitude}"><name>${escapeXml(name)}</name>${desc ? `<desc>${escapeXml(desc)}</desc>` : ''}</${tag}>`;
+    const stopPoint = (tag: string) => (stop: PlannedRoute['stops'][number], i: number) =>
+        point(tag, { latitude: stop.lead.latitude!, longitude: stop.lead.longitude! }, `${i + 1}. ${stop.lead.name}`, stop.lead.address);
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<gpx version="1.1" creator="Lead Finder Pro" xmlns="http://www.topografix.com/GPX/1/1">',
+        `<metadata><name>Field visit route</name><time>${new Date().toISOString()}</time></metadata>`,
+        ...route.stops.map(stopPoint('wpt')),
+        '<rte><name>Field visit route</name>',
+        point('rtept', route.start, `Start: ${route.startLabel}`),
+        ...route.stops.map(stopPoint('rtept')),
+        ...(route.returnLegKm !== null ? [point('rtept', route.start, `Finish: ${route.startLabel}`)] : []),
+        '</rte>',
+        '</gpx>',
+    ].join('\n');
+};
+
+/**
+ * Writes the route as KML: a placemark per stop and a line along the route, for Google Earth and My Maps.
+ * @param {PlannedRoute} route - The route.
+ * @returns {string} The KML document.
+ */
+export const toKml = (route: PlannedRoute): string => {
+    const coordinates = (p: LatLng) => `${p.longitude},${p.latitude},0`;
+    const placemark = (name: string, description: string, p: LatLng) =>
+        `<Placemark><name>${escapeXml(name)}</name><description>${escapeXml(description)}</description><Point><coordinates>${coordinates(p)}</coordinates></Point></Placemark>`;
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">',
+        '<Document><name>Field visit route</name>',
+        placemark(`Start: ${route.startLabel}`, 'Start of the route', route.start),
+        ...route.stops.map((stop, i) => placemark(
+            `${i + 1}. ${stop.lead.name}`,
+            [stop.lead.address, stop.lead.phone, `Arrive about ${stop.arrival}`].filter(Boolean).join('\n'),
+            { latitude: stop.lead.latitude!, longitude: stop.lead.longitude! },
+        )),
+        `<Placemark><name>Route</name><LineString><tessellate>1</tessellate><coordinates>${routePath(route).map(coordinates).join(' ')}</coordinates></LineString></Placemark>`,
+        '</Document>',
+        '</kml>',
+    ].join('\n');
+};
+
+/**
+ * Writes the route as a printable HTML page listing the stops with arrival times and distances.
+ * @param {PlannedRoute} route - The route.
+ * @param {RouteOptions} options - The options the route was planned with, shown in the heading.
+ * @returns {string} The HTML document.
+ */
+export const toItineraryHtml = (route: PlannedRoute, options: RouteOptions): string => {
+    const rows = route.stops.map((stop, i) => `<tr>
+<td>${i + 1}</td><td>${stop.arrival}</td>
+<td><strong>${escapeXml(stop.lead.name)}</strong><br>${escapeXml(stop.lead.address)}</td>
+<td>${escapeXml(stop.lead.phone ?? '')}</td><td class="num">${stop.legKm.toFixed(1)}</td><td class="notes"></td>
+</tr>`).join('\n');
+    return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Field visit itinerary</title>
+<style>
+body { font-family: 'Inter', sans-serif; color: #1F2937; margin: 24px; }
+h1 { font-size: 20px; margin: 0 0 4px; }
+p { margin: 0 0 16px; color: #4B5563; font-size: 13px; }
+table { width: 100%; border-collapse: collapse; font-size: 13px; }
+th, td { border-bottom: 1px solid #D1D5DB; padding: 6px 8px; text-align: left; vertical-align: top; }
+th { background: #F3F4F6; }
+.num { text-align: right; }
+.notes { width: 25%; }
+@media print { body { margin: 0; } tr { page-break-inside: avoid; } }
+</style></head>
+<body>
+<h1>Field visit itinerary</h1>
+<p>Start at ${escapeXml(route.startLabel)} at ${escapeXml(options.startTime)} · ${route.stops.length} stops · ${route.totalKm.toFixed(1)} km in straight lines · about ${options.visitMinutes} min per visit at ${options.speedKmh} km/h · finish about ${route.finish}${route.returnLegKm !== null ? ' back at the start' : ''}</p>
+<table>
+<thead><tr><th>#</th><th>Arrive</th><th>Business</th><th>Phone</th><th class="num">km</th><th>Notes</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+</body></html>`;
+};
+
+/**
+ * Opens the itinerary in a new window and shows the print dialog.
+ * @param {string} html - The itinerary page.
+ * @returns {boolean} False if the browser blocked the window.
+ */
+export const printItinerary = (html: string): boolean => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return false;
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+    return true;
+};
+
+/**
+ * Reads the persisted route options.
+ * @returns {RouteOptions} The options.
+ */
+export const loadRouteOptions = (): RouteOptions => {
+    try {
+        const stored = localStorage.getItem(ROUTE_OPTIONS_STORAGE_KEY);
+        if (stored) return { ...DEFAULT_ROUTE_OPTIONS, ...JSON.parse(stored) };
+    } catch (e) {
+        console.error("Failed to parse route options from localStorage", e);
+    }
+    return DEFAULT_ROUTE_OPTIONS;
+};
+
+/**
+ * Persists the route options.
+ * @param {RouteOptions} options - The options.
+ */
+export const saveRouteOptions = (options: RouteOptions) => {
+    localStorage.setItem(ROUTE_OPTIONS_STORAGE_KEY, JSON.stringify(options));
+};
@@ -0,0 +1,199 @@
+/**
+ * @file scrapeQueue.ts
+ * A job queue for scraping many websites at once.
+ * Jobs run with a configurable concurrency; transient failures are retried with exponential
+ * backoff, and the queue can be paused, resumed, cancelled, and asked to retry whatever failed.
+ */
+
+import { ScrapeJob, ScrapeQueueState, ScrapeQueueStatus, ScrapedData } from '../types';
+
+// Defaults used when the caller doesn't configure the queue.
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 1000;
+// localStorage key under which the chosen concurrency is persisted.
+const CONCURRENCY_STORAGE_KEY = 'leadFinderScrapeConcurrency';
+
+/**
+ * The concurrency levels the user can choose between.
+ */
+export const SCRAPE_CONCURRENCY_OPTIONS = [1, 2, 3, 5, 8];
+
+/**
+ * Options for a scrape queue.
+ */
+export interface ScrapeQueueOptions {
+    scrape: (job: ScrapeJob) => Promise<ScrapedData>; // Performs one scrape.
+    concurrency?: number; // Maximum number of scrapes in flight at once.
+    maxRetries?: number; // How many times a transiently failing job is retried.
+    baseDelayMs?: number; // Delay before the first retry; doubled for each further retry.
+    isTransient?: (error: unknown) => boolean; // Whether a failure is worth retrying.
+    onJobStart?: (job: ScrapeJob) => void; // A job has started (or restarted after a retry wait).
+    onJobSuccess?: (job: ScrapeJob, data: ScrapedData) => void; // A job succeeded.
+    onJobFailure?: (job: ScrapeJob, error: unknown) => void; // A job failed for good.
+    onJobCancelled?: (job: ScrapeJob) => void; // A job waiting to be retried was dropped by `cancel`.
+    onUpdate?: (state: ScrapeQueueState) => void; // The queue's progress changed.
+}
+
+/**
+ * Controls for a running scrape queue.
+ */
+export interface ScrapeQueue {
+    enqueue: (jobs: ScrapeJob[]) => void; // Adds jobs and starts running them.
+    pause: () => void; // Stops starting new jobs; jobs in flight finish.
+    resume: () => void; // Continues after a pause.
+    cancel: () => void; // Drops all jobs that haven't started; jobs in flight finish.
+    retryFailed: () => void; // Re-queues every job that failed.
+    setConcurrency: (concurrency: number) => void; // Changes how many jobs run at once.
+    getState: () => ScrapeQueueState; // Returns the current progress.
+}
+
+/**
+ * By default every failure is retried except an invalid or missing URL, which will never succeed.
+ * @param {unknown} error - The error a scrape failed with.
+ * @returns {boolean} True if the scrape may succeed when retried.
+ */
+export const isTransientScrapeError = (error: unknown): boolean =>
+    !(error instanceof Error && /invalid or missing website url/i.test(error.message));
+
+/**
+ * Creates a scrape queue.
+ * @param {ScrapeQueueOptions} options - The scrape function, limits and callbacks.
+ * @returns {ScrapeQueue} The queue's controls.
+ */
+export const createScrapeQueue = (options: ScrapeQueueOptions): ScrapeQueue => {
+    const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    const isTransient = options.isTransient ?? isTransientScrapeError;
+
+    let concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+    let status: ScrapeQueueStatus = 'running';
+    let pending: { job: ScrapeJob; attempt: number }[] = [];
+    // Jobs sleeping before a retry, keyed by their timer.
+    const retryTimers = new Map<ReturnType<typeof setTimeout>, ScrapeJob>();
+    let failedJobs: ScrapeJob[] = [];
+    let running = 0;
+    let done = 0;
+    let total = 0;
+
+    const getState = (): ScrapeQueueState => ({
+        status,
+        total,
+        done,
+        failed: failedJobs.length,
+        running,
+        retrying: retryTimers.size,
+        remaining: pending.length + retryTimers.size + running,
+        concurrency,
+    });
+
+    const emit = () => options.onUpdate?.(getState());
+
+    // Starts as many pending jobs as the concurrency allows, and notices when the run is over.
+    const pump = () => {
+        while (status === 'running' && running < concurrency && pending.length > 0) {
+            const next = pending.shift()!;
+            void run(next.job, next.attempt);
+        }
+        if (status === 'running' && running === 0 && pending.length === 0 && retryTimers.size === 0) {
+            status = 'finished';
+        }
+        emit();
+    };
+
+    const scheduleRetry = (job: ScrapeJob, attempt: number) => {
+        // Exponential backoff with a little jitter, so retries of many jobs don't all land at once.
+        const delay = baseDelayMs * 2 ** (attempt - 1) * (0.8 + Math.random() * 0.4);
+        const timer = setTimeout(() => {
+            retryTimers.delete(timer);
+            pending.push({ job, attempt });
+            pump();
+        }, delay);
+        retryTimers.set(timer, job);
+    };
+
+    const run = async (job: ScrapeJob, attempt: number) => {
+        running++;
+        options.onJobStart?.(job);
+        try {
+            const data = await options.scrape(job);
+            done++;
+            options.onJobSuccess?.(job, data);
+        } catch (error) {
+            if (attempt < maxRetries && isTransient(error) && status !== 'cancelled') {
+                scheduleRetry(job, attempt + 1);
+            } else {
+                failedJobs.push(job);
+                options.onJobFailure?.(job, error);
+            }
+        } finally {
+            running--;
+            pump();
+        }
+    };
+
+    const enqueue = (jobs: ScrapeJob[]) => {
+        total += jobs.length;
+        pending.push(...jobs.map(job => ({ job, attempt: 0 })));
+        if (status === 'finished' || status === 'cancelled') status = 'running';
+        pump();
+    };
+
+    const pause = () => {
+        if (status !== 'running') return;
+        status = 'paused';
+        emit();
+    };
+
+    const resume = () => {
+        if (status !== 'paused') return;
+        status = 'running';
+        pump();
+    };
+
+    const cancel = () => {
+        if (status === 'finished' || status === 'cancelled') return;
+        status = 'cancelled';
+        retryTimers.forEach((job, timer) => {
+            clearTimeout(timer);
+            options.onJobCancelled?.(job);
+        });
+        retryTimers.clear();
+        // Jobs that never started are simply forgotten; they no longer count towards the run.
+        total -= pending.length;
+        pending = [];
+        emit();
+    };
+
+    const retryFailed = () => {
+        if (failedJobs.length === 0) return;
+        pending.push(...failedJobs.map(job => ({ job, attempt: 0 })));
+        failedJobs = [];
+        if (status !== 'paused') status = 'running';
+        pump();
+    };
+
+    const setConcurrency = (value: number) => {
+        concurrency = Math.max(1, Math.floor(value));
+        pump();
+    };
+
+    return { enqueue, pause, resume, cancel, retryFailed, setConcurrency, getState };
+};
+
+/**
+ * Reads the persisted scrape concurrency, falling back to the default.
+ * @returns {number} The number of scrapes to run at once.
+ */
+export const loadScrapeConcurrency = (): number => {
+    const stored = Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY));
+    return SCRAPE_CONCURRENCY_OPTIONS.includes(stored) ? stored : DEFAULT_CONCURRENCY;
+};
+
+/**
+ * Persists the scrape concurrency.
+ * @param {number} concurrency - The number of scrapes to run at once.
+ */
+export const saveScrapeConcurrency = (concurrency: number) => {
+    localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(concurrency));
+};
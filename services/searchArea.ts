@@ -0,0 +1,128 @@
+/**
+ * @file searchArea.ts
+ * Geometry for search areas drawn on the map: whether a point lies inside a circle or polygon,
+ * the area's centre and extent, and how the area is described to the search provider.
+ * The active area is persisted in localStorage so it survives a reload.
+ */
+
+import { Business, LatLng, SearchArea } from '../types';
+import { distanceKm } from './leadScoring';
+
+// localStorage key under which the search area is persisted.
+const AREA_STORAGE_KEY = 'leadFinderSearchArea';
+
+/**
+ * The radii offered when dropping a pin, in kilometres.
+ */
+export const SEARCH_RADIUS_OPTIONS = [0.5, 1, 2, 5, 10, 25];
+
+/**
+ * Whether a point lies inside a polygon, by casting a ray eastwards and counting edge crossings.
+ * Treats latitude and longitude as planar, which is accurate enough at neighbourhood scale.
+ */
+const isInsidePolygon = (point: LatLng, polygon: LatLng[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const a = polygon[i];
+        const b = polygon[j];
+        const crosses = (a.latitude > point.latitude) !== (b.latitude > point.latitude)
+            && point.longitude < ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+        if (crosses) inside = !inside;
+    }
+    return inside;
+};
+
+/**
+ * Whether a point lies inside a search area.
+ * @param {LatLng} point - The point.
+ * @param {SearchArea} area - The area.
+ * @returns {boolean} True if the point is inside (or on the edge of a circle).
+ */
+export const isInsideArea = (point: LatLng, area: SearchArea): boolean =>
+    area.kind === 'circle'
+        ? distanceKm(area.center, point) <= area.radiusKm
+        : isInsidePolygon(point, area.points);
+
+/**
+ * Whether a lead is known to lie outside the area. Leads without coordinates can't be checked, so they aren't.
+ * @param {Business} lead - The lead.
+ * @param {SearchArea | null} area - The area, if any.
+ * @returns {boolean} True if the lead has coordinates and they are outside the area.
+ */
+export const isOutsideArea = (lead: Business, area: SearchArea | null): boolean =>
+    !!area && lead.latitude != null && lead.longitude != null
+        && !isInsideArea({ latitude: lead.latitude, longitude: lead.longitude }, area);
+
+/**
+ * The centre of an area: a circle's centre, or the middle of a polygon's bounding box.
+ * @param {SearchArea} area - The area.
+ * @returns {LatLng} The centre.
+ */
+export const areaCenter = (area: SearchArea): LatLng => {
+    if (area.kind === 'circle') return area.center;
+    const latitudes = area.points.map(p => p.latitude);
+    const longitudes = area.points.map(p => p.longitude);
+    return {
+        latitude: (Math.min(...latitudes) + Math.max(...latitudes)) / 2,
+        longitude: (Math.min(...longitudes) + Math.max(...longitudes)) / 2,
+    };
+};
+
+/**
+ * The distance from an area's centre to its furthest edge.
+ * @param {SearchArea} area - The area.
+ * @returns {number} The radius in kilometres.
+ */
+export const areaRadiusKm = (area: SearchArea): number => {
+    if (area.kind === 'circle') return area.radiusKm;
+    const center = areaCenter(area);
+    return Math.max(...area.points.map(point => distanceKm(center, point)));
+};
+
+const formatPoint = (point: LatLng): string => `${point.latitude.toFixed(5)}, ${point.longitude.toFixed(5)}`;
+
+/**
+ * A short description of an area for display, e.g. "2 km around 51.50722, -0.12750".
+ * @param {SearchArea} area - The area.
+ * @returns {string} The description.
+ */
+export const summariseArea = (area: SearchArea): string =>
+    area.kind === 'circle'
+        ? `${area.radiusKm < 1 ? `${Math.round(area.radiusKm * 1000)} m` : `${+area.radiusKm.toFixed(1)} km`} around ${formatPoint(area.center)}`
+        : `Drawn area with ${area.points.length} corners, about ${+(areaRadiusKm(area) * 2).toFixed(1)} km across`;
+
+/**
+ * Describes an area for a search prompt, with every coordinate the model needs to respect it.
+ * @param {SearchArea} area - The area.
+ * @returns {string} The description, e.g. "within 2 km of latitude 51.5, longitude -0.12".
+ */
+export const describeAreaForPrompt = (area: SearchArea): string =>
+    area.kind === 'circle'
+        ? `within ${+area.radiusKm.toFixed(2)} km of latitude ${area.center.latitude.toFixed(5)}, longitude ${area.center.longitude.toFixed(5)}`
+        : `inside the polygon with these corners (latitude, longitude): ${area.points.map(p => `(${formatPoint(p)})`).join(', ')}`;
+
+/**
+ * Reads the persisted search area, if there is a valid one.
+ * @returns {SearchArea | null} The area.
+ */
+export const loadSearchArea = (): SearchArea | null => {
+    try {
+        const stored = localStorage.getItem(AREA_STORAGE_KEY);
+        if (stored) {
+            const area = JSON.parse(stored) as SearchArea;
+            if ((area.kind === 'circle' && area.radiusKm > 0) || (area.kind === 'polygon' && area.points.length >= 3)) return area;
+        }
+    } catch (e) {
+        console.error("Failed to parse search area from localStorage", e);
+    }
+    return null;
+};
+
+/**
+ * Persists the search area, or forgets it.
+ * @param {SearchArea | null} area - The area, or null to clear it.
+ */
+export const saveSearchArea = (area: SearchArea | null) => {
+    if (area) localStorage.setItem(AREA_STORAGE_KEY, JSON.stringify(area));
+    else localStorage.removeItem(AREA_STORAGE_KEY);
+};
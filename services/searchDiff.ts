@@ -0,0 +1,86 @@
+/**
+ * @file searchDiff.ts
+ * Compares two runs of a saved search: which businesses are new, which have disappeared, and which
+ * were found both times with a different name, address, phone number, website or rating.
+ * Businesses are matched by their stable ID first, then as near-duplicates, so a slightly reworded
+ * name or address still counts as the same business.
+ */
+
+import { Business, DiffField, LeadFieldChange, SearchDiff } from '../types';
+import { isSameLead, normaliseAddress, normaliseName, normalisePhone, websiteDomain } from './leadMerge';
+
+/**
+ * The compared fields, in display order, with their labels.
+ */
+export const DIFF_FIELDS: { id: DiffField; label: string }[] = [
+    { id: 'name', label: 'Name' },
+    { id: 'address', label: 'Address' },
+    { id: 'phone', label: 'Phone' },
+    { id: 'website', label: 'Website' },
+    { id: 'rating', label: 'Rating' },
+];
+
+/**
+ * A field's value in the form it is compared in, so formatting differences (spacing, "Street" vs
+ * "St", http vs https) don't count as changes.
+ */
+const comparable = (field: DiffField, lead: Business): string => {
+    switch (field) {
+        case 'name': return normaliseName(lead.name);
+        case 'address': return normaliseAddress(lead.address);
+        case 'phone': return normalisePhone(lead.phone);
+        case 'website': return websiteDomain(lead.website);
+        case 'rating': return lead.rating == null ? '' : String(lead.rating);
+    }
+};
+
+const valueOf = (field: DiffField, lead: Business): string | number | undefined => {
+    const value = field === 'rating' ? lead.rating : lead[field];
+    return value === '' || value == null ? undefined : value;
+};
+
+/**
+ * Lists the compared fields that differ between two versions of a business.
+ * @param {Business} before - The business as found by the earlier run.
+ * @param {Business} after - The business as found by the latest run.
+ * @returns {LeadFieldChange[]} The changed fields, in display order.
+ */
+export const changedFields = (before: Business, after: Business): LeadFieldChange[] =>
+    DIFF_FIELDS
+        .filter(({ id }) => comparable(id, before) !== comparable(id, after))
+        .map(({ id }) => ({ field: id, before: valueOf(id, before), after: valueOf(id, after) }));
+
+/**
+ * Compares the results of two runs of a search.
+ * @param {Business[]} previous - The earlier run's results.
+ * @param {Business[]} current - The latest run's results.
+ * @returns {Pick<SearchDiff, 'added' | 'removed' | 'changed' | 'unchanged'>} What is new, gone and changed.
+ */
+export const diffSearchResults = (previous: Business[], current: Business[]): Pick<SearchDiff, 'added' | 'removed' | 'changed' | 'unchanged'> => {
+    const unmatched = new Map(previous.map(lead => [lead.id, lead]));
+    const pairs: [Business, Business][] = [];
+    const added: Business[] = [];
+
+    // Exact ID matches first, so a fuzzy match can't take a business that has one.
+    const rest = current.filter(lead => {
+        const match = unmatched.get(lead.id);
+        if (!match) return true;
+        pairs.push([match, lead]);
+        unmatched.delete(lead.id);
+        return false;
+    });
+    rest.forEach(lead => {
+        const match = Array.from(unmatched.values()).find(candidate => isSameLead(candidate, lead));
+        if (match) {
+            pairs.push([match, lead]);
+            unmatched.delete(match.id);
+        } else {
+            added.push(lead);
+        }
+    });
+
+    const changed = pairs
+        .map(([before, after]) => ({ lead: after, changes: changedFields(before, after) }))
+        .filter(({ changes }) => changes.length > 0);
+    return { added, removed: Array.from(unmatched.values()), changed, unchanged: pairs.length - changed.length };
+};
@@ -0,0 +1,236 @@
+/**
+ * @file websiteAudit.ts
+ * Audits a business's online presence for the things a web or marketing agency could fix: no HTTPS,
+ * no mobile viewport, a missing page title or meta description, broken links, no contact form, no
+ * online booking or ordering, a stale copyright year and no social links.
+ * The homepage and its contact page are fetched through the local page proxy, like the contact
+ * crawler. Every failed check is a talking point for the pitch, and the failed checks' weights add
+ * up to an opportunity score. A business without a website is the biggest opportunity of all.
+ */
+
+import { AuditCheckId, AuditFinding, Business, WebsiteAudit } from '../types';
+import { checkLinkViaProxy, extractPageContacts, FetchedPage, fetchPageViaProxy, LinkChecker, PageFetcher } from './contactCrawler';
+
+// How many same-site links the broken links check follows.
+const MAX_CHECKED_LINKS = 8;
+// A copyright year this many years before the current one makes the site look unmaintained.
+const STALE_COPYRIGHT_YEARS = 2;
+
+/**
+ * The checks in display order, with their labels and how much a failure adds to the opportunity score.
+ */
+export const AUDIT_CHECKS: { id: AuditCheckId; label: string; weight: number }[] = [
+    { id: 'website', label: 'Website', weight: 100 },
+    { id: 'https', label: 'HTTPS', weight: 15 },
+    { id: 'viewport', label: 'Mobile viewport', weight: 15 },
+    { id: 'contactForm', label: 'Contact form', weight: 12 },
+    { id: 'booking', label: 'Booking or ordering', weight: 12 },
+    { id: 'brokenLinks', label: 'Broken links', weight: 10 },
+    { id: 'title', label: 'Page title', weight: 8 },
+    { id: 'copyright', label: 'Copyright year', weight: 8 },
+    { id: 'socialLinks', label: 'Social links', weight: 8 },
+    { id: 'metaDescription', label: 'Meta description', weight: 7 },
+];
+
+// Links, buttons and embeds that let customers book or buy online.
+const BOOKING_TEXT_PATTERN = /\b(book(ing)?|reserv(e|ation)s?|appointments?|schedul(e|ing)|order (online|now)|online order(ing)?|shop|store|cart|checkout|buy now|delivery|takeaway|take-out)\b/i;
+const BOOKING_HOST_PATTERN = /(calendly|acuityscheduling|opentable|resy|sevenrooms|booksy|fresha|vagaro|setmore|simplybook|mindbodyonline|square\.site|squareup|toasttab|doordash|ubereats|grubhub|deliveroo|just-eat|shopify|etsy)\./i;
+// Embedded form services, whose forms don't appear as a <form> on the page itself.
+const FORM_HOST_PATTERN = /(typeform\.com|jotform\.com|formstack\.com|hsforms\.(com|net)|wufoo\.com|docs\.google\.com\/forms|forms\.gle|tally\.so|cognitoforms\.com)/i;
+// "© 2019", "Copyright 2015–2019", "(c) 2020 Acme Ltd"; the last year of a range counts.
+const COPYRIGHT_PATTERN = /(?:©|\(c\)|copyright)[^\d\n]{0,40}?((?:19|20)\d{2})(?:\s*[-–—]\s*((?:19|20)\d{2}))?/gi;
+// Titles that say nothing about the business.
+const PLACEHOLDER_TITLE_PATTERN = /^(home|homepage|index|untitled|welcome|new page)$/i;
+
+const hostOf = (url: string): string => new URL(url).hostname.replace(/^www\./, '');
+
+/**
+ * Reads the content of a <meta name="…"> tag, whatever the case of its name.
+ */
+const metaContent = (doc: Document, name: string): string => {
+    const meta = Array.from(doc.querySelectorAll('meta[name]')).find(element => element.getAttribute('name')!.trim().toLowerCase() === name);
+    return meta?.getAttribute('content')?.trim() ?? '';
+};
+
+/**
+ * Whether a page has a contact form: a form with a message box or email field, or an embedded form service.
+ */
+const hasContactForm = (doc: Document): boolean =>
+    doc.querySelector('form textarea, form input[type="email" i]') !== null
+    || Array.from(doc.querySelectorAll('iframe[src], script[src]')).some(element => FORM_HOST_PATTERN.test(element.getAttribute('src')!));
+
+/**
+ * Whether a page offers online booking or ordering, through its links, buttons or embedded widgets.
+ */
+const hasBooking = (doc: Document): boolean =>
+    Array.from(doc.querySelectorAll('a, button, input[type="submit" i]')).some(element =>
+        BOOKING_TEXT_PATTERN.test(`${element.textContent ?? ''} ${element.getAttribute('value') ?? ''} ${element.getAttribute('aria-label') ?? ''}`)
+        || BOOKING_HOST_PATTERN.test(element.getAttribute('href') ?? '')
+    )
+    || Array.from(doc.querySelectorAll('iframe[src], script[src]')).some(element => BOOKING_HOST_PATTERN.test(element.getAttribute('src')!));
+
+/**
+ * The latest copyright year in a page's visible text, or null if it shows none.
+ */
+const latestCopyrightYear = (doc: Document): number | null => {
+    const body = doc.body?.cloneNode(true) as HTMLElement | undefined;
+    if (!body) return null;
+    body.querySelectorAll('script, style, noscript').forEach(element => element.remove());
+    const years = Array.from((body.textContent ?? '').matchAll(COPYRIGHT_PATTERN), match => Number(match[2] ?? match[1]));
+    return years.length > 0 ? Math.max(...years) : null;
+};
+
+/**
+ * The same-site pages a page links to, without fragments or the page itself, in page order.
+ */
+const sameSiteLinks = (doc: Document, page: FetchedPage): string[] => {
+    const host = hostOf(page.url);
+    const links = new Set<string>();
+    doc.querySelectorAll('a[href]').forEach(anchor => {
+        try {
+            const url = new URL(anchor.getAttribute('href')!.trim(), page.url);
+            url.hash = '';
+            if (/^https?:$/.test(url.protocol) && hostOf(url.href) === host && url.href !== page.url) links.add(url.href);
+        } catch {
+            // Malformed links aren't pages to check.
+        }
+    });
+    return Array.from(links);
+};
+
+/**
+ * Scores findings: the share of the checks' weight that failed, 0–100.
+ */
+const opportunityScore = (findings: AuditFinding[]): number => {
+    const weightOf = (check: AuditCheckId) => AUDIT_CHECKS.find(c => c.id === check)!.weight;
+    const total = findings.reduce((sum, finding) => sum + weightOf(finding.check), 0);
+    const failed = findings.filter(finding => !finding.passed).reduce((sum, finding) => sum + weightOf(finding.check), 0);
+    return total > 0 ? Math.round((failed / total) * 100) : 0;
+};
+
+/**
+ * Audits a website's homepage and contact page.
+ * @param {string} websiteUrl - The website's homepage.
+ * @param {PageFetcher} [fetchPage] - Fetches a page; defaults to the local page proxy.
+ * @param {LinkChecker} [checkLink] - Checks a link; defaults to the local page proxy.
+ * @returns {Promise<WebsiteAudit>} The findings and opportunity score.
+ * @throws {Error} If the homepage can't be fetched. A contact page that fails is skipped.
+ */
+export const auditWebsite = async (
+    websiteUrl: string,
+    fetchPage: PageFetcher = fetchPageViaProxy,
+    checkLink: LinkChecker = checkLinkViaProxy,
+): Promise<WebsiteAudit> => {
+    const homepage = await fetchPage(websiteUrl);
+    const parser = new DOMParser();
+    const homeDoc = parser.parseFromString(homepage.html, 'text/html');
+    const homeContacts = extractPageContacts(homepage.html, homepage.url);
+    // The contact page is where a contact form usually is; booking pages are often linked from it too.
+    const contactUrl = homeContacts.links.find(url => url !== homepage.url);
+    const contactPage = contactUrl ? await fetchPage(contactUrl).catch(() => null) : null;
+    const docs = contactPage ? [homeDoc, parser.parseFromString(contactPage.html, 'text/html')] : [homeDoc];
+    const socials = contactPage ? [...homeContacts.socials, ...extractPageContacts(contactPage.html, contactPage.url).socials] : homeContacts.socials;
+
+    const socialNetworks = new Set(socials.map(hostOf)).size;
+
+    const links = sameSiteLinks(homeDoc, homepage).slice(0, MAX_CHECKED_LINKS);
+    const linkResults = await Promise.all(links.map(link => checkLink(link)));
+    const brokenCount = linkResults.filter(ok => !ok).length;
+
+    const secure = new URL(homepage.url).protocol === 'https:';
+    const mobile = /width\s*=\s*device-width/i.test(metaContent(homeDoc, 'viewport'));
+    const contactForm = docs.some(hasContactForm);
+    const booking = docs.some(hasBooking);
+    const title = homeDoc.title.trim();
+    const description = metaContent(homeDoc, 'description');
+    const copyrightYear = latestCopyrightYear(homeDoc);
+    const currentYear = new Date().getFullYear();
+    const staleCopyright = copyrightYear !== null && copyrightYear <= currentYear - STALE_COPYRIGHT_YEARS;
+
+    const findings: AuditFinding[] = [
+        {
+            check: 'https',
+            passed: secure,
+            detail: secure ? 'Served over HTTPS.' : "The site isn't served over HTTPS, so browsers mark it as not secure.",
+        },
+        {
+            check: 'viewport',
+            passed: mobile,
+            detail: mobile ? 'Scales to fit phones.' : 'The site has no mobile viewport, so phones show a shrunken desktop page.',
+        },
+        {
+            check: 'contactForm',
+            passed: contactForm,
+            detail: contactForm
+                ? 'Has a contact form.'
+                : 'There is no contact form, so visitors have to call or email to get in touch.',
+        },
+        {
+            check: 'booking',
+            passed: booking,
+            detail: booking
+                ? 'Offers online booking or ordering.'
+                : "There is no online booking or ordering, so customers can't book or buy outside opening hours.",
+        },
+        {
+            check: 'brokenLinks',
+            passed: brokenCount === 0,
+            detail: brokenCount > 0
+                ? `${brokenCount} of ${links.length} links checked on the homepage ${brokenCount === 1 ? 'is' : 'are'} broken.`
+                : links.length > 0 ? `All ${links.length} links checked work.` : 'No links to other pages to check.',
+        },
+        {
+            check: 'title',
+            passed: title !== '' && !PLACEHOLDER_TITLE_PATTERN.test(title),
+            detail: title === ''
+                ? 'The homepage has no title, which hurts search rankings.'
+                : PLACEHOLDER_TITLE_PATTERN.test(title)
+                    ? `The homepage title is just "${title}", which hurts search rankings.`
+                    : `Titled "${title}".`,
+        },
+        {
+            check: 'copyright',
+            passed: !staleCopyright,
+            detail: staleCopyright
+                ? `The copyright notice still says ${copyrightYear}, so the site looks unmaintained.`
+                : copyrightYear !== null ? `Copyright ${copyrightYear}.` : 'No copyright year shown.',
+        },
+        {
+            check: 'socialLinks',
+            passed: socialNetworks > 0,
+            detail: socialNetworks > 0
+                ? `Links to ${socialNetworks} social ${socialNetworks === 1 ? 'network' : 'networks'}.`
+                : "The site doesn't link to any social media profiles.",
+        },
+        {
+            check: 'metaDescription',
+            passed: description !== '',
+            detail: description !== ''
+                ? 'Has a meta description.'
+                : 'The homepage has no meta description, so search engines pick their own snippet.',
+        },
+    ];
+    return { auditedAt: Date.now(), url: homepage.url, opportunity: opportunityScore(findings), findings };
+};
+
+/**
+ * A lead's audit. A lead without a website needs no fetching: it is always the top opportunity.
+ * @param {Business} lead - The lead.
+ * @returns {WebsiteAudit | undefined} The audit, or undefined if the lead's website hasn't been audited.
+ */
+export const auditOf = (lead: Business): WebsiteAudit | undefined => {
+    if (lead.website) return lead.audit;
+    return {
+        auditedAt: 0,
+        opportunity: 100,
+        findings: [{ check: 'website', passed: false, detail: 'The business has no website, so customers searching online only find its competitors.' }],
+    };
+};
+
+/**
+ * The pitch talking points for a lead: what each failed check found.
+ * @param {Business} lead - The lead.
+ * @returns {string[]} The talking points, most valuable first; empty if the lead hasn't been audited.
+ */
+export const auditTalkingPoints = (lead: Business): string[] =>
+    (auditOf(lead)?.findings ?? []).filter(finding => !finding.passed).map(finding => finding.detail);
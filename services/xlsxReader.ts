@@ -0,0 +1,134 @@
+/**
+ * @file xlsxReader.ts
+ * Reads the first sheet of an Excel workbook (.xlsx) into rows of text, without any dependencies.
+ * The zip archive is read by hand; compressed parts are inflated with the browser's DecompressionStream.
+ */
+
+// Zip compression methods.
+const STORED = 0;
+const DEFLATED = 8;
+
+/**
+ * An entry in a zip archive's central directory.
+ */
+interface ZipEntry {
+    method: number; // Compression method.
+    compressedSize: number;
+    localHeaderOffset: number; // Where the entry's local file header starts.
+}
+
+/**
+ * Lists the files in a zip archive by reading its central directory.
+ */
+const readZipEntries = (view: DataView): Map<string, ZipEntry> => {
+    // The end of central directory record is at least 22 bytes from the end, followed by an optional comment.
+    let end = view.byteLength - 22;
+    while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+    if (end < 0) throw new Error('The file is not a valid .xlsx workbook.');
+
+    const decoder = new TextDecoder();
+    const entries = new Map<string, ZipEntry>();
+    const count = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    for (let i = 0; i < count; i++) {
+        if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('The .xlsx workbook is damaged.');
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const name = decoder.decode(new Uint8Array(view.buffer, view.byteOffset + offset + 46, nameLength));
+        entries.set(name, {
+            method: view.getUint16(offset + 10, true),
+            compressedSize: view.getUint32(offset + 20, true),
+            localHeaderOffset: view.getUint32(offset + 42, true),
+        });
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+    return entries;
+};
+
+/**
+ * Extracts one file from a zip archive as text, or returns null if it isn't there.
+ */
+const readZipText = async (view: DataView, entries: Map<string, ZipEntry>, name: string): Promise<string | null> => {
+    const entry = entries.get(name);
+    if (!entry) return null;
+    const header = entry.localHeaderOffset;
+    const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const data = new Uint8Array(view.buffer, view.byteOffset + start, entry.compressedSize);
+    if (entry.method === STORED) return new TextDecoder().decode(data);
+    if (entry.method !== DEFLATED) throw new Error(`Unsupported compression in ${name}.`);
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Response(stream).text();
+};
+
+const parseXml = (text: string): Document => new DOMParser().parseFromString(text, 'application/xml');
+
+// Element lookups ignore namespaces, since some writers prefix the spreadsheet namespace.
+const elements = (parent: Document | Element, localName: string): Element[] =>
+    Array.from(parent.getElementsByTagNameNS('*', localName));
+
+/**
+ * The text of a shared or inline string, joining rich text runs and skipping phonetic guides.
+ */
+const stringText = (item: Element): string =>
+    elements(item, 't').filter(t => !t.parentElement || t.parentElement.localName !== 'rPh').map(t => t.textContent ?? '').join('');
+
+/**
+ * Converts a cell reference's column letters to a zero-based index ("B7" → 1).
+ */
+const columnIndex = (ref: string): number => {
+    const letters = /^[A-Z]+/i.exec(ref)?.[0].toUpperCase() ?? '';
+    return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * Finds the path of the workbook's first sheet.
+ */
+const firstSheetPath = async (view: DataView, entries: Map<string, ZipEntry>): Promise<string> => {
+    const fallback = 'xl/worksheets/sheet1.xml';
+    const workbook = await readZipText(view, entries, 'xl/workbook.xml');
+    const rels = await readZipText(view, entries, 'xl/_rels/workbook.xml.rels');
+    if (!workbook || !rels) return fallback;
+    const sheet = elements(parseXml(workbook), 'sheet')[0];
+    const relId = sheet?.getAttribute('r:id') ?? sheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+    const target = elements(parseXml(rels), 'Relationship').find(rel => rel.getAttribute('Id') === relId)?.getAttribute('Target');
+    if (!target) return fallback;
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+/**
+ * Reads the first sheet of a workbook. Every cell is returned as text; gaps become empty strings.
+ * @param {ArrayBuffer} data - The .xlsx file contents.
+ * @returns {Promise<string[][]>} The sheet's rows.
+ */
+export const readXlsx = async (data: ArrayBuffer): Promise<string[][]> => {
+    const view = new DataView(data);
+    const entries = readZipEntries(view);
+    const sharedText = await readZipText(view, entries, 'xl/sharedStrings.xml');
+    const shared = sharedText ? elements(parseXml(sharedText), 'si').map(stringText) : [];
+    const sheetText = await readZipText(view, entries, await firstSheetPath(view, entries));
+    if (!sheetText) throw new Error('The workbook has no worksheet.');
+
+    return elements(parseXml(sheetText), 'row').map(row => {
+        const values: string[] = [];
+        elements(row, 'c').forEach((cell, position) => {
+            const ref = cell.getAttribute('r');
+            const index = ref ? columnIndex(ref) : position;
+            const raw = elements(cell, 'v')[0]?.textContent ?? '';
+            switch (cell.getAttribute('t')) {
+                case 's':
+                    values[index] = shared[Number(raw)] ?? '';
+                    break;
+                case 'inlineStr':
+                    values[index] = elements(cell, 'is')[0] ? stringText(elements(cell, 'is')[0]) : '';
+                    break;
+                case 'b':
+                    values[index] = raw === '1' ? 'TRUE' : 'FALSE';
+                    break;
+                default:
+                    values[index] = raw;
+            }
+        });
+        return Array.from(values, value => value ?? '');
+    });
+};
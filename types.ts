@@ -13,7 +13,8 @@ export interface Business {
   name: string; // Name of the business
   address: string; // Full physical address
   type: string; // Business category or type (e.g., "Restaurant", "Plumber")
-  phone?: string; // Contact phone number
+  phone?: string; // Contact phone number, in E.164 format (e.g. "+13105551234") when it could be parsed
+  phoneType?: PhoneType; // Whether the phone number is a mobile, landline or toll-free number
   rating?: number; // Star rating (e.g., 4.5)
   reviews?: number; // Number of reviews
   website?: string; // Official website URL
@@ -22,6 +23,26 @@ export interface Business {
   scrapedData?: ScrapedData; // Contact info scraped from the website
   isScraping?: boolean; // Flag to indicate if scraping is in progress for this lead
   scrapeError?: string; // Stores an error message if scraping fails
+  audit?: WebsiteAudit; // What the website audit found to improve
+  isAuditing?: boolean; // Flag to indicate if the website audit is in progress for this lead
+  auditError?: string; // Stores an error message if the audit fails
+  stage?: PipelineStage; // Where the lead is in the sales process; treated as 'new' when unset
+  notes?: LeadNote[]; // Free-form notes, oldest first
+  tags?: string[]; // User-defined tags, e.g. "hot", "needs-website"
+}
+
+/**
+ * The stages of the sales pipeline a lead moves through.
+ */
+export type PipelineStage = 'new' | 'contacted' | 'replied' | 'qualified' | 'won' | 'lost';
+
+/**
+ * A timestamped note attached to a lead.
+ */
+export interface LeadNote {
+  id: string; // Unique identifier for the note
+  text: string; // The note's content
+  createdAt: number; // When the note was written
 }
 
 /**
@@ -31,6 +52,71 @@ export interface ScrapedData {
   emails: string[]; // Array of found email addresses
   phones: string[]; // Array of found phone numbers
   socials: string[]; // Array of found social media profile URLs
+  sources?: Record<string, string>; // The page each email, phone or social link was found on, keyed by the item; items without one were suggested by AI
+  verifications?: Record<string, EmailVerification>; // Deliverability checks for each email, keyed by the email
+  phoneTypes?: Record<string, PhoneType>; // The type of each phone number, keyed by the number
+  cachedAt?: number; // Set when the result came from the response cache: when the website was actually scraped
+}
+
+/**
+ * The checks a website audit runs. 'website' is whether the business has a website at all.
+ */
+export type AuditCheckId =
+  | 'website' | 'https' | 'viewport' | 'title' | 'metaDescription' | 'brokenLinks'
+  | 'contactForm' | 'booking' | 'copyright' | 'socialLinks';
+
+/**
+ * The outcome of one audit check.
+ */
+export interface AuditFinding {
+  check: AuditCheckId;
+  passed: boolean; // False when the check found something to fix, i.e. something to pitch
+  detail: string; // What was found, e.g. "2 of 8 links are broken"
+}
+
+/**
+ * The result of auditing a business's website for things a web or marketing agency could fix.
+ */
+export interface WebsiteAudit {
+  auditedAt: number; // When the audit ran
+  url?: string; // The homepage audited, after redirects; unset for a business without a website
+  opportunity: number; // 0–100: how much there is to fix, 100 for a business without a website
+  findings: AuditFinding[]; // Every check run, in display order
+}
+
+/**
+ * The kind of line a phone number belongs to, where the numbering plan tells us.
+ */
+export type PhoneType = 'mobile' | 'landline' | 'toll-free' | 'unknown';
+
+/**
+ * How likely an email address is to be delivered.
+ */
+export type EmailStatus = 'valid' | 'risky' | 'invalid' | 'unknown';
+
+/**
+ * The result of checking a scraped email address.
+ */
+export interface EmailVerification {
+  status: EmailStatus; // Overall verdict
+  score: number; // Confidence that the address is deliverable and reaches the business, 0–100
+  syntaxValid: boolean; // Whether the address is well-formed
+  domainMatch: boolean; // Whether the address is on the business website's domain
+  roleBased: boolean; // Whether it's a shared role mailbox such as info@ or sales@
+  disposable: boolean; // Whether the domain is a throwaway email service
+  hasMx: boolean | null; // Whether the domain has MX records; null if the lookup failed
+  reasons: string[]; // Human-readable explanations of anything that lowered the score
+}
+
+/**
+ * Looks up DNS records. Pluggable so email verification can run offline.
+ */
+export interface DnsResolver {
+  /**
+   * Returns the mail exchangers for a domain; an empty array means the domain has none.
+   * Rejects if the lookup itself failed.
+   */
+  resolveMx: (domain: string) => Promise<string[]>;
 }
 
 /**
@@ -41,6 +127,13 @@ export interface LatLng {
   longitude: number;
 }
 
+/**
+ * An area drawn on the map that searches are limited to: a circle (drawn, or a pin with a radius) or a polygon.
+ */
+export type SearchArea =
+  | { kind: 'circle'; center: LatLng; radiusKm: number }
+  | { kind: 'polygon'; points: LatLng[] }; // Vertices in drawing order; the last joins back to the first
+
 /**
  * Represents an item in the user's search history.
  */
@@ -49,4 +142,412 @@ export interface SearchHistoryItem {
   query: string; // The search query string used
   timestamp: number; // The time the search was performed
   resultCount: number; // The number of results found for the query
+  hasSnapshot?: boolean; // True if the results were kept, so the entry can be reopened without searching again
+}
+
+/**
+ * The results of a past search as they were last shown, so its history entry can be reopened.
+ */
+export interface SearchSnapshot {
+  id: string; // The history entry's ID
+  leads: Business[]; // The results, including coordinates and scraped data
+  savedAt: number; // When the snapshot was last updated
+}
+
+/**
+ * A search kept for re-running, e.g. to check a niche every month, with the results of its last run
+ * to compare the next run against.
+ */
+export interface SavedSearch {
+  id: string; // Unique identifier for the saved search
+  name: string; // Display name; the query unless renamed
+  query: string; // The search query string
+  area: SearchArea | null; // The map area the search is limited to, if any
+  targetCount: number; // Number of leads each run collects
+  createdAt: number; // When the search was saved
+  lastRunAt: number; // When `leads` were found
+  leads: Business[]; // Results of the last run
+  lastChanges?: { added: number; removed: number; changed: number }; // What the last re-run found had changed
+}
+
+/**
+ * The lead fields compared between two runs of a saved search.
+ */
+export type DiffField = 'name' | 'address' | 'phone' | 'website' | 'rating';
+
+/**
+ * A field whose value differs between two runs of a saved search.
+ */
+export interface LeadFieldChange {
+  field: DiffField;
+  before?: string | number; // The value in the earlier run; unset if it had none
+  after?: string | number; // The value in the latest run; unset if it has none
+}
+
+/**
+ * What changed between two runs of a saved search.
+ */
+export interface SearchDiff {
+  searchName: string; // The saved search's name
+  previousRunAt: number; // When the earlier run was made
+  added: Business[]; // Businesses found now but not before
+  removed: Business[]; // Businesses found before but not now
+  changed: { lead: Business; changes: LeadFieldChange[] }[]; // Businesses found both times with different details
+  unchanged: number; // How many businesses were found both times with the same details
+}
+
+/**
+ * Represents the progress of a multi-round, target-count search.
+ */
+export interface SearchProgress {
+  found: number; // Unique leads collected so far
+  target: number; // The number of leads the user asked for
+  round: number; // How many search requests have been issued
+}
+
+/**
+ * Identifies one of the available lead data backends.
+ */
+export type LeadProviderId = 'gemini' | 'mock';
+
+/**
+ * A backend that can find leads, scrape their websites, geocode their addresses and write outreach opening lines.
+ * The Gemini API is one implementation; an offline fixture-backed mock is another.
+ */
+export interface LeadProvider {
+  id: LeadProviderId; // Identifier used to select the provider at runtime
+  searchLeads: (query: string, location: LatLng | null, excludeNames?: string[], area?: SearchArea | null) => Promise<SearchResponse>; // Finds businesses matching the query, skipping any already-found names and keeping to the area if one is given
+  scrapeContacts: (websiteUrl: string) => Promise<ScrapedData>; // Extracts contact details from a website
+  geocodeAddresses: (businesses: { id: string, address: string }[]) => Promise<Map<string, LatLng>>; // Resolves addresses to coordinates, keyed by business ID
+  writeOpeningLines: (leads: Business[], brief: string) => Promise<Map<string, string>>; // Writes a personalised first sentence for an outreach email to each lead, keyed by business ID
+}
+
+/**
+ * Identifies a geocoding backend: the selected lead provider's own geocoder, or a Nominatim server.
+ */
+export type GeocoderId = 'provider' | 'nominatim';
+
+/**
+ * Resolves business addresses to coordinates.
+ */
+export interface Geocoder {
+  geocodeAddresses: (businesses: { id: string, address: string }[]) => Promise<Map<string, LatLng>>; // Resolves addresses to coordinates, keyed by business ID
+}
+
+/**
+ * Explains why an entry in a search response was dropped or only partly used.
+ */
+export interface LeadIssue {
+  index: number; // Position of the entry within its response
+  round?: number; // Which search request the entry came from, for multi-request searches
+  name?: string; // The entry's business name, if it had one
+  severity: 'rejected' | 'partial'; // Rejected entries were dropped; partial ones were kept without the listed fields
+  reasons: string[]; // Human-readable reasons, e.g. "missing address"
+}
+
+/**
+ * Describes how one or more search responses were parsed and what was discarded along the way.
+ */
+export interface SearchDiagnostics {
+  responses: number; // Number of search responses parsed
+  markdownFallbacks: number; // Responses without valid structured JSON that were parsed as markdown instead
+  received: number; // Entries found in the responses
+  accepted: number; // Entries that became leads
+  duplicates: number; // Accepted entries dropped because the business had already been found
+  outsideArea: number; // Accepted entries dropped because they lie outside the search area
+  issues: LeadIssue[]; // Rejected and partial entries, with reasons
+  cachedResponses: number; // Responses answered from the response cache instead of the API
+  fileName?: string; // Set when the leads were imported from a file rather than searched for
+}
+
+/**
+ * The result of a single search request: the parsed leads and how they were obtained.
+ */
+export interface SearchResponse {
+  leads: Business[];
+  diagnostics: SearchDiagnostics;
+}
+
+/**
+ * Represents a named list (folder) of saved leads in the local lead database.
+ */
+export interface LeadList {
+  id: string; // Unique identifier for the list
+  name: string; // User-chosen name, e.g. "Plumbers - Q3 outreach"
+  leadIds: string[]; // Stable IDs of the leads in this list, in the order they were added
+  createdAt: number; // When the list was created
+  updatedAt: number; // When leads were last added or removed
+}
+
+/**
+ * A website scrape waiting in, or running through, the scrape queue.
+ */
+export interface ScrapeJob {
+  leadId: string; // The lead whose website is scraped
+  websiteUrl: string; // The website to scrape
+}
+
+/**
+ * The lifecycle of a scrape queue run.
+ */
+export type ScrapeQueueStatus = 'running' | 'paused' | 'cancelled' | 'finished';
+
+/**
+ * A snapshot of the scrape queue's progress, for display.
+ */
+export interface ScrapeQueueState {
+  status: ScrapeQueueStatus;
+  total: number; // Jobs enqueued in this run
+  done: number; // Jobs that succeeded
+  failed: number; // Jobs that failed after all retries
+  running: number; // Jobs currently in flight
+  retrying: number; // Jobs waiting to be retried after a transient failure
+  remaining: number; // Jobs not yet finished, including running and retrying ones
+  concurrency: number; // Maximum number of jobs run at once
+}
+
+/**
+ * The kinds of response kept in the response cache.
+ */
+export type CacheKind = 'scrape' | 'search';
+
+/**
+ * A provider response kept so the same request isn't sent to the API again.
+ */
+export interface CachedResponse {
+  key: string; // The kind, provider and normalised request, e.g. "scrape|gemini|example.com"
+  kind: CacheKind; // What the response answers
+  provider: LeadProviderId; // The backend that gave the response
+  label: string; // The website domain or search query, for display
+  detail?: string; // What else the request depended on, e.g. the location, for display
+  cachedAt: number; // When the response was received
+  hits: number; // How many times the response has been reused since
+  scrape?: ScrapedData; // The contacts found, for scrape entries
+  search?: SearchResponse; // The leads found, for search entries
+}
+
+/**
+ * How long cached responses are reused for. Zero turns the cache off for that kind.
+ */
+export interface CacheSettings {
+  scrapeTtlDays: number; // Days a website's scraped contacts are reused for
+  searchTtlDays: number; // Days a search's results are reused for
+}
+
+/**
+ * The kinds of API call the app makes.
+ */
+export type ApiOperation = 'search' | 'scrape' | 'geocode' | 'outreach';
+
+/**
+ * One recorded API call and the tokens it used.
+ */
+export interface ApiUsageRecord {
+  id: string; // Unique identifier for the record
+  timestamp: number; // When the call completed
+  provider: LeadProviderId; // The backend that made the call
+  model: string; // The model that answered
+  operation: ApiOperation; // What the call was for
+  promptTokens: number; // Input tokens, including tool-use prompts
+  responseTokens: number; // Output tokens, including thinking
+  sessionId?: string; // The search or import the call was made for
+  sessionLabel?: string; // A readable name for that session, e.g. the search query
+}
+
+/**
+ * A model's prices, in US dollars, used to estimate the cost of recorded calls.
+ */
+export interface ModelPrice {
+  model: string; // The model name; also matches versioned names that start with it
+  inputPerMillion: number; // Price per million input tokens
+  outputPerMillion: number; // Price per million output tokens
+  groundingPerThousand: number; // Price per thousand searches grounded with Google Maps
+}
+
+/**
+ * Spending limits on the estimated API cost, in US dollars. Unset limits don't apply.
+ * Reaching a soft limit shows a warning; reaching a hard limit pauses scraping and blocks searches.
+ */
+export interface BudgetSettings {
+  dailySoft: number | null; // Warning limit for today
+  dailyHard: number | null; // Blocking limit for today
+  monthlySoft: number | null; // Warning limit for this calendar month
+  monthlyHard: number | null; // Blocking limit for this calendar month
+}
+
+/**
+ * The lead details an outreach email template can merge in.
+ */
+export type OutreachField = 'name' | 'type' | 'city' | 'rating' | 'reviews' | 'website' | 'phone' | 'address' | 'email' | 'opening';
+
+/**
+ * A reusable outreach email. The subject and body may contain merge fields such as {{name}},
+ * optionally with a fallback for leads without the value, such as {{city|your area}}.
+ */
+export interface OutreachTemplate {
+  id: string; // Unique identifier for the template
+  name: string; // User-chosen name, e.g. "Website redesign pitch"
+  subject: string; // Subject line, with merge fields
+  body: string; // Plain-text body, with merge fields
+  brief: string; // What the sender offers and to whom, given to the AI writing the {{opening}} lines
+}
+
+/**
+ * An outreach email written for one lead.
+ */
+export interface OutreachEmail {
+  leadId: string; // The lead the email is for
+  leadName: string; // The lead's business name
+  to: string; // The lead's best email address; empty if none was found
+  subject: string; // The subject with the merge fields filled in
+  body: string; // The body with the merge fields filled in
+}
+
+/**
+ * The rules the lead scoring engine can apply.
+ */
+export type ScoringRuleId = 'rating' | 'reviews' | 'website' | 'verifiedEmails' | 'distance' | 'category';
+
+/**
+ * Whether a scoring rule is used and how much it counts.
+ */
+export interface ScoringRule {
+  enabled: boolean;
+  weight: number; // Relative importance, 0–10
+}
+
+/**
+ * User-editable settings for lead scoring.
+ */
+export interface ScoringConfig {
+  rules: Record<ScoringRuleId, ScoringRule>;
+  minRating: number; // Ratings at or below this score nothing; 5 stars scores full points
+  reviewTarget: number; // Review count that earns full points
+  websitePreference: 'has' | 'lacks'; // Whether leads with or without a website are preferred
+  emailTarget: number; // Number of valid emails that earns full points
+  maxDistanceKm: number; // Leads this far away or further score nothing for distance
+  categoryKeywords: string[]; // Leads whose category or name contains one of these match
+}
+
+/**
+ * A lead's score and how each rule contributed to it.
+ */
+export interface LeadScore {
+  score: number; // 0–100
+  breakdown: { rule: ScoringRuleId; label: string; points: number; max: number }[];
+}
+
+/**
+ * The orders the results list can be sorted in.
+ */
+export type LeadSortOrder = 'found' | 'score' | 'opportunity' | 'rating' | 'reviews' | 'distance' | 'name';
+
+/**
+ * The filters and sort order applied to the current results. Unset filters don't restrict anything.
+ */
+export interface LeadFilters {
+  categories: string[]; // Only leads whose category is one of these; empty allows every category
+  minRating: number | null;
+  minReviews: number | null;
+  maxReviews: number | null;
+  website: 'any' | 'yes' | 'no'; // Whether the lead has a website
+  email: 'any' | 'yes' | 'no'; // Whether scraping found at least one email
+  scrapeStatus: 'any' | 'scraped' | 'failed' | 'pending'; // Scraped successfully, failed, or not scraped yet
+  maxDistanceKm: number | null; // Maximum distance from the user's location
+  sort: LeadSortOrder;
+}
+
+/**
+ * The file formats leads can be exported in.
+ */
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'vcard' | 'geojson' | 'kml';
+
+/**
+ * The columns available for export.
+ */
+export type ExportColumnId =
+  | 'name' | 'address' | 'category' | 'phone' | 'phoneType' | 'rating' | 'reviews' | 'website' | 'domain'
+  | 'emails' | 'emailStatus' | 'primaryEmail' | 'scrapedPhones' | 'socials' | 'latitude' | 'longitude'
+  | 'score' | 'opportunity' | 'talkingPoints' | 'stage' | 'tags' | 'notes' | 'leadSource';
+
+/**
+ * A column in an export, with the heading it is written under.
+ */
+export interface ExportField {
+  column: ExportColumnId;
+  header: string; // The column heading, e.g. a CRM's field name
+  enabled: boolean; // Whether the column is included
+}
+
+/**
+ * The options chosen in the export dialog.
+ */
+export interface ExportSettings {
+  format: ExportFormat;
+  preset: 'custom' | 'hubspot' | 'salesforce' | 'pipedrive'; // The import template the columns came from
+  fields: ExportField[]; // Every column, in export order
+  emailMode: 'joined' | 'perEmail'; // All emails in one cell, or one row per email
+  scope: 'all' | 'filtered' | 'selected'; // Which of the current results to export
+}
+
+/**
+ * The lead fields an imported file's columns can be mapped to.
+ */
+export type ImportFieldId = 'name' | 'address' | 'category' | 'phone' | 'website' | 'rating' | 'reviews' | 'latitude' | 'longitude' | 'notes' | 'tags';
+
+/**
+ * Which column of an imported file fills each lead field, by column index. Unmapped fields are left out.
+ */
+export type ImportColumnMapping = Partial<Record<ImportFieldId, number>>;
+
+/**
+ * What the colour of each map marker shows.
+ */
+export type MarkerColourMode = 'category' | 'score' | 'stage';
+
+/**
+ * How leads are displayed on the map.
+ */
+export interface MapDisplaySettings {
+  colourBy: MarkerColourMode;
+  cluster: boolean; // Group nearby markers into count bubbles
+  heatmap: boolean; // Show a density heatmap under the markers
+}
+
+/**
+ * Where a planned route starts: the user's location, the centre of the search area, or the first selected lead.
+ */
+export type RouteStart = 'location' | 'area' | 'firstLead';
+
+/**
+ * Options for planning a field-visit route.
+ */
+export interface RouteOptions {
+  start: RouteStart;
+  returnToStart: boolean; // Finish back at the start point
+  startTime: string; // Departure time, "HH:MM"
+  visitMinutes: number; // Time spent at each stop
+  speedKmh: number; // Average travel speed, used for arrival estimates
+}
+
+/**
+ * A stop on a planned route.
+ */
+export interface RouteStop {
+  lead: Business;
+  legKm: number; // Straight-line distance from the previous stop, or from the start
+  arrival: string; // Estimated arrival time, "HH:MM"
+}
+
+/**
+ * A field-visit route through the selected leads, in visiting order.
+ */
+export interface PlannedRoute {
+  start: LatLng;
+  startLabel: string; // e.g. "Your location"
+  stops: RouteStop[];
+  returnLegKm: number | null; // Distance back to the start, if the route returns there
+  totalKm: number;
+  finish: string; // Estimated time the last visit ends, or the return arrives, "HH:MM"
+  skipped: number; // Selected leads left out because they have no coordinates
 }